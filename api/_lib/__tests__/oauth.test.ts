@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  percentEncode,
+  generateNonce,
+  signatureBaseString,
+  hmacSha1Signature,
+  buildOAuthHeader,
+  parseFormEncoded,
+} from '../oauth'
+
+// The worked example from the OAuth 1.0 specification (Appendix A)
+const example = {
+  method: 'GET',
+  url: 'http://photos.example.net/photos?file=vacation.jpg&size=original',
+  consumerKey: 'dpf43f3p2l4k3l03',
+  consumerSecret: 'kd94hf93k423kf44',
+  token: 'nnch734d00sl2jdk',
+  tokenSecret: 'pfkkdhi9sl3r4s00',
+  nonce: 'kllo9940pd9333jh',
+  timestamp: 1191242096,
+}
+
+describe('oauth', () => {
+  describe('percentEncode', () => {
+    it('should encode reserved characters RFC 3986 style', () => {
+      expect(percentEncode('a b&c=d')).toBe('a%20b%26c%3Dd')
+      expect(percentEncode("it's (ok)!*")).toBe('it%27s%20%28ok%29%21%2A')
+      expect(percentEncode('safe-._~')).toBe('safe-._~')
+    })
+  })
+
+  describe('generateNonce', () => {
+    it('should generate hex nonces of the requested length', () => {
+      const nonce = generateNonce(16)
+      expect(nonce).toMatch(/^[0-9a-f]{16}$/)
+      expect(generateNonce(16)).not.toBe(nonce)
+    })
+  })
+
+  describe('signatureBaseString', () => {
+    it('should include the query parameters sorted with the OAuth ones', () => {
+      expect(
+        signatureBaseString('get', 'HTTP://Example.com:80/a?b=2&a=1', { oauth_nonce: 'n' })
+      ).toBe('GET&http%3A%2F%2Fexample.com%2Fa&a%3D1%26b%3D2%26oauth_nonce%3Dn')
+    })
+
+    it('should sort by name before value', () => {
+      expect(signatureBaseString('GET', 'https://api.test/?a1=x&a=z', {})).toBe(
+        'GET&https%3A%2F%2Fapi.test%2F&a%3Dz%26a1%3Dx'
+      )
+    })
+  })
+
+  describe('hmacSha1Signature', () => {
+    it('should key the signature with both secrets', () => {
+      expect(hmacSha1Signature('base', 'consumer', 'token')).not.toBe(
+        hmacSha1Signature('base', 'consumer')
+      )
+    })
+  })
+
+  describe('buildOAuthHeader', () => {
+    it('should sign the specification example', () => {
+      expect(buildOAuthHeader(example)).toBe(
+        'OAuth oauth_consumer_key="dpf43f3p2l4k3l03", oauth_nonce="kllo9940pd9333jh", ' +
+          'oauth_signature="tR3%2BTy81lMeYAr%2FFid0kMTYa%2FWM%3D", ' +
+          'oauth_signature_method="HMAC-SHA1", oauth_timestamp="1191242096", ' +
+          'oauth_token="nnch734d00sl2jdk", oauth_version="1.0"'
+      )
+    })
+
+    it('should include the callback and verifier when given', () => {
+      const header = buildOAuthHeader({
+        method: 'POST',
+        url: 'https://api.discogs.com/oauth/access_token',
+        consumerKey: 'key',
+        consumerSecret: 'secret',
+        token: 'tok',
+        tokenSecret: 'toksecret',
+        callback: 'http://localhost:5173/',
+        verifier: 'ver',
+      })
+
+      expect(header).toContain('oauth_callback="http%3A%2F%2Flocalhost%3A5173%2F"')
+      expect(header).toContain('oauth_verifier="ver"')
+      expect(header).not.toContain('toksecret')
+    })
+  })
+
+  describe('parseFormEncoded', () => {
+    it('should parse token endpoint responses', () => {
+      expect(
+        parseFormEncoded('oauth_token=abc&oauth_token_secret=def&oauth_callback_confirmed=true\n')
+      ).toEqual({
+        oauth_token: 'abc',
+        oauth_token_secret: 'def',
+        oauth_callback_confirmed: 'true',
+      })
+    })
+  })
+})
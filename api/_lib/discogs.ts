@@ -0,0 +1,202 @@
+// Shared pieces of the Discogs server functions: configuration, the signed-in user,
+// the stored OAuth credentials and signed requests to the Discogs API.
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js'
+import { buildOAuthHeader } from './oauth'
+
+// A row of discogs_credentials. Only the service role can read these, never the browser.
+export interface StoredDiscogsCredentials {
+  user_id: string
+  username: string | null
+  access_token: string | null
+  access_token_secret: string | null
+  request_token: string | null // Pending authorization, until Discogs redirects back
+  request_token_secret: string | null
+}
+
+export interface DiscogsToken {
+  token: string
+  tokenSecret: string
+}
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+const config = {
+  baseURL: process.env.DISCOGS_API_BASE_URL || 'https://api.discogs.com',
+  userAgent: process.env.DISCOGS_USER_AGENT || 'AnalogVibesApp/1.0',
+  consumerKey: process.env.DISCOGS_CONSUMER_KEY || '',
+  consumerSecret: process.env.DISCOGS_CONSUMER_SECRET || '',
+}
+
+let adminClient: SupabaseClient | null = null
+
+/**
+ * Supabase client with the service role key, which bypasses RLS
+ */
+function getAdminClient(): SupabaseClient {
+  if (!adminClient) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!url || !serviceRoleKey) {
+      throw new HttpError(503, 'Supabase is not configured on the server')
+    }
+    adminClient = createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+  }
+  return adminClient
+}
+
+export function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Run a handler, turning thrown errors into JSON error responses. Unexpected errors (Supabase,
+ * network) come back as 500s carrying their message.
+ */
+export async function handleErrors(handler: () => Promise<Response>): Promise<Response> {
+  try {
+    return await handler()
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return json({ error: error.message }, error.status)
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return json({ error: `Unexpected server error: ${message}` }, 500)
+  }
+}
+
+/**
+ * The signed-in user, from the Supabase access token in the Authorization header
+ */
+export async function requireUser(request: Request): Promise<User> {
+  const sessionToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!sessionToken) {
+    throw new HttpError(401, 'Sign in to connect Discogs')
+  }
+
+  const { data, error } = await getAdminClient().auth.getUser(sessionToken)
+  if (error || !data.user) {
+    throw new HttpError(401, 'Your session has expired. Please sign in again.')
+  }
+  return data.user
+}
+
+export async function getStoredCredentials(
+  userId: string
+): Promise<StoredDiscogsCredentials | null> {
+  const { data, error } = await getAdminClient()
+    .from('discogs_credentials')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  return data
+}
+
+export async function saveStoredCredentials(
+  credentials: Partial<StoredDiscogsCredentials> & { user_id: string }
+): Promise<void> {
+  const { error } = await getAdminClient()
+    .from('discogs_credentials')
+    .upsert({ ...credentials, updated_at: new Date().toISOString() })
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function deleteStoredCredentials(userId: string): Promise<void> {
+  const { error } = await getAdminClient()
+    .from('discogs_credentials')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Keep the (non-secret) Discogs username on the profile, where the app reads it
+ */
+export async function setProfileUsername(userId: string, username: string | null): Promise<void> {
+  const { error } = await getAdminClient()
+    .from('profiles')
+    .update({ discogs_username: username, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * The access token of the user's connected Discogs account
+ */
+export async function requireAccessToken(userId: string): Promise<DiscogsToken> {
+  const stored = await getStoredCredentials(userId)
+  if (!stored?.access_token || !stored.access_token_secret) {
+    throw new HttpError(401, 'Connect your Discogs account first')
+  }
+  return { token: stored.access_token, tokenSecret: stored.access_token_secret }
+}
+
+export interface DiscogsRequestOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: BodyInit | null
+  token?: DiscogsToken // Sign as this user; without one the app's own key is used
+  callback?: string
+  verifier?: string
+}
+
+/**
+ * Make a request to the Discogs API, signed with HMAC-SHA1 when acting for a user or during
+ * authorization, otherwise authenticated with the consumer key (public data only)
+ */
+export async function discogsFetch(
+  pathAndQuery: string,
+  options: DiscogsRequestOptions = {}
+): Promise<Response> {
+  if (!config.consumerKey || !config.consumerSecret) {
+    throw new HttpError(503, 'Discogs is not configured on the server')
+  }
+
+  const method = options.method || 'GET'
+  const url = `${config.baseURL}${pathAndQuery}`
+  const signed = options.token || options.callback || options.verifier
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...options.headers,
+      'User-Agent': config.userAgent,
+      Authorization: signed
+        ? buildOAuthHeader({
+            method,
+            url,
+            consumerKey: config.consumerKey,
+            consumerSecret: config.consumerSecret,
+            token: options.token?.token,
+            tokenSecret: options.token?.tokenSecret,
+            callback: options.callback,
+            verifier: options.verifier,
+          })
+        : `Discogs key=${config.consumerKey}, secret=${config.consumerSecret}`,
+    },
+    body: options.body,
+  })
+}
@@ -0,0 +1,122 @@
+// OAuth 1.0a helpers (HMAC-SHA1 signatures). Server-side only: signing needs the consumer secret.
+import { createHmac, randomBytes } from 'node:crypto'
+
+/**
+ * Percent-encode a value as required by RFC 5849 (RFC 3986 unreserved characters only)
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Random nonce for a single signed request
+ */
+export function generateNonce(length: number = 32): string {
+  return randomBytes(Math.ceil(length / 2))
+    .toString('hex')
+    .slice(0, length)
+}
+
+const compare = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+/**
+ * Signature base string: the method, the URL without its query and every parameter
+ * (OAuth and query string) encoded and sorted
+ */
+export function signatureBaseString(
+  method: string,
+  url: string,
+  oauthParams: Record<string, string>
+): string {
+  const { origin, pathname, searchParams } = new URL(url)
+
+  const pairs = Object.entries(oauthParams)
+  searchParams.forEach((value, key) => pairs.push([key, value]))
+
+  // Sorted by name, then by value for repeated names
+  const normalized = pairs
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([a, aValue], [b, bValue]) => compare(a, b) || compare(aValue, bValue))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+  return [
+    method.toUpperCase(),
+    percentEncode(`${origin}${pathname}`),
+    percentEncode(normalized),
+  ].join('&')
+}
+
+/**
+ * HMAC-SHA1 signature of a base string, keyed with the consumer secret and token secret
+ */
+export function hmacSha1Signature(
+  baseString: string,
+  consumerSecret: string,
+  tokenSecret: string = ''
+): string {
+  return createHmac('sha1', `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret)}`)
+    .update(baseString)
+    .digest('base64')
+}
+
+export interface OAuthHeaderParams {
+  method: string
+  url: string // Including the query string, which is part of the signature
+  consumerKey: string
+  consumerSecret: string
+  token?: string
+  tokenSecret?: string
+  callback?: string
+  verifier?: string
+  nonce?: string
+  timestamp?: number // Seconds since the epoch
+}
+
+/**
+ * Build a signed OAuth 1.0a Authorization header value for one request
+ */
+export function buildOAuthHeader(params: OAuthHeaderParams): string {
+  const fields: Record<string, string> = {
+    oauth_consumer_key: params.consumerKey,
+    oauth_nonce: params.nonce || generateNonce(),
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: (params.timestamp ?? Math.floor(Date.now() / 1000)).toString(),
+    oauth_version: '1.0',
+  }
+  if (params.token) {
+    fields.oauth_token = params.token
+  }
+  if (params.callback) {
+    fields.oauth_callback = params.callback
+  }
+  if (params.verifier) {
+    fields.oauth_verifier = params.verifier
+  }
+
+  fields.oauth_signature = hmacSha1Signature(
+    signatureBaseString(params.method, params.url, fields),
+    params.consumerSecret,
+    params.tokenSecret
+  )
+
+  const pairs = Object.keys(fields)
+    .sort()
+    .map(key => `${key}="${percentEncode(fields[key])}"`)
+
+  return `OAuth ${pairs.join(', ')}`
+}
+
+/**
+ * Parse an application/x-www-form-urlencoded response body (token endpoints reply with these)
+ */
+export function parseFormEncoded(body: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  new URLSearchParams(body.trim()).forEach((value, key) => {
+    result[key] = value
+  })
+  return result
+}
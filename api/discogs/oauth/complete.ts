@@ -0,0 +1,67 @@
+import {
+  discogsFetch,
+  getStoredCredentials,
+  handleErrors,
+  HttpError,
+  json,
+  requireUser,
+  saveStoredCredentials,
+  setProfileUsername,
+} from '../../_lib/discogs'
+import { parseFormEncoded } from '../../_lib/oauth'
+
+/**
+ * Step 2 of connecting Discogs: exchange the authorized request token for an access token.
+ * The token and its secret are kept server-side; only the username goes on the profile.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return handleErrors(async () => {
+    const user = await requireUser(request)
+    const { oauthToken, oauthVerifier } = (await request.json()) as {
+      oauthToken?: string
+      oauthVerifier?: string
+    }
+
+    const stored = await getStoredCredentials(user.id)
+    if (!oauthToken || !oauthVerifier || !stored?.request_token_secret) {
+      throw new HttpError(400, 'Discogs authorization expired. Please try again.')
+    }
+    if (stored.request_token !== oauthToken) {
+      throw new HttpError(400, 'Discogs authorization was started elsewhere. Please try again.')
+    }
+
+    const response = await discogsFetch('/oauth/access_token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      token: { token: oauthToken, tokenSecret: stored.request_token_secret },
+      verifier: oauthVerifier,
+    })
+    if (!response.ok) {
+      throw new HttpError(502, `Discogs refused the access token (${response.status})`)
+    }
+
+    const { oauth_token, oauth_token_secret } = parseFormEncoded(await response.text())
+    if (!oauth_token || !oauth_token_secret) {
+      throw new HttpError(502, 'Discogs did not return an access token')
+    }
+
+    const token = { token: oauth_token, tokenSecret: oauth_token_secret }
+    const identity = await discogsFetch('/oauth/identity', { token })
+    if (!identity.ok) {
+      throw new HttpError(502, `Could not look up the Discogs account (${identity.status})`)
+    }
+    const { username } = (await identity.json()) as { username: string }
+
+    await saveStoredCredentials({
+      user_id: user.id,
+      username,
+      access_token: oauth_token,
+      access_token_secret: oauth_token_secret,
+      request_token: null,
+      request_token_secret: null,
+    })
+    await setProfileUsername(user.id, username)
+
+    return json({ username })
+  })
+}
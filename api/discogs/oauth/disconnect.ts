@@ -0,0 +1,20 @@
+import {
+  deleteStoredCredentials,
+  handleErrors,
+  requireUser,
+  setProfileUsername,
+} from '../../_lib/discogs'
+
+/**
+ * Forget the user's Discogs tokens. The authorization itself can be revoked on discogs.com.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return handleErrors(async () => {
+    const user = await requireUser(request)
+
+    await deleteStoredCredentials(user.id)
+    await setProfileUsername(user.id, null)
+
+    return new Response(null, { status: 204 })
+  })
+}
@@ -0,0 +1,45 @@
+import {
+  discogsFetch,
+  handleErrors,
+  HttpError,
+  json,
+  requireUser,
+  saveStoredCredentials,
+} from '../../_lib/discogs'
+import { parseFormEncoded } from '../../_lib/oauth'
+
+const AUTHORIZE_URL = 'https://www.discogs.com/oauth/authorize'
+
+/**
+ * Step 1 of connecting Discogs: get a request token and send back the discogs.com URL the user
+ * should authorize it at. The request token secret stays in discogs_credentials.
+ */
+export async function POST(request: Request): Promise<Response> {
+  return handleErrors(async () => {
+    const user = await requireUser(request)
+    const { callbackUrl } = (await request.json()) as { callbackUrl?: string }
+
+    // Only send users back to this app
+    if (!callbackUrl || new URL(callbackUrl).origin !== new URL(request.url).origin) {
+      throw new HttpError(400, 'Invalid callback URL')
+    }
+
+    const response = await discogsFetch('/oauth/request_token', { callback: callbackUrl })
+    if (!response.ok) {
+      throw new HttpError(502, `Discogs refused the request token (${response.status})`)
+    }
+
+    const { oauth_token, oauth_token_secret } = parseFormEncoded(await response.text())
+    if (!oauth_token || !oauth_token_secret) {
+      throw new HttpError(502, 'Discogs did not return a request token')
+    }
+
+    await saveStoredCredentials({
+      user_id: user.id,
+      request_token: oauth_token,
+      request_token_secret: oauth_token_secret,
+    })
+
+    return json({ authorizeUrl: `${AUTHORIZE_URL}?oauth_token=${encodeURIComponent(oauth_token)}` })
+  })
+}
@@ -0,0 +1,82 @@
+import {
+  discogsFetch,
+  DiscogsToken,
+  handleErrors,
+  HttpError,
+  requireAccessToken,
+  requireUser,
+} from '../_lib/discogs'
+
+// Headers the app's DiscogsService relies on: conditional requests and rate limiting
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'if-none-match', 'if-modified-since']
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'etag',
+  'last-modified',
+  'retry-after',
+  'x-discogs-ratelimit',
+  'x-discogs-ratelimit-used',
+  'x-discogs-ratelimit-remaining',
+]
+
+// API paths only: no scheme, host or parent segments
+const API_PATH = /^[A-Za-z0-9_\-./]+$/
+
+/**
+ * Forward a Discogs API request, signed with the signed-in user's stored OAuth token.
+ * /api/discogs/proxy/<path> is rewritten to /api/discogs/proxy?path=<path> (see vercel.json).
+ * Without a session only reads are allowed, using the app's own key.
+ */
+async function proxy(request: Request): Promise<Response> {
+  return handleErrors(async () => {
+    const url = new URL(request.url)
+    const path = `/${url.searchParams.get('path') || ''}`.replace(/^\/+/, '/')
+    url.searchParams.delete('path')
+
+    if (path === '/' || !API_PATH.test(path) || path.split('/').includes('..')) {
+      throw new HttpError(400, 'Invalid Discogs API path')
+    }
+    if (path.startsWith('/oauth/')) {
+      throw new HttpError(403, 'OAuth endpoints are not available through the proxy')
+    }
+
+    let token: DiscogsToken | undefined
+    if (request.headers.has('authorization')) {
+      const user = await requireUser(request)
+      token = await requireAccessToken(user.id)
+    } else if (request.method !== 'GET') {
+      throw new HttpError(401, 'Connect your Discogs account to make changes')
+    }
+
+    const headers: Record<string, string> = {}
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+      const value = request.headers.get(name)
+      if (value) {
+        headers[name] = value
+      }
+    })
+
+    const response = await discogsFetch(`${path}${url.search}`, {
+      method: request.method,
+      headers,
+      body: request.method === 'GET' || request.method === 'HEAD' ? null : await request.text(),
+      token,
+    })
+
+    const responseHeaders = new Headers()
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = response.headers.get(name)
+      if (value) {
+        responseHeaders.set(name, value)
+      }
+    })
+
+    const hasBody = response.status !== 204 && response.status !== 304
+    return new Response(hasBody ? await response.arrayBuffer() : null, {
+      status: response.status,
+      headers: responseHeaders,
+    })
+  })
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as DELETE }
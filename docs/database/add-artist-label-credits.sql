@@ -0,0 +1,79 @@
+-- Store individual artist and label credits (with join phrases and roles)
+-- Run this in your Supabase SQL Editor (after add-pressing-details.sql)
+
+-- ============================================================================
+-- PUBLIC COLLECTION (vinyl_collection, vinyl_wantlist)
+-- ============================================================================
+-- artist/label keep the display credit and first label; these hold the full credits
+ALTER TABLE vinyl_collection
+ADD COLUMN IF NOT EXISTS artists JSONB DEFAULT '[]', -- [{ name, id, creditedName, join, role }]
+ADD COLUMN IF NOT EXISTS labels JSONB DEFAULT '[]'; -- [{ name, id, catalogNumber, role }]
+
+-- Skip if you haven't run add-wantlist.sql
+ALTER TABLE vinyl_wantlist
+ADD COLUMN IF NOT EXISTS artists JSONB DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS labels JSONB DEFAULT '[]';
+
+-- ============================================================================
+-- USER COLLECTIONS (authenticated schema)
+-- ============================================================================
+-- vinyl_releases already has labels; only artists are new.
+-- Skip this section if you only use public-schema.sql.
+ALTER TABLE vinyl_releases
+ADD COLUMN IF NOT EXISTS artists JSONB DEFAULT '[]';
+
+-- New columns are appended so the existing view can be replaced in place
+CREATE OR REPLACE VIEW user_collection_complete AS
+SELECT
+  uc.id as collection_id,
+  uc.user_id,
+  uc.date_added,
+  uc.date_acquired,
+  uc.condition,
+  uc.media_condition,
+  uc.sleeve_condition,
+  uc.personal_notes,
+  uc.play_count,
+  uc.last_played,
+  uc.rating,
+  uc.is_favorite,
+  uc.purchase_price,
+  uc.purchase_currency,
+  uc.purchase_location,
+
+  -- Vinyl release data
+  vr.id as vinyl_release_id,
+  vr.title,
+  vr.artist,
+  vr.release_date,
+  vr.labels,
+  vr.catalog_number,
+  vr.cover_url,
+  vr.tracks,
+  vr.formats,
+  vr.country,
+
+  -- Master release data
+  mr.id as master_id,
+  mr.year as original_year,
+  mr.genres,
+  mr.styles,
+  mr.description,
+  mr.producer,
+  mr.recording_date,
+
+  -- Discogs collection folder and custom fields
+  uc.folder,
+  uc.custom_fields,
+  uc.discogs_instance_id,
+
+  -- Pressing identifiers (barcode, matrix/runout...)
+  vr.identifiers,
+
+  -- Individual artists behind the display credit
+  vr.artists
+
+FROM user_collections uc
+LEFT JOIN vinyl_releases vr ON uc.vinyl_release_id = vr.id
+LEFT JOIN master_releases mr ON uc.master_release_id = mr.id
+ORDER BY uc.date_added DESC;
@@ -0,0 +1,81 @@
+-- Store Discogs collection folders and custom fields (conditions, notes)
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- PUBLIC COLLECTION (vinyl_collection)
+-- ============================================================================
+ALTER TABLE vinyl_collection
+ADD COLUMN IF NOT EXISTS folder TEXT,
+ADD COLUMN IF NOT EXISTS media_condition TEXT,
+ADD COLUMN IF NOT EXISTS sleeve_condition TEXT,
+ADD COLUMN IF NOT EXISTS collection_notes TEXT,
+ADD COLUMN IF NOT EXISTS custom_fields JSONB DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_vinyl_collection_folder ON vinyl_collection(folder);
+
+-- ============================================================================
+-- USER COLLECTIONS (authenticated schema)
+-- ============================================================================
+-- Conditions map onto the existing media_condition/sleeve_condition columns and
+-- the Notes field onto personal_notes; only the folder and other fields are new.
+-- Skip this section if you only use public-schema.sql.
+ALTER TABLE user_collections
+ADD COLUMN IF NOT EXISTS folder TEXT,
+ADD COLUMN IF NOT EXISTS custom_fields JSONB DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_user_collections_folder ON user_collections(folder);
+
+-- New columns are appended so the existing view can be replaced in place
+CREATE OR REPLACE VIEW user_collection_complete AS
+SELECT
+  uc.id as collection_id,
+  uc.user_id,
+  uc.date_added,
+  uc.date_acquired,
+  uc.condition,
+  uc.media_condition,
+  uc.sleeve_condition,
+  uc.personal_notes,
+  uc.play_count,
+  uc.last_played,
+  uc.rating,
+  uc.is_favorite,
+  uc.purchase_price,
+  uc.purchase_currency,
+  uc.purchase_location,
+
+  -- Vinyl release data
+  vr.id as vinyl_release_id,
+  vr.title,
+  vr.artist,
+  vr.release_date,
+  vr.labels,
+  vr.catalog_number,
+  vr.cover_url,
+  vr.tracks,
+  vr.formats,
+  vr.country,
+
+  -- Master release data
+  mr.id as master_id,
+  mr.year as original_year,
+  mr.genres,
+  mr.styles,
+  mr.description,
+  mr.producer,
+  mr.recording_date,
+
+  -- Discogs collection folder and custom fields
+  uc.folder,
+  uc.custom_fields
+
+FROM user_collections uc
+LEFT JOIN vinyl_releases vr ON uc.vinyl_release_id = vr.id
+LEFT JOIN master_releases mr ON uc.master_release_id = mr.id
+ORDER BY uc.date_added DESC;
+
+-- Verification query - records per folder
+SELECT folder, COUNT(*) AS records
+FROM vinyl_collection
+GROUP BY folder
+ORDER BY folder;
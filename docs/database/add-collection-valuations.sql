@@ -0,0 +1,32 @@
+-- Collection valuation snapshots
+-- Run this in your Supabase SQL Editor
+
+-- Each snapshot records what the collection was worth on a given day, based on Discogs
+-- marketplace price suggestions. The per-record values are kept so a snapshot can be
+-- printed or exported for insurance.
+CREATE TABLE IF NOT EXISTS collection_valuations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  taken_at TIMESTAMPTZ DEFAULT NOW(),
+  currency TEXT,
+  total_value DECIMAL(12,2) DEFAULT 0,
+  median_value DECIMAL(10,2) DEFAULT 0,
+  records_valued INTEGER DEFAULT 0,
+  records_unpriced INTEGER DEFAULT 0,
+  items JSONB DEFAULT '[]', -- [{ release_id, title, artist, value }]
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_valuations_user_taken
+  ON collection_valuations(user_id, taken_at DESC);
+
+ALTER TABLE collection_valuations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own valuations" ON collection_valuations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own valuations" ON collection_valuations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own valuations" ON collection_valuations
+  FOR DELETE USING (auth.uid() = user_id);
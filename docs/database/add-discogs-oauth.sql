@@ -0,0 +1,45 @@
+-- Keep per-user Discogs OAuth credentials out of reach of the browser
+-- Run this in your Supabase SQL Editor
+
+-- Only the server functions (api/discogs/) read and write this table, with the service role key
+CREATE TABLE IF NOT EXISTS discogs_credentials (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  username TEXT,
+  access_token TEXT,
+  access_token_secret TEXT,
+  request_token TEXT, -- Pending authorization, until Discogs redirects back
+  request_token_secret TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- RLS with no policies: anon and authenticated clients can't see a single row
+ALTER TABLE discogs_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Earlier versions kept the tokens on profiles, which their owner can read from the browser.
+-- Move any OAuth tokens across, then drop those columns.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'discogs_token_secret'
+  ) THEN
+    INSERT INTO discogs_credentials (user_id, username, access_token, access_token_secret)
+    SELECT id, discogs_username, discogs_token, discogs_token_secret
+    FROM profiles
+    WHERE discogs_token IS NOT NULL AND discogs_token_secret IS NOT NULL
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+END $$;
+
+ALTER TABLE profiles
+DROP COLUMN IF EXISTS discogs_token_secret,
+DROP COLUMN IF EXISTS discogs_token;
+
+-- Verification query - check which users have connected Discogs
+SELECT
+  p.id,
+  p.discogs_username,
+  c.access_token IS NOT NULL AS discogs_connected
+FROM profiles p
+LEFT JOIN discogs_credentials c ON c.user_id = p.id;
@@ -0,0 +1,53 @@
+-- Expose the Discogs collection instance on user_collection_complete
+-- Run this in your Supabase SQL Editor (after add-collection-folders.sql)
+
+-- Edits pushed back to Discogs target a specific collection instance. Without it the
+-- first instance of the release is used, which is only ambiguous for duplicate copies.
+CREATE OR REPLACE VIEW user_collection_complete AS
+SELECT
+  uc.id as collection_id,
+  uc.user_id,
+  uc.date_added,
+  uc.date_acquired,
+  uc.condition,
+  uc.media_condition,
+  uc.sleeve_condition,
+  uc.personal_notes,
+  uc.play_count,
+  uc.last_played,
+  uc.rating,
+  uc.is_favorite,
+  uc.purchase_price,
+  uc.purchase_currency,
+  uc.purchase_location,
+
+  -- Vinyl release data
+  vr.id as vinyl_release_id,
+  vr.title,
+  vr.artist,
+  vr.release_date,
+  vr.labels,
+  vr.catalog_number,
+  vr.cover_url,
+  vr.tracks,
+  vr.formats,
+  vr.country,
+
+  -- Master release data
+  mr.id as master_id,
+  mr.year as original_year,
+  mr.genres,
+  mr.styles,
+  mr.description,
+  mr.producer,
+  mr.recording_date,
+
+  -- Discogs collection folder and custom fields
+  uc.folder,
+  uc.custom_fields,
+  uc.discogs_instance_id
+
+FROM user_collections uc
+LEFT JOIN vinyl_releases vr ON uc.vinyl_release_id = vr.id
+LEFT JOIN master_releases mr ON uc.master_release_id = mr.id
+ORDER BY uc.date_added DESC;
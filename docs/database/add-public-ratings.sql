@@ -0,0 +1,18 @@
+-- Store Discogs collection ratings (1-5) so the public collection can sort and search by them
+-- Run this in your Supabase SQL Editor (after add-styles.sql)
+
+-- ============================================================================
+-- PUBLIC COLLECTION (vinyl_collection, vinyl_wantlist)
+-- ============================================================================
+ALTER TABLE vinyl_collection
+ADD COLUMN IF NOT EXISTS rating INTEGER CHECK (rating >= 1 AND rating <= 5);
+
+-- Skip if you haven't run add-wantlist.sql
+ALTER TABLE vinyl_wantlist
+ADD COLUMN IF NOT EXISTS rating INTEGER CHECK (rating >= 1 AND rating <= 5);
+
+-- ============================================================================
+-- USER COLLECTIONS (authenticated schema)
+-- ============================================================================
+-- user_collections.rating already exists and user_collection_complete already
+-- exposes uc.rating; nothing to change. Play counts are only tracked there.
@@ -0,0 +1,18 @@
+-- Store Discogs styles ("Hard Bop", "Modal", "Deep House") next to genres
+-- Run this in your Supabase SQL Editor (after add-personnel.sql)
+
+-- ============================================================================
+-- PUBLIC COLLECTION (vinyl_collection, vinyl_wantlist)
+-- ============================================================================
+ALTER TABLE vinyl_collection
+ADD COLUMN IF NOT EXISTS styles JSONB DEFAULT '[]';
+
+-- Skip if you haven't run add-wantlist.sql
+ALTER TABLE vinyl_wantlist
+ADD COLUMN IF NOT EXISTS styles JSONB DEFAULT '[]';
+
+-- ============================================================================
+-- USER COLLECTIONS (authenticated schema)
+-- ============================================================================
+-- master_releases.styles and vinyl_releases.styles already exist and
+-- user_collection_complete already exposes mr.styles; nothing to change.
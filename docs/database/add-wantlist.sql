@@ -0,0 +1,57 @@
+-- Add a public wantlist alongside the vinyl collection
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- VINYL WANTLIST TABLE (same shape as vinyl_collection)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS vinyl_wantlist (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  year TEXT,
+  label TEXT,
+  genres JSONB DEFAULT '[]', -- Array of genre strings
+  catalog_number TEXT,
+  cover_url TEXT,
+  description TEXT,
+  producer TEXT,
+  recording_date TEXT,
+  release_date TEXT,
+  tracks JSONB DEFAULT '[]', -- Array of track objects
+
+  -- Master release data (from Discogs)
+  master_id TEXT,
+  discogs_release_id TEXT,
+  discogs_master_id TEXT,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_vinyl_wantlist_artist ON vinyl_wantlist(artist);
+CREATE INDEX IF NOT EXISTS idx_vinyl_wantlist_year ON vinyl_wantlist(year);
+CREATE INDEX IF NOT EXISTS idx_vinyl_wantlist_genres ON vinyl_wantlist USING GIN (genres);
+
+-- Reuse the updated_at trigger function from public-schema.sql
+CREATE TRIGGER update_vinyl_wantlist_updated_at
+  BEFORE UPDATE ON vinyl_wantlist
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- PUBLIC ACCESS POLICIES
+-- ============================================================================
+ALTER TABLE vinyl_wantlist ENABLE ROW LEVEL SECURITY;
+
+-- Public read access (anyone can view the wantlist)
+CREATE POLICY "Public can view vinyl wantlist" ON vinyl_wantlist
+  FOR SELECT TO anon USING (true);
+
+-- Only the service role can write
+CREATE POLICY "Service role can manage wantlist" ON vinyl_wantlist
+  FOR ALL TO service_role USING (true);
+
+-- Verification query
+SELECT COUNT(*) AS wanted_records FROM vinyl_wantlist;
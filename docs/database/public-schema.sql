@@ -11,6 +11,7 @@ CREATE TABLE IF NOT EXISTS vinyl_collection (
   year TEXT,
   label TEXT,
   genre TEXT,
+  styles JSONB DEFAULT '[]', -- Discogs styles ("Hard Bop", "Modal"), finer than genres
   catalog_number TEXT,
   cover_url TEXT,
   description TEXT,
@@ -18,11 +19,29 @@ CREATE TABLE IF NOT EXISTS vinyl_collection (
   recording_date TEXT,
   release_date TEXT,
   tracks JSONB DEFAULT '[]', -- Array of track objects
+
+  -- Pressing details (from Discogs)
+  formats JSONB DEFAULT '[]', -- [{ name, quantity, descriptions, text }]
+  country TEXT,
+  identifiers JSONB DEFAULT '[]', -- [{ type, value, description }]
+
+  -- Full credits (artist/label above keep the display credit and first label)
+  artists JSONB DEFAULT '[]', -- [{ name, id, creditedName, join, role }]
+  labels JSONB DEFAULT '[]', -- [{ name, id, catalogNumber, role }]
+  personnel JSONB DEFAULT '[]', -- [{ name, id, creditedName, role, tracks }]
   
   -- Master release data (from Discogs)
   master_id TEXT,
   discogs_release_id TEXT,
   discogs_master_id TEXT,
+
+  -- Discogs collection folder and custom fields
+  folder TEXT,
+  media_condition TEXT,
+  sleeve_condition TEXT,
+  collection_notes TEXT,
+  custom_fields JSONB DEFAULT '{}',
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5), -- Discogs collection rating
   
   -- Metadata
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -34,6 +53,7 @@ CREATE INDEX IF NOT EXISTS idx_vinyl_collection_artist ON vinyl_collection(artis
 CREATE INDEX IF NOT EXISTS idx_vinyl_collection_year ON vinyl_collection(year);
 CREATE INDEX IF NOT EXISTS idx_vinyl_collection_genre ON vinyl_collection(genre);
 CREATE INDEX IF NOT EXISTS idx_vinyl_collection_label ON vinyl_collection(label);
+CREATE INDEX IF NOT EXISTS idx_vinyl_collection_country ON vinyl_collection(country);
 
 -- ============================================================================
 -- SYNC METADATA TABLE (Track Discogs syncs)
@@ -8,6 +8,7 @@ ALTER TABLE IF EXISTS master_releases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS vinyl_releases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS user_collections ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS collection_sync_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS collection_valuations ENABLE ROW LEVEL SECURITY;
 
 -- ============================================================================
 -- USER PROFILES TABLE
@@ -16,8 +17,7 @@ CREATE TABLE IF NOT EXISTS profiles (
   id UUID REFERENCES auth.users(id) PRIMARY KEY,
   username TEXT UNIQUE,
   full_name TEXT,
-  discogs_username TEXT,
-  discogs_token TEXT, -- Encrypted by Supabase
+  discogs_username TEXT, -- Set by the server functions once Discogs is connected
   preferences JSONB DEFAULT '{}', -- User settings, theme, etc.
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -33,6 +33,23 @@ CREATE POLICY "Users can update own profile" ON profiles
 CREATE POLICY "Users can insert own profile" ON profiles
   FOR INSERT WITH CHECK (auth.uid() = id);
 
+-- ============================================================================
+-- DISCOGS CREDENTIALS TABLE (OAuth tokens, server functions only)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS discogs_credentials (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  username TEXT,
+  access_token TEXT,
+  access_token_secret TEXT,
+  request_token TEXT, -- Pending authorization, until Discogs redirects back
+  request_token_secret TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: only the service role can read or write these rows
+ALTER TABLE discogs_credentials ENABLE ROW LEVEL SECURITY;
+
 -- ============================================================================
 -- MASTER RELEASES TABLE (Original Album Information)
 -- ============================================================================
@@ -85,11 +102,13 @@ CREATE TABLE IF NOT EXISTS vinyl_releases (
   tracks JSONB DEFAULT '[]', -- Array of track objects
   formats JSONB DEFAULT '[]', -- Vinyl format info (LP, 180g, etc.)
   country TEXT,
+  identifiers JSONB DEFAULT '[]', -- Barcode, matrix/runout, rights society...
+  artists JSONB DEFAULT '[]', -- Individual artists with join phrases
   notes TEXT,
   genres TEXT[],
   styles TEXT[],
   discogs_url TEXT,
-  extra_artists JSONB DEFAULT '[]',
+  extra_artists JSONB DEFAULT '[]', -- Personnel: [{ name, id, creditedName, role, tracks }]
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -137,6 +156,10 @@ CREATE TABLE IF NOT EXISTS user_collections (
   purchase_currency TEXT DEFAULT 'USD',
   purchase_location TEXT, -- Store, online, etc.
   
+  -- Discogs collection folder and custom fields
+  folder TEXT, -- Discogs folder name, e.g. "Shelf A"
+  custom_fields JSONB DEFAULT '{}', -- Custom field values keyed by field name
+
   -- Metadata
   discogs_instance_id TEXT, -- Specific instance in user's Discogs collection
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -152,6 +175,7 @@ CREATE INDEX IF NOT EXISTS idx_user_collections_vinyl_release_id ON user_collect
 CREATE INDEX IF NOT EXISTS idx_user_collections_date_added ON user_collections(date_added);
 CREATE INDEX IF NOT EXISTS idx_user_collections_is_favorite ON user_collections(is_favorite);
 CREATE INDEX IF NOT EXISTS idx_user_collections_last_played ON user_collections(last_played);
+CREATE INDEX IF NOT EXISTS idx_user_collections_folder ON user_collections(folder);
 
 -- RLS Policies for user_collections
 CREATE POLICY "Users can view own collection" ON user_collections
@@ -201,6 +225,36 @@ CREATE POLICY "Users can insert own sync logs" ON collection_sync_logs
 CREATE POLICY "Users can update own sync logs" ON collection_sync_logs
   FOR UPDATE USING (auth.uid() = user_id);
 
+-- ============================================================================
+-- COLLECTION VALUATIONS TABLE (Marketplace value snapshots)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS collection_valuations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  taken_at TIMESTAMPTZ DEFAULT NOW(),
+  currency TEXT,
+  total_value DECIMAL(12,2) DEFAULT 0,
+  median_value DECIMAL(10,2) DEFAULT 0,
+  records_valued INTEGER DEFAULT 0,
+  records_unpriced INTEGER DEFAULT 0,
+  items JSONB DEFAULT '[]', -- [{ release_id, title, artist, value }]
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_collection_valuations_user_taken
+  ON collection_valuations(user_id, taken_at DESC);
+
+-- RLS Policies for collection_valuations
+CREATE POLICY "Users can view own valuations" ON collection_valuations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own valuations" ON collection_valuations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own valuations" ON collection_valuations
+  FOR DELETE USING (auth.uid() = user_id);
+
 -- ============================================================================
 -- FUNCTIONS FOR AUTOMATIC TIMESTAMP UPDATES
 -- ============================================================================
@@ -267,7 +321,21 @@ SELECT
   mr.styles,
   mr.description,
   mr.producer,
-  mr.recording_date
+  mr.recording_date,
+
+  -- Discogs collection folder and custom fields
+  uc.folder,
+  uc.custom_fields,
+  uc.discogs_instance_id,
+
+  -- Pressing identifiers (barcode, matrix/runout...)
+  vr.identifiers,
+
+  -- Individual artists behind the display credit
+  vr.artists,
+
+  -- Personnel (musicians, engineers, designers...)
+  vr.extra_artists as personnel
 
 FROM user_collections uc
 LEFT JOIN vinyl_releases vr ON uc.vinyl_release_id = vr.id
@@ -1,6 +1,6 @@
-import { useState, lazy, Suspense, useEffect, useCallback } from 'react'
+import { useState, lazy, Suspense, useEffect, useCallback, useMemo } from 'react'
 import { motion } from 'framer-motion'
-import { VinylRecord } from './data/vinylRecords'
+import { VinylRecord, RecordOwnership, Track } from './data/vinylRecords'
 import { CollectionHeader } from './components/CollectionHeader'
 import { LoadingScreen } from './components/LoadingScreen'
 import { ErrorScreen } from './components/ErrorScreen'
@@ -9,25 +9,100 @@ import { ErrorBoundary } from './components/ErrorBoundary'
 import { SplashScreen } from './components/SplashScreen'
 import { VinylGrid } from './components/VinylGrid'
 import { RandomPicker } from './components/RandomPicker'
+import { AddRecordDialog } from './components/AddRecordDialog'
+import { AuthModal } from './components/auth/AuthModal'
+import { DiscogsConnect } from './components/auth/DiscogsConnect'
 import { usePublicCollection } from './hooks/usePublicCollection'
 import { useFiltering } from './hooks/useFiltering'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
 import { useCollectionStats } from './hooks/useCollectionStats'
+import { useUrlState } from './hooks/useUrlState'
+import { useSavedViews } from './hooks/useSavedViews'
+import { useDiscogsWriteBack } from './hooks/useDiscogsWriteBack'
+import { useCollectionValue } from './hooks/useCollectionValue'
+import { useAuth } from './contexts/AuthContext'
+import { parseCollectionView, serializeCollectionView } from './utils/viewState'
+import { Route, COLLECTION_ROUTE, buildPath, parseRoute } from './utils/routes'
 
 // Lazy load heavy components
 const AlbumDetailPage = lazy(() =>
   import('./components/AlbumDetailPage').then(module => ({ default: module.AlbumDetailPage }))
 )
+const PeopleIndexPage = lazy(() =>
+  import('./components/PeopleIndexPage').then(module => ({ default: module.PeopleIndexPage }))
+)
+const TrackSearchPage = lazy(() =>
+  import('./components/TrackSearchPage').then(module => ({ default: module.TrackSearchPage }))
+)
+const ArtistPage = lazy(() =>
+  import('./components/browse').then(module => ({ default: module.ArtistPage }))
+)
+const LabelPage = lazy(() =>
+  import('./components/browse').then(module => ({ default: module.LabelPage }))
+)
+const GenrePage = lazy(() =>
+  import('./components/browse').then(module => ({ default: module.GenrePage }))
+)
+const StatsPage = lazy(() =>
+  import('./components/browse').then(module => ({ default: module.StatsPage }))
+)
+const NotFoundPage = lazy(() =>
+  import('./components/browse').then(module => ({ default: module.NotFoundPage }))
+)
 
 export default function App() {
-  const [selectedRecord, setSelectedRecord] = useState<VinylRecord | null>(null)
+  // The page comes from the URL path; filters, sort and search from its query, so links and
+  // reloads keep them. Null: nothing lives at the path.
+  const [route, setRoute] = useState<Route | null>(() => parseRoute(window.location.pathname))
+  const [initialView] = useState(() => parseCollectionView(window.location.search))
+  const [selectedTrack, setSelectedTrack] = useState<Track | null>(null)
   const [showLoadingOverlay, setShowLoadingOverlay] = useState(false)
   const [showRandomPicker, setShowRandomPicker] = useState(false)
+  const [showAuthModal, setShowAuthModal] = useState(false)
+  const [showAddRecord, setShowAddRecord] = useState(false)
+  const [view, setView] = useState<RecordOwnership>(initialView.view)
+
+  // Signing in is optional: it connects a Discogs account and keeps saved views on the profile
+  const { isAuthenticated, profile, updateProfile, signOut } = useAuth()
 
   // Use the public collection hook
   const [collectionState, collectionActions] = usePublicCollection()
-  const { records, isLoading, error, syncProgress, lastSync } = collectionState
-  const { syncFromDiscogs, refreshCollection } = collectionActions
+  const {
+    records,
+    wantlist,
+    isLoading,
+    isCollectionLoaded,
+    isWantlistLoaded,
+    error,
+    syncProgress,
+    lastSync,
+    canResume,
+  } = collectionState
+  const { syncFromDiscogs, refreshCollection, addDiscogsRelease } = collectionActions
+  const ownedIds = useMemo(() => new Set(records.map(record => record.id)), [records])
+
+  // Ratings, notes and folder moves waiting to be pushed back to the connected Discogs account
+  const [writeBack, writeBackActions] = useDiscogsWriteBack(profile?.discogs_username)
+
+  // Adding records and valuing them need a connected Discogs account
+  const isDiscogsConnected = !!profile?.discogs_username
+  const [collectionValue, { refreshValuation, pauseValuation }] = useCollectionValue(
+    records,
+    isDiscogsConnected
+  )
+
+  // The grid, filters and stats all work on whichever list is being browsed
+  const visibleRecords = view === 'wanted' ? wantlist : records
+
+  // Found once the collection has loaded when the album came from the URL
+  const selectedRecordId = route?.page === 'album' ? route.id : null
+  const selectedRecord = useMemo(
+    () =>
+      selectedRecordId
+        ? [...records, ...wantlist].find(record => record.id === selectedRecordId) || null
+        : null,
+    [selectedRecordId, records, wantlist]
+  )
 
   // Handler functions
   const handleRandomPick = () => {
@@ -39,9 +114,9 @@ export default function App() {
   }
 
   // Use custom hooks for filtering and stats
-  const filtering = useFiltering({ records })
+  const filtering = useFiltering({ records: visibleRecords, initialView })
   const { collectionStats, filterStats, otherAlbumsByArtist } = useCollectionStats({
-    records,
+    records: visibleRecords,
     filteredRecords: filtering.filteredAndSortedRecords,
     filters: filtering.filters,
     selectedRecord,
@@ -53,11 +128,13 @@ export default function App() {
       if (forceRefresh && records.length > 0) {
         setShowLoadingOverlay(true)
       }
-      await syncFromDiscogs()
+      await syncFromDiscogs({ forceRefresh })
     },
     [records.length, syncFromDiscogs]
   )
 
+  const handleResumeSync = useCallback(() => syncFromDiscogs({ resume: true }), [syncFromDiscogs])
+
   // Reset loading overlay when sync completes
   useEffect(() => {
     if (!isLoading) {
@@ -65,9 +142,9 @@ export default function App() {
     }
   }, [isLoading])
 
-  // Handle keyboard shortcuts
+  // Handle keyboard shortcuts (roulette on the collection page only)
   useKeyboardShortcuts({
-    showRandomPicker,
+    showRandomPicker: showRandomPicker || route?.page !== 'collection',
     selectedRecord,
     onRandomPick: handleRandomPick,
   })
@@ -87,20 +164,70 @@ export default function App() {
   //   }
   // };
 
+  const navigate = useCallback((next: Route) => {
+    setRoute(next)
+    setSelectedTrack(null)
+  }, [])
+
   const handleRecordClick = (record: VinylRecord) => {
-    setSelectedRecord(record)
+    navigate({ page: 'album', id: record.id })
   }
 
-  const handleBackToCollection = () => {
-    setSelectedRecord(null)
+  const handleTrackClick = (record: VinylRecord, track: Track) => {
+    navigate({ page: 'album', id: record.id })
+    setSelectedTrack(track)
   }
 
+  // Links on the album and browse pages: artists, labels and genres have pages of their own,
+  // anything else returns to the collection with the filter applied
+  const { handleFilter, applyView } = filtering
+  const handleLink = useCallback(
+    (type: string, value: string) => {
+      if (type === 'artist' || type === 'label' || type === 'genre') {
+        navigate({ page: type, name: value })
+      } else {
+        handleFilter(type, value)
+        navigate(COLLECTION_ROUTE)
+      }
+    },
+    [handleFilter, navigate]
+  )
+
+  // Show what a URL describes (back/forward, saved views)
+  const handleNavigate = useCallback(
+    ({ path, query }: { path: string; query: string }) => {
+      const next = parseCollectionView(query)
+      applyView(next)
+      setView(next.view)
+      setRoute(parseRoute(path))
+      setSelectedTrack(null)
+    },
+    [applyView]
+  )
+
+  // The collection view, carried in the URL query on every page
+  const collectionQuery = serializeCollectionView({
+    searchTerm: filtering.searchTerm,
+    sortBy: filtering.sortBy,
+    filters: filtering.filters,
+    view,
+  })
+  const goBack = useUrlState(
+    route ? buildPath(route) : window.location.pathname,
+    collectionQuery,
+    handleNavigate
+  )
+  const handleBack = () => goBack(() => navigate(COLLECTION_ROUTE))
+
+  // Signed in, saved views follow the account; otherwise they stay on this device
+  const [savedViews, savedViewActions] = useSavedViews({ profile, updateProfile })
+
   // Show error screen if there's an error and no cached records
   if (error && records.length === 0) {
     return (
       <ErrorScreen
         error={error}
-        onRetry={syncFromDiscogs}
+        onRetry={() => syncFromDiscogs()}
         onClearCache={refreshCollection}
         showConfigHelp={false}
       />
@@ -126,17 +253,140 @@ export default function App() {
     )
   }
 
-  // If a record is selected, show the detail page
-  if (selectedRecord) {
+  // A linked album may be on either list, so it's only missing once both have loaded
+  if (route?.page === 'album' && !selectedRecord && !(isCollectionLoaded && isWantlistLoaded)) {
+    return <LoadingScreen progress={syncProgress} />
+  }
+
+  // Unknown path, or an album that isn't (or is no longer) in the collection
+  if (!route || (route.page === 'album' && !selectedRecord)) {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading..." />}>
+          <NotFoundPage
+            message={
+              route ? 'THIS RECORD IS NOT IN THE COLLECTION' : 'NOTHING LIVES AT THIS ADDRESS'
+            }
+            onBack={() => navigate(COLLECTION_ROUTE)}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  // Every page but the collection; going back returns to wherever the page was opened from
+  if (route.page === 'album' && selectedRecord) {
     return (
       <ErrorBoundary>
         <Suspense fallback={<SplashScreen message="Loading album details..." />}>
           <AlbumDetailPage
             record={selectedRecord}
-            onBack={handleBackToCollection}
-            onFilter={filtering.handleFilter}
+            onBack={handleBack}
+            onFilter={handleLink}
             otherAlbumsByArtist={otherAlbumsByArtist}
             onRecordClick={handleRecordClick}
+            highlightedTrack={selectedTrack}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'artist') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading artist..." />}>
+          <ArtistPage
+            records={visibleRecords}
+            name={route.name}
+            owned={records}
+            wanted={wantlist}
+            onBack={handleBack}
+            onFilter={handleLink}
+            onRecordClick={handleRecordClick}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'label') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading label..." />}>
+          <LabelPage
+            records={visibleRecords}
+            name={route.name}
+            owned={records}
+            wanted={wantlist}
+            onBack={handleBack}
+            onFilter={handleLink}
+            onRecordClick={handleRecordClick}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'genre') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading genre..." />}>
+          <GenrePage
+            records={visibleRecords}
+            name={route.name}
+            onBack={handleBack}
+            onFilter={handleLink}
+            onRecordClick={handleRecordClick}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'stats') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading stats..." />}>
+          <StatsPage
+            records={visibleRecords}
+            collectionStats={collectionStats}
+            onBack={handleBack}
+            onFilter={handleLink}
+            collectionValue={
+              isDiscogsConnected && records.length > 0
+                ? { ...collectionValue, onRefresh: refreshValuation, onPause: pauseValuation }
+                : undefined
+            }
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'people') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading people..." />}>
+          <PeopleIndexPage
+            records={visibleRecords}
+            onBack={handleBack}
+            onFilter={handleLink}
+            onRecordClick={handleRecordClick}
+          />
+        </Suspense>
+      </ErrorBoundary>
+    )
+  }
+
+  if (route.page === 'tracks') {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={<SplashScreen message="Loading tracks..." />}>
+          <TrackSearchPage
+            records={visibleRecords}
+            onBack={handleBack}
+            onTrackClick={handleTrackClick}
           />
         </Suspense>
       </ErrorBoundary>
@@ -275,18 +525,38 @@ export default function App() {
         {/* Main content with refined styling */}
         <main className="max-w-7xl mx-auto px-8 py-20 relative z-10">
           <CollectionHeader
-            records={records}
+            records={visibleRecords}
             searchTerm={filtering.searchTerm}
             onSearchChange={filtering.setSearchTerm}
+            queryErrors={filtering.queryErrors}
             totalRecords={filtering.filteredAndSortedRecords.length}
             sortBy={filtering.sortBy}
             onSortChange={filtering.setSortBy}
             filters={filtering.filters}
             filterStats={filterStats}
             collectionStats={collectionStats}
-            onGenreFilter={filtering.handleGenreFilter}
-            onDecadeFilter={filtering.handleDecadeFilter}
+            facetOptions={filtering.facetOptions}
+            onFacetToggle={filtering.handleFacetToggle}
+            onFacetModeChange={filtering.handleFacetModeChange}
+            onFacetClear={filtering.handleFacetClear}
+            onFolderFilter={filtering.handleFolderFilter}
+            onPressingFilter={filtering.handlePressingFilter}
             onRandomPick={handleRandomPick}
+            view={view}
+            onViewChange={setView}
+            ownedCount={records.length}
+            wantedCount={wantlist.length}
+            onShowPeople={() => navigate({ page: 'people' })}
+            onShowTracks={() => navigate({ page: 'tracks' })}
+            onShowStats={() => navigate({ page: 'stats' })}
+            onAddRecord={isDiscogsConnected ? () => setShowAddRecord(true) : undefined}
+            savedViews={savedViews}
+            currentViewQuery={collectionQuery}
+            onApplyView={query => handleNavigate({ path: '/', query })}
+            onSaveView={name => savedViewActions.saveView(name, collectionQuery)}
+            onRemoveView={savedViewActions.removeView}
+            onToggleViewPinned={savedViewActions.togglePinned}
+            savedViewsError={savedViewActions.error}
           />
 
           {/* Records grid */}
@@ -303,11 +573,11 @@ export default function App() {
                   {filtering.getNoRecordsText()}
                 </p>
                 <p className="mt-4 text-lg text-white/60 hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer">
-                  {filtering.filters.genre || filtering.filters.decade
+                  {filterStats.hasActiveFilters
                     ? 'No records match your filter criteria.'
                     : 'Try searching for a different artist or album.'}
                 </p>
-                {(filtering.filters.genre || filtering.filters.decade) && (
+                {filterStats.hasActiveFilters && (
                   <motion.button
                     onClick={filtering.handleClearFilters}
                     className="mt-6 px-6 py-3 rounded-sm font-black tracking-wide uppercase transition-colors duration-300 hover:text-bn-electric-teal"
@@ -344,6 +614,13 @@ export default function App() {
                   isLoading={isLoading}
                   lastSync={lastSync}
                   hasCache={records.length > 0}
+                  canResume={canResume}
+                  onResume={handleResumeSync}
+                  pendingChanges={writeBack.pendingCount}
+                  conflicts={writeBack.conflicts.length}
+                  isPushing={writeBack.isPushing}
+                  onPushChanges={writeBackActions.pushChanges}
+                  onResolveConflicts={writeBackActions.resolveConflicts}
                 />
 
                 {/* Error indicator */}
@@ -356,6 +633,27 @@ export default function App() {
                     ⚠️ {error}
                   </motion.p>
                 )}
+                {writeBack.error && (
+                  <motion.p
+                    className="mt-4 text-sm text-bn-crimson bg-red-900/20 px-4 py-2 rounded border border-red-800/30"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                  >
+                    ⚠️ {writeBack.error}
+                  </motion.p>
+                )}
+
+                {/* Account: connecting Discogs also finishes its OAuth redirect back here */}
+                <div className="mt-8 flex flex-col items-center md:items-end gap-4">
+                  {isAuthenticated && <DiscogsConnect />}
+                  <button
+                    onClick={isAuthenticated ? signOut : () => setShowAuthModal(true)}
+                    className="px-4 py-2 rounded-lg text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300"
+                    style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                  >
+                    {isAuthenticated ? 'SIGN OUT' : 'SIGN IN'}
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -382,14 +680,26 @@ export default function App() {
 
       {/* Random Picker Modal */}
       <RandomPicker
-        records={records}
-        currentGenre={filtering.filters.genre}
-        currentDecade={filtering.filters.decade}
+        records={visibleRecords}
+        currentGenre={filtering.filters.facets.genre.values[0] || null}
+        currentDecade={filtering.filters.facets.decade.values[0] || null}
         onRecordSelect={handleRecordClick}
         onFilter={filtering.handleFilter}
         onClose={handleRandomPickerClose}
         isOpen={showRandomPicker}
       />
+
+      <AuthModal isOpen={showAuthModal} onClose={() => setShowAuthModal(false)} />
+
+      {isDiscogsConnected && showAddRecord && (
+        <AddRecordDialog
+          isOpen={showAddRecord}
+          onClose={() => setShowAddRecord(false)}
+          onAdd={addDiscogsRelease}
+          ownedIds={ownedIds}
+          canAddToDiscogs={isDiscogsConnected}
+        />
+      )}
     </ErrorBoundary>
   )
 }
@@ -0,0 +1,216 @@
+import { useState, FormEvent } from 'react'
+import { Search, Check } from 'lucide-react'
+import { syncService } from '../services/syncService'
+import { DiscogsSearchResponse } from '../services/discogsService'
+import { RecordSearchMode, detectSearchMode, formatPressingSummary } from '../utils/recordSearch'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+type SearchResult = DiscogsSearchResponse['results'][number]
+
+interface AddRecordDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onAdd: (releaseId: number, options: { addToDiscogs: boolean }) => Promise<void>
+  ownedIds: Set<string> // Releases already in the collection
+  canAddToDiscogs: boolean
+}
+
+const SEARCH_MODES: { value: RecordSearchMode; label: string; placeholder: string }[] = [
+  { value: 'barcode', label: 'Barcode', placeholder: 'Scan or type a barcode' },
+  { value: 'catno', label: 'Catalog #', placeholder: 'e.g. BST 84157' },
+  { value: 'text', label: 'Search', placeholder: 'Artist, title...' },
+]
+
+/**
+ * Find a pressing on Discogs by barcode, catalog number or free text and add it to the collection
+ */
+export function AddRecordDialog({
+  isOpen,
+  onClose,
+  onAdd,
+  ownedIds,
+  canAddToDiscogs,
+}: AddRecordDialogProps) {
+  const [mode, setMode] = useState<RecordSearchMode>('barcode')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [addToDiscogs, setAddToDiscogs] = useState(canAddToDiscogs)
+  const [isSearching, setIsSearching] = useState(false)
+  const [isAdding, setIsAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value)
+    // Pasting or scanning a barcode into the text search switches modes
+    if (mode === 'text' && detectSearchMode(value) === 'barcode') setMode('barcode')
+  }
+
+  const handleSearch = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!query.trim()) return
+
+    setIsSearching(true)
+    setError(null)
+    setSelectedId(null)
+
+    try {
+      const response = await syncService.searchDiscogs(query, mode)
+      setResults(response.results)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed')
+      setResults(null)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (selectedId === null) return
+
+    setIsAdding(true)
+    setError(null)
+
+    try {
+      await onAdd(selectedId, { addToDiscogs: canAddToDiscogs && addToDiscogs })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add record')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const currentMode = SEARCH_MODES.find(option => option.value === mode) || SEARCH_MODES[0]
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal Content */}
+      <div className="relative z-10 w-full max-w-2xl max-h-[85vh] flex flex-col bg-black/60 rounded-lg border border-white/20 p-5 text-white">
+        <button
+          onClick={onClose}
+          className="absolute -top-12 right-0 text-white/70 hover:text-white text-2xl font-light"
+          aria-label="Close"
+        >
+          ×
+        </button>
+
+        <div className="font-medium mb-3">Add a record</div>
+
+        <div className="flex gap-2 mb-3">
+          {SEARCH_MODES.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant="ghost"
+              onClick={() => setMode(option.value)}
+              className={
+                option.value === mode
+                  ? 'bg-white/20 text-white'
+                  : 'text-white/60 hover:text-white hover:bg-white/10'
+              }
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+          <Input
+            autoFocus
+            value={query}
+            onChange={event => handleQueryChange(event.target.value)}
+            placeholder={currentMode.placeholder}
+            inputMode={mode === 'barcode' ? 'numeric' : undefined}
+          />
+          <Button
+            type="submit"
+            disabled={isSearching || !query.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white shrink-0"
+          >
+            <Search className="w-4 h-4 mr-1" />
+            {isSearching ? 'Searching...' : 'Search'}
+          </Button>
+        </form>
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {results?.length === 0 && (
+            <div className="text-sm text-white/60 py-6 text-center">No vinyl pressings found</div>
+          )}
+
+          {results?.map(result => {
+            const isOwned = ownedIds.has(result.id.toString())
+            const isSelected = result.id === selectedId
+
+            return (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => setSelectedId(result.id)}
+                className={`w-full flex items-center gap-3 p-2 rounded text-left border transition-colors ${
+                  isSelected
+                    ? 'border-blue-400 bg-blue-500/20'
+                    : 'border-transparent hover:bg-white/10'
+                }`}
+              >
+                {result.thumb ? (
+                  <img
+                    src={result.thumb}
+                    alt=""
+                    className="w-12 h-12 rounded object-cover shrink-0"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded bg-white/10 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{result.title}</div>
+                  <div className="text-xs text-white/60 truncate">
+                    {formatPressingSummary(result)}
+                  </div>
+                </div>
+                {isOwned && <span className="text-xs text-green-400 shrink-0">In collection</span>}
+                {isSelected && <Check className="w-4 h-4 text-blue-300 shrink-0" />}
+              </button>
+            )
+          })}
+        </div>
+
+        {error && (
+          <div className="mt-3 text-red-400 text-sm bg-red-500/10 p-2 rounded border border-red-500/20">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4 mt-4">
+          {canAddToDiscogs ? (
+            <label className="flex items-center gap-2 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={addToDiscogs}
+                onChange={event => setAddToDiscogs(event.target.checked)}
+              />
+              Also add to my Discogs collection
+            </label>
+          ) : (
+            <span />
+          )}
+          <Button
+            onClick={handleAdd}
+            disabled={selectedId === null || isAdding}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {isAdding ? 'Adding...' : 'Add to collection'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AddRecordDialog
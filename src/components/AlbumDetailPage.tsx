@@ -1,13 +1,34 @@
 import { motion } from 'framer-motion'
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { ArrowLeft } from 'lucide-react'
-import { VinylRecord } from '../data/vinylRecords'
+import { VinylRecord, Track } from '../data/vinylRecords'
 import { ImageWithFallback } from './figma/ImageWithFallback'
 import { Button } from './ui/button'
 import { VinylCard } from './VinylCard'
 import { GenreTags } from './ui/GenreTag'
-
-type FilterType = 'genre' | 'artist' | 'label' | 'year'
+import { formatFormatLabel, getPressingTags, groupIdentifiers } from '../utils/pressing'
+import { getArtistCreditParts, getRecordLabels, formatArtistCredit } from '../utils/credits'
+import { groupPersonnel } from '../utils/personnel'
+import {
+  groupTracksBySide,
+  getListedTracks,
+  getTotalDuration,
+  getPlayableTracks,
+  getTrackSeconds,
+  formatTrackDuration,
+} from '../utils/tracklist'
+
+type FilterType =
+  | 'genre'
+  | 'style'
+  | 'artist'
+  | 'label'
+  | 'year'
+  | 'folder'
+  | 'pressing'
+  | 'country'
+  | 'format'
+  | 'person'
 
 interface AlbumDetailPageProps {
   record: VinylRecord
@@ -15,6 +36,7 @@ interface AlbumDetailPageProps {
   onFilter: (type: FilterType, value: string) => void
   otherAlbumsByArtist: VinylRecord[]
   onRecordClick: (record: VinylRecord) => void
+  highlightedTrack?: Track | null // Scrolled to and highlighted, e.g. when opened from track search
 }
 
 export function AlbumDetailPage({
@@ -23,6 +45,7 @@ export function AlbumDetailPage({
   onFilter,
   otherAlbumsByArtist,
   onRecordClick,
+  highlightedTrack,
 }: AlbumDetailPageProps) {
   // Expanded color schemes matching VinylCard
   const getOverlayColors = (record: VinylRecord) => {
@@ -96,32 +119,43 @@ export function AlbumDetailPage({
 
   const colors = getOverlayColors(record)
 
-  const totalDuration = record.tracks.reduce((total, track) => {
-    const [minutes, seconds] = track.duration.split(':').map(Number)
-    return total + minutes * 60 + seconds
-  }, 0)
-
-  const formatTotalDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
-    return `${mins}:${secs.toString().padStart(2, '0')}`
-  }
+  const tracks = getListedTracks(record.tracks)
+  const totalDuration = getTotalDuration(tracks)
+  const sides = groupTracksBySide(tracks)
 
+  // Opens the artist or label page, or the collection with the filter applied
   const handleFilterClick = (type: FilterType, value: string) => {
     onFilter(type, value)
-    onBack() // Return to collection view with filter applied
   }
 
-  // Scroll to top when component mounts
+  // Scroll to top when component mounts, unless a track is to be shown (TrackRow scrolls to it)
   useEffect(() => {
-    window.scrollTo({ top: 0, behavior: 'smooth' })
-  }, [record.id]) // Re-scroll when record changes
+    if (!highlightedTrack) window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [record.id, highlightedTrack]) // Re-scroll when record changes
 
   // Determine if we should show separate release date
   const masterYear = record.year // This comes from master release
   const releaseYear = record.releaseDate || record.year // Your specific pressing
   const showSeparateReleaseDate = masterYear !== releaseYear
 
+  // Labels on the front; companies (pressing plant, distributor...) go with the pressing details
+  const allLabels = getRecordLabels(record)
+  const labels = allLabels.filter(label => !label.role || label.role === 'Label')
+  const companies = allLabels.filter(label => label.role && label.role !== 'Label')
+
+  // Musicians, engineers, designers... (only known when the full release was fetched from Discogs)
+  const personnelGroups = groupPersonnel(record.personnel)
+
+  // Pressing details (only known when the full release was fetched from Discogs)
+  const pressingTags = getPressingTags(record)
+  const identifierGroups = groupIdentifiers(record.identifiers)
+  const hasPressingDetails = Boolean(
+    record.formats?.length ||
+      record.country ||
+      identifierGroups.length > 0 ||
+      companies.length > 0
+  )
+
   return (
     <div
       className="min-h-screen relative overflow-hidden"
@@ -319,6 +353,14 @@ export function AlbumDetailPage({
             {/* Title & Artist */}
             <div className="space-y-6">
               <div className="space-y-4">
+                {record.ownership === 'wanted' && (
+                  <div
+                    className="inline-block px-3 py-1 rounded-sm text-xs font-black tracking-[0.2em] uppercase text-black"
+                    style={{ backgroundColor: 'var(--bn-bright-yellow)' }}
+                  >
+                    On the wantlist
+                  </div>
+                )}
                 <motion.h1
                   className="text-5xl md:text-6xl font-black tracking-tight text-white leading-tight"
                   style={{ textShadow: '0 4px 16px rgba(0, 0, 0, 0.5)' }}
@@ -330,7 +372,18 @@ export function AlbumDetailPage({
               </div>
 
               <h2 className="text-3xl md:text-4xl font-bold tracking-wide text-white">
-                {record.artist.toUpperCase()}
+                {getArtistCreditParts(record).map(({ artist, join }, index) => (
+                  <span key={index}>
+                    <span
+                      className="hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                      onClick={() => handleFilterClick('artist', artist.name)}
+                      title={`View all records by ${artist.name}`}
+                    >
+                      {(artist.creditedName || artist.name).toUpperCase()}
+                    </span>
+                    {join.toUpperCase()}
+                  </span>
+                ))}
               </h2>
             </div>
 
@@ -354,14 +407,31 @@ export function AlbumDetailPage({
                   <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
                     Label
                   </div>
-                  <div className="text-xl font-bold text-white">{record.label}</div>
+                  {labels.map((label, index) => (
+                    <div key={index} className="text-xl font-bold text-white">
+                      <span
+                        className="hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                        onClick={() => handleFilterClick('label', label.name)}
+                        title={`View all records on ${label.name}`}
+                      >
+                        {label.name}
+                      </span>
+                      {label.catalogNumber && label.catalogNumber !== 'none' && (
+                        <span className="ml-2 text-base font-medium text-white/60">
+                          {label.catalogNumber}
+                        </span>
+                      )}
+                    </div>
+                  ))}
                 </div>
 
                 <div>
                   <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
                     Tracks
                   </div>
-                  <div className="text-xl font-bold text-white">{record.tracks.length}</div>
+                  <div className="text-xl font-bold text-white">
+                    {getPlayableTracks(tracks).length}
+                  </div>
                 </div>
               </div>
 
@@ -387,12 +457,26 @@ export function AlbumDetailPage({
                   />
                 </div>
 
+                {record.styles && record.styles.length > 0 && (
+                  <div>
+                    <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                      Style
+                    </div>
+                    <GenreTags
+                      genres={record.styles}
+                      onGenreClick={style => handleFilterClick('style', style)}
+                      size="lg"
+                      className="mt-2"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
                     Duration
                   </div>
                   <div className="text-xl font-bold text-white">
-                    {formatTotalDuration(totalDuration)}
+                    {formatTrackDuration(totalDuration)}
                   </div>
                 </div>
               </div>
@@ -430,6 +514,190 @@ export function AlbumDetailPage({
                 </div>
               )}
             </div>
+
+            {/* Personnel - everyone credited, grouped by what they did */}
+            {personnelGroups.length > 0 && (
+              <div className="space-y-4">
+                <h3 className="text-xl font-black tracking-wide uppercase text-white">
+                  Personnel
+                </h3>
+
+                {personnelGroups.map(group => (
+                  <div key={group.category}>
+                    <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                      {group.category}
+                    </div>
+                    <ul className="space-y-1">
+                      {group.people.map(person => (
+                        <li key={person.name} className="text-base text-white/80">
+                          <span
+                            className="font-bold text-white hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                            onClick={() => handleFilterClick('person', person.name)}
+                            title={`View all records with ${person.name}`}
+                          >
+                            {person.name}
+                          </span>
+                          <span className="text-white/50"> – {person.roles.join(', ')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pressing - formats, country, matrix and other identifiers */}
+            {hasPressingDetails && (
+              <div className="space-y-4">
+                <h3 className="text-xl font-black tracking-wide uppercase text-white">Pressing</h3>
+
+                {pressingTags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {pressingTags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => handleFilterClick('pressing', tag)}
+                        className="px-3 py-1 rounded-sm text-sm font-bold text-white bg-white/10 hover:text-bn-electric-teal transition-colors duration-300"
+                        title={`View all ${tag} records`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-6">
+                  {record.formats && record.formats.length > 0 && (
+                    <div>
+                      <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                        Format
+                      </div>
+                      {record.formats.map((format, index) => (
+                        <div
+                          key={index}
+                          className="text-lg font-bold text-white hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                          onClick={() => handleFilterClick('format', format.name)}
+                          title={`View all ${format.name} records`}
+                        >
+                          {formatFormatLabel(format)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {record.country && (
+                    <div>
+                      <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                        Country
+                      </div>
+                      <div
+                        className="text-lg font-bold text-white hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                        onClick={() => handleFilterClick('country', record.country || '')}
+                        title={`View all records pressed in ${record.country}`}
+                      >
+                        {record.country}
+                      </div>
+                    </div>
+                  )}
+
+                  {record.catalogNumber && record.catalogNumber !== 'N/A' && (
+                    <div>
+                      <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                        Catalog Number
+                      </div>
+                      <div className="text-lg font-bold text-white">{record.catalogNumber}</div>
+                    </div>
+                  )}
+                </div>
+
+                {companies.length > 0 && (
+                  <div>
+                    <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                      Companies
+                    </div>
+                    <ul className="space-y-1">
+                      {companies.map((company, index) => (
+                        <li key={index} className="text-base text-white/80">
+                          <span className="text-white/50">{company.role} – </span>
+                          <span
+                            className="font-bold hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                            onClick={() => handleFilterClick('label', company.name)}
+                            title={`View all records involving ${company.name}`}
+                          >
+                            {company.name}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {identifierGroups.map(([type, identifiers]) => (
+                  <div key={type}>
+                    <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                      {type}
+                    </div>
+                    <ul className="space-y-1">
+                      {identifiers.map((identifier, index) => (
+                        <li key={index} className="font-mono text-sm text-white/80">
+                          {identifier.value}
+                          {identifier.description && (
+                            <span className="ml-2 font-sans text-white/50">
+                              {identifier.description}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Collection details from Discogs folders and custom fields */}
+            <div className="grid grid-cols-2 gap-6">
+              {record.folder && (
+                <div>
+                  <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                    Folder
+                  </div>
+                  <div
+                    className="text-lg font-bold text-white hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                    onClick={() => handleFilterClick('folder', record.folder || '')}
+                    title={`View all records in ${record.folder}`}
+                  >
+                    {record.folder}
+                  </div>
+                </div>
+              )}
+
+              {(record.mediaCondition || record.sleeveCondition) && (
+                <div>
+                  <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                    Condition
+                  </div>
+                  <div className="text-lg font-bold text-white">
+                    {record.mediaCondition || '—'} / {record.sleeveCondition || '—'}
+                  </div>
+                  <div className="text-xs font-medium text-white/50 mt-1">Media / Sleeve</div>
+                </div>
+              )}
+
+              {Object.entries(record.customFields || {}).map(([name, value]) => (
+                <div key={name}>
+                  <div className="text-sm font-black tracking-wide uppercase text-white/60 mb-2">
+                    {name}
+                  </div>
+                  <div className="text-lg font-bold text-white">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            {record.collectionNotes && (
+              <p className="text-base leading-relaxed text-white/70 font-medium italic">
+                {record.collectionNotes}
+              </p>
+            )}
           </div>
         </div>
 
@@ -442,33 +710,39 @@ export function AlbumDetailPage({
             <div className="flex-1 h-1 rounded-full" style={{ backgroundColor: colors.accent }} />
           </div>
 
-          <div className="grid gap-4">
-            {record.tracks.map((track, _index) => (
-              <div
-                key={track.number}
-                className="flex items-center justify-between p-6 rounded-sm cursor-pointer transition-colors duration-300 hover:text-bn-electric-teal"
-                style={{
-                  background: 'rgba(30, 58, 138, 0.1)',
-                  backdropFilter: 'blur(10px)',
-                }}
-              >
-                <div className="flex items-center space-x-6">
-                  <div className="w-8 text-2xl font-black text-white/60">
-                    {track.number.toString().padStart(2, '0')}
-                  </div>
-                  <div>
-                    <h4 className="text-xl font-bold text-white transition-colors duration-300">
-                      {track.title}
-                    </h4>
-                  </div>
+          {sides.length === 0 && (
+            <p className="px-6 text-lg text-white/60 font-medium">
+              Discogs has no tracklist for this pressing.
+            </p>
+          )}
+
+          {sides.map((side, sideIndex) => (
+            <div key={side.side || sideIndex} className="space-y-4">
+              {side.side && (
+                <div className="flex items-baseline justify-between px-6">
+                  <h4 className="text-xl font-black tracking-[0.2em] uppercase text-white/80">
+                    Side {side.side}
+                  </h4>
+                  {side.duration > 0 && (
+                    <div className="text-lg font-bold text-white/60">
+                      {formatTrackDuration(side.duration)}
+                    </div>
+                  )}
                 </div>
+              )}
 
-                <div className="text-lg font-bold text-white/60 transition-colors duration-300">
-                  {track.duration}
-                </div>
+              <div className="grid gap-4">
+                {side.tracks.map((track, index) => (
+                  <TrackRow
+                    key={`${track.position || track.number}-${index}`}
+                    track={track}
+                    onPersonClick={name => handleFilterClick('person', name)}
+                    highlightedTrack={highlightedTrack}
+                  />
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ))}
         </div>
 
         {/* Other Albums from Artist Section */}
@@ -502,3 +776,105 @@ export function AlbumDetailPage({
     </div>
   )
 }
+
+interface TrackRowProps {
+  track: Track
+  onPersonClick: (name: string) => void
+  highlightedTrack?: Track | null
+  nested?: boolean
+}
+
+/**
+ * One tracklist entry: a heading, a track with its own credits, or an index track with its parts
+ */
+function TrackRow({ track, onPersonClick, highlightedTrack, nested = false }: TrackRowProps) {
+  const rowRef = useRef<HTMLDivElement>(null)
+  const isHighlighted = track === highlightedTrack
+
+  useEffect(() => {
+    if (isHighlighted) rowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [isHighlighted])
+
+  if (track.type === 'heading') {
+    return (
+      <div className="px-6 pt-4 text-sm font-black tracking-[0.2em] uppercase text-white/60">
+        {track.title}
+      </div>
+    )
+  }
+
+  const seconds = getTrackSeconds(track)
+  const highlightStyle = isHighlighted
+    ? {
+        boxShadow: 'inset 0 0 0 2px var(--bn-electric-teal)',
+        background: 'rgba(0, 196, 204, 0.15)',
+      }
+    : undefined
+
+  return (
+    <div
+      ref={rowRef}
+      className={`rounded-sm transition-colors duration-300 ${nested ? 'py-3 pl-14 pr-6' : 'p-6'}`}
+      style={{
+        ...(nested
+          ? undefined
+          : { background: 'rgba(30, 58, 138, 0.1)', backdropFilter: 'blur(10px)' }),
+        ...highlightStyle,
+      }}
+      aria-current={isHighlighted ? 'true' : undefined}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-6">
+          <div className={`w-10 font-black text-white/60 ${nested ? 'text-lg' : 'text-2xl'}`}>
+            {track.position || track.number.toString().padStart(2, '0')}
+          </div>
+          <div>
+            <h4 className={`font-bold text-white ${nested ? 'text-lg' : 'text-xl'}`}>
+              {track.title}
+            </h4>
+            {track.artists && (
+              <div className="text-sm font-medium text-white/70">
+                {formatArtistCredit(track.artists)}
+              </div>
+            )}
+            {track.credits && (
+              <div className="text-sm text-white/50">
+                {track.credits.map((credit, index) => (
+                  <span key={index}>
+                    {index > 0 && ' · '}
+                    <span
+                      className="font-bold text-white/70 hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                      onClick={() => onPersonClick(credit.name)}
+                      title={`View all records with ${credit.name}`}
+                    >
+                      {credit.name}
+                    </span>{' '}
+                    {credit.role}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {seconds > 0 && (
+          <div className="text-lg font-bold text-white/60">{formatTrackDuration(seconds)}</div>
+        )}
+      </div>
+
+      {track.subTracks && (
+        <div className="mt-2">
+          {track.subTracks.map((subTrack, index) => (
+            <TrackRow
+              key={`${subTrack.position || subTrack.number}-${index}`}
+              track={subTrack}
+              onPersonClick={onPersonClick}
+              highlightedTrack={highlightedTrack}
+              nested
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
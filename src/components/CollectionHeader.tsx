@@ -1,18 +1,43 @@
-import { Search, ArrowUpDown, Shuffle, X } from 'lucide-react'
-import { Input } from './ui/input'
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, ArrowUpDown, Shuffle, SlidersHorizontal } from 'lucide-react'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { getUniqueGenres, getUniqueDecades } from '../utils/filterUtils'
-import { VinylRecord } from '../data/vinylRecords'
+import { FacetPanel } from './FacetPanel'
+import { SearchQueryInput } from './SearchQueryInput'
+import { SavedViewsBar } from './SavedViewsBar'
+import { getUniqueFolders, getUniquePressingTags } from '../utils/filterUtils'
+import {
+  FacetKey,
+  FacetMode,
+  FacetOptions,
+  FacetState,
+  countFacetSelections,
+} from '../utils/facets'
+import { QueryError } from '../utils/searchQuery'
+import { SavedView } from '../utils/viewState'
+import {
+  describeSortSpec,
+  getSort,
+  getSorts,
+  isSortAvailable,
+  parseSortSpec,
+  serializeSortSpec,
+  setSortKey,
+  toggleSortDirection,
+} from '../utils/sorting'
+import { VinylRecord, RecordOwnership } from '../data/vinylRecords'
 
 interface FilterState {
-  genre: string | null
-  decade: string | null
+  facets: FacetState
+  folder: string | null
+  pressing: string | null
+  person: string | null
 }
 
 interface CollectionHeaderProps {
   records: VinylRecord[]
   searchTerm: string
   onSearchChange: (term: string) => void
+  queryErrors?: QueryError[]
   totalRecords: number
   sortBy: string
   onSortChange: (sort: string) => void
@@ -30,61 +55,180 @@ interface CollectionHeaderProps {
     genres: number
     labels: number
   }
-  onGenreFilter: (genre: string) => void
-  onDecadeFilter: (decade: string) => void
+  facetOptions: FacetOptions
+  onFacetToggle: (key: FacetKey, value: string) => void
+  onFacetModeChange: (key: FacetKey, mode: FacetMode) => void
+  onFacetClear: (key: FacetKey) => void
+  onFolderFilter?: (folder: string) => void
+  onPressingFilter?: (pressing: string) => void
   onRandomPick?: () => void
+  view?: RecordOwnership
+  onViewChange?: (view: RecordOwnership) => void
+  ownedCount?: number
+  wantedCount?: number
+  onShowPeople?: () => void
+  onShowTracks?: () => void
+  onShowStats?: () => void
+  onAddRecord?: () => void
+  savedViews?: SavedView[]
+  currentViewQuery?: string
+  onApplyView?: (query: string) => void
+  onSaveView?: (name: string) => void
+  onRemoveView?: (id: string) => void
+  onToggleViewPinned?: (id: string) => void
+  savedViewsError?: string | null
 }
 
+const VIEW_OPTIONS: Array<{ value: RecordOwnership; label: string }> = [
+  { value: 'owned', label: 'OWNED' },
+  { value: 'wanted', label: 'WANTED' },
+]
+
 export function CollectionHeader({
   records,
   searchTerm,
   onSearchChange,
+  queryErrors = [],
   totalRecords,
   sortBy,
   onSortChange,
   filters,
   filterStats,
   collectionStats,
-  onGenreFilter,
-  onDecadeFilter,
+  facetOptions,
+  onFacetToggle,
+  onFacetModeChange,
+  onFacetClear,
+  onFolderFilter,
+  onPressingFilter,
   onRandomPick,
+  view = 'owned',
+  onViewChange,
+  ownedCount,
+  wantedCount,
+  onShowPeople,
+  onShowTracks,
+  onShowStats,
+  onAddRecord,
+  savedViews = [],
+  currentViewQuery = '',
+  onApplyView,
+  onSaveView,
+  onRemoveView,
+  onToggleViewPinned,
+  savedViewsError,
 }: CollectionHeaderProps) {
-  // Get available filter options from the collection
-  const availableGenres = getUniqueGenres(records)
-  const availableDecades = getUniqueDecades(records)
+  const [showFacets, setShowFacets] = useState(false)
 
-  // Helper function to display sort options
+  // Get available filter options from the collection
+  const availableFolders = getUniqueFolders(records)
+  const availablePressingTags = getUniquePressingTags(records)
+  const selectedFacetCount = countFacetSelections(filters.facets)
 
-  const getSortDisplayName = (sortValue: string) => {
-    switch (sortValue) {
-      case 'artist':
-        return 'Artist A-Z'
-      case 'album':
-        return 'Album A-Z'
-      case 'year':
-        return 'Year (Newest)'
-      case 'genre':
-        return 'Genre A-Z'
-      case 'dateAdded':
-      default:
-        return 'Date Added'
-    }
-  }
+  const sortKeys = parseSortSpec(sortBy)
+  const primarySort = getSort(sortKeys[0].key)
+  // Sorts the collection has no values for are hidden, unless a saved view already uses them
+  const sortOptions = getSorts().filter(
+    sort => isSortAvailable(sort, records) || sortKeys.some(({ key }) => key === sort.key)
+  )
+  const setSort = (index: number, key: string | null) =>
+    onSortChange(serializeSortSpec(setSortKey(sortKeys, index, key)))
 
   return (
     <>
       {/* Main header with Swiss Design precision meets Blue Note bold typography */}
       <div className="space-y-6">
         {/* Vinyl Collection Subtitle - Swiss minimal approach */}
-        <div className="flex items-center space-x-4">
-          <div
-            className="w-16 h-1 rounded-full"
-            style={{
-              backgroundColor: 'var(--bn-electric-teal)',
-            }}
-          />
-          <div className="text-sm font-black tracking-[0.25em] uppercase text-white/90">
-            VINYL COLLECTION
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div
+              className="w-16 h-1 rounded-full"
+              style={{
+                backgroundColor: 'var(--bn-electric-teal)',
+              }}
+            />
+            <div className="text-sm font-black tracking-[0.25em] uppercase text-white/90">
+              {view === 'wanted' ? 'VINYL WANTLIST' : 'VINYL COLLECTION'}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            {/* Add a pressing from Discogs */}
+            {onAddRecord && (
+              <button
+                onClick={onAddRecord}
+                className="px-4 py-2 rounded-lg text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300"
+                style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                title="Find a pressing on Discogs by barcode, catalog number or title"
+              >
+                ADD
+              </button>
+            )}
+
+            {/* People index */}
+            {onShowPeople && (
+              <button
+                onClick={onShowPeople}
+                className="px-4 py-2 rounded-lg text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300"
+                style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                title="Browse everyone credited in the collection"
+              >
+                PEOPLE
+              </button>
+            )}
+
+            {/* Track search */}
+            {onShowTracks && (
+              <button
+                onClick={onShowTracks}
+                className="px-4 py-2 rounded-lg text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300"
+                style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                title="Find which records have a tune"
+              >
+                TRACKS
+              </button>
+            )}
+
+            {/* Collection statistics */}
+            {onShowStats && (
+              <button
+                onClick={onShowStats}
+                className="px-4 py-2 rounded-lg text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300"
+                style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                title="Decades, genres, labels and more across the collection"
+              >
+                STATS
+              </button>
+            )}
+
+            {/* Owned / Wanted toggle */}
+            {onViewChange && (
+              <div
+                className="flex rounded-lg overflow-hidden"
+                style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+              >
+                {VIEW_OPTIONS.map(option => {
+                  const isActive = view === option.value
+                  const count = option.value === 'wanted' ? wantedCount : ownedCount
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => onViewChange(option.value)}
+                      className={`px-4 py-2 text-xs font-black tracking-[0.15em] uppercase transition-colors duration-300 ${
+                        isActive ? 'text-black' : 'text-white/70 hover:text-bn-electric-teal'
+                      }`}
+                      style={{
+                        backgroundColor: isActive ? 'var(--bn-electric-teal)' : 'transparent',
+                      }}
+                      aria-pressed={isActive}
+                    >
+                      {option.label}
+                      {count !== undefined && <span className="ml-2 opacity-70">{count}</span>}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
           </div>
         </div>
 
@@ -205,90 +349,140 @@ export function CollectionHeader({
         <div className="relative z-10 p-10">
           <div className="max-w-6xl mx-auto">
             <div className="flex flex-col lg:flex-row gap-6 items-center">
-              {/* Search Input - Enhanced design with consistent teal hover */}
-              <div className="flex-1 relative min-w-0">
-                <Search
-                  className="absolute left-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 z-10 transition-colors duration-300"
-                  style={{
-                    color: searchTerm ? 'var(--bn-electric-teal)' : 'rgba(255, 255, 255, 0.5)',
-                  }}
-                />
-                <Input
-                  type="text"
-                  placeholder="Search artists, albums, labels..."
-                  value={searchTerm}
-                  onChange={e => onSearchChange(e.target.value)}
-                  className="pl-14 pr-14 py-4 text-white placeholder:text-white font-medium bg-transparent transition-all duration-300 hover:border-bn-electric-teal focus:text-bn-electric-teal focus:border-bn-electric-teal"
+              {/* Search Input - plain search or field queries, with autocomplete */}
+              <SearchQueryInput
+                value={searchTerm}
+                onChange={onSearchChange}
+                records={records}
+                errors={queryErrors}
+              />
+
+              {/* Filter and Control Section */}
+              <div className="flex items-center gap-4">
+                {/* Facets toggle - genre, style, decade, artist, label, format, country */}
+                <button
+                  onClick={() => setShowFacets(show => !show)}
+                  className={`px-5 py-4 font-bold transition-all duration-300 hover:text-bn-electric-teal ${
+                    showFacets ? 'text-bn-electric-teal' : 'text-white'
+                  }`}
                   style={{
                     background: 'rgba(15, 23, 42, 0.9)',
                     backdropFilter: 'blur(12px)',
-                    border: 'none',
                     borderRadius: '8px',
-                    fontSize: '16px',
                     height: '56px',
+                    fontSize: '14px',
                   }}
-                />
-                {/* Clear search button */}
-                {searchTerm && (
-                  <button
-                    onClick={() => onSearchChange('')}
-                    className="absolute right-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 hover:text-bn-electric-teal transition-colors duration-300 z-10 cursor-pointer"
-                    title="Clear search"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
+                  aria-expanded={showFacets}
+                >
+                  <div className="flex items-center space-x-2">
+                    <SlidersHorizontal className="w-4 h-4" />
+                    <span>Filters</span>
+                    {selectedFacetCount > 0 && (
+                      <span
+                        className="px-2 rounded-sm text-xs font-black text-black"
+                        style={{ backgroundColor: 'var(--bn-electric-teal)' }}
+                      >
+                        {selectedFacetCount}
+                      </span>
+                    )}
+                  </div>
+                </button>
+
+                {/* Collection Folder Filter Dropdown - only when records are filed in folders */}
+                {onFolderFilter && availableFolders.length > 0 && (
+                  <div className="min-w-[160px]">
+                    <Select value={filters.folder || 'all'} onValueChange={onFolderFilter}>
+                      <SelectTrigger
+                        className="w-full px-5 py-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal data-[state=open]:text-bn-electric-teal"
+                        style={{
+                          background: 'rgba(15, 23, 42, 0.9)',
+                          backdropFilter: 'blur(12px)',
+                          border: 'none',
+                          borderRadius: '8px',
+                          height: '56px',
+                          fontSize: '14px',
+                        }}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent
+                        className="border-2 rounded-lg overflow-hidden"
+                        style={{
+                          background: 'var(--bn-navy)',
+                          borderColor: 'var(--bn-electric-teal)',
+                          backdropFilter: 'blur(24px)',
+                          boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)',
+                        }}
+                      >
+                        <SelectItem
+                          value="all"
+                          className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
+                        >
+                          All Folders
+                        </SelectItem>
+                        {availableFolders.map(folder => (
+                          <SelectItem
+                            key={folder}
+                            value={folder}
+                            className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
+                          >
+                            {folder}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 )}
-              </div>
 
-              {/* Filter and Control Section */}
-              <div className="flex items-center gap-4">
-                {/* Genre Filter Dropdown */}
-                <div className="min-w-[160px]">
-                  <Select value={filters.genre || 'all'} onValueChange={onGenreFilter}>
-                    <SelectTrigger
-                      className="w-full px-5 py-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal data-[state=open]:text-bn-electric-teal"
-                      style={{
-                        background: 'rgba(15, 23, 42, 0.9)',
-                        backdropFilter: 'blur(12px)',
-                        border: 'none',
-                        borderRadius: '8px',
-                        height: '56px',
-                        fontSize: '14px',
-                      }}
-                    >
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent
-                      className="border-2 rounded-lg overflow-hidden"
-                      style={{
-                        background: 'var(--bn-navy)',
-                        borderColor: 'var(--bn-electric-teal)',
-                        backdropFilter: 'blur(24px)',
-                        boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)',
-                      }}
-                    >
-                      <SelectItem
-                        value="all"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
+                {/* Pressing Filter Dropdown - Original/Reissue, Mono/Stereo, 2×LP, 180g... */}
+                {onPressingFilter && availablePressingTags.length > 0 && (
+                  <div className="min-w-[160px]">
+                    <Select value={filters.pressing || 'all'} onValueChange={onPressingFilter}>
+                      <SelectTrigger
+                        className="w-full px-5 py-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal data-[state=open]:text-bn-electric-teal"
+                        style={{
+                          background: 'rgba(15, 23, 42, 0.9)',
+                          backdropFilter: 'blur(12px)',
+                          border: 'none',
+                          borderRadius: '8px',
+                          height: '56px',
+                          fontSize: '14px',
+                        }}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent
+                        className="border-2 rounded-lg overflow-hidden"
+                        style={{
+                          background: 'var(--bn-navy)',
+                          borderColor: 'var(--bn-electric-teal)',
+                          backdropFilter: 'blur(24px)',
+                          boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)',
+                        }}
                       >
-                        All Genres
-                      </SelectItem>
-                      {availableGenres.map(genre => (
                         <SelectItem
-                          key={genre}
-                          value={genre}
+                          value="all"
                           className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
                         >
-                          {genre}
+                          All Pressings
                         </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                        {availablePressingTags.map(tag => (
+                          <SelectItem
+                            key={tag}
+                            value={tag}
+                            className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
+                          >
+                            {tag}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
 
-                {/* Year/Decade Filter Dropdown */}
-                <div className="min-w-[160px]">
-                  <Select value={filters.decade || 'all'} onValueChange={onDecadeFilter}>
+                {/* Sort Dropdowns - Positioned Last, Same Size as Others */}
+                <div className="min-w-[160px] relative group">
+                  <Select value={sortKeys[0].key} onValueChange={key => setSort(0, key)}>
                     <SelectTrigger
                       className="w-full px-5 py-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal data-[state=open]:text-bn-electric-teal"
                       style={{
@@ -300,10 +494,13 @@ export function CollectionHeader({
                         fontSize: '14px',
                       }}
                     >
-                      <SelectValue />
+                      <div className="flex items-center justify-between w-full">
+                        <span>{primarySort?.label}</span>
+                        <ArrowUpDown className="w-4 h-4 ml-2 transition-colors duration-300" />
+                      </div>
                     </SelectTrigger>
                     <SelectContent
-                      className="border-2 rounded-lg overflow-hidden"
+                      className="border-2 rounded-lg overflow-hidden min-w-[180px]"
                       style={{
                         background: 'var(--bn-navy)',
                         borderColor: 'var(--bn-electric-teal)',
@@ -311,28 +508,46 @@ export function CollectionHeader({
                         boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)',
                       }}
                     >
-                      <SelectItem
-                        value="all"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
-                      >
-                        All Years
-                      </SelectItem>
-                      {availableDecades.map(decade => (
+                      {sortOptions.map(sort => (
                         <SelectItem
-                          key={decade}
-                          value={decade}
+                          key={sort.key}
+                          value={sort.key}
                           className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
                         >
-                          {decade}
+                          {sort.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
 
-                {/* Sort Dropdown - Positioned Last, Same Size as Others */}
+                {/* Sort direction of the main sort; the "then by" sort keeps its own */}
+                <button
+                  onClick={() => onSortChange(serializeSortSpec(toggleSortDirection(sortKeys, 0)))}
+                  className="px-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal flex items-center gap-2"
+                  style={{
+                    background: 'rgba(15, 23, 42, 0.9)',
+                    backdropFilter: 'blur(12px)',
+                    borderRadius: '8px',
+                    height: '56px',
+                    fontSize: '14px',
+                  }}
+                  title={`Sorted ${describeSortSpec(sortKeys)}; click to reverse`}
+                  aria-label="Reverse sort direction"
+                >
+                  {sortKeys[0].direction === 'asc' ? (
+                    <ArrowUp className="w-4 h-4" />
+                  ) : (
+                    <ArrowDown className="w-4 h-4" />
+                  )}
+                  <span>{primarySort?.directionLabels[sortKeys[0].direction]}</span>
+                </button>
+
                 <div className="min-w-[160px] relative group">
-                  <Select value={sortBy} onValueChange={onSortChange}>
+                  <Select
+                    value={sortKeys[1]?.key || 'none'}
+                    onValueChange={key => setSort(1, key === 'none' ? null : key)}
+                  >
                     <SelectTrigger
                       className="w-full px-5 py-4 font-bold text-white transition-all duration-300 hover:text-bn-electric-teal data-[state=open]:text-bn-electric-teal"
                       style={{
@@ -345,7 +560,9 @@ export function CollectionHeader({
                       }}
                     >
                       <div className="flex items-center justify-between w-full">
-                        <span>{getSortDisplayName(sortBy)}</span>
+                        <span>
+                          {sortKeys[1] ? `Then ${getSort(sortKeys[1].key)?.label}` : 'Then By'}
+                        </span>
                         <ArrowUpDown className="w-4 h-4 ml-2 transition-colors duration-300" />
                       </div>
                     </SelectTrigger>
@@ -359,35 +576,22 @@ export function CollectionHeader({
                       }}
                     >
                       <SelectItem
-                        value="dateAdded"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
-                      >
-                        Date Added
-                      </SelectItem>
-                      <SelectItem
-                        value="artist"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
-                      >
-                        Artist A-Z
-                      </SelectItem>
-                      <SelectItem
-                        value="album"
+                        value="none"
                         className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
                       >
-                        Album A-Z
-                      </SelectItem>
-                      <SelectItem
-                        value="year"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
-                      >
-                        Year (Newest)
-                      </SelectItem>
-                      <SelectItem
-                        value="genre"
-                        className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
-                      >
-                        Genre A-Z
+                        Nothing
                       </SelectItem>
+                      {sortOptions
+                        .filter(sort => sort.key !== sortKeys[0].key)
+                        .map(sort => (
+                          <SelectItem
+                            key={sort.key}
+                            value={sort.key}
+                            className="text-white hover:bg-bn-electric-teal hover:text-black font-bold transition-colors duration-200 px-4 py-3"
+                          >
+                            {sort.label}
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -439,6 +643,35 @@ export function CollectionHeader({
                 )}
               </div>
             </div>
+
+            {/* Saved views - pinned ones one click away */}
+            {onApplyView && onSaveView && onRemoveView && onToggleViewPinned && (
+              <div className="mt-6">
+                <SavedViewsBar
+                  views={savedViews}
+                  currentQuery={currentViewQuery}
+                  onApply={onApplyView}
+                  onSave={onSaveView}
+                  onRemove={onRemoveView}
+                  onTogglePinned={onToggleViewPinned}
+                  error={savedViewsError}
+                />
+              </div>
+            )}
+
+            {/* Facet panel - multi-select with live counts */}
+            {showFacets && (
+              <div className="mt-8">
+                <FacetPanel
+                  records={records}
+                  facets={filters.facets}
+                  options={facetOptions}
+                  onToggle={onFacetToggle}
+                  onModeChange={onFacetModeChange}
+                  onClear={onFacetClear}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
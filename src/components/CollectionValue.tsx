@@ -0,0 +1,176 @@
+import { Pause, RefreshCw, TrendingUp } from 'lucide-react'
+import { CollectionValuation } from '../services/supabaseService'
+import { ValuationProgress } from '../services/valuationService'
+import { ValuationSummary } from '../utils/valuation'
+import { Button } from './ui/button'
+
+export interface CollectionValueProps {
+  summary: ValuationSummary | null
+  history: CollectionValuation[] // Oldest first
+  lastValuedAt: string | null
+  isDue: boolean
+  isValuing: boolean
+  progress: ValuationProgress | null
+  savedProgress: ValuationProgress | null
+  error: string | null
+  onRefresh: () => void
+  onPause: () => void
+}
+
+const CHART_WIDTH = 240
+const CHART_HEIGHT = 48
+
+function formatMoney(value: number, currency: string | null): string {
+  if (!currency) return value.toFixed(2)
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value)
+  } catch {
+    return `${value.toFixed(2)} ${currency}`
+  }
+}
+
+/**
+ * Sparkline of total value per snapshot
+ */
+function ValueHistoryChart({ history }: { history: CollectionValuation[] }) {
+  if (history.length < 2) return null
+
+  const totals = history.map(snapshot => snapshot.total_value)
+  const min = Math.min(...totals)
+  const range = Math.max(...totals) - min || 1
+  const points = totals
+    .map((total, index) => {
+      const x = (index / (totals.length - 1)) * CHART_WIDTH
+      const y = CHART_HEIGHT - ((total - min) / range) * CHART_HEIGHT
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <svg
+      width={CHART_WIDTH}
+      height={CHART_HEIGHT}
+      viewBox={`0 -2 ${CHART_WIDTH} ${CHART_HEIGHT + 4}`}
+      className="overflow-visible"
+      aria-label="Collection value over time"
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} />
+    </svg>
+  )
+}
+
+/**
+ * Collection value section: total, median, biggest gainers since purchase and value history
+ */
+export function CollectionValue({
+  summary,
+  history,
+  lastValuedAt,
+  isDue,
+  isValuing,
+  progress,
+  savedProgress,
+  error,
+  onRefresh,
+  onPause,
+}: CollectionValueProps) {
+  const first = history[0]
+  const currency = summary?.currency || null
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20 text-white">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div>
+          <div className="font-medium">Collection value</div>
+          <div className="text-xs text-white/60">
+            {isValuing
+              ? `Pricing records${progress ? ` ${progress.processed}/${progress.total}` : ''}...`
+              : savedProgress
+                ? `Valuation paused at ${savedProgress.processed}/${savedProgress.total} records`
+                : lastValuedAt
+                  ? `Discogs suggested prices as of ${new Date(lastValuedAt).toLocaleDateString()}`
+                  : 'Not valued yet'}
+            {!isValuing && !savedProgress && isDue && ' · prices are due for a refresh'}
+          </div>
+        </div>
+        {isValuing ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onPause}
+            className="text-white/70 hover:text-white hover:bg-white/10"
+            title="Pause valuation"
+          >
+            <Pause className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRefresh}
+            className="text-white/70 hover:text-white hover:bg-white/10"
+            title={
+              savedProgress
+                ? 'Resume valuation'
+                : 'Value collection now (one Discogs request per record)'
+            }
+          >
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {summary && (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <div className="text-2xl font-semibold">{formatMoney(summary.total, currency)}</div>
+            <div className="text-sm text-white/70">
+              Median {formatMoney(summary.median, currency)} · {summary.count} records priced
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-sm text-white/70 flex items-center gap-1">
+              <TrendingUp className="w-4 h-4" /> Biggest gainers since purchase
+            </div>
+            {summary.gainers.length === 0 ? (
+              <div className="text-sm text-white/50">No purchase prices to compare yet</div>
+            ) : (
+              <ul className="text-sm space-y-0.5">
+                {summary.gainers.map(gainer => (
+                  <li key={gainer.releaseId} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {gainer.artist} – {gainer.title}
+                    </span>
+                    <span className="text-green-400 shrink-0">
+                      +{formatMoney(gainer.gain, currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-1 text-white/80">
+            <div className="text-sm text-white/70">History</div>
+            <ValueHistoryChart history={history} />
+            {first && history.length > 1 && (
+              <div className="text-xs text-white/60">
+                {formatMoney(first.total_value, first.currency)} on{' '}
+                {new Date(first.taken_at).toLocaleDateString()} · {history.length} snapshots
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 text-red-400 text-sm bg-red-500/10 p-2 rounded border border-red-500/20">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CollectionValue
@@ -104,12 +104,10 @@ export function ErrorScreen({ error, onRetry, onClearCache, showConfigHelp = fal
               <h3 className="text-lg font-bold text-white mb-4">Setup Instructions:</h3>
               <ol className="text-sm text-white/70 space-y-2 list-decimal list-inside">
                 <li>Go to <a href="https://www.discogs.com/settings/developers" target="_blank" rel="noopener noreferrer" className="text-bn-electric-teal hover:underline">Discogs Developer Settings</a></li>
-                <li>Generate a Personal Access Token</li>
-                <li>Copy your Discogs username</li>
-                <li>Edit the <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">.env</code> file in your project</li>
-                <li>Set <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">VITE_DISCOGS_PERSONAL_ACCESS_TOKEN</code></li>
-                <li>Set <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">VITE_DISCOGS_USERNAME</code></li>
-                <li>Restart the development server</li>
+                <li>Register an application and copy its consumer key and secret</li>
+                <li>Set <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">DISCOGS_CONSUMER_KEY</code> and <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">DISCOGS_CONSUMER_SECRET</code> in the server environment (never as <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">VITE_</code> variables)</li>
+                <li>Set <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">VITE_DISCOGS_USERNAME</code> in your <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">.env</code> file</li>
+                <li>Restart the development server with <code className="bg-white/10 px-2 py-1 rounded text-bn-bright-yellow">vercel dev</code></li>
               </ol>
             </motion.div>
           )}
@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import { VinylRecord } from '../data/vinylRecords'
+import { getStylesByGenre } from '../utils/filterUtils'
+import { FACETS, FacetKey, FacetMode, FacetOption, FacetOptions, FacetState } from '../utils/facets'
+
+interface FacetPanelProps {
+  records: VinylRecord[]
+  facets: FacetState
+  options: FacetOptions
+  onToggle: (key: FacetKey, value: string) => void
+  onModeChange: (key: FacetKey, mode: FacetMode) => void
+  onClear: (key: FacetKey) => void
+}
+
+// Options shown per facet before "show all"; artists and labels run into the hundreds
+const VISIBLE_OPTIONS = 12
+
+const MODE_OPTIONS: Array<{ value: FacetMode; label: string; title: string }> = [
+  { value: 'or', label: 'ANY', title: 'Records with any of the selected values' },
+  { value: 'and', label: 'ALL', title: 'Records with all of the selected values' },
+]
+
+/**
+ * Multi-select facets with live counts. Styles are listed under the genre they belong to.
+ */
+export function FacetPanel({
+  records,
+  facets,
+  options,
+  onToggle,
+  onModeChange,
+  onClear,
+}: FacetPanelProps) {
+  const [expanded, setExpanded] = useState<FacetKey[]>([])
+
+  const styleGenres = useMemo(() => {
+    const genres = new Map<string, string>()
+    getStylesByGenre(records).forEach(group =>
+      group.styles.forEach(style => genres.set(style.toLowerCase(), group.genre))
+    )
+    return genres
+  }, [records])
+
+  const getStyleGenre = (style: string) => styleGenres.get(style.toLowerCase()) || ''
+
+  const toggleExpanded = (key: FacetKey) =>
+    setExpanded(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]))
+
+  // Selected options and anything with matches; dead ends are left out
+  const getShownOptions = (key: FacetKey): FacetOption[] => {
+    const shown = options[key].filter(option => option.selected || option.count > 0)
+    if (key !== 'style') return shown
+    return [...shown].sort((a, b) => getStyleGenre(a.value).localeCompare(getStyleGenre(b.value)))
+  }
+
+  const renderOption = (key: FacetKey, option: FacetOption) => (
+    <button
+      key={option.value}
+      onClick={() => onToggle(key, option.value)}
+      className={`px-3 py-1.5 rounded-sm text-xs font-bold transition-colors duration-300 ${
+        option.selected ? 'text-black' : 'text-white/80 bg-white/10 hover:text-bn-electric-teal'
+      }`}
+      style={option.selected ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined}
+      aria-pressed={option.selected}
+    >
+      {option.value}
+      <span className="ml-2 opacity-60">{option.count}</span>
+    </button>
+  )
+
+  return (
+    <div className="grid md:grid-cols-2 gap-8">
+      {FACETS.map(facet => {
+        const shown = getShownOptions(facet.key)
+        if (shown.length === 0) return null
+
+        const selection = facets[facet.key]
+        const isExpanded = expanded.includes(facet.key)
+        const visible = isExpanded ? shown : shown.slice(0, VISIBLE_OPTIONS)
+
+        return (
+          <div key={facet.key} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-black tracking-[0.2em] uppercase text-white/60">
+                  {facet.label}
+                </span>
+                {selection.values.length > 0 && (
+                  <button
+                    onClick={() => onClear(facet.key)}
+                    className="text-white/50 hover:text-bn-electric-teal transition-colors duration-300"
+                    title={`Clear ${facet.label.toLowerCase()}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {/* AND/OR within the facet; single-valued facets can only match any */}
+              {facet.multiValued && (
+                <div
+                  className="flex rounded-sm overflow-hidden"
+                  style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+                >
+                  {MODE_OPTIONS.map(mode => {
+                    const isActive = selection.mode === mode.value
+                    return (
+                      <button
+                        key={mode.value}
+                        onClick={() => onModeChange(facet.key, mode.value)}
+                        className={`px-2 py-0.5 text-[10px] font-black tracking-[0.15em] transition-colors duration-300 ${
+                          isActive ? 'text-black' : 'text-white/60 hover:text-bn-electric-teal'
+                        }`}
+                        style={{
+                          backgroundColor: isActive ? 'var(--bn-electric-teal)' : 'transparent',
+                        }}
+                        aria-pressed={isActive}
+                        title={mode.title}
+                      >
+                        {mode.label}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 items-center">
+              {visible.map((option, index) => {
+                const genre = facet.key === 'style' ? getStyleGenre(option.value) : ''
+                const startsGroup =
+                  facet.key === 'style' &&
+                  (index === 0 || getStyleGenre(visible[index - 1].value) !== genre)
+                return startsGroup && genre ? (
+                  <span key={`${genre}-${option.value}`} className="contents">
+                    <span className="w-full text-[10px] font-black tracking-[0.15em] uppercase text-white/40 pt-1">
+                      {genre}
+                    </span>
+                    {renderOption(facet.key, option)}
+                  </span>
+                ) : (
+                  renderOption(facet.key, option)
+                )
+              })}
+
+              {shown.length > VISIBLE_OPTIONS && (
+                <button
+                  onClick={() => toggleExpanded(facet.key)}
+                  className="px-3 py-1.5 text-xs font-black tracking-wide uppercase text-bn-electric-teal hover:text-white transition-colors duration-300"
+                >
+                  {isExpanded ? 'Show less' : `+${shown.length - VISIBLE_OPTIONS} more`}
+                </button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
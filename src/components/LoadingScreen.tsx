@@ -62,6 +62,16 @@ export function LoadingScreen({ progress, message, onBackToCollection, showBackB
 
   const displayMessage = getWittyMessage(phase, message);
 
+  // Live Discogs API budget (only known once the first response has come back)
+  const rateLimit = progress?.rateLimit;
+  const hasBudget = rateLimit && rateLimit.remaining !== null && rateLimit.limit;
+  const budgetPercent = hasBudget
+    ? Math.min(100, ((rateLimit.remaining ?? 0) / (rateLimit.limit ?? 1)) * 100)
+    : 0;
+  const pauseSeconds = rateLimit?.pausedUntil
+    ? Math.max(0, Math.ceil((rateLimit.pausedUntil - Date.now()) / 1000))
+    : 0;
+
   // Use consistent teal color throughout
   const phaseColor = 'var(--bn-electric-teal)';
 
@@ -433,6 +443,35 @@ export function LoadingScreen({ progress, message, onBackToCollection, showBackB
                 <span>of {progress.totalPages}</span>
               </p>
             )}
+
+            {hasBudget && (
+              <div className="mt-4">
+                <div className="w-full bg-white/10 rounded-sm h-1 overflow-hidden">
+                  <div
+                    className="h-1 rounded-sm transition-all duration-500"
+                    style={{
+                      width: `${budgetPercent}%`,
+                      backgroundColor: pauseSeconds > 0 ? 'var(--bn-bright-yellow)' : phaseColor
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-white/50 mt-2 font-medium uppercase tracking-wide">
+                  <span>API budget</span>
+                  <span className="mx-2" style={{ color: phaseColor }}>{rateLimit.remaining}</span>
+                  <span>of {rateLimit.limit}</span>
+                  <span className="mx-2">·</span>
+                  <span>{rateLimit.concurrency} parallel</span>
+                  {pauseSeconds > 0 && (
+                    <span className="block mt-1" style={{ color: 'var(--bn-bright-yellow)' }}>
+                      Cooling down for {pauseSeconds}s
+                    </span>
+                  )}
+                  {rateLimit.throttledCount > 0 && (
+                    <span className="block mt-1">Throttled {rateLimit.throttledCount}×</span>
+                  )}
+                </p>
+              </div>
+            )}
           </div>
         )}
 
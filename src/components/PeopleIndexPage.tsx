@@ -0,0 +1,241 @@
+import { useState, useMemo, useEffect } from 'react'
+import { ArrowLeft, Search } from 'lucide-react'
+import { VinylRecord } from '../data/vinylRecords'
+import { ImageWithFallback } from './figma/ImageWithFallback'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { buildPeopleIndex, CreditCategory, CREDIT_CATEGORIES } from '../utils/personnel'
+
+interface PeopleIndexPageProps {
+  records: VinylRecord[]
+  onBack: () => void
+  onFilter: (type: 'person', value: string) => void
+  onRecordClick: (record: VinylRecord) => void
+}
+
+// People are rendered in pages; a large collection credits thousands of names
+const PAGE_SIZE = 60
+
+/**
+ * Every credited person in the collection (leaders and sidemen alike) with the records they play on
+ */
+export function PeopleIndexPage({
+  records,
+  onBack,
+  onFilter,
+  onRecordClick,
+}: PeopleIndexPageProps) {
+  const [query, setQuery] = useState('')
+  const [category, setCategory] = useState<CreditCategory | null>(null)
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  const people = useMemo(() => buildPeopleIndex(records), [records])
+
+  // Only offer categories somebody in the collection is credited under
+  const categories = useMemo(
+    () => CREDIT_CATEGORIES.filter(c => people.some(person => person.categories.includes(c))),
+    [people]
+  )
+
+  const matchingPeople = useMemo(() => {
+    const term = query.trim().toLowerCase()
+    return people.filter(
+      person =>
+        (!term || person.name.toLowerCase().includes(term)) &&
+        (!category || person.categories.includes(category))
+    )
+  }, [people, query, category])
+
+  // Start from the first page whenever the list changes
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE)
+  }, [query, category])
+
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [])
+
+  // Opens the collection filtered to the person's records
+  const handlePersonClick = (name: string) => {
+    onFilter('person', name)
+  }
+
+  return (
+    <div
+      className="min-h-screen relative overflow-hidden"
+      style={{
+        background: `linear-gradient(135deg,
+          var(--bn-navy) 0%,
+          var(--bn-deep-blue) 25%,
+          #1a2847 50%,
+          var(--bn-navy) 75%,
+          #0f1729 100%)`,
+      }}
+    >
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 p-8">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="flex items-center space-x-3 px-6 py-3 font-black tracking-wide uppercase border-2 text-white hover:text-bn-electric-teal hover:border-bn-electric-teal transition-colors duration-300"
+          style={{
+            background: 'rgba(30, 58, 138, 0.2)',
+            backdropFilter: 'blur(10px)',
+            borderColor: 'rgba(255, 255, 255, 0.2)',
+          }}
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Collection</span>
+        </Button>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-8 pb-20 pt-32 relative z-10 space-y-12">
+        {/* Title */}
+        <div className="flex items-end justify-between">
+          <h1
+            className="text-7xl md:text-9xl font-black leading-none"
+            style={{ color: 'var(--bn-electric-teal)', letterSpacing: '-0.05em' }}
+          >
+            PEOPLE
+          </h1>
+          <div className="text-right pb-2">
+            <div
+              className="text-5xl md:text-6xl font-black leading-none"
+              style={{ color: 'var(--bn-bright-yellow)' }}
+            >
+              {matchingPeople.length}
+            </div>
+            <div className="text-xs font-black tracking-[0.1em] uppercase text-white/80 mt-2">
+              CREDITED
+            </div>
+          </div>
+        </div>
+
+        {/* Search and category filter */}
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 z-10" />
+            <Input
+              type="text"
+              placeholder="Search musicians, engineers, designers..."
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              className="pl-14 py-4 text-white placeholder:text-white/60 font-medium bg-transparent focus:border-bn-electric-teal"
+              style={{
+                background: 'rgba(15, 23, 42, 0.9)',
+                border: 'none',
+                borderRadius: '8px',
+                fontSize: '16px',
+                height: '56px',
+              }}
+            />
+          </div>
+
+          {categories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {[null, ...categories].map(option => {
+                const isActive = category === option
+                return (
+                  <button
+                    key={option || 'all'}
+                    onClick={() => setCategory(option)}
+                    className={`px-4 py-2 rounded-sm text-xs font-black tracking-[0.15em] uppercase transition-colors duration-300 ${
+                      isActive
+                        ? 'text-black'
+                        : 'text-white/70 bg-white/10 hover:text-bn-electric-teal'
+                    }`}
+                    style={isActive ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined}
+                    aria-pressed={isActive}
+                  >
+                    {option || 'Everyone'}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* People */}
+        {matchingPeople.length > 0 ? (
+          <div className="grid md:grid-cols-2 gap-6">
+            {matchingPeople.slice(0, visibleCount).map(person => (
+              <div
+                key={person.name}
+                className="p-6 rounded-sm space-y-4"
+                style={{ background: 'rgba(30, 58, 138, 0.1)', backdropFilter: 'blur(10px)' }}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2
+                      className="text-2xl font-black text-white hover:text-bn-electric-teal transition-colors duration-300 cursor-pointer"
+                      onClick={() => handlePersonClick(person.name)}
+                      title={`View all records with ${person.name}`}
+                    >
+                      {person.name}
+                    </h2>
+                    <div className="text-sm font-medium text-white/60">
+                      {person.roles.slice(0, 4).join(', ')}
+                      {person.roles.length > 4 && ` +${person.roles.length - 4} more`}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div
+                      className="text-2xl font-black"
+                      style={{ color: 'var(--bn-vibrant-orange)' }}
+                    >
+                      {person.appearances.length}
+                    </div>
+                    <div className="text-xs font-black tracking-[0.1em] uppercase text-white/60">
+                      {person.appearances.length === 1 ? 'RECORD' : 'RECORDS'}
+                    </div>
+                  </div>
+                </div>
+
+                <ul className="space-y-2">
+                  {person.appearances.map(({ record, roles }) => (
+                    <li
+                      key={record.id}
+                      className="flex items-center gap-3 cursor-pointer group"
+                      onClick={() => onRecordClick(record)}
+                    >
+                      <ImageWithFallback
+                        src={record.coverUrl}
+                        alt={`${record.title} by ${record.artist}`}
+                        className="w-10 h-10 object-cover rounded-sm shrink-0"
+                      />
+                      <div className="min-w-0">
+                        <div className="text-sm font-bold text-white truncate group-hover:text-bn-electric-teal transition-colors duration-300">
+                          {record.title}
+                          <span className="font-medium text-white/50"> – {record.artist}</span>
+                        </div>
+                        <div className="text-xs font-medium text-white/50 truncate">
+                          {roles.join(', ')}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-24 text-2xl font-bold text-white">
+            {people.length > 0 ? 'NO PEOPLE MATCH YOUR SEARCH' : 'NO CREDITS SYNCED YET'}
+          </div>
+        )}
+
+        {matchingPeople.length > visibleCount && (
+          <div className="text-center">
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="px-6 py-3 rounded-sm font-black tracking-wide uppercase transition-colors duration-300 text-black"
+              style={{ backgroundColor: 'var(--bn-electric-teal)' }}
+            >
+              Show More ({matchingPeople.length - visibleCount} left)
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
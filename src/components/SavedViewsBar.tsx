@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import { Bookmark, Check, Link2, Pin, PinOff, Trash2 } from 'lucide-react'
+import { SavedView } from '../utils/viewState'
+
+interface SavedViewsBarProps {
+  views: SavedView[]
+  currentQuery: string // The view being shown, to mark the matching saved view
+  onApply: (query: string) => void
+  onSave: (name: string) => void
+  onRemove: (id: string) => void
+  onTogglePinned: (id: string) => void
+  error?: string | null // Loading or saving the views failed
+}
+
+// Link that opens the collection on a view
+function getViewUrl(query: string): string {
+  return `${window.location.origin}/${query ? `?${query}` : ''}`
+}
+
+// "label: Blue Note · decade: 1960s", for the tooltip
+function describeQuery(query: string): string {
+  const params = Array.from(new URLSearchParams(query))
+  if (params.length === 0) return 'Whole collection'
+  return params.map(([key, value]) => `${key}: ${value}`).join(' · ')
+}
+
+/**
+ * Pinned saved views as one-click chips, plus a panel to save the current view and manage the rest
+ */
+export function SavedViewsBar({
+  views,
+  currentQuery,
+  onApply,
+  onSave,
+  onRemove,
+  onTogglePinned,
+  error,
+}: SavedViewsBarProps) {
+  const [showManager, setShowManager] = useState(false)
+  const [name, setName] = useState('')
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [copyError, setCopyError] = useState<string | null>(null)
+
+  const pinnedViews = views.filter(view => view.pinned)
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    onSave(name)
+    setName('')
+  }
+
+  const handleCopyLink = async (view: SavedView) => {
+    setCopyError(null)
+    try {
+      await navigator.clipboard.writeText(getViewUrl(view.query))
+      setCopiedId(view.id)
+      setTimeout(() => setCopiedId(current => (current === view.id ? null : current)), 2000)
+    } catch {
+      setCopyError(`Couldn't copy the link. It is ${getViewUrl(view.query)}`)
+    }
+  }
+
+  const chipClass = (isActive: boolean) =>
+    `px-4 py-2 rounded-sm text-xs font-black tracking-[0.15em] uppercase transition-colors duration-300 ${
+      isActive ? 'text-black' : 'text-white/70 bg-white/10 hover:text-bn-electric-teal'
+    }`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {pinnedViews.map(view => {
+          const isActive = view.query === currentQuery
+          return (
+            <button
+              key={view.id}
+              onClick={() => onApply(view.query)}
+              className={chipClass(isActive)}
+              style={isActive ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined}
+              aria-pressed={isActive}
+            >
+              {view.name}
+            </button>
+          )
+        })}
+
+        <button
+          onClick={() => setShowManager(show => !show)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-sm text-xs font-black tracking-[0.15em] uppercase transition-colors duration-300 hover:text-bn-electric-teal ${
+            showManager ? 'text-bn-electric-teal' : 'text-white/70'
+          }`}
+          style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+          aria-expanded={showManager}
+          title="Save this view or manage saved views"
+        >
+          <Bookmark className="w-3 h-3" />
+          <span>{pinnedViews.length > 0 ? 'VIEWS' : 'SAVE VIEW'}</span>
+        </button>
+      </div>
+
+      {(error || copyError) && (
+        <p className="text-xs font-medium text-bn-vibrant-orange" role="alert">
+          {error || copyError}
+        </p>
+      )}
+
+      {showManager && (
+        <div
+          className="p-6 rounded-lg space-y-4"
+          style={{ background: 'rgba(15, 23, 42, 0.9)', backdropFilter: 'blur(12px)' }}
+        >
+          <form onSubmit={handleSave} className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Name this view, e.g. Blue Note 1960s"
+              className="flex-1 px-4 py-2 rounded-sm bg-white/10 text-white placeholder:text-white/50 font-medium outline-none focus:ring-2 focus:ring-bn-electric-teal"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 rounded-sm text-xs font-black tracking-[0.15em] uppercase text-black disabled:opacity-50"
+              style={{ backgroundColor: 'var(--bn-electric-teal)' }}
+            >
+              SAVE
+            </button>
+          </form>
+
+          {views.length > 0 ? (
+            <ul className="space-y-1">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center justify-between gap-4 group">
+                  <button
+                    onClick={() => onApply(view.query)}
+                    className={`text-sm font-bold truncate transition-colors duration-300 hover:text-bn-electric-teal ${
+                      view.query === currentQuery ? 'text-bn-electric-teal' : 'text-white'
+                    }`}
+                    title={describeQuery(view.query)}
+                  >
+                    {view.name}
+                  </button>
+                  <div className="flex items-center gap-3 text-white/50 shrink-0">
+                    <button
+                      onClick={() => onTogglePinned(view.id)}
+                      className="hover:text-bn-electric-teal transition-colors duration-300"
+                      title={view.pinned ? 'Unpin from the header' : 'Pin to the header'}
+                    >
+                      {view.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleCopyLink(view)}
+                      className="hover:text-bn-electric-teal transition-colors duration-300"
+                      title="Copy a link to this view"
+                    >
+                      {copiedId === view.id ? (
+                        <Check className="w-4 h-4" />
+                      ) : (
+                        <Link2 className="w-4 h-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => onRemove(view.id)}
+                      className="hover:text-bn-vibrant-orange transition-colors duration-300"
+                      title="Delete this view"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm font-medium text-white/50">
+              Saved views keep the search, filters and sort. The page address links to the current
+              view too.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import { useState, useMemo, useRef } from 'react'
+import { Search, X, AlertCircle } from 'lucide-react'
+import { Input } from './ui/input'
+import { VinylRecord } from '../data/vinylRecords'
+import {
+  QueryError,
+  QuerySuggestion,
+  applyQuerySuggestion,
+  getQuerySuggestions,
+} from '../utils/searchQuery'
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  records: VinylRecord[] // Source of autocomplete values
+  errors: QueryError[]
+}
+
+/**
+ * The collection search box: plain words or field queries (`artist:"Art Blakey" year:1958..1965`),
+ * with field and value suggestions at the cursor and parse errors underneath
+ */
+export function SearchQueryInput({ value, onChange, records, errors }: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [isFocused, setIsFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [dismissed, setDismissed] = useState(false)
+
+  const suggestions = useMemo(
+    () => (isFocused && !dismissed ? getQuerySuggestions(value, cursor, records) : []),
+    [value, cursor, records, isFocused, dismissed]
+  )
+
+  const updateCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length)
+
+  const handleChange = (next: string, nextCursor: number | null) => {
+    onChange(next)
+    setCursor(nextCursor ?? next.length)
+    setHighlighted(0)
+    setDismissed(false)
+  }
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const { query, cursor: nextCursor } = applyQuerySuggestion(value, suggestion)
+    handleChange(query, nextCursor)
+    // Put the caret after the inserted text once React has rendered the new value
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted(index => (index + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)])
+    } else if (e.key === 'Escape') {
+      setDismissed(true)
+    }
+  }
+
+  return (
+    <div className="flex-1 relative min-w-0">
+      <Search
+        className="absolute left-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 z-10 transition-colors duration-300"
+        style={{
+          color: value ? 'var(--bn-electric-teal)' : 'rgba(255, 255, 255, 0.5)',
+        }}
+      />
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder='Search, or try artist:"Art Blakey" year:1958..1965 -genre:Funk'
+        value={value}
+        onChange={e => handleChange(e.target.value, e.target.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        // Let a click on a suggestion land before the list goes away
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        className="pl-14 pr-14 py-4 text-white placeholder:text-white font-medium bg-transparent transition-all duration-300 hover:border-bn-electric-teal focus:text-bn-electric-teal focus:border-bn-electric-teal"
+        style={{
+          background: 'rgba(15, 23, 42, 0.9)',
+          backdropFilter: 'blur(12px)',
+          border: 'none',
+          borderRadius: '8px',
+          fontSize: '16px',
+          height: '56px',
+        }}
+        aria-invalid={errors.length > 0}
+        aria-autocomplete="list"
+      />
+      {/* Clear search button */}
+      {value && (
+        <button
+          onClick={() => handleChange('', 0)}
+          className="absolute right-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 hover:text-bn-electric-teal transition-colors duration-300 z-10 cursor-pointer"
+          title="Clear search"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      )}
+
+      {/* Suggestions for the word at the cursor */}
+      {suggestions.length > 0 ? (
+        <ul
+          className="absolute left-0 right-0 top-full mt-2 z-50 rounded-lg overflow-hidden border-2"
+          style={{
+            background: 'var(--bn-navy)',
+            borderColor: 'var(--bn-electric-teal)',
+            boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)',
+          }}
+          role="listbox"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.insertText}-${index}`}
+              onMouseDown={e => {
+                e.preventDefault() // Keep focus in the input
+                applySuggestion(suggestion)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex items-center justify-between px-4 py-2 cursor-pointer font-bold transition-colors duration-200 ${
+                index === highlighted ? 'bg-bn-electric-teal text-black' : 'text-white'
+              }`}
+              role="option"
+              aria-selected={index === highlighted}
+            >
+              <span>{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs font-medium opacity-60 ml-4">
+                  {suggestion.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        errors.length > 0 && (
+          <div className="absolute left-0 right-0 top-full mt-2 z-40 space-y-1" role="alert">
+            {errors.map(error => (
+              <div
+                key={`${error.start}-${error.message}`}
+                className="flex items-center gap-2 text-sm font-bold"
+                style={{ color: 'var(--bn-vibrant-orange)' }}
+              >
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span>
+                  {error.message}
+                  <span className="font-medium text-white/50">
+                    {' '}
+                    — {value.slice(error.start, error.end)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
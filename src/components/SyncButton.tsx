@@ -7,10 +7,31 @@ interface SyncButtonProps {
   lastSync?: Date | null;
   hasCache: boolean;
   className?: string;
+  pendingChanges?: number; // Local edits waiting to be pushed to Discogs
+  conflicts?: number; // Edits held back because Discogs changed since the last sync
+  isPushing?: boolean;
+  onPushChanges?: () => void;
+  onResolveConflicts?: (resolution: 'keep-local' | 'keep-discogs') => void;
+  canResume?: boolean; // An interrupted sync can be continued
+  onResume?: () => Promise<void>;
 }
 
-export function SyncButton({ onSync, isLoading, lastSync, hasCache, className = "" }: SyncButtonProps) {
+export function SyncButton({
+  onSync,
+  isLoading,
+  lastSync,
+  hasCache,
+  className = "",
+  pendingChanges = 0,
+  conflicts = 0,
+  isPushing = false,
+  onPushChanges,
+  onResolveConflicts,
+  canResume = false,
+  onResume
+}: SyncButtonProps) {
   const [showOptions, setShowOptions] = useState(false);
+  const hasOptions = hasCache || (canResume && !!onResume);
 
   // Close options when clicking outside
   useEffect(() => {
@@ -26,6 +47,11 @@ export function SyncButton({ onSync, isLoading, lastSync, hasCache, className =
     await onSync(forceRefresh);
   };
 
+  const handleResume = async () => {
+    setShowOptions(false);
+    await onResume?.();
+  };
+
   const formatLastSync = (date: Date | null) => {
     if (!date) return "Never synced";
     
@@ -49,12 +75,62 @@ export function SyncButton({ onSync, isLoading, lastSync, hasCache, className =
           Last sync: {formatLastSync(lastSync)}
         </p>
       )}
+
+      {/* Pending write-back indicator */}
+      {pendingChanges > 0 && (
+        <div className="flex items-center justify-end space-x-2 text-xs text-white/70 mb-3">
+          <motion.span
+            className="w-2 h-2 rounded-full"
+            style={{ backgroundColor: 'var(--bn-bright-yellow)' }}
+            animate={isPushing ? { opacity: [0.4, 1, 0.4] } : {}}
+            transition={isPushing ? { duration: 1.2, repeat: Infinity } : {}}
+          />
+          <span>
+            {isPushing
+              ? 'Pushing to Discogs...'
+              : `${pendingChanges} change${pendingChanges === 1 ? '' : 's'} not yet on Discogs`}
+          </span>
+          {onPushChanges && !isPushing && (
+            <button
+              onClick={onPushChanges}
+              className="font-bold text-bn-electric-teal hover:text-white transition-colors"
+            >
+              PUSH
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Conflicts: Discogs was edited more recently than our copy */}
+      {conflicts > 0 && (
+        <div className="text-xs text-right mb-3">
+          <p className="text-bn-vibrant-orange font-medium">
+            {conflicts} change{conflicts === 1 ? '' : 's'} conflict with newer edits on Discogs
+          </p>
+          {onResolveConflicts && (
+            <div className="mt-1 space-x-3">
+              <button
+                onClick={() => onResolveConflicts('keep-local')}
+                className="font-bold text-white/80 hover:text-bn-electric-teal transition-colors"
+              >
+                KEEP MINE
+              </button>
+              <button
+                onClick={() => onResolveConflicts('keep-discogs')}
+                className="font-bold text-white/80 hover:text-bn-electric-teal transition-colors"
+              >
+                KEEP DISCOGS
+              </button>
+            </div>
+          )}
+        </div>
+      )}
       
       {/* Main sync button */}
       <motion.button
         onClick={(e) => {
           e.stopPropagation();
-          if (hasCache) {
+          if (hasOptions) {
             setShowOptions(!showOptions);
           } else {
             handleSync(false);
@@ -86,7 +162,7 @@ export function SyncButton({ onSync, isLoading, lastSync, hasCache, className =
         </span>
 
         {/* Arrow for dropdown */}
-        {hasCache && (
+        {hasOptions && (
           <motion.div
             className="w-0 h-0 ml-1"
             style={{
@@ -101,7 +177,7 @@ export function SyncButton({ onSync, isLoading, lastSync, hasCache, className =
       </motion.button>
 
       {/* Dropdown options */}
-      {showOptions && hasCache && (
+      {showOptions && hasOptions && (
         <motion.div
           className="absolute top-full right-0 mt-2 backdrop-blur-sm border border-white/20 overflow-hidden z-50 min-w-full"
           style={{
@@ -115,6 +191,21 @@ export function SyncButton({ onSync, isLoading, lastSync, hasCache, className =
           transition={{ duration: 0.2 }}
           onClick={(e) => e.stopPropagation()}
         >
+          {canResume && onResume && (
+            <>
+              <motion.button
+                onClick={handleResume}
+                className="w-full px-4 py-3 text-left text-white font-medium hover:bg-white/10 transition-colors duration-200"
+                whileHover={{ backgroundColor: 'rgba(255, 255, 255, 0.1)' }}
+              >
+                <div className="font-semibold">Resume Sync</div>
+                <div className="text-xs text-white/70">Continue where the last sync stopped</div>
+              </motion.button>
+
+              <div className="border-t border-white/10" />
+            </>
+          )}
+
           <motion.button
             onClick={() => handleSync(false)}
             className="w-full px-4 py-3 text-left text-white font-medium hover:bg-white/10 transition-colors duration-200"
@@ -0,0 +1,202 @@
+import { useState, useMemo, useEffect } from 'react'
+import { ArrowLeft, Search } from 'lucide-react'
+import { VinylRecord, Track } from '../data/vinylRecords'
+import { ImageWithFallback } from './figma/ImageWithFallback'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { buildTrackIndex, searchTracks, TrackVersion } from '../utils/trackSearch'
+import { formatTrackDuration } from '../utils/tracklist'
+
+interface TrackSearchPageProps {
+  records: VinylRecord[]
+  onBack: () => void
+  onTrackClick: (record: VinylRecord, track: Track) => void
+}
+
+// Compositions are rendered in pages; a broad word can match thousands of tracks
+const PAGE_SIZE = 40
+
+// "Side A · A1", or whichever of the two is known
+function formatTrackPlace({ side, track }: TrackVersion): string {
+  const sideLabel = side ? `Side ${side}` : ''
+  const position = track.position && track.position !== side ? track.position : ''
+  return [sideLabel, position].filter(Boolean).join(' · ')
+}
+
+/**
+ * Which records hold a tune: track titles across the collection, with versions of the same
+ * composition grouped together
+ */
+export function TrackSearchPage({ records, onBack, onTrackClick }: TrackSearchPageProps) {
+  const [query, setQuery] = useState('')
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  const trackIndex = useMemo(() => buildTrackIndex(records), [records])
+  const compositions = useMemo(() => searchTracks(trackIndex, query), [trackIndex, query])
+
+  // Start from the first page whenever the list changes
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE)
+  }, [query])
+
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [])
+
+  const getEmptyText = () => {
+    if (trackIndex.length === 0) return 'NO TRACKLISTS SYNCED YET'
+    return query.trim() ? 'NO TRACKS MATCH YOUR SEARCH' : 'EVERY TUNE APPEARS ONLY ONCE'
+  }
+
+  return (
+    <div
+      className="min-h-screen relative overflow-hidden"
+      style={{
+        background: `linear-gradient(135deg,
+          var(--bn-navy) 0%,
+          var(--bn-deep-blue) 25%,
+          #1a2847 50%,
+          var(--bn-navy) 75%,
+          #0f1729 100%)`,
+      }}
+    >
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 p-8">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="flex items-center space-x-3 px-6 py-3 font-black tracking-wide uppercase border-2 text-white hover:text-bn-electric-teal hover:border-bn-electric-teal transition-colors duration-300"
+          style={{
+            background: 'rgba(30, 58, 138, 0.2)',
+            backdropFilter: 'blur(10px)',
+            borderColor: 'rgba(255, 255, 255, 0.2)',
+          }}
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Collection</span>
+        </Button>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-8 pb-20 pt-32 relative z-10 space-y-12">
+        {/* Title */}
+        <div className="flex items-end justify-between">
+          <h1
+            className="text-7xl md:text-9xl font-black leading-none"
+            style={{ color: 'var(--bn-electric-teal)', letterSpacing: '-0.05em' }}
+          >
+            TRACKS
+          </h1>
+          <div className="text-right pb-2">
+            <div
+              className="text-5xl md:text-6xl font-black leading-none"
+              style={{ color: 'var(--bn-bright-yellow)' }}
+            >
+              {compositions.length}
+            </div>
+            <div className="text-xs font-black tracking-[0.1em] uppercase text-white/80 mt-2">
+              {query.trim() ? 'MATCHING' : 'IN SEVERAL VERSIONS'}
+            </div>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50 z-10" />
+          <Input
+            type="text"
+            placeholder="Which records have 'Round Midnight?"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className="pl-14 py-4 text-white placeholder:text-white/60 font-medium bg-transparent focus:border-bn-electric-teal"
+            style={{
+              background: 'rgba(15, 23, 42, 0.9)',
+              border: 'none',
+              borderRadius: '8px',
+              fontSize: '16px',
+              height: '56px',
+            }}
+            autoFocus
+          />
+        </div>
+
+        {/* Compositions */}
+        {compositions.length > 0 ? (
+          <div className="grid md:grid-cols-2 gap-6">
+            {compositions.slice(0, visibleCount).map(composition => (
+              <div
+                key={composition.key}
+                className="p-6 rounded-sm space-y-4"
+                style={{ background: 'rgba(30, 58, 138, 0.1)', backdropFilter: 'blur(10px)' }}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <h2 className="text-2xl font-black text-white">{composition.title}</h2>
+                  <div className="text-right shrink-0">
+                    <div
+                      className="text-2xl font-black"
+                      style={{ color: 'var(--bn-vibrant-orange)' }}
+                    >
+                      {composition.versions.length}
+                    </div>
+                    <div className="text-xs font-black tracking-[0.1em] uppercase text-white/60">
+                      {composition.versions.length === 1 ? 'VERSION' : 'VERSIONS'}
+                    </div>
+                  </div>
+                </div>
+
+                <ul className="space-y-2">
+                  {composition.versions.map((version, index) => (
+                    <li
+                      key={`${version.record.id}-${index}`}
+                      className="flex items-center gap-3 cursor-pointer group"
+                      onClick={() => onTrackClick(version.record, version.track)}
+                      title="Open the record at this track"
+                    >
+                      <ImageWithFallback
+                        src={version.record.coverUrl}
+                        alt={`${version.record.title} by ${version.record.artist}`}
+                        className="w-10 h-10 object-cover rounded-sm shrink-0"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm font-bold text-white truncate group-hover:text-bn-electric-teal transition-colors duration-300">
+                          {version.record.title}
+                          <span className="font-medium text-white/50">
+                            {' '}
+                            – {version.record.artist}
+                          </span>
+                        </div>
+                        <div className="text-xs font-medium text-white/50 truncate">
+                          {[formatTrackPlace(version), version.track.title]
+                            .filter(Boolean)
+                            .join(' — ')}
+                        </div>
+                      </div>
+                      {version.seconds > 0 && (
+                        <div className="text-sm font-bold text-white/60 shrink-0">
+                          {formatTrackDuration(version.seconds)}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-24 text-2xl font-bold text-white">{getEmptyText()}</div>
+        )}
+
+        {compositions.length > visibleCount && (
+          <div className="text-center">
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="px-6 py-3 rounded-sm font-black tracking-wide uppercase transition-colors duration-300 text-black"
+              style={{ backgroundColor: 'var(--bn-electric-teal)' }}
+            >
+              Show More ({compositions.length - visibleCount} left)
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
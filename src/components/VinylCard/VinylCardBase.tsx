@@ -18,7 +18,7 @@ function VinylCardBaseComponent({
   record,
   index: _index,
   onClick,
-  onFilter: _onFilter,
+  onFilter,
   disableOverlay = false,
 }: VinylCardBaseProps) {
   const colors = useVinylCardColors(record.id)
@@ -66,7 +66,12 @@ function VinylCardBaseComponent({
         />
 
         {/* Content Overlay */}
-        <VinylCardOverlay record={record} colors={colors} disableOverlay={disableOverlay} />
+        <VinylCardOverlay
+          record={record}
+          colors={colors}
+          disableOverlay={disableOverlay}
+          onFilter={onFilter}
+        />
       </div>
     </motion.div>
   )
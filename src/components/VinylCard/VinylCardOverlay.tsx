@@ -1,20 +1,35 @@
+import { MouseEvent } from 'react'
 import { VinylRecord } from '../../data/vinylRecords'
 import { ColorScheme } from '../../constants/colorSchemes'
+import { getArtistCreditParts, getLabelNames } from '../../utils/credits'
 import { VinylCardGeometry } from './VinylCardGeometry'
 
 interface VinylCardOverlayProps {
   record: VinylRecord
   colors: ColorScheme
   disableOverlay?: boolean
+  onFilter?: (type: 'artist' | 'label', value: string) => void
 }
 
 export function VinylCardOverlay({
   record,
   colors,
   disableOverlay = false,
+  onFilter,
 }: VinylCardOverlayProps) {
   if (disableOverlay) return null
 
+  // Filter by a single artist or label without opening the album
+  const handleCreditClick = (event: MouseEvent, type: 'artist' | 'label', value: string) => {
+    if (!onFilter) return
+    event.stopPropagation()
+    onFilter(type, value)
+  }
+
+  const creditClassName = onFilter
+    ? 'cursor-pointer hover:text-bn-electric-teal transition-colors duration-300'
+    : undefined
+
   return (
     <div
       className="absolute inset-0 flex flex-col justify-center items-center text-center p-8 transform translate-y-full group-hover:translate-y-0 transition-all duration-500 ease-out overflow-hidden"
@@ -82,9 +97,41 @@ export function VinylCardOverlay({
               textShadow: '0 1px 3px rgba(0, 0, 0, 0.4)',
             }}
           >
-            {record.artist.toUpperCase()}
+            {getArtistCreditParts(record).map(({ artist, join }, index) => (
+              <span key={index}>
+                <span
+                  className={creditClassName}
+                  onClick={event => handleCreditClick(event, 'artist', artist.name)}
+                >
+                  {(artist.creditedName || artist.name).toUpperCase()}
+                </span>
+                {join.toUpperCase()}
+              </span>
+            ))}
           </p>
 
+          {/* Labels */}
+          {getLabelNames(record).length > 0 && (
+            <p
+              className="text-sm font-bold tracking-[0.15em] uppercase text-white/80"
+              style={{ textShadow: '0 1px 3px rgba(0, 0, 0, 0.4)' }}
+            >
+              {getLabelNames(record)
+                .slice(0, 2)
+                .map((label, index) => (
+                  <span key={label}>
+                    {index > 0 && ' / '}
+                    <span
+                      className={creditClassName}
+                      onClick={event => handleCreditClick(event, 'label', label)}
+                    >
+                      {label}
+                    </span>
+                  </span>
+                ))}
+            </p>
+          )}
+
           {/* Year and Genre */}
           <div className="flex flex-wrap items-center justify-center gap-3">
             <div
@@ -108,10 +155,9 @@ export function VinylCardOverlay({
               }}
             >
               <span className="truncate block">
-                {record.genres.length > 2 
+                {record.genres.length > 2
                   ? `${record.genres.slice(0, 2).join(', ')}...`
-                  : record.genres.join(', ')
-                }
+                  : record.genres.join(', ')}
               </span>
             </div>
           </div>
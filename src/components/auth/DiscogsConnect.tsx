@@ -0,0 +1,60 @@
+import { Disc3, Unlink } from 'lucide-react'
+import { useDiscogsConnection } from '../../hooks/useDiscogsConnection'
+import { Button } from '../ui/button'
+
+/**
+ * Shows the user's Discogs connection and lets them connect or disconnect their account
+ */
+export function DiscogsConnect() {
+  const [{ isConnected, username, isConnecting, error }, { connect, disconnect }] =
+    useDiscogsConnection()
+
+  if (isConnected) {
+    return (
+      <div className="flex items-center space-x-3 text-sm text-white/80">
+        <Disc3 className="w-4 h-4 text-green-400" />
+        <span>
+          Discogs: <span className="font-medium text-white">{username}</span>
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={disconnect}
+          className="text-white/70 hover:text-white hover:bg-white/10"
+          title="Disconnect Discogs"
+        >
+          <Unlink className="w-4 h-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-white">
+          <div className="font-medium">Connect your Discogs account</div>
+          <div className="text-sm text-white/70">
+            Authorize Analog Vibes to read your collection. Your Discogs tokens never leave the
+            server.
+          </div>
+        </div>
+        <Button
+          onClick={connect}
+          disabled={isConnecting}
+          className="bg-blue-600 hover:bg-blue-700 text-white shrink-0"
+        >
+          {isConnecting ? 'Connecting...' : 'Connect Discogs'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mt-3 text-red-400 text-sm bg-red-500/10 p-2 rounded border border-red-500/20">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DiscogsConnect
@@ -0,0 +1,103 @@
+import { useMemo } from 'react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { VinylGrid } from '../VinylGrid'
+import { getArtistPageData } from '../../utils/browse'
+import { BrowseLayout } from './BrowseLayout'
+import { BrowseSection } from './BrowseSection'
+import { CountList } from './CountList'
+import { DiscographySection } from './DiscographySection'
+
+interface ArtistPageProps {
+  records: VinylRecord[]
+  name: string
+  owned: VinylRecord[] // Whole collection and wantlist, for the discography whichever is shown
+  wanted: VinylRecord[]
+  onBack: () => void
+  onFilter: (type: string, value: string) => void
+  onRecordClick: (record: VinylRecord) => void
+}
+
+/**
+ * An artist's records as leader, where else they play, the labels and styles they recorded in,
+ * and their Discogs discography against the collection
+ */
+export function ArtistPage({
+  records,
+  name,
+  owned,
+  wanted,
+  onBack,
+  onFilter,
+  onRecordClick,
+}: ArtistPageProps) {
+  const artist = useMemo(() => getArtistPageData(records, name), [records, name])
+  const { summary } = artist
+
+  return (
+    <BrowseLayout
+      kicker="Artist"
+      title={artist.name}
+      onBack={onBack}
+      stats={[
+        { value: summary.total, label: 'RECORDS', color: 'var(--bn-bright-yellow)' },
+        {
+          value: artist.appearances.length,
+          label: 'AS SIDEMAN',
+          color: 'var(--bn-vibrant-orange)',
+        },
+        ...(summary.yearSpan
+          ? [{ value: summary.yearSpan, label: 'YEARS', color: 'var(--bn-electric-teal)' }]
+          : []),
+      ]}
+    >
+      {summary.total > 0 && (
+        <div className="grid md:grid-cols-3 gap-8">
+          <CountList
+            title="Labels"
+            counts={summary.counts.label}
+            onSelect={label => onFilter('label', label)}
+          />
+          <CountList
+            title="Genres"
+            counts={summary.counts.genre}
+            onSelect={genre => onFilter('genre', genre)}
+          />
+          <CountList
+            title="Styles"
+            counts={summary.counts.style}
+            onSelect={style => onFilter('style', style)}
+          />
+        </div>
+      )}
+
+      {artist.records.length > 0 && (
+        <BrowseSection title="Records">
+          <VinylGrid records={artist.records} onRecordClick={onRecordClick} onFilter={onFilter} />
+        </BrowseSection>
+      )}
+
+      {artist.appearances.length > 0 && (
+        <BrowseSection title="Also Appears On" accent="var(--bn-vibrant-orange)">
+          <VinylGrid
+            records={artist.appearances}
+            onRecordClick={onRecordClick}
+            onFilter={onFilter}
+          />
+        </BrowseSection>
+      )}
+
+      {artist.records.length === 0 && artist.appearances.length === 0 && (
+        <div className="text-center py-24 text-2xl font-bold text-white">
+          NOTHING BY {artist.name.toUpperCase()} IN THE COLLECTION
+        </div>
+      )}
+
+      <DiscographySection
+        name={artist.name}
+        owned={owned}
+        wanted={wanted}
+        onRecordClick={onRecordClick}
+      />
+    </BrowseLayout>
+  )
+}
@@ -0,0 +1,92 @@
+import { ReactNode, useEffect } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '../ui/button'
+
+export interface BrowseStat {
+  value: string | number
+  label: string
+  color: string
+}
+
+interface BrowseLayoutProps {
+  kicker: string // What kind of page: "ARTIST", "LABEL"...
+  title: string
+  stats: BrowseStat[]
+  onBack: () => void
+  children: ReactNode
+}
+
+/**
+ * Shell of the artist, label, genre and stats pages: back button, title with its statistics
+ * and the page's sections underneath
+ */
+export function BrowseLayout({ kicker, title, stats, onBack, children }: BrowseLayoutProps) {
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [title])
+
+  return (
+    <div
+      className="min-h-screen relative overflow-hidden"
+      style={{
+        background: `linear-gradient(135deg,
+          var(--bn-navy) 0%,
+          var(--bn-deep-blue) 25%,
+          #1a2847 50%,
+          var(--bn-navy) 75%,
+          #0f1729 100%)`,
+      }}
+    >
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 p-8">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="flex items-center space-x-3 px-6 py-3 font-black tracking-wide uppercase border-2 text-white hover:text-bn-electric-teal hover:border-bn-electric-teal transition-colors duration-300"
+          style={{
+            background: 'rgba(30, 58, 138, 0.2)',
+            backdropFilter: 'blur(10px)',
+            borderColor: 'rgba(255, 255, 255, 0.2)',
+          }}
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back</span>
+        </Button>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-8 pb-20 pt-32 relative z-10 space-y-16">
+        {/* Title with statistics aligned to its baseline */}
+        <div className="flex flex-wrap items-end justify-between gap-8">
+          <div className="min-w-0">
+            <div className="text-sm font-black tracking-[0.3em] uppercase text-white/60 mb-4">
+              {kicker}
+            </div>
+            <h1
+              className="text-6xl md:text-8xl font-black leading-none break-words"
+              style={{ color: 'var(--bn-electric-teal)', letterSpacing: '-0.05em' }}
+            >
+              {title.toUpperCase()}
+            </h1>
+          </div>
+          <div className="flex items-end space-x-12 pb-2">
+            {stats.map(stat => (
+              <div key={stat.label} className="text-right">
+                <div
+                  className="text-5xl md:text-6xl font-black leading-none"
+                  style={{ color: stat.color }}
+                >
+                  {stat.value}
+                </div>
+                <div className="text-xs font-black tracking-[0.1em] uppercase text-white/80 mt-2">
+                  {stat.label}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { ReactNode } from 'react'
+
+interface BrowseSectionProps {
+  title: string
+  accent?: string
+  children: ReactNode
+}
+
+/**
+ * Titled section of a browse page, with the rule used on the album page
+ */
+export function BrowseSection({
+  title,
+  accent = 'var(--bn-electric-teal)',
+  children,
+}: BrowseSectionProps) {
+  return (
+    <section className="space-y-8">
+      <div className="flex items-center space-x-6">
+        <h2 className="text-3xl font-black tracking-wide uppercase text-white">{title}</h2>
+        <div className="flex-1 h-1 rounded-full" style={{ backgroundColor: accent }} />
+      </div>
+      {children}
+    </section>
+  )
+}
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Download } from 'lucide-react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { useLabelCatalog } from '../../hooks/useLabelCatalog'
+import {
+  CatalogSlot,
+  CatalogSlotStatus,
+  CATALOG_SLOT_STATUSES,
+  buildCatalogSeries,
+  formatGapList,
+  getCatalogGaps,
+} from '../../utils/catalogNumbers'
+import { BrowseSection } from './BrowseSection'
+
+interface CatalogSeriesSectionProps {
+  label: string
+  owned: VinylRecord[]
+  wanted: VinylRecord[]
+  onRecordClick: (record: VinylRecord) => void
+}
+
+const STATUS_COLORS: Record<CatalogSlotStatus, string> = {
+  owned: 'var(--bn-electric-teal)',
+  wanted: 'var(--bn-bright-yellow)',
+  missing: 'rgba(255, 255, 255, 0.15)',
+  unknown: 'transparent',
+}
+
+const STATUS_LABELS: Record<CatalogSlotStatus, string> = {
+  owned: 'OWNED',
+  wanted: 'WANTED',
+  missing: 'MISSING',
+  unknown: 'UNLISTED',
+}
+
+// "BLP 1521 — Art Blakey – A Night At Birdland Vol. 1 (1956)"
+function describeSlot({ catalogNumber, entry, status }: CatalogSlot): string {
+  if (!entry) return `${catalogNumber} — ${status === 'unknown' ? 'no release known' : status}`
+  return `${catalogNumber} — ${entry.artist} – ${entry.title}${entry.year ? ` (${entry.year})` : ''}`
+}
+
+function downloadText(text: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * The label's catalog runs (BLP 1500, BST 84000...) as grids of every number in the run, with
+ * the owned slots filled in and the gaps exportable as CSV
+ */
+export function CatalogSeriesSection({
+  label,
+  owned,
+  wanted,
+  onRecordClick,
+}: CatalogSeriesSectionProps) {
+  const { catalog, isAvailable, isLoading, error } = useLabelCatalog(label, owned)
+  const series = useMemo(
+    () => buildCatalogSeries(label, catalog?.entries || [], owned, wanted),
+    [label, catalog, owned, wanted]
+  )
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const selected = series.find(s => s.key === selectedKey) || series[0]
+
+  // Another label's series
+  useEffect(() => {
+    setSelectedKey(null)
+  }, [label])
+
+  const getNote = () => {
+    if (!isAvailable) return 'Connect Discogs to see the numbers not in the collection yet.'
+    if (error) return `Could not load the catalog from Discogs: ${error}`
+    if (isLoading) return 'Loading the full catalog from Discogs...'
+    if (!catalog) return `${label} is not on Discogs; only the collection's numbers are shown.`
+    if (catalog.isTruncated) {
+      return `Discogs lists more ${label} releases than were loaded, which stop at ${
+        catalog.lastCatalogNumber || 'the first pages'
+      }; later numbers may show as unlisted.`
+    }
+    return null
+  }
+  const note = getNote()
+
+  if (series.length === 0 && !note) return null
+
+  return (
+    <BrowseSection title="Catalog Series" accent="var(--bn-bright-yellow)">
+      {note && <p className="text-sm font-medium text-white/60">{note}</p>}
+
+      {series.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {series.map(s => {
+            const isActive = s.key === selected.key
+            return (
+              <button
+                key={s.key}
+                onClick={() => setSelectedKey(s.key)}
+                className={`px-3 py-1 rounded-sm text-sm font-bold transition-colors duration-300 ${
+                  isActive ? 'text-black' : 'text-white/80 bg-white/10 hover:text-bn-electric-teal'
+                }`}
+                style={isActive ? { backgroundColor: 'var(--bn-bright-yellow)' } : undefined}
+                aria-pressed={isActive}
+              >
+                {s.name}
+                <span className={`ml-2 ${isActive ? 'text-black/60' : 'text-white/50'}`}>
+                  {s.counts.owned}/{s.slots.length - s.counts.unknown}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-6">
+              {CATALOG_SLOT_STATUSES.map(status => (
+                <div key={status} className="flex items-center gap-2">
+                  <div
+                    className="w-3 h-3 rounded-sm"
+                    style={{
+                      backgroundColor: STATUS_COLORS[status],
+                      border: '1px solid rgba(255, 255, 255, 0.2)',
+                    }}
+                  />
+                  <span className="text-xs font-black tracking-[0.1em] uppercase text-white/70">
+                    {selected.counts[status]} {STATUS_LABELS[status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() =>
+                downloadText(formatGapList([selected]), `${label} ${selected.name} gaps.csv`)
+              }
+              disabled={getCatalogGaps(selected).length === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-sm text-xs font-black tracking-[0.15em] uppercase text-white/70 hover:text-bn-electric-teal transition-colors duration-300 disabled:opacity-50"
+              style={{ border: '1px solid rgba(0, 196, 204, 0.3)' }}
+              title="Download the known numbers not in the collection as CSV"
+            >
+              <Download className="w-3 h-3" />
+              <span>EXPORT GAPS</span>
+            </button>
+          </div>
+
+          <div
+            className="grid gap-1"
+            style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(3.5rem, 1fr))' }}
+          >
+            {selected.slots.map(slot => {
+              const isCopy = slot.records.length > 0
+              const style = {
+                backgroundColor: STATUS_COLORS[slot.status],
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+              }
+              const className = `h-10 flex items-center justify-center rounded-sm text-xs font-bold ${
+                isCopy ? 'text-black' : 'text-white/60'
+              } ${slot.status === 'unknown' ? 'opacity-40' : ''}`
+
+              // Owned and wanted slots open the copy; missing ones open the release on Discogs
+              return isCopy ? (
+                <button
+                  key={slot.number}
+                  onClick={() => onRecordClick(slot.records[0])}
+                  className={`${className} hover:opacity-80`}
+                  style={style}
+                  title={describeSlot(slot)}
+                >
+                  {slot.number}
+                </button>
+              ) : slot.entry ? (
+                <a
+                  key={slot.number}
+                  href={`https://www.discogs.com/release/${slot.entry.releaseId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`${className} hover:text-bn-electric-teal`}
+                  style={style}
+                  title={describeSlot(slot)}
+                >
+                  {slot.number}
+                </a>
+              ) : (
+                <div
+                  key={slot.number}
+                  className={className}
+                  style={style}
+                  title={describeSlot(slot)}
+                >
+                  {slot.number}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </BrowseSection>
+  )
+}
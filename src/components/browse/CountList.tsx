@@ -0,0 +1,46 @@
+import { useState } from 'react'
+import { ValueCount } from '../../utils/browse'
+
+interface CountListProps {
+  title: string
+  counts: ValueCount[]
+  onSelect?: (value: string) => void
+  limit?: number // Shown before "show all"
+}
+
+/**
+ * Values with their record counts ("Blue Note 12"), optionally clickable
+ */
+export function CountList({ title, counts, onSelect, limit = 12 }: CountListProps) {
+  const [showAll, setShowAll] = useState(false)
+  if (counts.length === 0) return null
+
+  const shown = showAll ? counts : counts.slice(0, limit)
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-black tracking-wide uppercase text-white/60">{title}</div>
+      <div className="flex flex-wrap gap-2">
+        {shown.map(({ value, count }) => (
+          <button
+            key={value}
+            onClick={onSelect ? () => onSelect(value) : undefined}
+            disabled={!onSelect}
+            className="px-3 py-1 rounded-sm text-sm font-bold text-white/80 bg-white/10 transition-colors duration-300 enabled:hover:text-bn-electric-teal disabled:cursor-default"
+          >
+            {value}
+            <span className="ml-2 text-white/50">{count}</span>
+          </button>
+        ))}
+        {counts.length > limit && (
+          <button
+            onClick={() => setShowAll(all => !all)}
+            className="px-3 py-1 text-xs font-black tracking-[0.15em] uppercase text-bn-electric-teal"
+          >
+            {showAll ? 'SHOW FEWER' : `+${counts.length - limit} MORE`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
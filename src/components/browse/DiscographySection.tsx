@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { ImageWithFallback } from '../figma/ImageWithFallback'
+import { useArtistDiscography } from '../../hooks/useArtistDiscography'
+import {
+  DiscographyFilter,
+  DiscographyItem,
+  DiscographyStatus,
+  DISCOGRAPHY_STATUSES,
+  countByStatus,
+  filterDiscography,
+  getDiscographyLabels,
+  getIdentityNames,
+  matchDiscography,
+} from '../../utils/discography'
+import { BrowseSection } from './BrowseSection'
+
+interface DiscographySectionProps {
+  name: string
+  owned: VinylRecord[]
+  wanted: VinylRecord[]
+  onRecordClick: (record: VinylRecord) => void
+}
+
+const STATUS_COLORS: Record<DiscographyStatus, string> = {
+  owned: 'var(--bn-electric-teal)',
+  wanted: 'var(--bn-bright-yellow)',
+  missing: 'var(--bn-vibrant-orange)',
+}
+
+// Labels offered as filters; the rest are one-off reissue labels
+const LABEL_LIMIT = 10
+
+function getDiscogsUrl({ entry }: DiscographyItem): string {
+  return `https://www.discogs.com/${entry.type}/${entry.id}`
+}
+
+/**
+ * The artist's albums on Discogs, each marked owned, wanted or missing, filterable by status and
+ * label ("which Impulse! records are we missing?")
+ */
+export function DiscographySection({
+  name,
+  owned,
+  wanted,
+  onRecordClick,
+}: DiscographySectionProps) {
+  const [filter, setFilter] = useState<DiscographyFilter>({
+    status: null,
+    label: null,
+    includeGroups: false,
+  })
+  const { identity, entries, isAvailable, isLoading, error, failedGroups } = useArtistDiscography(
+    name,
+    owned,
+    filter.includeGroups
+  )
+
+  const items = useMemo(
+    () => matchDiscography(entries, owned, wanted, identity ? getIdentityNames(identity) : []),
+    [entries, owned, wanted, identity]
+  )
+  // Counts and labels follow the other filters, so each chip says what clicking it would show
+  const counts = useMemo(
+    () => countByStatus(filterDiscography(items, { ...filter, status: null })),
+    [items, filter]
+  )
+  const labels = useMemo(
+    () => getDiscographyLabels(filterDiscography(items, { ...filter, label: null })),
+    [items, filter]
+  )
+  const shown = useMemo(() => filterDiscography(items, filter), [items, filter])
+
+  const chipClass = (isActive: boolean) =>
+    `px-3 py-1 rounded-sm text-xs font-black tracking-[0.15em] uppercase transition-colors duration-300 ${
+      isActive ? 'text-black' : 'text-white/70 bg-white/10 hover:text-bn-electric-teal'
+    }`
+
+  const getEmptyText = () => {
+    if (!isAvailable) return 'CONNECT DISCOGS TO COMPARE WITH THE FULL DISCOGRAPHY'
+    if (error) return error.toUpperCase()
+    if (isLoading) return 'LOADING DISCOGRAPHY...'
+    if (!identity) return `${name.toUpperCase()} IS NOT ON DISCOGS`
+    return entries.length > 0 ? 'NOTHING MATCHES THESE FILTERS' : 'NO ALBUMS LISTED ON DISCOGS'
+  }
+
+  return (
+    <BrowseSection title="Discography">
+      {identity && identity.variations.length > 0 && (
+        <p className="text-sm font-medium text-white/60">
+          Also credited as {identity.variations.slice(0, 8).join(', ')}
+          {identity.variations.length > 8 && ` and ${identity.variations.length - 8} more`}
+        </p>
+      )}
+
+      {failedGroups.length > 0 && (
+        <p className="text-sm font-medium text-bn-vibrant-orange">
+          Could not load {failedGroups.join(', ')} from Discogs, so their albums are left out.
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setFilter(f => ({ ...f, status: null }))}
+              className={chipClass(!filter.status)}
+              style={!filter.status ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined}
+            >
+              ALL {counts.owned + counts.wanted + counts.missing}
+            </button>
+            {DISCOGRAPHY_STATUSES.map(status => {
+              const isActive = filter.status === status
+              return (
+                <button
+                  key={status}
+                  onClick={() => setFilter(f => ({ ...f, status: isActive ? null : status }))}
+                  className={chipClass(isActive)}
+                  style={isActive ? { backgroundColor: STATUS_COLORS[status] } : undefined}
+                  aria-pressed={isActive}
+                >
+                  {status} {counts[status]}
+                </button>
+              )
+            })}
+            {identity && identity.groups.length > 0 && (
+              <button
+                onClick={() => setFilter(f => ({ ...f, includeGroups: !f.includeGroups }))}
+                className={chipClass(filter.includeGroups)}
+                style={
+                  filter.includeGroups ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined
+                }
+                aria-pressed={filter.includeGroups}
+                title={identity.groups.map(group => group.name).join(', ')}
+              >
+                WITH {identity.groups.length} {identity.groups.length === 1 ? 'GROUP' : 'GROUPS'}
+              </button>
+            )}
+          </div>
+
+          {labels.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {labels.slice(0, LABEL_LIMIT).map(({ value, count }) => {
+                const isActive = filter.label === value
+                return (
+                  <button
+                    key={value}
+                    onClick={() => setFilter(f => ({ ...f, label: isActive ? null : value }))}
+                    className={`px-3 py-1 rounded-sm text-sm font-bold transition-colors duration-300 ${
+                      isActive
+                        ? 'text-black'
+                        : 'text-white/80 bg-white/10 hover:text-bn-electric-teal'
+                    }`}
+                    style={isActive ? { backgroundColor: 'var(--bn-electric-teal)' } : undefined}
+                    aria-pressed={isActive}
+                  >
+                    {value}
+                    <span className={`ml-2 ${isActive ? 'text-black/60' : 'text-white/50'}`}>
+                      {count}
+                    </span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {shown.length > 0 ? (
+        <ul className="grid md:grid-cols-2 gap-x-8 gap-y-3">
+          {shown.map(item => {
+            const { entry, status, records } = item
+            const content = (
+              <>
+                <ImageWithFallback
+                  src={records[0]?.coverUrl || entry.thumb || ''}
+                  alt={`${entry.title} by ${entry.artist}`}
+                  className="w-12 h-12 object-cover rounded-sm shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-bold text-white truncate group-hover:text-bn-electric-teal transition-colors duration-300">
+                    {entry.title}
+                  </div>
+                  <div className="text-xs font-medium text-white/50 truncate">
+                    {[
+                      entry.year,
+                      entry.via ? entry.artist : null,
+                      entry.labels.slice(0, 2).join(', '),
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                <div
+                  className="flex items-center gap-1 text-xs font-black tracking-[0.15em] uppercase shrink-0"
+                  style={{ color: STATUS_COLORS[status] }}
+                >
+                  {status}
+                  {status === 'missing' && <ExternalLink className="w-3 h-3" />}
+                </div>
+              </>
+            )
+
+            // Owned and wanted albums open the copy; missing ones open Discogs
+            return (
+              <li key={`${entry.type}-${entry.id}`}>
+                {records.length > 0 ? (
+                  <button
+                    onClick={() => onRecordClick(records[0])}
+                    className="w-full flex items-center gap-3 text-left group"
+                  >
+                    {content}
+                  </button>
+                ) : (
+                  <a
+                    href={getDiscogsUrl(item)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-3 group"
+                    title="View on Discogs"
+                  >
+                    {content}
+                  </a>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <div className="text-center py-12 text-xl font-bold text-white/80">{getEmptyText()}</div>
+      )}
+    </BrowseSection>
+  )
+}
@@ -0,0 +1,75 @@
+import { useMemo } from 'react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { VinylGrid } from '../VinylGrid'
+import { getGenrePageData } from '../../utils/browse'
+import { BrowseLayout } from './BrowseLayout'
+import { BrowseSection } from './BrowseSection'
+import { CountList } from './CountList'
+
+interface GenrePageProps {
+  records: VinylRecord[]
+  name: string
+  onBack: () => void
+  onFilter: (type: string, value: string) => void
+  onRecordClick: (record: VinylRecord) => void
+}
+
+/**
+ * A genre's records by year, broken down by style, artist, label and decade
+ */
+export function GenrePage({ records, name, onBack, onFilter, onRecordClick }: GenrePageProps) {
+  const genre = useMemo(() => getGenrePageData(records, name), [records, name])
+  const { summary } = genre
+
+  return (
+    <BrowseLayout
+      kicker="Genre"
+      title={genre.name}
+      onBack={onBack}
+      stats={[
+        { value: summary.total, label: 'RECORDS', color: 'var(--bn-bright-yellow)' },
+        {
+          value: summary.counts.artist.length,
+          label: 'ARTISTS',
+          color: 'var(--bn-vibrant-orange)',
+        },
+        { value: summary.counts.style.length, label: 'STYLES', color: 'var(--bn-electric-teal)' },
+      ]}
+    >
+      {summary.total > 0 ? (
+        <>
+          <div className="grid md:grid-cols-2 gap-8">
+            <CountList
+              title="Styles"
+              counts={summary.counts.style}
+              onSelect={style => onFilter('style', style)}
+            />
+            <CountList
+              title="Decades"
+              counts={summary.counts.decade}
+              onSelect={decade => onFilter('decade', decade)}
+            />
+            <CountList
+              title="Artists"
+              counts={summary.counts.artist}
+              onSelect={artist => onFilter('artist', artist)}
+            />
+            <CountList
+              title="Labels"
+              counts={summary.counts.label}
+              onSelect={label => onFilter('label', label)}
+            />
+          </div>
+
+          <BrowseSection title="Records">
+            <VinylGrid records={genre.records} onRecordClick={onRecordClick} onFilter={onFilter} />
+          </BrowseSection>
+        </>
+      ) : (
+        <div className="text-center py-24 text-2xl font-bold text-white">
+          NO {genre.name.toUpperCase()} RECORDS IN THE COLLECTION
+        </div>
+      )}
+    </BrowseLayout>
+  )
+}
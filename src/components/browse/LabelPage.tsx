@@ -0,0 +1,91 @@
+import { useMemo } from 'react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { VinylGrid } from '../VinylGrid'
+import { getLabelPageData } from '../../utils/browse'
+import { BrowseLayout } from './BrowseLayout'
+import { BrowseSection } from './BrowseSection'
+import { CountList } from './CountList'
+import { CatalogSeriesSection } from './CatalogSeriesSection'
+
+interface LabelPageProps {
+  records: VinylRecord[]
+  name: string
+  owned: VinylRecord[] // Whole collection and wantlist, for the series whichever is shown
+  wanted: VinylRecord[]
+  onBack: () => void
+  onFilter: (type: string, value: string) => void
+  onRecordClick: (record: VinylRecord) => void
+}
+
+/**
+ * A label's records in catalog number order, the artists and decades it covers, and how
+ * complete each of its catalog series is
+ */
+export function LabelPage({
+  records,
+  name,
+  owned,
+  wanted,
+  onBack,
+  onFilter,
+  onRecordClick,
+}: LabelPageProps) {
+  const label = useMemo(() => getLabelPageData(records, name), [records, name])
+  const { summary } = label
+
+  return (
+    <BrowseLayout
+      kicker="Label"
+      title={label.name}
+      onBack={onBack}
+      stats={[
+        { value: summary.total, label: 'RECORDS', color: 'var(--bn-bright-yellow)' },
+        {
+          value: summary.counts.artist.length,
+          label: 'ARTISTS',
+          color: 'var(--bn-vibrant-orange)',
+        },
+        ...(summary.yearSpan
+          ? [{ value: summary.yearSpan, label: 'YEARS', color: 'var(--bn-electric-teal)' }]
+          : []),
+      ]}
+    >
+      {summary.total > 0 ? (
+        <>
+          <div className="grid md:grid-cols-3 gap-8">
+            <CountList
+              title="Artists"
+              counts={summary.counts.artist}
+              onSelect={artist => onFilter('artist', artist)}
+            />
+            <CountList
+              title="Decades"
+              counts={summary.counts.decade}
+              onSelect={decade => onFilter('decade', decade)}
+            />
+            <CountList
+              title="Genres"
+              counts={summary.counts.genre}
+              onSelect={genre => onFilter('genre', genre)}
+            />
+          </div>
+
+          <BrowseSection title="Catalog">
+            <VinylGrid records={label.records} onRecordClick={onRecordClick} onFilter={onFilter} />
+          </BrowseSection>
+        </>
+      ) : (
+        <div className="text-center py-24 text-2xl font-bold text-white">
+          NOTHING ON {label.name.toUpperCase()} IN THE COLLECTION
+        </div>
+      )}
+
+      <CatalogSeriesSection
+        label={label.name}
+        owned={owned}
+        wanted={wanted}
+        onRecordClick={onRecordClick}
+      />
+    </BrowseLayout>
+  )
+}
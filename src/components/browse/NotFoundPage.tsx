@@ -0,0 +1,17 @@
+import { BrowseLayout } from './BrowseLayout'
+
+interface NotFoundPageProps {
+  message: string
+  onBack: () => void
+}
+
+/**
+ * A path nothing lives at, or an album link to a record no longer in the collection
+ */
+export function NotFoundPage({ message, onBack }: NotFoundPageProps) {
+  return (
+    <BrowseLayout kicker="Not found" title="Nothing here" stats={[]} onBack={onBack}>
+      <div className="text-center py-24 text-2xl font-bold text-white">{message}</div>
+    </BrowseLayout>
+  )
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { VinylRecord } from '../../data/vinylRecords'
+import { summarizeRecords } from '../../utils/browse'
+import { BrowseLayout } from './BrowseLayout'
+import { BrowseSection } from './BrowseSection'
+import { CountList } from './CountList'
+import { CollectionValue, CollectionValueProps } from '../CollectionValue'
+
+interface StatsPageProps {
+  records: VinylRecord[]
+  collectionStats: {
+    totalRecords: number
+    artists: number
+    genres: number
+    labels: number
+  }
+  onBack: () => void
+  onFilter: (type: string, value: string) => void
+  collectionValue?: CollectionValueProps // With a connected Discogs account
+}
+
+/**
+ * The collection in numbers: its marketplace value, records per decade, and its genres, artists,
+ * labels and pressings
+ */
+export function StatsPage({
+  records,
+  collectionStats,
+  onBack,
+  onFilter,
+  collectionValue,
+}: StatsPageProps) {
+  const summary = useMemo(() => summarizeRecords(records), [records])
+  const { counts } = summary
+  const busiestDecade = Math.max(1, ...counts.decade.map(decade => decade.count))
+
+  return (
+    <BrowseLayout
+      kicker={summary.yearSpan ? `Collection · ${summary.yearSpan}` : 'Collection'}
+      title="Stats"
+      onBack={onBack}
+      stats={[
+        { value: collectionStats.totalRecords, label: 'RECORDS', color: 'var(--bn-bright-yellow)' },
+        { value: collectionStats.artists, label: 'ARTISTS', color: 'var(--bn-vibrant-orange)' },
+        { value: collectionStats.labels, label: 'LABELS', color: 'var(--bn-electric-teal)' },
+      ]}
+    >
+      {collectionValue && (
+        <BrowseSection title="Value" accent="var(--bn-bright-yellow)">
+          <CollectionValue {...collectionValue} />
+        </BrowseSection>
+      )}
+
+      {counts.decade.length > 0 && (
+        <BrowseSection title="By Decade">
+          <div className="space-y-3">
+            {counts.decade.map(({ value, count }) => (
+              <button
+                key={value}
+                onClick={() => onFilter('decade', value)}
+                className="w-full flex items-center gap-6 group"
+                title={`View records from the ${value}`}
+              >
+                <span className="w-20 text-left text-lg font-black text-white group-hover:text-bn-electric-teal transition-colors duration-300">
+                  {value}
+                </span>
+                <span className="flex-1 h-6 rounded-sm bg-white/5 overflow-hidden">
+                  <span
+                    className="block h-full rounded-sm"
+                    style={{
+                      width: `${(count / busiestDecade) * 100}%`,
+                      backgroundColor: 'var(--bn-electric-teal)',
+                    }}
+                  />
+                </span>
+                <span className="w-12 text-right text-lg font-bold text-white/60">{count}</span>
+              </button>
+            ))}
+          </div>
+        </BrowseSection>
+      )}
+
+      <BrowseSection title="Breakdown" accent="var(--bn-vibrant-orange)">
+        <div className="grid md:grid-cols-2 gap-8">
+          <CountList
+            title="Genres"
+            counts={counts.genre}
+            onSelect={genre => onFilter('genre', genre)}
+          />
+          <CountList
+            title="Styles"
+            counts={counts.style}
+            onSelect={style => onFilter('style', style)}
+          />
+          <CountList
+            title="Artists"
+            counts={counts.artist}
+            onSelect={artist => onFilter('artist', artist)}
+          />
+          <CountList
+            title="Labels"
+            counts={counts.label}
+            onSelect={label => onFilter('label', label)}
+          />
+          <CountList
+            title="Formats"
+            counts={counts.format}
+            onSelect={format => onFilter('format', format)}
+          />
+          <CountList
+            title="Countries"
+            counts={counts.country}
+            onSelect={country => onFilter('country', country)}
+          />
+        </div>
+      </BrowseSection>
+    </BrowseLayout>
+  )
+}
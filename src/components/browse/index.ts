@@ -0,0 +1,13 @@
+// Artist, label, genre and stats pages, and the page for unknown links
+export { ArtistPage } from './ArtistPage'
+export { LabelPage } from './LabelPage'
+export { GenrePage } from './GenrePage'
+export { StatsPage } from './StatsPage'
+export { NotFoundPage } from './NotFoundPage'
+
+// Building blocks for other browse pages
+export { BrowseLayout } from './BrowseLayout'
+export { BrowseSection } from './BrowseSection'
+export { CountList } from './CountList'
+export { DiscographySection } from './DiscographySection'
+export { CatalogSeriesSection } from './CatalogSeriesSection'
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { supabaseService, Profile, AuthState } from '../services/supabaseService'
+import { setDiscogsCredentials, getCredentialsFromProfile } from '../services/discogsService'
 
 interface AuthContextType extends AuthState {
   profile: Profile | null
@@ -169,6 +170,16 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
+  // Act on Discogs as whichever account the signed-in user has connected
+  useEffect(() => {
+    setDiscogsCredentials(
+      getCredentialsFromProfile(profile, async () => {
+        const currentSession = await supabaseService.getCurrentSession()
+        return currentSession?.access_token ?? null
+      })
+    )
+  }, [profile])
+
   const refreshProfile = async () => {
     if (!user) return
 
@@ -1,18 +1,30 @@
 export interface Track {
-  number: number;
+  number: number; // Running number of played tracks (headings are 0)
   title: string;
-  duration: string;
+  duration: string; // "M:SS"; empty for headings and unknown index/sub-track times
+  position?: string; // As printed on the release: "A1", "B2", "C"
+  side?: string; // Vinyl side from the position: "A", "B"...
+  type?: TrackType; // Absent on records stored before track types were kept ('track')
+  artists?: RecordArtist[]; // Only when the track credits differ from the album (e.g. compilations)
+  credits?: RecordCredit[]; // Personnel on this track only, e.g. the soloists
+  subTracks?: Track[]; // Movements/parts of an index track
 }
 
+// Discogs tracklist entry types: headings ("Side One", "Suite") and index tracks group other tracks
+export type TrackType = 'track' | 'heading' | 'index';
+
 // Master Release: Original album information (shared across all pressings)
 export interface MasterRelease {
   id: string;
   title: string;
-  artist: string;
+  artist: string; // Display credit, e.g. "Art Blakey & The Jazz Messengers"
+  artists: RecordArtist[];
   genres: string[]; // Changed from single genre to array
+  styles: string[]; // Discogs sub-genres, e.g. "Hard Bop", "Soul-Jazz"
   description?: string; // Original album notes/description
   producer?: string;
   recordingDate?: string; // When the album was originally recorded
+  credits: RecordCredit[]; // Personnel credited on the master
 }
 
 // Vinyl Release: Your specific pressing information
@@ -24,16 +36,79 @@ export interface VinylRelease {
   coverUrl: string; // Cover of YOUR pressing
   tracks: Track[]; // Tracklist of YOUR pressing
   masterId: string; // Links to the master release
+  artists: RecordArtist[];
+  labels: RecordLabel[];
+  formats: RecordFormat[];
+  country?: string;
+  identifiers: RecordIdentifier[];
+  credits: RecordCredit[]; // Personnel credited on YOUR pressing
+}
+
+// One credited artist; join is the phrase printed before the next artist (", ", " & ", " feat. ")
+export interface RecordArtist {
+  name: string;
+  id?: string;
+  creditedName?: string; // As credited on this release, when it differs from the canonical name
+  join?: string;
+  role?: string;
+}
+
+// A person credited on the release: musician, engineer, designer...
+// role is the raw Discogs role, possibly several: "Tenor Saxophone, Flute", "Design [Cover]"
+export interface RecordCredit {
+  name: string;
+  id?: string;
+  creditedName?: string;
+  role: string;
+  tracks?: string; // Only on some tracks, e.g. "A1, B2" or "A1 to A3"
+}
+
+// A label or company on the release; role is "Label", "Distributed By", "Pressed By"...
+export interface RecordLabel {
+  name: string;
+  id?: string;
+  catalogNumber?: string;
+  role?: string;
 }
 
+// A physical format of a release, e.g. 2 x Vinyl ("LP", "Album", "Reissue") with text "180g"
+export interface RecordFormat {
+  name: string;
+  quantity?: number;
+  descriptions: string[];
+  text?: string;
+}
+
+// Printed or etched identifier (barcode, matrix/runout, rights society...)
+export interface RecordIdentifier {
+  type: string;
+  value: string;
+  description?: string; // e.g. "Side A"
+}
+
+// Whether a record is in the collection or on the wantlist
+export type RecordOwnership = 'owned' | 'wanted';
+
+// Condition grades (matches the CHECK constraint on user_collections.media_condition/sleeve_condition)
+export type RecordCondition =
+  | 'Mint'
+  | 'Near Mint'
+  | 'Very Good Plus'
+  | 'Very Good'
+  | 'Good Plus'
+  | 'Good'
+  | 'Fair'
+  | 'Poor';
+
 // Combined interface for UI compatibility (computed from both sources)
 export interface VinylRecord {
   id: string;
   title: string;
-  artist: string;
+  artist: string; // Display credit built from artists, with join phrases
   year: string; // From master release
-  label: string; // From your release
+  label: string; // From your release (first label)
   genres: string[]; // Changed from single genre to array
+  styles?: string[]; // From master release (release styles when there is no master)
   catalogNumber: string;
   coverUrl: string; // From your release
   tracks: Track[]; // From your release
@@ -42,6 +117,27 @@ export interface VinylRecord {
   recordingDate?: string; // From master release
   releaseDate?: string; // From your release (NEW)
   dateAdded?: string; // When added to collection (from database created_at)
+  artists?: RecordArtist[]; // Individual artists behind `artist`
+  labels?: RecordLabel[]; // All labels and companies, labels first
+  formats?: RecordFormat[]; // From your release
+  country?: string; // From your release
+  identifiers?: RecordIdentifier[]; // From your release (only when full release details were fetched)
+  personnel?: RecordCredit[]; // Release credits, plus master credits the release doesn't repeat
+  masterId?: string; // Discogs master of your release (absent when it has none)
+  ownership?: RecordOwnership; // Defaults to 'owned' when absent
+
+  // Collection details (from the Discogs collection folder and custom fields)
+  folder?: string; // Discogs collection folder name, e.g. "Shelf A"
+  mediaCondition?: RecordCondition;
+  sleeveCondition?: RecordCondition;
+  collectionNotes?: string; // The "Notes" custom field
+  customFields?: Record<string, string>; // Any other custom fields, keyed by field name
+  rating?: number; // Collection rating, 1-5 (absent when unrated)
+  playCount?: number; // Times played (user collections only)
+  lastPlayed?: string;
+  discogsInstanceId?: number; // Collection instance on Discogs (used to push edits back)
+  purchasePrice?: number;
+  purchaseCurrency?: string;
   
   // Internal references (not used by UI)
   _masterRelease?: MasterRelease;
@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react'
+import { VinylRecord } from '../data/vinylRecords'
+import { hasDiscogsCredentials } from '../services/discogsService'
+import { discographyService } from '../services/discographyService'
+import { ArtistIdentity, DiscographyEntry, mergeDiscographies } from '../utils/discography'
+
+interface ArtistDiscographyState {
+  identity: ArtistIdentity | null
+  entries: DiscographyEntry[] // The artist's own, then their groups' when included
+  isAvailable: boolean // Whether there is a Discogs account to ask
+  isLoading: boolean
+  error: string | null
+  failedGroups: string[] // Groups whose discographies couldn't be loaded and are left out
+}
+
+/**
+ * An artist's Discogs discography, optionally with the discographies of the groups they played in
+ */
+export function useArtistDiscography(
+  name: string,
+  records: VinylRecord[], // Where to look for the artist's Discogs id before searching for it
+  includeGroups: boolean
+): ArtistDiscographyState {
+  const [identity, setIdentity] = useState<ArtistIdentity | null>(null)
+  const [entries, setEntries] = useState<DiscographyEntry[]>([])
+  const [isLoading, setIsLoading] = useState(hasDiscogsCredentials) // Loading starts on mount
+  const [error, setError] = useState<string | null>(null)
+  const [failedGroups, setFailedGroups] = useState<string[]>([])
+  const isAvailable = hasDiscogsCredentials()
+
+  // Records changing (a sync) doesn't make it another artist
+  const recordsRef = useRef(records)
+  recordsRef.current = records
+
+  // Another artist: nothing of the previous one's stays on screen while loading
+  useEffect(() => {
+    setIdentity(null)
+    setEntries([])
+  }, [name])
+
+  useEffect(() => {
+    if (!isAvailable) return
+    let isCurrent = true // Results for an artist navigated away from are dropped
+
+    const loadDiscography = async () => {
+      setIsLoading(true)
+      setError(null)
+      setFailedGroups([])
+
+      try {
+        const artist = await discographyService.getIdentity(name, recordsRef.current)
+        if (!isCurrent) return
+        setIdentity(artist)
+        if (!artist) {
+          setEntries([])
+          return
+        }
+
+        // A group that fails to load is left out rather than failing the artist's own discography
+        const groups = includeGroups ? artist.groups : []
+        const failed: string[] = []
+        const discographies = await Promise.all([
+          discographyService.getDiscography(artist.id, artist.name),
+          ...groups.map(group =>
+            discographyService.getDiscography(group.id, group.name, group.name).catch(() => {
+              failed.push(group.name)
+              return []
+            })
+          ),
+        ])
+        if (isCurrent) {
+          setEntries(mergeDiscographies(...discographies))
+          setFailedGroups(failed)
+        }
+      } catch (err) {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : 'Failed to load the discography')
+        }
+      } finally {
+        if (isCurrent) setIsLoading(false)
+      }
+    }
+
+    loadDiscography()
+    return () => {
+      isCurrent = false
+    }
+  }, [name, includeGroups, isAvailable])
+
+  return { identity, entries, isAvailable, isLoading, error, failedGroups }
+}
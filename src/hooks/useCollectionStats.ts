@@ -1,10 +1,13 @@
 import { useMemo } from 'react'
 import { VinylRecord } from '../data/vinylRecords'
 import { getFilterStats } from '../utils/filterUtils'
+import { FacetState, describeFacetSelection } from '../utils/facets'
 
 interface FilterState {
-  genre: string | null
-  decade: string | null
+  facets: FacetState
+  folder: string | null
+  pressing: string | null
+  person: string | null
 }
 
 interface UseCollectionStatsProps {
@@ -59,7 +62,20 @@ export function useCollectionStats({
 
   // Calculate filter-specific statistics
   const filterStats = useMemo(() => {
-    return getFilterStats(records, filteredRecords, filters.genre, filters.decade)
+    // Multi-select facets read as "JAZZ / SOUL" (any) or "JAZZ & SOUL" (all)
+    const { facets } = filters
+    return getFilterStats(records, filteredRecords, {
+      genre: describeFacetSelection(facets.genre),
+      decade: describeFacetSelection(facets.decade),
+      folder: filters.folder,
+      pressing: filters.pressing,
+      country: describeFacetSelection(facets.country),
+      artist: describeFacetSelection(facets.artist),
+      label: describeFacetSelection(facets.label),
+      person: filters.person,
+      style: describeFacetSelection(facets.style),
+      format: describeFacetSelection(facets.format),
+    })
   }, [records, filteredRecords, filters])
 
   // Get other albums by the same artist for the detail page
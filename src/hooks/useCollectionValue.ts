@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { VinylRecord } from '../data/vinylRecords'
+import { supabaseService, CollectionValuation } from '../services/supabaseService'
+import {
+  valuationService,
+  ValuationProgress,
+  VALUATION_INTERVAL_DAYS,
+} from '../services/valuationService'
+import { summarizeValuation, isSnapshotDue, ValuationSummary } from '../utils/valuation'
+
+interface CollectionValueState {
+  summary: ValuationSummary | null // From the latest snapshot
+  history: CollectionValuation[] // Oldest first
+  lastValuedAt: string | null
+  isDue: boolean // No snapshot in the last VALUATION_INTERVAL_DAYS
+  isValuing: boolean
+  progress: ValuationProgress | null
+  savedProgress: ValuationProgress | null // An unfinished snapshot that refreshing resumes
+  error: string | null
+}
+
+interface CollectionValueActions {
+  refreshValuation: () => Promise<void>
+  pauseValuation: () => void
+}
+
+/**
+ * Collection value from marketplace price snapshots. A snapshot is taken automatically (once a
+ * session) when the last one is older than VALUATION_INTERVAL_DAYS; it runs in resumable
+ * batches, so pausing it or leaving the page keeps what was priced for the next run.
+ */
+export function useCollectionValue(
+  records: VinylRecord[],
+  enabled: boolean
+): [CollectionValueState, CollectionValueActions] {
+  const [history, setHistory] = useState<CollectionValuation[]>([])
+  const [isLoaded, setIsLoaded] = useState(false) // History loaded; without it nothing is due
+  const [isValuing, setIsValuing] = useState(false)
+  const [progress, setProgress] = useState<ValuationProgress | null>(null)
+  const [savedProgress, setSavedProgress] = useState<ValuationProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const autoStarted = useRef(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    supabaseService
+      .getValuationHistory()
+      .then(snapshots => {
+        setHistory([...snapshots].reverse())
+        setIsLoaded(true)
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Could not load valuation history')
+      })
+
+    valuationService.getSavedProgress().then(setSavedProgress)
+  }, [enabled])
+
+  const refreshValuation = useCallback(async () => {
+    setIsValuing(true)
+    setError(null)
+
+    try {
+      const snapshot = await valuationService.takeSnapshot(records, setProgress)
+      setHistory(prev => [...prev, snapshot])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to value collection')
+    } finally {
+      setIsValuing(false)
+      setProgress(null)
+      setSavedProgress(await valuationService.getSavedProgress())
+    }
+  }, [records])
+
+  const pauseValuation = useCallback(() => {
+    valuationService.pauseSnapshot()
+  }, [])
+
+  const latest = history[history.length - 1]
+  const summary = useMemo(
+    () =>
+      latest ? summarizeValuation(valuationService.toRecordValuations(latest, records)) : null,
+    [latest, records]
+  )
+  const isDue = isLoaded && isSnapshotDue(latest?.taken_at, VALUATION_INTERVAL_DAYS)
+
+  // A failed or paused automatic run isn't restarted until the next session (or a refresh)
+  useEffect(() => {
+    if (!enabled || !isDue || records.length === 0 || autoStarted.current) return
+    autoStarted.current = true
+    refreshValuation()
+  }, [enabled, isDue, records.length, refreshValuation])
+
+  const state: CollectionValueState = {
+    summary,
+    history,
+    lastValuedAt: latest?.taken_at || null,
+    isDue,
+    isValuing,
+    progress,
+    savedProgress,
+    error,
+  }
+
+  return [state, { refreshValuation, pauseValuation }]
+}
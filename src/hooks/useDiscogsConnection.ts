@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { discogsAuthService } from '../services/discogsAuthService'
+
+interface DiscogsConnectionState {
+  isConnected: boolean
+  username: string | null
+  isConnecting: boolean
+  error: string | null
+}
+
+interface DiscogsConnectionActions {
+  connect: () => Promise<void>
+  disconnect: () => Promise<void>
+}
+
+/**
+ * Connect the signed-in user's Discogs account via OAuth. The tokens stay on the server;
+ * the profile only gets the Discogs username.
+ */
+export function useDiscogsConnection(): [DiscogsConnectionState, DiscogsConnectionActions] {
+  const { session, profile, refreshProfile } = useAuth()
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const callbackHandled = useRef(false)
+  const sessionToken = session?.access_token
+
+  // Read on the first render: the session loads later, and by then the URL may have moved on
+  const [callback] = useState(() => discogsAuthService.getCallbackParams())
+
+  // Finish the flow when Discogs redirects back with oauth_token/oauth_verifier
+  useEffect(() => {
+    if (!sessionToken || !callback || callbackHandled.current) return
+    callbackHandled.current = true
+
+    const completeConnection = async () => {
+      setIsConnecting(true)
+      setError(null)
+
+      try {
+        await discogsAuthService.completeAuthorization(
+          sessionToken,
+          callback.oauthToken,
+          callback.oauthVerifier
+        )
+        await refreshProfile()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to connect Discogs')
+      } finally {
+        // Drop the OAuth parameters so a reload doesn't replay them
+        window.history.replaceState(null, '', window.location.pathname)
+        setIsConnecting(false)
+      }
+    }
+
+    completeConnection()
+  }, [sessionToken, callback, refreshProfile])
+
+  const connect = useCallback(async () => {
+    if (!sessionToken) return
+    setIsConnecting(true)
+    setError(null)
+
+    try {
+      const authorizeUrl = await discogsAuthService.startAuthorization(sessionToken)
+      window.location.assign(authorizeUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start Discogs authorization')
+      setIsConnecting(false)
+    }
+  }, [sessionToken])
+
+  const disconnect = useCallback(async () => {
+    if (!sessionToken) return
+    setError(null)
+
+    try {
+      await discogsAuthService.disconnect(sessionToken)
+      await refreshProfile()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect Discogs')
+    }
+  }, [sessionToken, refreshProfile])
+
+  const state: DiscogsConnectionState = {
+    isConnected: !!profile?.discogs_username,
+    username: profile?.discogs_username || null,
+    isConnecting,
+    error,
+  }
+
+  return [state, { connect, disconnect }]
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getDiscogsService, hasDiscogsCredentials } from '../services/discogsService'
+import { writeBackStore } from '../services/writeBackStore'
+import { PendingCollectionChange } from '../utils/writeBack'
+
+interface DiscogsWriteBackState {
+  pendingCount: number // Waiting to be pushed (including ones whose last push failed)
+  conflicts: PendingCollectionChange[] // Held back because Discogs was edited since the last sync
+  isPushing: boolean
+  error: string | null
+}
+
+interface DiscogsWriteBackActions {
+  pushChanges: () => Promise<void>
+  resolveConflicts: (resolution: 'keep-local' | 'keep-discogs') => Promise<void>
+}
+
+/**
+ * Track collection edits waiting to be pushed to Discogs for the connected account
+ */
+export function useDiscogsWriteBack(
+  username: string | null | undefined
+): [DiscogsWriteBackState, DiscogsWriteBackActions] {
+  const [changes, setChanges] = useState<PendingCollectionChange[]>([])
+  const [isPushing, setIsPushing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!username || !hasDiscogsCredentials()) {
+      setChanges([])
+      return
+    }
+
+    writeBackStore.list(username).then(setChanges)
+
+    return writeBackStore.subscribe((changedUser, updated) => {
+      if (changedUser === username) setChanges(updated)
+    })
+  }, [username])
+
+  const pushChanges = useCallback(async () => {
+    setIsPushing(true)
+    setError(null)
+
+    try {
+      const result = await getDiscogsService().pushPendingChanges()
+      if (result.failed > 0) {
+        setError(`${result.failed} change${result.failed === 1 ? '' : 's'} could not be pushed`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to push changes to Discogs')
+    } finally {
+      setIsPushing(false)
+    }
+  }, [])
+
+  const resolveConflicts = useCallback(
+    async (resolution: 'keep-local' | 'keep-discogs') => {
+      const discogsService = getDiscogsService()
+      for (const conflict of changes.filter(c => c.status === 'conflict')) {
+        await discogsService.resolveConflict(conflict.id, resolution)
+      }
+      if (resolution === 'keep-local') {
+        await pushChanges()
+      }
+    },
+    [changes, pushChanges]
+  )
+
+  const state: DiscogsWriteBackState = {
+    pendingCount: changes.filter(c => c.status === 'pending').length,
+    conflicts: changes.filter(c => c.status === 'conflict'),
+    isPushing,
+    error,
+  }
+
+  return [state, { pushChanges, resolveConflicts }]
+}
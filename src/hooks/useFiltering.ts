@@ -1,144 +1,253 @@
 import { useState, useMemo, useCallback } from 'react'
 import { VinylRecord } from '../data/vinylRecords'
-import { recordMatchesDecade, getDecade } from '../utils/filterUtils'
-
-interface FilterState {
-  genre: string | null
-  decade: string | null
-}
+import { getDecade } from '../utils/filterUtils'
+import { getPressingTags } from '../utils/pressing'
+import { recordHasPerson } from '../utils/personnel'
+import { QueryError, getQueryTexts, parseQuery, recordMatchesQuery } from '../utils/searchQuery'
+import { SearchIndex } from '../utils/searchIndex'
+import { compareRecords, parseSortSpec } from '../utils/sorting'
+import {
+  FacetKey,
+  FacetMode,
+  FacetOptions,
+  FACET_KEYS,
+  applyFacets,
+  describeFacetSelection,
+  getFacetOptions,
+  selectFacetValue,
+  setFacetMode,
+  toggleFacetValue,
+} from '../utils/facets'
+import { CollectionView, FilterState, DEFAULT_SORT, createFilterState } from '../utils/viewState'
 
 interface UseFilteringProps {
   records: VinylRecord[]
+  initialView?: CollectionView // E.g. from the URL
 }
 
 interface UseFilteringReturn {
   searchTerm: string
   setSearchTerm: (term: string) => void
+  queryErrors: QueryError[]
   sortBy: string
   setSortBy: (sort: string) => void
   filters: FilterState
   filteredAndSortedRecords: VinylRecord[]
-  handleGenreFilter: (genre: string) => void
-  handleDecadeFilter: (decade: string) => void
+  facetOptions: FacetOptions
+  handleFacetFilter: (key: FacetKey, value: string) => void
+  handleFacetToggle: (key: FacetKey, value: string) => void
+  handleFacetModeChange: (key: FacetKey, mode: FacetMode) => void
+  handleFacetClear: (key: FacetKey) => void
+  handleFolderFilter: (folder: string) => void
+  handlePressingFilter: (pressing: string) => void
+  handlePersonFilter: (person: string) => void
   handleClearFilters: () => void
   handleFilter: (type: string, value: string) => void
   getNoRecordsText: () => string
+  applyView: (view: Pick<CollectionView, 'searchTerm' | 'sortBy' | 'filters'>) => void
 }
 
-export function useFiltering({ records }: UseFilteringProps): UseFilteringReturn {
-  const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState('dateAdded')
-  const [filters, setFilters] = useState<FilterState>({ genre: null, decade: null })
+export function useFiltering({ records, initialView }: UseFilteringProps): UseFilteringReturn {
+  const [searchTerm, setSearchTerm] = useState(initialView?.searchTerm || '')
+  const [sortBy, setSortBy] = useState(initialView?.sortBy || DEFAULT_SORT)
+  const [filters, setFilters] = useState<FilterState>(
+    () => initialView?.filters || createFilterState()
+  )
 
-  const filteredAndSortedRecords = useMemo(() => {
+  const parsedQuery = useMemo(() => parseQuery(searchTerm), [searchTerm])
+
+  // One search index for the hook's lifetime; only changed records are re-indexed
+  const [searchIndex] = useState(() => new SearchIndex())
+
+  // Record scores for a free-text term, looked up once per term until records change
+  const getTextScores = useMemo(() => {
+    searchIndex.update(records)
+    const cache = new Map<string, Map<string, number>>()
+    return (text: string) => {
+      let scores = cache.get(text)
+      if (!scores) {
+        scores = new Map(searchIndex.search(text).map(({ id, score }) => [id, score]))
+        cache.set(text, scores)
+      }
+      return scores
+    }
+  }, [searchIndex, records])
+
+  // Everything but the facets; facet counts are taken within these records
+  const unfacetedRecords = useMemo(() => {
     let filtered = records
 
-    // Apply genre filter (check if any genre in the array matches)
-    if (filters.genre) {
-      filtered = filtered.filter(
-        record => record.genres.some(genre => 
-          genre.toLowerCase() === (filters.genre || '').toLowerCase()
-        )
-      )
+    // Apply collection folder filter
+    if (filters.folder) {
+      filtered = filtered.filter(record => record.folder === filters.folder)
     }
 
-    // Apply decade filter
-    if (filters.decade) {
-      filtered = filtered.filter(record => recordMatchesDecade(record, filters.decade || ''))
+    // Apply pressing filters
+    if (filters.pressing) {
+      filtered = filtered.filter(record => getPressingTags(record).includes(filters.pressing || ''))
     }
 
-    // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(
-        record =>
-          record.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          record.artist.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          record.label.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          record.genres.some(genre => genre.toLowerCase().includes(searchTerm.toLowerCase()))
+    if (filters.person) {
+      filtered = filtered.filter(record => recordHasPerson(record, filters.person || ''))
+    }
+
+    // Apply search query; plain words go through the search index (accents, prefixes, typos)
+    const { ast } = parsedQuery
+    if (ast) {
+      filtered = filtered.filter(record =>
+        recordMatchesQuery(record, ast, (r, text) => getTextScores(text).has(r.id))
       )
     }
 
-    // Apply sorting
-    const sorted = [...filtered].sort((a, b) => {
-      switch (sortBy) {
-        case 'artist':
-          return a.artist.localeCompare(b.artist)
-        case 'album':
-          return a.title.localeCompare(b.title)
-        case 'year':
-          return parseInt(b.year) - parseInt(a.year) // Newest first
-        case 'genre': {
-          // Sort by first genre in the array
-          const aGenre = a.genres.length > 0 ? a.genres[0] : 'Unknown'
-          const bGenre = b.genres.length > 0 ? b.genres[0] : 'Unknown'
-          return aGenre.localeCompare(bGenre)
-        }
-        case 'dateAdded':
-        default: {
-          // Sort by actual collection date (newest first)
-          const aDate = a.dateAdded ? new Date(a.dateAdded).getTime() : 0
-          const bDate = b.dateAdded ? new Date(b.dateAdded).getTime() : 0
-          return bDate - aDate // Newest additions first
-        }
-      }
-    })
+    return filtered
+  }, [records, parsedQuery, getTextScores, filters.folder, filters.pressing, filters.person])
+
+  const facetOptions = useMemo(
+    () => getFacetOptions(unfacetedRecords, filters.facets),
+    [unfacetedRecords, filters.facets]
+  )
 
-    return sorted
-  }, [records, searchTerm, sortBy, filters])
+  const filteredAndSortedRecords = useMemo(() => {
+    const filtered = applyFacets(unfacetedRecords, filters.facets)
+
+    const compareBySort = compareRecords(parseSortSpec(sortBy))
+
+    // Searching for words ranks by relevance; the chosen sort breaks ties
+    const texts = getQueryTexts(parsedQuery.ast)
+    if (texts.length > 0) {
+      const relevance = (record: VinylRecord) =>
+        texts.reduce((total, text) => total + (getTextScores(text).get(record.id) || 0), 0)
+      return [...filtered].sort((a, b) => relevance(b) - relevance(a) || compareBySort(a, b))
+    }
 
-  const handleGenreFilter = useCallback((genre: string) => {
-    setFilters(prev => ({ ...prev, genre: genre === 'all' ? null : genre }))
+    return [...filtered].sort(compareBySort)
+  }, [unfacetedRecords, sortBy, filters.facets, parsedQuery, getTextScores])
+
+  // Filter on a single value, replacing the facet's selection (links on album pages, cards...)
+  const handleFacetFilter = useCallback((key: FacetKey, value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      facets: selectFacetValue(prev.facets, key, value === 'all' ? null : value),
+    }))
+    // Reset search when applying filter for cleaner UX
+    setSearchTerm('')
+  }, [])
+
+  // Refining from the facet panel keeps the search, so the counts next to each option hold
+  const handleFacetToggle = useCallback((key: FacetKey, value: string) => {
+    setFilters(prev => ({ ...prev, facets: toggleFacetValue(prev.facets, key, value) }))
+  }, [])
+
+  const handleFacetModeChange = useCallback((key: FacetKey, mode: FacetMode) => {
+    setFilters(prev => ({ ...prev, facets: setFacetMode(prev.facets, key, mode) }))
+  }, [])
+
+  const handleFacetClear = useCallback((key: FacetKey) => {
+    setFilters(prev => ({ ...prev, facets: selectFacetValue(prev.facets, key, null) }))
+  }, [])
+
+  const handleFolderFilter = useCallback((folder: string) => {
+    setFilters(prev => ({ ...prev, folder: folder === 'all' ? null : folder }))
     // Reset search when applying filter for cleaner UX
     setSearchTerm('')
   }, [])
 
-  const handleDecadeFilter = useCallback((decade: string) => {
-    setFilters(prev => ({ ...prev, decade: decade === 'all' ? null : decade }))
+  const handlePressingFilter = useCallback((pressing: string) => {
+    setFilters(prev => ({ ...prev, pressing: pressing === 'all' ? null : pressing }))
+    // Reset search when applying filter for cleaner UX
+    setSearchTerm('')
+  }, [])
+
+  const handlePersonFilter = useCallback((person: string) => {
+    setFilters(prev => ({ ...prev, person: person === 'all' ? null : person }))
     // Reset search when applying filter for cleaner UX
     setSearchTerm('')
   }, [])
 
   const handleClearFilters = useCallback(() => {
-    setFilters({ genre: null, decade: null })
+    setFilters(createFilterState())
   }, [])
 
+  // Restore a whole view at once (back/forward, saved views)
+  const applyView = useCallback(
+    (view: Pick<CollectionView, 'searchTerm' | 'sortBy' | 'filters'>) => {
+      setSearchTerm(view.searchTerm)
+      setSortBy(view.sortBy)
+      setFilters(view.filters)
+    },
+    []
+  )
+
   // Compatibility function for components that still use the old filter interface
   const handleFilter = useCallback(
     (type: string, value: string) => {
-      if (type === 'genre') {
-        handleGenreFilter(value)
-      } else if (type === 'decade' || type === 'year') {
+      if (type === 'year') {
         // For year, convert to decade
-        const decade = type === 'year' ? getDecade(value) : value
-        handleDecadeFilter(decade)
+        handleFacetFilter('decade', getDecade(value))
+      } else if (FACET_KEYS.includes(type as FacetKey)) {
+        handleFacetFilter(type as FacetKey, value)
+      } else if (type === 'folder') {
+        handleFolderFilter(value)
+      } else if (type === 'pressing') {
+        handlePressingFilter(value)
+      } else if (type === 'person') {
+        handlePersonFilter(value)
       }
-      // Ignore other filter types for now (artist, label) since we're simplifying
     },
-    [handleGenreFilter, handleDecadeFilter]
+    [handleFacetFilter, handleFolderFilter, handlePressingFilter, handlePersonFilter]
   )
 
   const getNoRecordsText = useCallback(() => {
-    if (filters.genre && filters.decade) {
-      return `NO ${filters.genre.toUpperCase()} • ${filters.decade.toUpperCase()} RECORDS FOUND`
-    } else if (filters.genre) {
-      return `NO ${filters.genre.toUpperCase()} RECORDS FOUND`
-    } else if (filters.decade) {
-      return `NO ${filters.decade.toUpperCase()} RECORDS FOUND`
+    const { facets } = filters
+    const artist = describeFacetSelection(facets.artist)
+    const label = describeFacetSelection(facets.label)
+    const folderSuffix = [
+      artist ? ` BY ${artist.toUpperCase()}` : '',
+      label ? ` ON ${label.toUpperCase()}` : '',
+      filters.person ? ` WITH ${filters.person.toUpperCase()}` : '',
+      filters.folder ? ` IN ${filters.folder.toUpperCase()}` : '',
+    ].join('')
+    // Pressing qualifiers read as part of the description: "NO MONO US JAZZ RECORDS FOUND"
+    const pressingPrefix = [
+      filters.pressing,
+      describeFacetSelection(facets.format),
+      describeFacetSelection(facets.country),
+    ]
+      .filter(Boolean)
+      .map(value => `${value?.toUpperCase()} `)
+      .join('')
+    // A style narrows its genre, so it reads in the genre's place
+    const genre = describeFacetSelection(facets.style) || describeFacetSelection(facets.genre)
+    const decade = describeFacetSelection(facets.decade)
+    if (genre && decade) {
+      return `NO ${pressingPrefix}${genre.toUpperCase()} • ${decade.toUpperCase()} RECORDS FOUND${folderSuffix}`
+    } else if (genre) {
+      return `NO ${pressingPrefix}${genre.toUpperCase()} RECORDS FOUND${folderSuffix}`
+    } else if (decade) {
+      return `NO ${pressingPrefix}${decade.toUpperCase()} RECORDS FOUND${folderSuffix}`
     }
-    return 'NO RECORDS FOUND'
+    return `NO ${pressingPrefix}RECORDS FOUND${folderSuffix}`
   }, [filters])
 
   return {
     searchTerm,
     setSearchTerm,
+    queryErrors: parsedQuery.errors,
     sortBy,
     setSortBy,
     filters,
     filteredAndSortedRecords,
-    handleGenreFilter,
-    handleDecadeFilter,
+    facetOptions,
+    handleFacetFilter,
+    handleFacetToggle,
+    handleFacetModeChange,
+    handleFacetClear,
+    handleFolderFilter,
+    handlePressingFilter,
+    handlePersonFilter,
     handleClearFilters,
     handleFilter,
     getNoRecordsText,
+    applyView,
   }
 }
@@ -0,0 +1,55 @@
+import { useState, useEffect, useRef } from 'react'
+import { VinylRecord } from '../data/vinylRecords'
+import { hasDiscogsCredentials } from '../services/discogsService'
+import { labelCatalogService, LabelCatalog } from '../services/labelCatalogService'
+
+interface LabelCatalogState {
+  catalog: LabelCatalog | null // Null until loaded, or when Discogs doesn't know the label
+  isAvailable: boolean // Whether there is a Discogs account to ask
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * The releases Discogs lists on a label, with their catalog numbers
+ */
+export function useLabelCatalog(
+  name: string,
+  records: VinylRecord[] // Where to look for the label's Discogs id before searching for it
+): LabelCatalogState {
+  const [catalog, setCatalog] = useState<LabelCatalog | null>(null)
+  const [isLoading, setIsLoading] = useState(hasDiscogsCredentials) // Loading starts on mount
+  const [error, setError] = useState<string | null>(null)
+  const isAvailable = hasDiscogsCredentials()
+
+  // Records changing (a sync) doesn't make it another label
+  const recordsRef = useRef(records)
+  recordsRef.current = records
+
+  useEffect(() => {
+    if (!isAvailable) return
+    let isCurrent = true // Results for a label navigated away from are dropped
+
+    const loadCatalog = async () => {
+      setCatalog(null)
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const labelCatalog = await labelCatalogService.getCatalog(name, recordsRef.current)
+        if (isCurrent) setCatalog(labelCatalog)
+      } catch (err) {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Failed to load the catalog')
+      } finally {
+        if (isCurrent) setIsLoading(false)
+      }
+    }
+
+    loadCatalog()
+    return () => {
+      isCurrent = false
+    }
+  }, [name, isAvailable])
+
+  return { catalog, isAvailable, isLoading, error }
+}
@@ -1,22 +1,34 @@
 import { useState, useEffect, useCallback } from 'react'
 import { VinylRecord } from '../data/vinylRecords'
 import { publicCollectionService, CollectionStats } from '../services/publicCollectionService'
-import { discogsService } from '../services/discogsService'
+import { getDiscogsService } from '../services/discogsService'
+import { syncService } from '../services/syncService'
 import { SyncProgress } from '../services/cacheService' // Reuse existing type
+import { RateLimitStats } from '../services/rateLimiter'
 
 export interface PublicCollectionState {
   records: VinylRecord[]
+  wantlist: VinylRecord[]
   isLoading: boolean
+  isCollectionLoaded: boolean // The first load of each list has finished, successfully or not
+  isWantlistLoaded: boolean
   error: string | null
   syncProgress: SyncProgress | null
   lastSync: Date | null
   stats: CollectionStats | null
   isOnline: boolean
+  canResume: boolean // An interrupted sync left a checkpoint to continue from
+}
+
+export interface PublicSyncOptions {
+  forceRefresh?: boolean // Re-fetch every release instead of only the ones not synced yet
+  resume?: boolean // Continue the interrupted sync from its checkpoint
 }
 
 export interface PublicCollectionActions {
-  syncFromDiscogs: () => Promise<void>
+  syncFromDiscogs: (options?: PublicSyncOptions) => Promise<void>
   refreshCollection: () => Promise<void>
+  addDiscogsRelease: (releaseId: number, options?: { addToDiscogs?: boolean }) => Promise<void>
   searchCollection: (query: string) => Promise<VinylRecord[]>
   clearCollection: () => Promise<void>
   cancelSync: () => void
@@ -26,12 +38,16 @@ export interface PublicCollectionActions {
 export function usePublicCollection(): [PublicCollectionState, PublicCollectionActions] {
   const [state, setState] = useState<PublicCollectionState>({
     records: [],
+    wantlist: [],
     isLoading: false,
+    isCollectionLoaded: false,
+    isWantlistLoaded: false,
     error: null,
     syncProgress: null,
     lastSync: null,
     stats: null,
-    isOnline: navigator.onLine
+    isOnline: navigator.onLine,
+    canResume: false
   })
 
   const [isSyncing, setIsSyncing] = useState(false)
@@ -50,12 +66,6 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
     }
   }, [])
 
-  // Load collection on mount
-  useEffect(() => {
-    loadCollection()
-    loadStats()
-  }, [])
-
   const loadCollection = useCallback(async () => {
     setState(prev => ({ ...prev, isLoading: true, error: null }))
 
@@ -65,6 +75,7 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
         ...prev,
         records,
         isLoading: false,
+        isCollectionLoaded: true,
         lastSync: new Date()
       }))
     } catch (error) {
@@ -72,11 +83,28 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
       setState(prev => ({
         ...prev,
         error: errorMessage,
-        isLoading: false
+        isLoading: false,
+        isCollectionLoaded: true
       }))
     }
   }, [])
 
+  const loadWantlist = useCallback(async () => {
+    try {
+      const wantlist = await publicCollectionService.getWantlist()
+      setState(prev => ({ ...prev, wantlist, isWantlistLoaded: true }))
+    } catch (error) {
+      // The wantlist table is optional - the collection works without it
+      console.warn('Failed to load wantlist:', error)
+      setState(prev => ({ ...prev, isWantlistLoaded: true }))
+    }
+  }, [])
+
+  const checkResumable = useCallback(async () => {
+    const canResume = await syncService.hasResumableSync()
+    setState(prev => ({ ...prev, canResume }))
+  }, [])
+
   const loadStats = useCallback(async () => {
     try {
       const stats = await publicCollectionService.getStats()
@@ -86,7 +114,15 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
     }
   }, [])
 
-  const syncFromDiscogs = useCallback(async () => {
+  // Load collection on mount
+  useEffect(() => {
+    loadCollection()
+    loadWantlist()
+    loadStats()
+    checkResumable()
+  }, [loadCollection, loadWantlist, loadStats, checkResumable])
+
+  const syncFromDiscogs = useCallback(async ({ forceRefresh = false, resume = false }: PublicSyncOptions = {}) => {
     if (!state.isOnline) {
       setState(prev => ({ ...prev, error: 'Cannot sync while offline' }))
       return
@@ -97,61 +133,69 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
     setIsSyncing(true)
     setState(prev => ({ ...prev, isLoading: true, error: null, syncProgress: null }))
 
-    try {
-      setState(prev => ({
-        ...prev,
-        syncProgress: {
-          phase: 'connecting',
-          progress: 10,
-          message: 'Connecting to Discogs...'
-        }
-      }))
+    // Progress carries the latest Discogs API budget, refreshed whenever the rate limiter updates it
+    let rateLimit: RateLimitStats | undefined
+    let unsubscribeRateLimit = () => {}
+    const reportProgress = (progress: SyncProgress) => {
+      setState(prev => ({ ...prev, syncProgress: { ...progress, rateLimit } }))
+    }
 
-      // Test Discogs connection
-      const connectionTest = await discogsService.testConnection()
-      if (!connectionTest.success) {
-        throw new Error(connectionTest.message)
+    try {
+      const discogsService = getDiscogsService()
+      rateLimit = discogsService.getRateLimitStats()
+      unsubscribeRateLimit = discogsService.onRateLimitChange(stats => {
+        rateLimit = stats
+        setState(prev =>
+          prev.syncProgress ? { ...prev, syncProgress: { ...prev.syncProgress, rateLimit } } : prev
+        )
+      })
+
+      // The sync service fetches full releases and master data, reusing the master cache,
+      // and checkpoints its progress; its steps fill the first 80% of the bar
+      const onProgress = (progress: SyncProgress) => {
+        if (progress.phase === 'complete' || progress.phase === 'error') return
+        reportProgress({ ...progress, progress: Math.round(progress.progress * 0.8) })
+      }
+      const { records, result } = resume
+        ? await syncService.resumeSync(onProgress)
+        : await syncService.syncFromDiscogs(onProgress, false, !forceRefresh)
+      if (!result.success) {
+        throw new Error(result.errors[result.errors.length - 1] || 'Sync failed')
       }
 
-      setState(prev => ({
-        ...prev,
-        syncProgress: {
-          phase: 'fetching',
-          progress: 30,
-          message: 'Fetching collection from Discogs...'
-        }
-      }))
-
-      // Get Discogs collection
-      const discogsReleases = await discogsService.getAllUserCollection(false)
-
-      setState(prev => ({
-        ...prev,
-        syncProgress: {
-          phase: 'transforming',
-          progress: 60,
-          message: `Processing ${discogsReleases.length} releases...`,
-          recordsProcessed: 0,
-          totalRecords: discogsReleases.length
-        }
-      }))
-
-      // Sync to database
-      const syncResult = await publicCollectionService.syncFromDiscogs(discogsReleases)
-
-      setState(prev => ({
-        ...prev,
-        syncProgress: {
-          phase: 'complete',
-          progress: 100,
-          message: `Sync complete! Added ${syncResult.recordsAdded} records${
-            syncResult.errors.length > 0 ? ` (${syncResult.errors.length} errors)` : ''
-          }`
-        }
-      }))
-
-      // Refresh collection and stats
+      reportProgress({
+        phase: 'caching',
+        progress: 80,
+        message: `Saving ${records.length} records...`,
+        recordsProcessed: 0,
+        totalRecords: records.length
+      })
+      const syncResult = await publicCollectionService.saveRecords(
+        records,
+        'owned',
+        result.listedIds
+      )
+
+      reportProgress({
+        phase: 'fetching',
+        progress: 90,
+        message: 'Fetching wantlist from Discogs...'
+      })
+      const discogsWants = await discogsService.getAllUserWantlist()
+      const wantlistResult = await publicCollectionService.syncFromDiscogs(discogsWants, 'wanted')
+      const syncErrors = [...result.errors, ...syncResult.errors, ...wantlistResult.errors]
+
+      reportProgress({
+        phase: 'complete',
+        progress: 100,
+        message: `Sync complete! Saved ${syncResult.recordsAdded} records and ${
+          wantlistResult.recordsAdded
+        } wanted${syncErrors.length > 0 ? ` (${syncErrors.length} errors)` : ''}`
+      })
+
+      // Refresh collection, wantlist and stats
       await loadCollection()
+      await loadWantlist()
       await loadStats()
 
       // Clear progress after a delay
@@ -162,24 +206,42 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Sync failed'
       
-      setState(prev => ({
-        ...prev,
-        error: errorMessage,
-        syncProgress: {
-          phase: 'error',
-          progress: 0,
-          message: `Sync failed: ${errorMessage}`
-        }
-      }))
+      setState(prev => ({ ...prev, error: errorMessage }))
+      reportProgress({
+        phase: 'error',
+        progress: 0,
+        message: `Sync failed: ${errorMessage}`
+      })
     } finally {
+      unsubscribeRateLimit()
       setState(prev => ({ ...prev, isLoading: false }))
       setIsSyncing(false)
+      // A failed or cancelled sync keeps its checkpoint
+      await checkResumable()
     }
-  }, [state.isOnline, isSyncing, loadCollection, loadStats])
+  }, [state.isOnline, isSyncing, loadCollection, loadWantlist, loadStats, checkResumable])
 
   const refreshCollection = useCallback(async () => {
+    await loadCollection()
+    await loadWantlist()
+    await loadStats()
+  }, [loadCollection, loadWantlist, loadStats])
+
+  // Saved to the collection first, so a failure on Discogs doesn't lose the record
+  const addDiscogsRelease = useCallback(async (releaseId: number, options: { addToDiscogs?: boolean } = {}) => {
+    const record = await syncService.getRecordForRelease(releaseId)
+    await publicCollectionService.saveRecord(record, 'owned')
     await loadCollection()
     await loadStats()
+
+    if (!options.addToDiscogs) return
+
+    try {
+      await getDiscogsService().addReleaseToCollection(releaseId)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Added to your collection, but not to Discogs: ${message}`)
+    }
   }, [loadCollection, loadStats])
 
   const searchCollection = useCallback(async (query: string): Promise<VinylRecord[]> => {
@@ -203,6 +265,8 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
   }, [loadCollection, loadStats])
 
   const cancelSync = useCallback(() => {
+    // The sync service stops between pages and batches, keeping its checkpoint
+    syncService.cancelCurrentSync()
     setIsSyncing(false)
     setState(prev => ({
       ...prev,
@@ -227,6 +291,7 @@ export function usePublicCollection(): [PublicCollectionState, PublicCollectionA
   const actions: PublicCollectionActions = {
     syncFromDiscogs,
     refreshCollection,
+    addDiscogsRelease,
     searchCollection,
     clearCollection,
     cancelSync,
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { Profile } from '../services/supabaseService'
+import { preferencesStore } from '../services/preferencesStore'
+import {
+  SavedView,
+  addSavedView,
+  getSavedViews,
+  removeSavedView,
+  setSavedViews,
+  toggleSavedViewPinned,
+} from '../utils/viewState'
+
+interface SavedViewsProfile {
+  profile: Profile | null
+  updateProfile: (updates: Partial<Profile>) => Promise<Profile>
+}
+
+interface SavedViewsActions {
+  saveView: (name: string, query: string) => Promise<void>
+  removeView: (id: string) => Promise<void>
+  togglePinned: (id: string) => Promise<void>
+  error: string | null // Last failure to load or save the views
+}
+
+/**
+ * Named collection views, kept in the signed-in user's Profile.preferences or, without a
+ * profile (the public collection), in the same shape on this device
+ */
+export function useSavedViews(account?: SavedViewsProfile): [SavedView[], SavedViewsActions] {
+  const profile = account?.profile
+  const [localPreferences, setLocalPreferences] = useState<Record<string, unknown>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (profile) return
+    preferencesStore
+      .get()
+      .then(setLocalPreferences)
+      .catch(err =>
+        setError(
+          `Couldn't load saved views: ${err instanceof Error ? err.message : 'Unknown error'}`
+        )
+      )
+  }, [profile])
+
+  const preferences = profile ? profile.preferences : localPreferences
+  const views = getSavedViews(preferences)
+
+  const updateViews = useCallback(
+    async (updater: (views: SavedView[]) => SavedView[]) => {
+      const next = setSavedViews(preferences, updater(getSavedViews(preferences)))
+      setError(null)
+      try {
+        if (profile && account) {
+          await account.updateProfile({ preferences: next })
+        } else {
+          setLocalPreferences(next)
+          await preferencesStore.set(next)
+        }
+      } catch (err) {
+        setError(`Couldn't save views: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    },
+    [preferences, profile, account]
+  )
+
+  const saveView = useCallback(
+    (name: string, query: string) => updateViews(views => addSavedView(views, name, query)),
+    [updateViews]
+  )
+
+  const removeView = useCallback(
+    (id: string) => updateViews(views => removeSavedView(views, id)),
+    [updateViews]
+  )
+
+  const togglePinned = useCallback(
+    (id: string) => updateViews(views => toggleSavedViewPinned(views, id)),
+    [updateViews]
+  )
+
+  return [views, { saveView, removeView, togglePinned, error }]
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from 'react'
 import { VinylRecord } from '../data/vinylRecords'
-import { supabaseService, CollectionSyncLog } from '../services/supabaseService'
+import { supabaseService, CollectionSyncLog, UserCollection } from '../services/supabaseService'
 import { useAuth } from '../contexts/AuthContext'
-import { discogsService } from '../services/discogsService'
+import { getDiscogsService, hasDiscogsCredentials } from '../services/discogsService'
+import { NewCollectionChange } from '../utils/writeBack'
 import { transformDiscogsToVinylRecord, filterValidRecords } from '../services/dataTransform'
+import { syncService } from '../services/syncService'
 
 export interface SupabaseCollectionState {
   records: VinylRecord[]
@@ -38,7 +40,8 @@ export interface CollectionStats {
 export interface SupabaseCollectionActions {
   syncCollection: (forceRefresh?: boolean) => Promise<void>
   addRecord: (record: VinylRecord, collectionData?: any) => Promise<void>
-  updateRecord: (recordId: string, updates: any) => Promise<void>
+  addDiscogsRelease: (releaseId: number, options?: { addToDiscogs?: boolean }) => Promise<void>
+  updateRecord: (recordId: string, updates: Partial<UserCollection>) => Promise<void>
   removeRecord: (recordId: string) => Promise<void>
   toggleFavorite: (recordId: string) => Promise<void>
   updatePlayCount: (recordId: string) => Promise<void>
@@ -171,11 +174,17 @@ export function useSupabaseCollection(): [SupabaseCollectionState, SupabaseColle
       }))
 
       // Test Discogs connection
+      const discogsService = getDiscogsService()
       const connectionTest = await discogsService.testConnection()
       if (!connectionTest.success) {
         throw new Error(connectionTest.message)
       }
 
+      // Push local edits first so the fresh copy from Discogs already includes them
+      await discogsService.pushPendingChanges().catch(error => {
+        console.warn('Failed to push pending changes to Discogs:', error)
+      })
+
       setState(prev => ({
         ...prev,
         syncProgress: {
@@ -188,6 +197,11 @@ export function useSupabaseCollection(): [SupabaseCollectionState, SupabaseColle
 
       // Get Discogs collection
       const discogsReleases = await discogsService.getAllUserCollection(false)
+      const collectionContext = await discogsService.getCollectionContext().catch(error => {
+        // Records still sync without folders and custom fields
+        console.warn('Failed to fetch collection folders and fields:', error)
+        return undefined
+      })
 
       setState(prev => ({
         ...prev,
@@ -211,7 +225,7 @@ export function useSupabaseCollection(): [SupabaseCollectionState, SupabaseColle
 
         try {
           // Transform to VinylRecord format
-          const vinylRecord = transformDiscogsToVinylRecord(release, undefined, i)
+          const vinylRecord = transformDiscogsToVinylRecord(release, undefined, i, collectionContext)
           
           // Add to collection
           await supabaseService.addToCollection(vinylRecord)
@@ -299,18 +313,71 @@ export function useSupabaseCollection(): [SupabaseCollectionState, SupabaseColle
     }
   }, [isAuthenticated, loadCollection, loadStats])
 
-  const updateRecord = useCallback(async (recordId: string, updates: any) => {
+  // Add a pressing picked from a Discogs search, optionally adding it to the Discogs collection too.
+  // It is saved locally first so a failed Discogs request never loses the record.
+  const addDiscogsRelease = useCallback(async (releaseId: number, options: { addToDiscogs?: boolean } = {}) => {
+    const record = await syncService.getRecordForRelease(releaseId)
+    await addRecord(record)
+
+    if (!options.addToDiscogs) return
+
+    try {
+      const { instance_id } = await getDiscogsService().addReleaseToCollection(releaseId)
+      // Edits are pushed back to this exact instance
+      await supabaseService.updateCollectionRecord(record.id, { discogs_instance_id: instance_id.toString() })
+      await loadCollection()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Added to your collection, but not to Discogs: ${message}`)
+    }
+  }, [addRecord, loadCollection])
+
+  // Rating, notes and folder have Discogs counterparts, so edits to them are queued for write-back
+  const queueDiscogsChanges = useCallback(async (record: VinylRecord, updates: Partial<UserCollection>) => {
+    if (!hasDiscogsCredentials()) return
+
+    const target = { releaseId: Number(record.id), instanceId: record.discogsInstanceId }
+    const changes: NewCollectionChange[] = []
+    if ('rating' in updates) {
+      changes.push({ ...target, field: 'rating', value: updates.rating || 0, baseValue: record.rating || 0 })
+    }
+    if ('personal_notes' in updates) {
+      changes.push({ ...target, field: 'notes', value: updates.personal_notes || '', baseValue: record.collectionNotes || '' })
+    }
+    if ('folder' in updates) {
+      changes.push({ ...target, field: 'folder', value: updates.folder || '', baseValue: record.folder || '' })
+    }
+    if (changes.length === 0) return
+
+    const discogsService = getDiscogsService()
+    for (const change of changes) {
+      await discogsService.queueCollectionChange(change)
+    }
+
+    // Push in the background; failures stay queued and are retried on the next push or sync
+    discogsService.pushPendingChanges().catch(error => {
+      console.warn('Failed to push changes to Discogs:', error)
+    })
+  }, [])
+
+  const updateRecord = useCallback(async (recordId: string, updates: Partial<UserCollection>) => {
     if (!isAuthenticated) throw new Error('User not authenticated')
 
     try {
       await supabaseService.updateCollectionRecord(recordId, updates)
+
+      const record = state.records.find(r => r.id === recordId)
+      if (record) {
+        await queueDiscogsChanges(record, updates)
+      }
+
       await loadCollection()
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to update record'
       setState(prev => ({ ...prev, error: errorMessage }))
       throw error
     }
-  }, [isAuthenticated, loadCollection])
+  }, [isAuthenticated, state.records, queueDiscogsChanges, loadCollection])
 
   const removeRecord = useCallback(async (recordId: string) => {
     if (!isAuthenticated) throw new Error('User not authenticated')
@@ -391,6 +458,7 @@ export function useSupabaseCollection(): [SupabaseCollectionState, SupabaseColle
   const actions: SupabaseCollectionActions = {
     syncCollection,
     addRecord,
+    addDiscogsRelease,
     updateRecord,
     removeRecord,
     toggleFavorite,
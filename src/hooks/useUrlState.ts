@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef } from 'react'
+import {
+  differsOnlyInSearch,
+  parseCollectionView,
+  serializeCollectionView,
+} from '../utils/viewState'
+
+interface UrlLocation {
+  path: string
+  query: string // Collection view, without "?"
+}
+
+// Marks history entries the app pushed, so "back" knows there is an app page to return to
+const APP_ENTRY = { analogVibes: true }
+
+// Current URL, with the query in its canonical form so equal views compare equal
+function readLocation(): UrlLocation {
+  return {
+    path: window.location.pathname,
+    query: serializeCollectionView(parseCollectionView(window.location.search)),
+  }
+}
+
+/**
+ * Keep the URL in step with the page and the collection view: each change of page, filters or
+ * sort is a history entry (so back/forward walk through them), while typing a search only
+ * replaces the current one. `onNavigate` receives the location to restore when the user goes
+ * back or forward. Returns `goBack`, which steps back through the app's own history and falls
+ * back to `fallback` when the page was opened directly.
+ */
+export function useUrlState(
+  path: string,
+  query: string,
+  onNavigate: (location: UrlLocation) => void
+): (fallback: () => void) => void {
+  const lastLocation = useRef<UrlLocation | null>(null)
+  if (lastLocation.current === null) lastLocation.current = readLocation()
+  const onNavigateRef = useRef(onNavigate)
+  onNavigateRef.current = onNavigate
+
+  useEffect(() => {
+    const last = lastLocation.current
+    if (last && path === last.path && query === last.query) return
+
+    const url = `${path}${query ? `?${query}` : ''}${window.location.hash}`
+    if (last && path === last.path && differsOnlyInSearch(query, last.query)) {
+      window.history.replaceState(window.history.state, '', url)
+    } else {
+      window.history.pushState(APP_ENTRY, '', url)
+    }
+    lastLocation.current = { path, query }
+  }, [path, query])
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = readLocation()
+      lastLocation.current = location
+      onNavigateRef.current(location)
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  return useCallback((fallback: () => void) => {
+    if (window.history.state?.analogVibes) {
+      window.history.back()
+    } else {
+      fallback()
+    }
+  }, [])
+}
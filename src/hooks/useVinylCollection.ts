@@ -11,11 +11,13 @@ export interface CollectionState {
   lastSync: Date | null;
   hasCache: boolean;
   isConfigured: boolean;
+  canResumeSync: boolean;
 }
 
 export interface CollectionActions {
   syncCollection: (forceRefresh?: boolean) => Promise<void>;
   cancelSync: () => void;
+  resumeSync: () => Promise<void>;
   clearCache: () => Promise<void>;
   testConnection: () => Promise<{ success: boolean; message: string }>;
   updateRecord: (recordId: string, updatedRecord: VinylRecord) => Promise<void>;
@@ -34,7 +36,8 @@ export function useVinylCollection(): [CollectionState, CollectionActions] {
     syncProgress: null,
     lastSync: null,
     hasCache: false,
-    isConfigured: false
+    isConfigured: false,
+    canResumeSync: false
   });
 
   // Check configuration status
@@ -62,12 +65,14 @@ export function useVinylCollection(): [CollectionState, CollectionActions] {
     const checkCacheStatus = async () => {
       try {
         const cacheInfo = await syncService.getCacheInfo();
+        const canResumeSync = await syncService.hasResumableSync();
         // Only update state if component is still mounted
         if (isMounted) {
           setState(prev => ({
             ...prev,
             hasCache: cacheInfo.hasCache,
-            lastSync: cacheInfo.lastSync || null
+            lastSync: cacheInfo.lastSync || null,
+            canResumeSync
           }));
         }
       } catch (error) {
@@ -142,7 +147,8 @@ export function useVinylCollection(): [CollectionState, CollectionActions] {
         error: result.success ? null : (result.errors.join(', ') || 'Sync failed'),
         syncProgress: null,
         lastSync: new Date(),
-        hasCache: true
+        hasCache: true,
+        canResumeSync: !result.success
       }));
 
       // Log sync result
@@ -165,6 +171,41 @@ export function useVinylCollection(): [CollectionState, CollectionActions] {
     }
   }, [handleSyncProgress]);
 
+  // Resume an interrupted sync from its saved checkpoint
+  const resumeSync = useCallback(async () => {
+    setState(prev => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+      syncProgress: null
+    }));
+
+    try {
+      const { records, result } = await syncService.resumeSync(handleSyncProgress);
+
+      setState(prev => ({
+        ...prev,
+        records,
+        isLoading: false,
+        error: result.success ? null : (result.errors.join(', ') || 'Sync failed'),
+        syncProgress: null,
+        lastSync: result.success ? new Date() : prev.lastSync,
+        hasCache: records.length > 0,
+        canResumeSync: !result.success
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resume sync';
+      console.error('Resume sync error:', error);
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: errorMessage,
+        syncProgress: null
+      }));
+    }
+  }, [handleSyncProgress]);
+
   // Clear cache
   const clearCache = useCallback(async () => {
     try {
@@ -325,6 +366,7 @@ export function useVinylCollection(): [CollectionState, CollectionActions] {
   const actions: CollectionActions = {
     syncCollection,
     cancelSync,
+    resumeSync,
     clearCache,
     testConnection,
     updateRecord,
@@ -1,6 +1,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { AuthProvider } from './contexts/AuthContext'
 import './styles/globals.css'
 
 // Prevent server crashes from unhandled promise rejections
@@ -18,6 +19,8 @@ if (typeof process !== 'undefined') {
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <AuthProvider>
+      <App />
+    </AuthProvider>
   </React.StrictMode>,
 )
\ No newline at end of file
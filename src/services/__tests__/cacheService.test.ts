@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { cacheService, EnrichedRelease, SyncCheckpoint } from '../cacheService'
+import { DiscogsRelease } from '../discogsService'
+import { NormalizedMaster } from '../metadataProvider'
+import { normalizeDiscogsRelease } from '../dataTransform'
+import { memoryStores } from '../../test/memoryStorage'
+
+vi.mock('localforage', () => import('../../test/memoryStorage'))
+
+const release = (id: number): DiscogsRelease => ({
+  id,
+  title: `Release ${id}`,
+  artists: [{ name: 'Art Blakey', id: 1 }],
+})
+
+const enriched = (id: number): EnrichedRelease => ({
+  id: id.toString(),
+  release: normalizeDiscogsRelease(release(id)),
+})
+
+const master = (id: string): NormalizedMaster => ({
+  provider: 'discogs',
+  id,
+  title: `Master ${id}`,
+  artists: [],
+  genres: ['Jazz'],
+  styles: [],
+  credits: [],
+})
+
+const checkpoint: SyncCheckpoint = {
+  syncType: 'full',
+  skipMasterData: false,
+  startedAt: 1000,
+  updatedAt: 1000,
+  totalPages: 2,
+  totalItems: 3,
+  fetchComplete: true,
+  pages: {},
+  enriched: [],
+  masters: {},
+}
+
+const storedKeys = () => Array.from(memoryStores.get('vinyl_cache')?.keys() ?? []).sort()
+
+describe('cacheService', () => {
+  beforeEach(async () => {
+    await cacheService.clearCache()
+  })
+
+  describe('sync checkpoints', () => {
+    it('stores each page as its own entry', async () => {
+      await cacheService.saveSyncCheckpoint({
+        ...checkpoint,
+        pages: { 1: [release(1), release(2)] },
+      })
+      await cacheService.saveSyncCheckpointPage(1, [release(1), release(2)])
+      await cacheService.saveSyncCheckpointPage(2, [release(3)])
+
+      // The checkpoint entry itself holds no pages, so saving it again stays small
+      expect(storedKeys()).toEqual([
+        'sync_checkpoint',
+        'sync_checkpoint_page_1',
+        'sync_checkpoint_page_2',
+      ])
+      expect(memoryStores.get('vinyl_cache')?.get('sync_checkpoint')).not.toHaveProperty('pages')
+    })
+
+    it('puts the checkpoint back together in order', async () => {
+      await cacheService.saveSyncCheckpoint(checkpoint)
+      await cacheService.saveSyncCheckpointPage(2, [release(3)])
+      await cacheService.saveSyncCheckpointPage(1, [release(1), release(2)])
+      await cacheService.saveSyncCheckpointBatch(2, [enriched(3)], {})
+      await cacheService.saveSyncCheckpointBatch(0, [enriched(1), enriched(2)], {
+        10: master('10'),
+      })
+
+      const restored = await cacheService.getSyncCheckpoint()
+
+      expect(restored?.fetchComplete).toBe(true)
+      expect(restored?.pages[1].map(({ id }) => id)).toEqual([1, 2])
+      expect(restored?.pages[2].map(({ id }) => id)).toEqual([3])
+      expect(restored?.enriched.map(({ id }) => id)).toEqual(['1', '2', '3'])
+      expect(Object.keys(restored?.masters ?? {})).toEqual(['10'])
+    })
+
+    it('has no checkpoint until its state is saved', async () => {
+      await cacheService.saveSyncCheckpointPage(1, [release(1)])
+      expect(await cacheService.getSyncCheckpoint()).toBeNull()
+    })
+
+    it('clears every part of the checkpoint and nothing else', async () => {
+      await cacheService.cacheCollection([], 0)
+      await cacheService.saveSyncCheckpoint(checkpoint)
+      await cacheService.saveSyncCheckpointPage(1, [release(1)])
+      await cacheService.saveSyncCheckpointBatch(0, [enriched(1)], {})
+
+      await cacheService.clearSyncCheckpoint()
+
+      expect(storedKeys()).toEqual(['collection_metadata', 'vinyl_collection'])
+      expect(await cacheService.getSyncCheckpoint()).toBeNull()
+    })
+  })
+})
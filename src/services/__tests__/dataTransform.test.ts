@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeDiscogsRelease,
+  refreshCollectionDetails,
+  transformCollectionItem,
+  transformVinylRelease,
+  validateVinylRecord,
+} from '../dataTransform'
+import { CollectionContext, DiscogsRelease } from '../discogsService'
+import { VinylRecord } from '../../data/vinylRecords'
+
+const collection: CollectionContext = {
+  folders: { 1: 'Uncategorized', 42: 'Blue Note' },
+  fields: [
+    { id: 1, name: 'Media Condition', type: 'dropdown', position: 1, public: true },
+    { id: 2, name: 'Sleeve Condition', type: 'dropdown', position: 2, public: true },
+    { id: 3, name: 'Notes', type: 'textarea', position: 3, public: true },
+    { id: 4, name: 'Shelf', type: 'textarea', position: 4, public: false },
+  ],
+}
+
+const fullRelease: DiscogsRelease = {
+  id: 100,
+  title: 'Blue Train',
+  artists: [{ name: 'John Coltrane', id: 1 }],
+  country: 'US',
+  notes: 'Recorded at Van Gelder Studio.',
+}
+
+const collectionItem: DiscogsRelease = {
+  id: 100,
+  title: 'Blue Train',
+  artists: [{ name: 'John Coltrane', id: 1 }],
+  instance_id: 555,
+  folder_id: 42,
+  rating: 4,
+  date_added: '2024-03-01T10:00:00-08:00',
+  notes: [
+    { field_id: 1, value: 'Near Mint (NM or M-)' },
+    { field_id: 2, value: 'Very Good Plus (VG+)' },
+    { field_id: 3, value: 'Ear label' },
+    { field_id: 4, value: 'B2' },
+  ],
+}
+
+describe('dataTransform', () => {
+  describe('transformVinylRelease', () => {
+    it('leaves unknown track times empty', () => {
+      const release = normalizeDiscogsRelease({
+        ...fullRelease,
+        tracklist: [
+          { position: 'A1', title: 'Blue Train', duration: '10:43' },
+          { position: 'A2', title: 'Moment’s Notice', duration: '' },
+        ],
+      })
+
+      expect(transformVinylRelease(release, '1').tracks.map(({ duration }) => duration)).toEqual([
+        '10:43',
+        '',
+      ])
+    })
+
+    it('keeps an empty tracklist when Discogs has none', () => {
+      const release = transformVinylRelease(normalizeDiscogsRelease(fullRelease), '1')
+      expect(release.tracks).toEqual([])
+    })
+
+    it('accepts records without tracks as valid', () => {
+      const record = transformCollectionItem(collectionItem, normalizeDiscogsRelease(fullRelease))
+      expect(record.tracks).toEqual([])
+      expect(validateVinylRecord({ ...record, coverUrl: 'cover.jpg' })).toBe(true)
+    })
+  })
+
+  describe('transformCollectionItem', () => {
+    it('keeps the collection item fields alongside the full release', () => {
+      const record = transformCollectionItem(
+        collectionItem,
+        normalizeDiscogsRelease(fullRelease),
+        undefined,
+        0,
+        collection
+      )
+
+      expect(record).toMatchObject({
+        id: '100',
+        country: 'US',
+        dateAdded: '2024-03-01T10:00:00-08:00',
+        folder: 'Blue Note',
+        rating: 4,
+        discogsInstanceId: 555,
+        mediaCondition: 'Near Mint',
+        sleeveCondition: 'Very Good Plus',
+        collectionNotes: 'Ear label',
+        customFields: { Shelf: 'B2' },
+      })
+      // The release notes still come from the full release
+      expect(record.description).toContain('Recorded at Van Gelder Studio')
+    })
+
+    it('leaves the collection details out without the collection context', () => {
+      const record = transformCollectionItem(collectionItem, normalizeDiscogsRelease(fullRelease))
+      expect(record.dateAdded).toBe('2024-03-01T10:00:00-08:00')
+      expect(record.folder).toBeUndefined()
+      expect(record.rating).toBeUndefined()
+    })
+  })
+
+  describe('refreshCollectionDetails', () => {
+    const cached: VinylRecord = {
+      id: '100',
+      title: 'Blue Train',
+      artist: 'John Coltrane',
+      year: '1957',
+      label: 'Blue Note',
+      genres: ['Jazz'],
+      catalogNumber: 'BLP 1577',
+      coverUrl: '',
+      tracks: [],
+      country: 'US',
+      folder: 'Blue Note',
+      rating: 3,
+      mediaCondition: 'Very Good',
+      collectionNotes: 'Ear label',
+      dateAdded: '2024-03-01T10:00:00-08:00',
+    }
+
+    it('takes the folder, rating and custom fields from the listing item', () => {
+      const refreshed = refreshCollectionDetails(
+        cached,
+        { ...collectionItem, folder_id: 1, rating: 0, notes: [{ field_id: 1, value: 'Mint (M)' }] },
+        collection
+      )
+
+      expect(refreshed).toMatchObject({ id: '100', country: 'US', mediaCondition: 'Mint' })
+      expect(refreshed.folder).toBeUndefined()
+      expect(refreshed.rating).toBeUndefined()
+      expect(refreshed.collectionNotes).toBeUndefined()
+    })
+
+    it('keeps the cached details without the collection context', () => {
+      const refreshed = refreshCollectionDetails(cached, { ...collectionItem, rating: 5 })
+      expect(refreshed).toEqual(cached)
+    })
+  })
+})
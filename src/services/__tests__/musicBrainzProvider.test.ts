@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import MusicBrainzProvider from '../musicBrainzProvider'
+
+// Fixture server standing in for the MusicBrainz web service
+const fixtures: Record<string, unknown> = {
+  '/release/b84ee12a': {
+    id: 'b84ee12a',
+    title: 'Moanin’',
+    date: '1959-01',
+    country: 'US',
+    barcode: null,
+    'artist-credit': [
+      {
+        name: 'Art Blakey & The Jazz Messengers',
+        joinphrase: '',
+        artist: { id: 'a1', name: 'Art Blakey & The Jazz Messengers' },
+      },
+    ],
+    'label-info': [
+      { 'catalog-number': 'BLP 4003', label: { id: 'l1', name: 'Blue Note' } },
+      { 'catalog-number': null, label: null },
+    ],
+    'release-group': { id: 'rg1' },
+    'cover-art-archive': { front: true },
+    media: [
+      {
+        format: '12" Vinyl',
+        tracks: [
+          { number: 'A1', title: 'Moanin’', length: 575000 },
+          { number: 'A2', title: 'Are You Real', length: null },
+        ],
+      },
+    ],
+    genres: [
+      { name: 'hard bop', count: 3 },
+      { name: 'jazz', count: 7 },
+    ],
+  },
+  '/release-group/rg1': {
+    id: 'rg1',
+    title: 'Moanin’',
+    'first-release-date': '1959',
+    'artist-credit': [],
+    genres: [{ name: 'jazz', count: 2 }],
+    annotation: 'Recorded at Van Gelder Studio',
+  },
+  '/release': {
+    releases: [
+      { id: 'r1', title: 'Moanin’', score: 100 },
+      { id: 'r2', title: 'Moanin’ (Live)', score: 60 },
+    ],
+  },
+}
+
+let server: Server
+let baseURL: string
+let requests: URL[] = []
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    requests.push(url)
+    const fixture = fixtures[url.pathname]
+    response.writeHead(fixture ? 200 : 404, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    })
+    response.end(JSON.stringify(fixture || { error: 'Not Found' }))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+const createProvider = () =>
+  new MusicBrainzProvider({
+    baseURL,
+    coverArtBaseURL: 'https://covers.test',
+    client: 'AnalogVibesTest-0.1',
+  })
+
+describe('MusicBrainzProvider', () => {
+  beforeEach(() => {
+    requests = []
+  })
+
+  it('identifies itself with query parameters rather than a User-Agent header', async () => {
+    await createProvider().getRelease('b84ee12a')
+
+    const [request] = requests
+    expect(request.searchParams.get('fmt')).toBe('json')
+    expect(request.searchParams.get('client')).toBe('AnalogVibesTest-0.1')
+    expect(request.searchParams.get('inc')).toContain('recordings')
+  })
+
+  it('normalizes a release', async () => {
+    const release = await createProvider().getRelease('b84ee12a')
+
+    expect(release).toMatchObject({
+      provider: 'musicbrainz',
+      id: 'b84ee12a',
+      masterId: 'rg1',
+      artists: [{ name: 'Art Blakey & The Jazz Messengers' }],
+      year: 1959,
+      country: 'US',
+      labels: [{ name: 'Blue Note', catalogNumber: 'BLP 4003', role: 'Label' }],
+      formats: [{ name: '12" Vinyl', quantity: 1 }],
+      genres: ['Jazz', 'Hard Bop'],
+      identifiers: [],
+      coverUrl: 'https://covers.test/release/b84ee12a/front-500',
+      url: 'https://musicbrainz.org/release/b84ee12a',
+    })
+    expect(release.tracks).toEqual([
+      { position: 'A1', title: 'Moanin’', duration: '9:35' },
+      { position: 'A2', title: 'Are You Real', duration: undefined },
+    ])
+  })
+
+  it('normalizes a release group as the master', async () => {
+    const master = await createProvider().getMaster('rg1')
+
+    expect(master).toMatchObject({
+      provider: 'musicbrainz',
+      id: 'rg1',
+      year: 1959,
+      genres: ['Jazz'],
+      notes: 'Recorded at Van Gelder Studio',
+    })
+  })
+
+  it('searches with a Lucene query and drops weak matches', async () => {
+    const results = await createProvider().searchReleases({
+      artist: 'Art Blakey',
+      catalogNumber: 'BLP 4003',
+    })
+
+    expect(requests[0].searchParams.get('query')).toBe('artist:"Art Blakey" AND catno:"BLP 4003"')
+    expect(results.map(({ id }) => id)).toEqual(['r1'])
+  })
+
+  it('needs at least one search field', async () => {
+    await expect(createProvider().searchReleases({ limit: 5 })).rejects.toThrow(
+      'MusicBrainz search needs at least one'
+    )
+    expect(requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DiscogsRelease } from '../discogsService'
+import { transformDiscogsToVinylRecord } from '../dataTransform'
+
+// In-memory stand-in for the few Supabase query builder calls the service makes
+const tables = vi.hoisted(() => new Map<string, Array<{ id: string }>>())
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      const rows = () => tables.get(table) ?? []
+      let result: { data: unknown; error: null } = { data: null, error: null }
+      const builder = {
+        insert: () => {
+          result = { data: { id: 'log' }, error: null }
+          return builder
+        },
+        select: () => {
+          if (result.data === null) result = { data: rows(), error: null }
+          return builder
+        },
+        order: () => builder,
+        single: () => builder,
+        update: () => builder,
+        eq: () => builder,
+        upsert: (row: { id: string }) => {
+          tables.set(table, [...rows().filter(({ id }) => id !== row.id), row])
+          return builder
+        },
+        delete: () => builder,
+        in: (_column: string, ids: string[]) => {
+          tables.set(
+            table,
+            rows().filter(({ id }) => !ids.includes(id))
+          )
+          return builder
+        },
+        then: (resolve: (value: typeof result) => unknown) => resolve(result),
+      }
+      return builder
+    },
+  }),
+}))
+
+const release = (id: number, title: string): DiscogsRelease => ({
+  id,
+  title,
+  artists: [{ name: 'Lee Morgan', id: 1 }],
+  tracklist: [{ position: 'A1', title: 'The Sidewinder', duration: '10:21' }],
+})
+
+const loadService = async () => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://example.supabase.co')
+  vi.stubEnv('VITE_SUPABASE_PUBLISHABLE_KEY', 'test-key')
+  const { publicCollectionService } = await import('../publicCollectionService')
+  return publicCollectionService
+}
+
+describe('publicCollectionService', () => {
+  beforeEach(() => {
+    tables.clear()
+  })
+
+  describe('syncFromDiscogs', () => {
+    it('removes wantlist rows that are no longer on the Discogs wantlist', async () => {
+      const service = await loadService()
+      tables.set('vinyl_wantlist', [{ id: '1' }, { id: '2' }, { id: '3' }])
+      tables.set('vinyl_collection', [{ id: '9' }])
+
+      const result = await service.syncFromDiscogs(
+        [release(1, 'The Sidewinder'), release(4, 'Search for the New Land')],
+        'wanted'
+      )
+
+      expect(result.recordsRemoved).toBe(2)
+      expect(
+        tables
+          .get('vinyl_wantlist')
+          ?.map(({ id }) => id)
+          .sort()
+      ).toEqual(['1', '4'])
+      expect(tables.get('vinyl_collection')).toEqual([{ id: '9' }])
+    })
+
+    it('empties the wantlist when nothing is wanted any more', async () => {
+      const service = await loadService()
+      tables.set('vinyl_wantlist', [{ id: '1' }])
+
+      const result = await service.syncFromDiscogs([], 'wanted')
+
+      expect(result.recordsRemoved).toBe(1)
+      expect(tables.get('vinyl_wantlist')).toEqual([])
+    })
+
+    it('keeps the Discogs rating, and clears it once it is cleared on Discogs', async () => {
+      const service = await loadService()
+      const collection = { folders: {}, fields: [] }
+
+      await service.syncFromDiscogs(
+        [{ ...release(1, 'The Sidewinder'), rating: 4 }],
+        'owned',
+        collection
+      )
+      expect((await service.getCollection())[0].rating).toBe(4)
+
+      await service.syncFromDiscogs(
+        [{ ...release(1, 'The Sidewinder'), rating: 0 }],
+        'owned',
+        collection
+      )
+      expect((await service.getCollection())[0].rating).toBeUndefined()
+    })
+  })
+
+  describe('saveRecords', () => {
+    it('keeps rows for listed releases the sync could not turn into records', async () => {
+      const service = await loadService()
+      tables.set('vinyl_collection', [{ id: '1' }, { id: '2' }, { id: '3' }])
+
+      const result = await service.saveRecords(
+        [transformDiscogsToVinylRecord(release(1, 'The Sidewinder'))],
+        'owned',
+        ['1', '2']
+      )
+
+      expect(result.recordsRemoved).toBe(1)
+      expect(
+        tables
+          .get('vinyl_collection')
+          ?.map(({ id }) => id)
+          .sort()
+      ).toEqual(['1', '2'])
+    })
+  })
+})
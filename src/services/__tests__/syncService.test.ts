@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { syncService } from '../syncService'
+import { cacheService, SyncCheckpoint } from '../cacheService'
+import { DiscogsRelease } from '../discogsService'
+import { normalizeDiscogsRelease } from '../dataTransform'
+
+vi.mock('localforage', () => import('../../test/memoryStorage'))
+
+const discogs = vi.hoisted(() => ({
+  getRateLimitStats: vi.fn(),
+  onRateLimitChange: vi.fn(() => () => {}),
+  testConnection: vi.fn(async () => ({ success: true, message: 'ok' })),
+  pushPendingChanges: vi.fn(async () => ({ pushed: 0, conflicts: 0, failed: 0 })),
+  getCollectionContext: vi.fn(async () => ({ folders: {}, fields: [] })),
+  getUserCollection: vi.fn(),
+}))
+
+const metadata = vi.hoisted(() => ({
+  provider: { getRelease: vi.fn(), getMaster: vi.fn() },
+  supplementRecords: vi.fn(),
+  supplemental: false,
+}))
+
+vi.mock('../discogsService', () => ({
+  default: class {},
+  getDiscogsService: () => discogs,
+  hasDiscogsCredentials: () => true,
+}))
+
+vi.mock('../metadataService', () => ({
+  metadataService: {
+    getPrimaryProvider: () => metadata.provider,
+    hasSupplementalProviders: () => metadata.supplemental,
+    supplementRecords: metadata.supplementRecords,
+  },
+}))
+
+const release = (id: number): DiscogsRelease => ({
+  id,
+  title: `Release ${id}`,
+  artists: [{ name: 'Horace Silver', id: 1 }],
+  year: 1965,
+  genres: ['Jazz'],
+  tracklist: [{ position: 'A1', title: 'Song for My Father', duration: '7:16' }],
+})
+
+const collectionPages: Record<number, DiscogsRelease[]> = {
+  1: [release(1), release(2)],
+  2: [release(3)],
+}
+
+const checkpoint = (overrides: Partial<SyncCheckpoint>): SyncCheckpoint => ({
+  syncType: 'full',
+  skipMasterData: false,
+  startedAt: 1000,
+  updatedAt: 1000,
+  totalPages: 2,
+  totalItems: 3,
+  fetchComplete: false,
+  pages: {},
+  enriched: [],
+  masters: {},
+  ...overrides,
+})
+
+describe('syncService', () => {
+  beforeEach(async () => {
+    await cacheService.clearCache()
+    vi.clearAllMocks()
+    metadata.supplemental = false
+    discogs.getUserCollection.mockImplementation(async (page: number) => ({
+      pagination: { page, pages: 2, items: 3, per_page: 100 },
+      releases: collectionPages[page],
+    }))
+    metadata.provider.getRelease.mockImplementation(async (id: string) =>
+      normalizeDiscogsRelease(release(Number(id)))
+    )
+  })
+
+  describe('resumeSync', () => {
+    it('only fetches the pages the checkpoint is missing', async () => {
+      await cacheService.saveSyncCheckpoint(checkpoint({ skipMasterData: true }))
+      await cacheService.saveSyncCheckpointPage(1, collectionPages[1])
+
+      const { records, result } = await syncService.resumeSync()
+
+      expect(discogs.getUserCollection).toHaveBeenCalledTimes(1)
+      expect(discogs.getUserCollection).toHaveBeenCalledWith(2, 100)
+      expect(result.success).toBe(true)
+      expect(records.map(({ id }) => id)).toEqual(['1', '2', '3'])
+      expect(await syncService.hasResumableSync()).toBe(false)
+    })
+
+    it('only enriches the releases the checkpoint is missing', async () => {
+      await cacheService.saveSyncCheckpoint(checkpoint({ fetchComplete: true }))
+      await cacheService.saveSyncCheckpointPage(1, collectionPages[1])
+      await cacheService.saveSyncCheckpointPage(2, collectionPages[2])
+      await cacheService.saveSyncCheckpointBatch(
+        0,
+        [{ id: '1', release: normalizeDiscogsRelease(release(1)) }],
+        {}
+      )
+
+      const { records } = await syncService.resumeSync()
+
+      expect(discogs.getUserCollection).not.toHaveBeenCalled()
+      expect(metadata.provider.getRelease.mock.calls).toEqual([['2'], ['3']])
+      expect(records).toHaveLength(3)
+    })
+  })
+
+  describe('syncFromDiscogs', () => {
+    it('makes one record of a release owned twice', async () => {
+      discogs.getUserCollection.mockImplementation(async (page: number) => ({
+        pagination: { page, pages: 1, items: 3, per_page: 100 },
+        releases: [release(1), release(2), { ...release(1), instance_id: 2 }],
+      }))
+
+      const { records } = await syncService.syncFromDiscogs()
+
+      expect(records.map(({ id }) => id)).toEqual(['1', '2'])
+    })
+
+    it('keeps what it fetched when it fails part way, so it can be resumed', async () => {
+      metadata.supplemental = true
+      metadata.supplementRecords.mockRejectedValue(new Error('Network Error'))
+
+      const { result } = await syncService.syncFromDiscogs()
+
+      expect(result.success).toBe(false)
+      const saved = await cacheService.getSyncCheckpoint()
+      expect(saved?.fetchComplete).toBe(true)
+      expect(Object.keys(saved?.pages ?? {})).toEqual(['1', '2'])
+      expect(saved?.enriched.map(({ id }) => id)).toEqual(['1', '2', '3'])
+    })
+  })
+})
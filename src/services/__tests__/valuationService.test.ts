@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { valuationService, VALUATION_BATCH_SIZE } from '../valuationService'
+import { memoryStores } from '../../test/memoryStorage'
+import { createRecord } from '../../test/records'
+
+vi.mock('localforage', () => import('../../test/memoryStorage'))
+
+const discogs = vi.hoisted(() => ({
+  getPriceSuggestions: vi.fn(),
+}))
+
+const supabase = vi.hoisted(() => ({
+  saveValuation: vi.fn(),
+}))
+
+vi.mock('../discogsService', () => ({
+  getDiscogsService: () => discogs,
+}))
+
+vi.mock('../supabaseService', () => ({
+  supabaseService: supabase,
+}))
+
+const record = (id: number) =>
+  createRecord({ id: id.toString(), title: `Release ${id}`, catalogNumber: `BLP ${4000 + id}` })
+
+// Two and a half batches
+const records = Array.from({ length: VALUATION_BATCH_SIZE * 2 + 5 }, (_, index) =>
+  record(index + 1)
+)
+
+const pricedIds = () =>
+  discogs.getPriceSuggestions.mock.calls.map(([releaseId]) => releaseId as number)
+
+describe('valuationService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    memoryStores.get('valuation')?.clear()
+    discogs.getPriceSuggestions.mockResolvedValue({
+      'Very Good Plus (VG+)': { currency: 'USD', value: 10 },
+    })
+    supabase.saveValuation.mockImplementation(async valuation => ({ id: 'snapshot', ...valuation }))
+  })
+
+  it('prices every owned record and clears its progress', async () => {
+    const snapshot = await valuationService.takeSnapshot([
+      ...records,
+      { ...record(999), ownership: 'wanted' },
+    ])
+
+    expect(pricedIds()).toHaveLength(records.length)
+    expect(snapshot).toMatchObject({ records_valued: records.length, total_value: 450 })
+    expect(await valuationService.getSavedProgress()).toBeNull()
+  })
+
+  it('keeps the finished batches when a run is paused or fails, and resumes after them', async () => {
+    supabase.saveValuation.mockRejectedValueOnce(new Error('Network Error'))
+    discogs.getPriceSuggestions.mockImplementation(async (releaseId: number) => {
+      if (releaseId > VALUATION_BATCH_SIZE) {
+        valuationService.pauseSnapshot()
+      }
+      return { 'Very Good Plus (VG+)': { currency: 'USD', value: 10 } }
+    })
+
+    await expect(valuationService.takeSnapshot(records)).rejects.toThrow('Valuation paused')
+    expect(await valuationService.getSavedProgress()).toEqual({
+      processed: VALUATION_BATCH_SIZE * 2,
+      total: records.length,
+    })
+
+    discogs.getPriceSuggestions.mockClear()
+    await expect(valuationService.takeSnapshot(records)).rejects.toThrow('Network Error')
+    expect(pricedIds()).toEqual([41, 42, 43, 44, 45])
+
+    // Nothing is left to price, so the snapshot is just saved
+    discogs.getPriceSuggestions.mockClear()
+    const snapshot = await valuationService.takeSnapshot(records)
+    expect(pricedIds()).toEqual([])
+    expect(snapshot).toMatchObject({ records_valued: records.length })
+  })
+
+  it('retries records whose request failed, and counts releases Discogs lacks as unpriced', async () => {
+    const notFound = Object.assign(new Error('Not Found'), {
+      isAxiosError: true,
+      response: { status: 404 },
+    })
+    discogs.getPriceSuggestions.mockImplementation(async (releaseId: number) => {
+      if (releaseId === 3) throw new Error('Network Error')
+      if (releaseId === 4) throw notFound
+      return { 'Very Good Plus (VG+)': { currency: 'USD', value: 10 } }
+    })
+
+    await expect(valuationService.takeSnapshot(records)).rejects.toThrow(
+      "Discogs didn't answer for 1 record"
+    )
+
+    discogs.getPriceSuggestions.mockClear()
+    discogs.getPriceSuggestions.mockResolvedValue({
+      'Very Good Plus (VG+)': { currency: 'USD', value: 10 },
+    })
+    const snapshot = await valuationService.takeSnapshot(records)
+
+    expect(pricedIds()).toEqual([3])
+    expect(snapshot).toMatchObject({ records_valued: records.length - 1, records_unpriced: 1 })
+  })
+
+  it('leaves out records sold since the run started', async () => {
+    discogs.getPriceSuggestions.mockImplementationOnce(async () => {
+      valuationService.pauseSnapshot()
+      return { 'Very Good Plus (VG+)': { currency: 'USD', value: 10 } }
+    })
+    await expect(valuationService.takeSnapshot(records)).rejects.toThrow('Valuation paused')
+
+    const snapshot = await valuationService.takeSnapshot(records.slice(1))
+
+    expect(snapshot).toMatchObject({ records_valued: records.length - 1 })
+    expect(snapshot.items.map(({ release_id }) => release_id)).not.toContain('1')
+  })
+})
@@ -1,5 +1,8 @@
 import localforage from 'localforage'
 import { VinylRecord } from '../data/vinylRecords'
+import { DiscogsRelease } from './discogsService'
+import { NormalizedRelease, NormalizedMaster } from './metadataProvider'
+import { RateLimitStats } from './rateLimiter'
 
 export interface CacheMetadata {
   lastSync: number
@@ -22,11 +25,51 @@ export interface SyncProgress {
   totalPages?: number
   recordsProcessed?: number
   totalRecords?: number
+  resumed?: boolean // True when continuing from a saved sync checkpoint
+  rateLimit?: RateLimitStats // Live Discogs API budget
+}
+
+/**
+ * Progress of an unfinished Discogs sync, saved after every page and enrichment batch
+ * so an interrupted sync can pick up where it stopped. Pages and batches are stored as
+ * separate entries, so each save only writes what's new.
+ */
+export interface SyncCheckpoint {
+  syncType: 'full' | 'incremental'
+  skipMasterData: boolean
+  startedAt: number
+  updatedAt: number
+  totalPages?: number
+  totalItems?: number
+  fetchComplete: boolean
+  pages: Record<number, DiscogsRelease[]> // Collection pages fetched so far, keyed by page number
+  enriched: EnrichedRelease[] // Full releases fetched so far for the listed collection items
+  masters: Record<string, NormalizedMaster> // Masters retrieved so far, keyed by master ID
+}
+
+/**
+ * Full release fetched from the primary metadata provider for a collection listing item
+ */
+export interface EnrichedRelease {
+  id: string // Release ID of the listing item
+  release: NormalizedRelease
+}
+
+// What's stored under the checkpoint key itself; pages and batches have their own entries
+type SyncCheckpointState = Omit<SyncCheckpoint, 'pages' | 'enriched' | 'masters'>
+
+interface SyncCheckpointBatch {
+  enriched: EnrichedRelease[]
+  masters: Record<string, NormalizedMaster> // Masters first fetched in this batch
 }
 
 class CacheService {
   private static readonly COLLECTION_KEY = 'vinyl_collection'
   private static readonly METADATA_KEY = 'collection_metadata'
+  private static readonly SYNC_CHECKPOINT_KEY = 'sync_checkpoint'
+  private static readonly SYNC_CHECKPOINT_PAGE_PREFIX = 'sync_checkpoint_page_'
+  private static readonly SYNC_CHECKPOINT_BATCH_PREFIX = 'sync_checkpoint_batch_'
+  private static readonly WANTLIST_KEY = 'wantlist'
   private static readonly CACHE_VERSION = '1.0.0'
   private static readonly CACHE_EXPIRY_HOURS = 24 // Cache expires after 24 hours
 
@@ -104,6 +147,32 @@ class CacheService {
     }
   }
 
+  /**
+   * Get cached wantlist
+   */
+  async getCachedWantlist(): Promise<VinylRecord[] | null> {
+    try {
+      const records = await this.store.getItem<VinylRecord[]>(CacheService.WANTLIST_KEY)
+      return records || null
+    } catch (error) {
+      console.error('Error retrieving cached wantlist:', error)
+      return null
+    }
+  }
+
+  /**
+   * Cache the wantlist (kept apart from the collection so its metadata stays collection-only)
+   */
+  async cacheWantlist(records: VinylRecord[]): Promise<void> {
+    try {
+      await this.store.setItem(CacheService.WANTLIST_KEY, records)
+      console.log(`Cached ${records.length} wantlist records successfully`)
+    } catch (error) {
+      console.error('Error caching wantlist:', error)
+      throw new Error('Failed to cache wantlist data')
+    }
+  }
+
   /**
    * Get cache metadata
    */
@@ -177,6 +246,8 @@ class CacheService {
       await Promise.all([
         this.store.removeItem(CacheService.COLLECTION_KEY),
         this.store.removeItem(CacheService.METADATA_KEY),
+        this.store.removeItem(CacheService.WANTLIST_KEY),
+        this.clearSyncCheckpoint(),
       ])
       console.log('Cache cleared successfully')
     } catch (error) {
@@ -185,6 +256,116 @@ class CacheService {
     }
   }
 
+  /**
+   * Get the checkpoint of an unfinished sync, if any, put back together from its parts
+   */
+  async getSyncCheckpoint(): Promise<SyncCheckpoint | null> {
+    try {
+      const state = await this.store.getItem<SyncCheckpointState>(CacheService.SYNC_CHECKPOINT_KEY)
+      if (!state) return null
+
+      const checkpoint: SyncCheckpoint = { ...state, pages: {}, enriched: [], masters: {} }
+      const keys = await this.store.keys()
+
+      const pageNumbers = keys
+        .filter(key => key.startsWith(CacheService.SYNC_CHECKPOINT_PAGE_PREFIX))
+        .map(key => Number(key.slice(CacheService.SYNC_CHECKPOINT_PAGE_PREFIX.length)))
+      for (const page of pageNumbers) {
+        const releases = await this.store.getItem<DiscogsRelease[]>(
+          `${CacheService.SYNC_CHECKPOINT_PAGE_PREFIX}${page}`
+        )
+        if (releases) checkpoint.pages[page] = releases
+      }
+
+      // Batches are keyed by how many releases were enriched before them, so they sort in order
+      const batchOffsets = keys
+        .filter(key => key.startsWith(CacheService.SYNC_CHECKPOINT_BATCH_PREFIX))
+        .map(key => Number(key.slice(CacheService.SYNC_CHECKPOINT_BATCH_PREFIX.length)))
+        .sort((a, b) => a - b)
+      for (const offset of batchOffsets) {
+        const batch = await this.store.getItem<SyncCheckpointBatch>(
+          `${CacheService.SYNC_CHECKPOINT_BATCH_PREFIX}${offset}`
+        )
+        if (batch) {
+          checkpoint.enriched.push(...batch.enriched)
+          Object.assign(checkpoint.masters, batch.masters)
+        }
+      }
+
+      return checkpoint
+    } catch (error) {
+      console.error('Error retrieving sync checkpoint:', error)
+      return null
+    }
+  }
+
+  /**
+   * Persist the sync's own state (type, totals, whether fetching is done); pages and
+   * enrichment batches are saved on their own as they complete
+   */
+  async saveSyncCheckpoint(checkpoint: SyncCheckpoint): Promise<void> {
+    try {
+      await this.store.setItem<SyncCheckpointState>(CacheService.SYNC_CHECKPOINT_KEY, {
+        syncType: checkpoint.syncType,
+        skipMasterData: checkpoint.skipMasterData,
+        startedAt: checkpoint.startedAt,
+        updatedAt: Date.now(),
+        totalPages: checkpoint.totalPages,
+        totalItems: checkpoint.totalItems,
+        fetchComplete: checkpoint.fetchComplete,
+      })
+    } catch (error) {
+      // A lost checkpoint only costs a restart, so don't fail the sync over it
+      console.warn('Error saving sync checkpoint:', error)
+    }
+  }
+
+  /**
+   * Persist one fetched collection page of the sync
+   */
+  async saveSyncCheckpointPage(page: number, releases: DiscogsRelease[]): Promise<void> {
+    try {
+      await this.store.setItem(`${CacheService.SYNC_CHECKPOINT_PAGE_PREFIX}${page}`, releases)
+    } catch (error) {
+      console.warn('Error saving sync checkpoint page:', error)
+    }
+  }
+
+  /**
+   * Persist one enrichment batch: the releases it enriched and the masters it fetched.
+   * `offset` is the number of releases enriched before this batch.
+   */
+  async saveSyncCheckpointBatch(
+    offset: number,
+    enriched: EnrichedRelease[],
+    masters: Record<string, NormalizedMaster>
+  ): Promise<void> {
+    try {
+      await this.store.setItem<SyncCheckpointBatch>(
+        `${CacheService.SYNC_CHECKPOINT_BATCH_PREFIX}${offset}`,
+        { enriched, masters }
+      )
+    } catch (error) {
+      console.warn('Error saving sync checkpoint batch:', error)
+    }
+  }
+
+  /**
+   * Remove the sync checkpoint and its parts (after a sync completes or is restarted)
+   */
+  async clearSyncCheckpoint(): Promise<void> {
+    try {
+      const keys = await this.store.keys()
+      await Promise.all(
+        keys
+          .filter(key => key.startsWith(CacheService.SYNC_CHECKPOINT_KEY))
+          .map(key => this.store.removeItem(key))
+      )
+    } catch (error) {
+      console.warn('Error clearing sync checkpoint:', error)
+    }
+  }
+
   /**
    * Update a single record in the cache
    */
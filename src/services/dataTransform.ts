@@ -1,179 +1,295 @@
 // Date formatting utility (removed unused import)
 import { VinylRecord, Track, MasterRelease, VinylRelease } from '../data/vinylRecords'
-import { DiscogsRelease, DiscogsMasterRelease } from './discogsService'
+import {
+  DiscogsRelease,
+  DiscogsMasterRelease,
+  DiscogsTrack,
+  CollectionContext,
+} from './discogsService'
+import {
+  NormalizedRelease,
+  NormalizedMaster,
+  NormalizedTrack,
+  NormalizedCredit,
+  NormalizedArtist,
+  NormalizedLabel,
+} from './metadataProvider'
+import { normalizeCondition } from '../utils/conditions'
+import { stripDisambiguation, toJoinPhrase, formatArtistCredit } from '../utils/credits'
+import { mergePersonnel } from '../utils/personnel'
+import { getTrackSide } from '../utils/tracklist'
 
 /**
- * Transform Discogs master release to our MasterRelease format
+ * Normalize a Discogs master release to the provider-neutral format
  */
-export function transformDiscogsMasterRelease(discogsMaster: DiscogsMasterRelease): MasterRelease {
-  // Extract artist name (handle multiple artists)
-  const artist =
-    discogsMaster.artists && discogsMaster.artists.length > 0
-      ? discogsMaster.artists.map(a => a.name).join(', ')
-      : 'Unknown Artist'
-
-  // Extract genres only (not styles) from Discogs
-  const genres = discogsMaster.genres || []
-  // Filter out empty or invalid genres
-  const validGenres = genres.filter(g => g && g.trim() && g !== 'Unknown')
-
-  // Extract producer from extraartists
-  const producer = discogsMaster.extraartists?.find(
-    artist => artist.role && artist.role.toLowerCase().includes('producer')
-  )?.name
+export function normalizeDiscogsMaster(discogsMaster: DiscogsMasterRelease): NormalizedMaster {
+  return {
+    provider: 'discogs',
+    id: discogsMaster.id.toString(),
+    title: discogsMaster.title,
+    artists: normalizeDiscogsArtists(discogsMaster.artists),
+    year: discogsMaster.year,
+    genres: discogsMaster.genres || [],
+    styles: discogsMaster.styles || [],
+    notes: discogsMaster.notes,
+    credits: normalizeDiscogsCredits(discogsMaster.extraartists),
+  }
+}
+
+/**
+ * Normalize a Discogs release (collection item or full release) to the provider-neutral format
+ */
+export function normalizeDiscogsRelease(discogsRelease: DiscogsRelease): NormalizedRelease {
+  // Use basic_information if available (from collection), otherwise use main release data
+  const releaseData = discogsRelease.basic_information || discogsRelease
+  const fullRelease = discogsRelease as any // Type assertion for additional properties
+
+  // Extract cover image
+  let coverUrl: string | undefined
+  if (fullRelease.images && fullRelease.images.length > 0) {
+    // Prefer primary image, fallback to first image
+    const primaryImage =
+      fullRelease.images.find((img: any) => img.type === 'primary') || fullRelease.images[0]
+    coverUrl = primaryImage.uri500 || primaryImage.uri || primaryImage.uri150 || undefined
+  } else if (discogsRelease.basic_information?.cover_image) {
+    coverUrl = discogsRelease.basic_information.cover_image
+  } else if (discogsRelease.basic_information?.thumb) {
+    coverUrl = discogsRelease.basic_information.thumb
+  }
+
+  const formats = releaseData.formats || []
+  const identifiers = discogsRelease.identifiers || []
+  const masterId = discogsRelease.basic_information?.master_id || discogsRelease.master_id
+
+  return {
+    provider: 'discogs',
+    id: releaseData.id ? releaseData.id.toString() : '',
+    masterId: masterId ? masterId.toString() : undefined,
+    title: releaseData.title,
+    artists: normalizeDiscogsArtists(releaseData.artists),
+    year: releaseData.year || undefined,
+    labels: [
+      ...(releaseData.labels || []).map(l => normalizeDiscogsLabel(l, 'Label')),
+      ...(discogsRelease.companies || []).map(c => normalizeDiscogsLabel(c, c.entity_type_name)),
+    ],
+    formats: formats.map(f => ({
+      name: f.name,
+      quantity: f.qty ? parseInt(f.qty, 10) : undefined,
+      descriptions: f.descriptions || [],
+      text: f.text || undefined,
+    })),
+    genres: releaseData.genres || [],
+    styles: releaseData.styles || [],
+    country: discogsRelease.country,
+    barcode: identifiers.find(i => i.type === 'Barcode')?.value,
+    identifiers: identifiers.map(i => ({
+      type: i.type,
+      value: i.value,
+      description: i.description || undefined,
+    })),
+    coverUrl,
+    tracks: (discogsRelease.tracklist || []).map(normalizeDiscogsTrack),
+    // Collection items carry custom field values in `notes`, not release notes
+    notes: typeof discogsRelease.notes === 'string' ? discogsRelease.notes : undefined,
+    credits: normalizeDiscogsCredits(fullRelease.extraartists),
+    dateAdded: discogsRelease.date_added,
+    url: releaseData.id ? `https://www.discogs.com/release/${releaseData.id}` : undefined,
+  }
+}
+
+function normalizeDiscogsTrack(track: DiscogsTrack): NormalizedTrack {
+  return {
+    position: track.position || undefined,
+    title: track.title,
+    duration: track.duration || undefined,
+    type: track.type_ || 'track',
+    artists: track.artists?.length ? normalizeDiscogsArtists(track.artists) : undefined,
+    credits: track.extraartists?.length ? normalizeDiscogsCredits(track.extraartists) : undefined,
+    subTracks: track.sub_tracks?.length ? track.sub_tracks.map(normalizeDiscogsTrack) : undefined,
+  }
+}
+
+function normalizeDiscogsArtists(
+  artists?: Array<{ name: string; id?: number; anv?: string; join?: string; role?: string }>
+): NormalizedArtist[] {
+  return (artists || []).map(a => ({
+    name: stripDisambiguation(a.name),
+    id: a.id?.toString(),
+    creditedName: a.anv || undefined,
+    join: toJoinPhrase(a.join),
+    role: a.role || undefined,
+  }))
+}
+
+function normalizeDiscogsLabel(
+  label: { name: string; catno?: string; id?: number; entity_type_name?: string },
+  role: string
+): NormalizedLabel {
+  return {
+    name: stripDisambiguation(label.name),
+    id: label.id?.toString(),
+    catalogNumber: label.catno,
+    role: label.entity_type_name || role,
+  }
+}
+
+function normalizeDiscogsCredits(
+  extraartists?: Array<{ name: string; role: string; id?: number; anv?: string; tracks?: string }>
+): NormalizedCredit[] {
+  return (extraartists || []).map(a => ({
+    name: stripDisambiguation(a.name),
+    id: a.id?.toString(),
+    creditedName: a.anv || undefined,
+    role: a.role.trim(),
+    tracks: a.tracks || undefined,
+  }))
+}
+
+/**
+ * Transform a normalized master release to our MasterRelease format
+ */
+export function transformMasterRelease(master: NormalizedMaster): MasterRelease {
+  // Build the display credit, keeping Discogs' name variations and join phrases
+  const artist = master.artists.length > 0 ? formatArtistCredit(master.artists) : 'Unknown Artist'
+
+  // Filter out empty or invalid genres and styles
+  const validGenres = master.genres.filter(g => g && g.trim() && g !== 'Unknown')
+  const validStyles = master.styles.filter(s => s && s.trim())
+
+  // Extract producer from credits
+  const producer = extractProducer(master.credits)
 
   // Handle master year with validation and logging
   let masterYear: string | undefined
-  if (discogsMaster.year && discogsMaster.year > 0) {
-    masterYear = discogsMaster.year.toString()
+  if (master.year && master.year > 0) {
+    masterYear = master.year.toString()
   } else {
-    console.warn(`Master release ${discogsMaster.id} has invalid/missing year:`, discogsMaster.year)
+    console.warn(`Master release ${master.id} has invalid/missing year:`, master.year)
     masterYear = undefined
   }
 
   return {
-    id: discogsMaster.id.toString(),
-    title: discogsMaster.title || 'Unknown Title',
+    id: master.id,
+    title: master.title || 'Unknown Title',
     artist,
+    artists: master.artists,
     genres: validGenres.length > 0 ? validGenres : ['Unknown'],
-    description: discogsMaster.notes
-      ? cleanText(discogsMaster.notes)
+    styles: validStyles,
+    description: master.notes
+      ? cleanText(master.notes)
       : `A classic release by ${artist}${masterYear ? ` from ${masterYear}` : ''}.`,
     producer,
     recordingDate: masterYear,
+    credits: master.credits,
   }
 }
 
 /**
- * Transform Discogs release to our VinylRelease format
+ * Transform a normalized release to our VinylRelease format
  */
-export function transformDiscogsVinylRelease(
-  discogsRelease: DiscogsRelease,
+export function transformVinylRelease(
+  release: NormalizedRelease,
   masterId: string,
   index: number = 0
 ): VinylRelease {
-  // Use basic_information if available (from collection), otherwise use main release data
-  const releaseData = discogsRelease.basic_information || discogsRelease
-
   // Extract label and catalog number
-  const label =
-    releaseData.labels && releaseData.labels.length > 0
-      ? releaseData.labels[0].name
-      : 'Unknown Label'
-
-  const catalogNumber =
-    releaseData.labels && releaseData.labels.length > 0
-      ? releaseData.labels[0].catno || 'N/A'
-      : 'N/A'
-
-  // Extract cover image
-  let coverUrl = ''
-  const fullRelease = discogsRelease as any // Type assertion for additional properties
-  if (fullRelease.images && fullRelease.images.length > 0) {
-    // Prefer primary image, fallback to first image
-    const primaryImage =
-      fullRelease.images.find((img: any) => img.type === 'primary') || fullRelease.images[0]
-    coverUrl = primaryImage.uri500 || primaryImage.uri || primaryImage.uri150 || ''
-  } else if (discogsRelease.basic_information?.cover_image) {
-    coverUrl = discogsRelease.basic_information.cover_image
-  } else if (discogsRelease.basic_information?.thumb) {
-    coverUrl = discogsRelease.basic_information.thumb
-  }
+  const label = release.labels.length > 0 ? release.labels[0].name : 'Unknown Label'
+  const catalogNumber = release.labels.length > 0 ? release.labels[0].catalogNumber || 'N/A' : 'N/A'
 
   // Fallback to a generic vinyl image if no cover found
-  if (!coverUrl) {
-    coverUrl = `https://images.unsplash.com/photo-1571974599782-87624638275d?w=400&h=400&fit=crop&auto=format&q=80&hue=${(index * 30) % 360}&sat=70`
-  }
+  const coverUrl =
+    release.coverUrl ||
+    `https://images.unsplash.com/photo-1571974599782-87624638275d?w=400&h=400&fit=crop&auto=format&q=80&hue=${(index * 30) % 360}&sat=70`
 
-  // Transform tracklist
+  // Transform tracklist, keeping positions, headings and index tracks
   const tracks: Track[] = []
+  let trackNumber = 0
 
-  if (discogsRelease.tracklist && discogsRelease.tracklist.length > 0) {
-    discogsRelease.tracklist.forEach((track, trackIndex) => {
-      // Skip empty tracks or non-track items (like headers)
-      if (track.title && track.title.trim()) {
-        tracks.push({
-          number: trackIndex + 1,
-          title: track.title.trim(),
-          duration: track.duration || formatDuration(getRandomDuration()),
-        })
-      }
-    })
-  }
-
-  // If no tracks available, create some placeholder tracks with music-appropriate names
-  if (tracks.length === 0) {
-    const genericTrackNames = [
-      'Opening',
-      'Melody',
-      'Interlude',
-      'Rhythm',
-      'Finale',
-      'Theme',
-      'Variation',
-      'Coda',
-    ]
-
-    // Create 4-6 tracks typically found on albums
-    const trackCount = 4 + Math.floor(Math.random() * 3) // 4-6 tracks
-    for (let i = 1; i <= trackCount; i++) {
-      tracks.push({
-        number: i,
-        title: genericTrackNames[i - 1] || `Movement ${i}`,
-        duration: formatDuration(getRandomDuration()),
-      })
-    }
-  }
+  release.tracks.forEach(track => {
+    // Skip empty entries
+    if (!track.title || !track.title.trim()) return
+
+    const isHeading = track.type === 'heading'
+    if (!isHeading) trackNumber++
+    // Tracks without a time keep an empty duration, so they stay out of running times
+    tracks.push(transformTrack(track, isHeading ? 0 : trackNumber))
+  })
 
   return {
-    id: releaseData.id ? releaseData.id.toString() : `generated-${Date.now()}-${index}`,
-    releaseDate: releaseData.year ? releaseData.year.toString() : 'Unknown',
+    id: release.id || `generated-${Date.now()}-${index}`,
+    releaseDate: release.year ? release.year.toString() : 'Unknown',
     label,
     catalogNumber,
     coverUrl,
     tracks,
     masterId,
+    artists: release.artists,
+    labels: release.labels,
+    formats: release.formats,
+    country: release.country,
+    identifiers: release.identifiers,
+    credits: release.credits,
   }
 }
 
 /**
- * Transform both Discogs release and master data to our combined VinylRecord format
+ * Transform a normalized track (and its sub-tracks) to our Track format
  */
-export function transformDiscogsToVinylRecord(
-  discogsRelease: DiscogsRelease,
-  discogsMaster?: DiscogsMasterRelease,
+function transformTrack(track: NormalizedTrack, number: number): Track {
+  const subTracks = (track.subTracks || [])
+    .filter(subTrack => subTrack.title && subTrack.title.trim())
+    .map((subTrack, index) => transformTrack(subTrack, index + 1))
+
+  return {
+    number,
+    title: track.title.trim(),
+    duration: track.duration || '',
+    position: track.position,
+    // Index tracks often leave their own position empty; their parts carry it
+    side: getTrackSide(track.position || subTracks[0]?.position),
+    type: track.type || 'track',
+    artists: track.artists?.length ? track.artists : undefined,
+    credits: track.credits?.length ? track.credits : undefined,
+    subTracks: subTracks.length > 0 ? subTracks : undefined,
+  }
+}
+
+/**
+ * Transform a normalized release and optional master to our combined VinylRecord format
+ */
+export function transformReleaseToVinylRecord(
+  release: NormalizedRelease,
+  master?: NormalizedMaster,
   index: number = 0
 ): VinylRecord {
   // Transform the separate parts
-  const masterId =
-    (discogsRelease.basic_information?.master_id || discogsRelease.master_id)?.toString() ||
-    'unknown'
-  const vinylRelease = transformDiscogsVinylRelease(discogsRelease, masterId, index)
+  const masterId = release.masterId || 'unknown'
+  const vinylRelease = transformVinylRelease(release, masterId, index)
 
   // Use master data if available, otherwise fall back to release data
   let masterRelease: MasterRelease
-  if (discogsMaster) {
-    masterRelease = transformDiscogsMasterRelease(discogsMaster)
+  if (master) {
+    masterRelease = transformMasterRelease(master)
   } else {
     // Create fallback master data from release data
-    const releaseData = discogsRelease.basic_information || discogsRelease
     const artist =
-      releaseData.artists && releaseData.artists.length > 0
-        ? releaseData.artists.map(a => a.name).join(', ')
-        : 'Unknown Artist'
+      release.artists.length > 0 ? formatArtistCredit(release.artists) : 'Unknown Artist'
 
-    const genres = releaseData.genres || []
-    // Filter out empty or invalid genres (only use genres, not styles)
-    const validGenres = genres.filter(g => g && g.trim() && g !== 'Unknown')
+    // Filter out empty or invalid genres and styles
+    const validGenres = release.genres.filter(g => g && g.trim() && g !== 'Unknown')
+    const validStyles = release.styles.filter(s => s && s.trim())
 
     masterRelease = {
       id: masterId,
-      title: releaseData.title || 'Unknown Title',
+      title: release.title || 'Unknown Title',
       artist,
+      artists: release.artists,
       genres: validGenres.length > 0 ? validGenres : ['Unknown'],
-      description: createDescription(releaseData, discogsRelease),
-      producer: extractProducer(discogsRelease),
-      recordingDate: extractRecordingDate(discogsRelease),
+      styles: validStyles,
+      description: createDescription(release),
+      producer: extractProducer(release.credits),
+      recordingDate: extractRecordingDate(release),
+      credits: [], // Already on the release
     }
   }
 
@@ -191,6 +307,8 @@ export function transformDiscogsToVinylRecord(
     )
   }
 
+  const personnel = mergePersonnel(vinylRelease.credits, masterRelease.credits)
+
   // Combine into VinylRecord format for UI compatibility
   return {
     id: vinylRelease.id,
@@ -199,13 +317,22 @@ export function transformDiscogsToVinylRecord(
     year: finalYear, // Smart fallback: master year || release year || 'Unknown'
     label: vinylRelease.label, // From your release
     genres: masterRelease.genres, // From master (now array)
+    styles: masterRelease.styles.length > 0 ? masterRelease.styles : undefined, // From master
     catalogNumber: vinylRelease.catalogNumber, // From your release
     coverUrl: vinylRelease.coverUrl, // From your release
     tracks: vinylRelease.tracks, // From your release
     description: masterRelease.description, // From master (Release Notes)
-    producer: masterRelease.producer, // From master
+    producer: masterRelease.producer || extractProducer(vinylRelease.credits), // From master
     recordingDate: masterRelease.recordingDate, // From master (can be undefined)
     releaseDate: vinylRelease.releaseDate, // From your release (NEW: This Release date)
+    dateAdded: release.dateAdded, // From the collection item (when present)
+    artists: masterRelease.artists.length > 0 ? masterRelease.artists : undefined, // Same credit as `artist`
+    labels: vinylRelease.labels.length > 0 ? vinylRelease.labels : undefined, // From your release
+    formats: vinylRelease.formats.length > 0 ? vinylRelease.formats : undefined, // From your release
+    country: vinylRelease.country, // From your release
+    identifiers: vinylRelease.identifiers.length > 0 ? vinylRelease.identifiers : undefined, // From your release
+    personnel: personnel.length > 0 ? personnel : undefined, // From your release and master
+    masterId: release.masterId, // From your release
 
     // Internal references for future use
     _masterRelease: masterRelease,
@@ -213,6 +340,160 @@ export function transformDiscogsToVinylRecord(
   }
 }
 
+/**
+ * Transform Discogs master release to our MasterRelease format
+ */
+export function transformDiscogsMasterRelease(discogsMaster: DiscogsMasterRelease): MasterRelease {
+  return transformMasterRelease(normalizeDiscogsMaster(discogsMaster))
+}
+
+/**
+ * Transform Discogs release to our VinylRelease format
+ */
+export function transformDiscogsVinylRelease(
+  discogsRelease: DiscogsRelease,
+  masterId: string,
+  index: number = 0
+): VinylRelease {
+  return transformVinylRelease(normalizeDiscogsRelease(discogsRelease), masterId, index)
+}
+
+/**
+ * Transform both Discogs release and master data to our combined VinylRecord format.
+ * Pass the collection context to also read the item's folder and custom fields.
+ */
+export function transformDiscogsToVinylRecord(
+  discogsRelease: DiscogsRelease,
+  discogsMaster?: DiscogsMasterRelease,
+  index: number = 0,
+  collection?: CollectionContext
+): VinylRecord {
+  return transformCollectionItem(
+    discogsRelease,
+    normalizeDiscogsRelease(discogsRelease),
+    discogsMaster ? normalizeDiscogsMaster(discogsMaster) : undefined,
+    index,
+    collection
+  )
+}
+
+/**
+ * Transform a collection listing item, with the release (and master) a metadata provider
+ * returned for it, to a VinylRecord. What only the collection knows - the date added, and
+ * with the collection context the folder, rating and custom fields - comes from the item.
+ */
+export function transformCollectionItem(
+  collectionItem: DiscogsRelease,
+  release: NormalizedRelease,
+  master?: NormalizedMaster,
+  index: number = 0,
+  collection?: CollectionContext
+): VinylRecord {
+  const record = transformReleaseToVinylRecord(
+    { ...release, dateAdded: collectionItem.date_added || release.dateAdded },
+    master,
+    index
+  )
+
+  return collection ? { ...record, ...extractCollectionDetails(collectionItem, collection) } : record
+}
+
+export type CollectionDetails = Pick<
+  VinylRecord,
+  | 'folder'
+  | 'mediaCondition'
+  | 'sleeveCondition'
+  | 'collectionNotes'
+  | 'customFields'
+  | 'rating'
+  | 'discogsInstanceId'
+>
+
+/**
+ * Resolve a collection item's folder and custom field values by name.
+ * The built-in Media Condition, Sleeve Condition and Notes fields get their own properties;
+ * everything else lands in `customFields`.
+ */
+export function extractCollectionDetails(
+  discogsRelease: DiscogsRelease,
+  collection: CollectionContext
+): CollectionDetails {
+  const details: CollectionDetails = {}
+
+  // Folder 1 is Discogs' "Uncategorized" default, which isn't a real filing choice
+  const folderId = discogsRelease.folder_id
+  if (folderId && folderId > 1 && collection.folders[folderId]) {
+    details.folder = collection.folders[folderId]
+  }
+
+  // Discogs uses 0 for unrated
+  if (discogsRelease.rating) {
+    details.rating = discogsRelease.rating
+  }
+
+  if (discogsRelease.instance_id) {
+    details.discogsInstanceId = discogsRelease.instance_id
+  }
+
+  const values = Array.isArray(discogsRelease.notes) ? discogsRelease.notes : []
+  const customFields: Record<string, string> = {}
+
+  values.forEach(({ field_id, value }) => {
+    const field = collection.fields.find(f => f.id === field_id)
+    if (!field || !value) return
+
+    switch (field.name.toLowerCase()) {
+      case 'media condition':
+        details.mediaCondition = normalizeCondition(value)
+        break
+      case 'sleeve condition':
+        details.sleeveCondition = normalizeCondition(value)
+        break
+      case 'notes':
+        details.collectionNotes = value
+        break
+      default:
+        customFields[field.name] = value
+    }
+  })
+
+  if (Object.keys(customFields).length > 0) {
+    details.customFields = customFields
+  }
+
+  return details
+}
+
+const COLLECTION_DETAIL_FIELDS: Array<keyof CollectionDetails> = [
+  'folder',
+  'mediaCondition',
+  'sleeveCondition',
+  'collectionNotes',
+  'customFields',
+  'rating',
+  'discogsInstanceId',
+]
+
+/**
+ * Record with its folder, rating, conditions, notes and date added taken from a fresh
+ * collection listing item. Without the collection context the details are left as they were.
+ */
+export function refreshCollectionDetails(
+  record: VinylRecord,
+  collectionItem: DiscogsRelease,
+  collection?: CollectionContext
+): VinylRecord {
+  const refreshed: VinylRecord = {
+    ...record,
+    dateAdded: collectionItem.date_added || record.dateAdded,
+  }
+  if (!collection) return refreshed
+
+  // Cleared on Discogs means absent here, so stale values are dropped before the new ones go on
+  COLLECTION_DETAIL_FIELDS.forEach(field => delete refreshed[field])
+  return { ...refreshed, ...extractCollectionDetails(collectionItem, collection) }
+}
+
 /**
  * Transform an array of Discogs releases to VinylRecord array (legacy support)
  */
@@ -222,40 +503,101 @@ export function transformDiscogsCollection(discogsReleases: DiscogsRelease[]): V
   )
 }
 
+export type MetadataGap = 'year' | 'genres' | 'label' | 'catalogNumber' | 'cover'
+
+/**
+ * List the fields of a record that only hold placeholder values
+ */
+export function findMetadataGaps(record: VinylRecord): MetadataGap[] {
+  const gaps: MetadataGap[] = []
+  if (!record.year || record.year === 'Unknown') gaps.push('year')
+  if (record.genres.length === 0 || record.genres.every(g => g === 'Unknown')) gaps.push('genres')
+  if (!record.label || record.label === 'Unknown Label') gaps.push('label')
+  if (!record.catalogNumber || record.catalogNumber === 'N/A') gaps.push('catalogNumber')
+  if (!record.coverUrl || record.coverUrl.includes('images.unsplash.com')) gaps.push('cover')
+  return gaps
+}
+
 /**
- * Create a description based on available Discogs data
+ * Fill placeholder fields of a record from another provider's release data.
+ * Fields that already hold real values are never overwritten.
  */
-function createDescription(releaseData: any, fullRelease: DiscogsRelease): string {
+export function fillMetadataGaps(
+  record: VinylRecord,
+  release: NormalizedRelease,
+  master?: NormalizedMaster
+): VinylRecord {
+  const gaps = findMetadataGaps(record)
+  const filled: VinylRecord = { ...record }
+
+  const year = master?.year || release.year
+  if (gaps.includes('year') && year && year > 0) {
+    filled.year = year.toString()
+  }
+
+  const genres = [...release.genres, ...(master?.genres || [])].filter(
+    (g, i, all) => g && g.trim() && g !== 'Unknown' && all.indexOf(g) === i
+  )
+  if (gaps.includes('genres') && genres.length > 0) {
+    filled.genres = genres
+  }
+
+  const styles = [...release.styles, ...(master?.styles || [])].filter(
+    (s, i, all) => s && s.trim() && all.indexOf(s) === i
+  )
+  if (!record.styles?.length && styles.length > 0) {
+    filled.styles = styles
+  }
+
+  const label = release.labels[0]
+  if (gaps.includes('label') && label?.name) {
+    filled.label = label.name
+    filled.labels = release.labels
+  }
+  if (gaps.includes('catalogNumber') && label?.catalogNumber) {
+    filled.catalogNumber = label.catalogNumber
+  }
+
+  if (gaps.includes('cover') && release.coverUrl) {
+    filled.coverUrl = release.coverUrl
+  }
+
+  return filled
+}
+
+/**
+ * Create a description based on available release data
+ */
+function createDescription(release: NormalizedRelease): string {
   const parts: string[] = []
-  const extendedRelease = fullRelease as any // Type assertion for extended properties
 
   // Add format information
-  if (releaseData.formats && releaseData.formats.length > 0) {
-    const format = releaseData.formats[0]
+  if (release.formats.length > 0) {
+    const format = release.formats[0]
     const formatText = format.name || 'Vinyl'
-    const descriptions = format.descriptions ? format.descriptions.join(', ') : ''
+    const descriptions = format.descriptions.join(', ')
     parts.push(`${formatText}${descriptions ? ` (${descriptions})` : ''}`)
   }
 
   // Add style information
-  if (releaseData.styles && releaseData.styles.length > 0) {
-    parts.push(`Style: ${releaseData.styles.join(', ')}`)
+  if (release.styles.length > 0) {
+    parts.push(`Style: ${release.styles.join(', ')}`)
   }
 
   // Add country if available
-  if (extendedRelease.country) {
-    parts.push(`Released in ${extendedRelease.country}`)
+  if (release.country) {
+    parts.push(`Released in ${release.country}`)
   }
 
   // Add notes if available (cleaned of Discogs markup)
-  if (extendedRelease.notes && typeof extendedRelease.notes === 'string') {
-    parts.push(cleanText(extendedRelease.notes))
+  if (release.notes && typeof release.notes === 'string') {
+    parts.push(cleanText(release.notes))
   }
 
   // Create a basic description if we don't have much info
   if (parts.length === 0) {
-    const artist = releaseData.artists?.[0]?.name || 'Unknown Artist'
-    const year = releaseData.year || 'Unknown Year'
+    const artist = release.artists[0]?.name || 'Unknown Artist'
+    const year = release.year || 'Unknown Year'
     parts.push(`A classic release by ${artist} from ${year}.`)
   }
 
@@ -265,12 +607,9 @@ function createDescription(releaseData: any, fullRelease: DiscogsRelease): strin
 /**
  * Extract producer information from credits
  */
-function extractProducer(release: DiscogsRelease): string | undefined {
-  const extendedRelease = release as any
-  if (!extendedRelease.extraartists) return undefined
-
-  const producer = extendedRelease.extraartists.find(
-    (artist: any) => artist.role && artist.role.toLowerCase().includes('producer')
+function extractProducer(credits: NormalizedCredit[]): string | undefined {
+  const producer = credits.find(
+    credit => credit.role && credit.role.toLowerCase().includes('producer')
   )
 
   return producer?.name
@@ -279,11 +618,10 @@ function extractProducer(release: DiscogsRelease): string | undefined {
 /**
  * Extract recording date from release data
  */
-function extractRecordingDate(release: DiscogsRelease): string | undefined {
-  const extendedRelease = release as any
+function extractRecordingDate(release: NormalizedRelease): string | undefined {
   // Try to extract from notes or other fields (clean markup first)
-  if (extendedRelease.notes && typeof extendedRelease.notes === 'string') {
-    const cleanedNotes = cleanDiscogsMarkup(extendedRelease.notes)
+  if (release.notes && typeof release.notes === 'string') {
+    const cleanedNotes = cleanDiscogsMarkup(release.notes)
     const dateMatch = cleanedNotes.match(/recorded\s+in\s+(\w+\s+\d{4})/i)
     if (dateMatch) {
       return dateMatch[1]
@@ -291,30 +629,13 @@ function extractRecordingDate(release: DiscogsRelease): string | undefined {
   }
 
   // Fallback to release year if available
-  if (extendedRelease.year) {
-    return extendedRelease.year.toString()
+  if (release.year) {
+    return release.year.toString()
   }
 
   return undefined
 }
 
-/**
- * Generate a random duration for tracks without duration info
- */
-function getRandomDuration(): number {
-  // Generate random duration between 2:30 and 8:30 (150-510 seconds)
-  return Math.floor(Math.random() * (510 - 150 + 1)) + 150
-}
-
-/**
- * Format duration from seconds to MM:SS format
- */
-function formatDuration(seconds: number): string {
-  const minutes = Math.floor(seconds / 60)
-  const remainingSeconds = seconds % 60
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
-}
-
 /**
  * Parse duration string to seconds (for existing MM:SS format)
  */
@@ -405,8 +726,7 @@ export function validateVinylRecord(record: VinylRecord): boolean {
     record.label &&
     record.genres && record.genres.length > 0 &&
     record.coverUrl &&
-    record.tracks &&
-    record.tracks.length > 0
+    record.tracks // May be empty: not every release has a tracklist on Discogs
   )
 }
 
@@ -0,0 +1,151 @@
+import { getDiscogsService, DiscogsArtistRelease } from './discogsService'
+import { VinylRecord } from '../data/vinylRecords'
+import { stripDisambiguation } from '../utils/credits'
+import { foldText } from '../utils/searchIndex'
+import { ArtistIdentity, DiscographyEntry, findArtistId } from '../utils/discography'
+
+// Pages of the artist's masters searched for labels; the discography itself is capped separately
+const LABEL_SEARCH_PAGES = 3
+
+/**
+ * Artists' Discogs discographies, kept for the session: a discography is a dozen requests
+ * and barely changes between visits to the page
+ */
+class DiscographyService {
+  private identities = new Map<string, Promise<ArtistIdentity | null>>()
+  private discographies = new Map<string, Promise<DiscographyEntry[]>>()
+
+  /**
+   * The Discogs artist behind a name: the id credited on the collection's records, otherwise the
+   * best artist search result. Null when Discogs knows no such artist.
+   */
+  getIdentity(name: string, records: VinylRecord[]): Promise<ArtistIdentity | null> {
+    const key = foldText(name)
+    let identity = this.identities.get(key)
+    if (!identity) {
+      identity = this.fetchIdentity(name, records)
+      identity.catch(() => this.identities.delete(key)) // Retry on the next visit
+      this.identities.set(key, identity)
+    }
+    return identity
+  }
+
+  /**
+   * An artist's own albums (the "Main" role: no guest spots or unofficial releases), with the
+   * labels their versions came out on. `via` tags the entries of a group's discography.
+   */
+  getDiscography(artistId: string, name: string, via?: string): Promise<DiscographyEntry[]> {
+    const key = `${artistId}:${via || ''}`
+    let discography = this.discographies.get(key)
+    if (!discography) {
+      discography = this.fetchDiscography(artistId, name, via)
+      discography.catch(() => this.discographies.delete(key))
+      this.discographies.set(key, discography)
+    }
+    return discography
+  }
+
+  private async fetchIdentity(
+    name: string,
+    records: VinylRecord[]
+  ): Promise<ArtistIdentity | null> {
+    const discogsService = getDiscogsService()
+    let artistId = findArtistId(records, name)
+
+    if (!artistId) {
+      const { results } = await discogsService.searchArtists(name)
+      const target = foldText(name)
+      const match =
+        results.find(result => foldText(stripDisambiguation(result.title)) === target) || results[0]
+      if (!match) return null
+      artistId = match.id.toString()
+    }
+
+    const artist = await discogsService.getArtist(parseInt(artistId, 10))
+    const variations = [
+      ...(artist.namevariations || []),
+      ...(artist.aliases || []).map(a => a.name),
+    ]
+
+    return {
+      id: artist.id.toString(),
+      name: stripDisambiguation(artist.name),
+      variations: Array.from(new Set(variations.map(stripDisambiguation))),
+      groups: (artist.groups || []).map(group => ({
+        id: group.id.toString(),
+        name: stripDisambiguation(group.name),
+      })),
+    }
+  }
+
+  private async fetchDiscography(
+    artistId: string,
+    name: string,
+    via?: string
+  ): Promise<DiscographyEntry[]> {
+    const discogsService = getDiscogsService()
+    const [releases, labelsByMaster] = await Promise.all([
+      discogsService.getAllArtistReleases(parseInt(artistId, 10)),
+      this.fetchMasterLabels(name),
+    ])
+
+    return releases
+      .filter(release => release.role === 'Main')
+      .map(release => this.toEntry(release, labelsByMaster, via))
+  }
+
+  // Labels per master from the database search, which (unlike the discography) lists them.
+  // A failed search fails the discography, which isn't cached, so the next visit retries both.
+  private async fetchMasterLabels(name: string): Promise<Map<string, string[]>> {
+    const discogsService = getDiscogsService()
+    const labels = new Map<string, string[]>()
+
+    const firstPage = await discogsService.searchArtistMasters(name, 1)
+    const pages = Math.min(firstPage.pagination.pages, LABEL_SEARCH_PAGES)
+    const remainingPages = await Promise.all(
+      Array.from({ length: Math.max(pages - 1, 0) }, (_, i) =>
+        discogsService.searchArtistMasters(name, i + 2)
+      )
+    )
+
+    const allPages = [firstPage, ...remainingPages]
+    allPages.forEach(page =>
+      page.results.forEach(result => {
+        const masterId = (result.master_id || result.id).toString()
+        labels.set(masterId, Array.from(new Set((result.label || []).map(stripDisambiguation))))
+      })
+    )
+
+    return labels
+  }
+
+  private toEntry(
+    release: DiscogsArtistRelease,
+    labelsByMaster: Map<string, string[]>,
+    via?: string
+  ): DiscographyEntry {
+    const id = release.id.toString()
+    const labels =
+      release.type === 'master'
+        ? labelsByMaster.get(id) || []
+        : release.label
+          ? [stripDisambiguation(release.label)]
+          : []
+
+    return {
+      id,
+      type: release.type,
+      mainReleaseId: release.main_release?.toString(),
+      title: release.title,
+      artist: stripDisambiguation(release.artist),
+      year: release.year || null,
+      thumb: release.thumb || undefined,
+      labels,
+      via,
+    }
+  }
+}
+
+// Create and export singleton instance
+export const discographyService = new DiscographyService()
+export default DiscographyService
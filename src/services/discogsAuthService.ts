@@ -0,0 +1,89 @@
+import axios, { AxiosInstance, isAxiosError } from 'axios'
+
+/**
+ * Discogs OAuth 1.0a flow: request token → user authorizes on discogs.com → access token.
+ * The token exchanges run in the /api/discogs/oauth server functions, which keep the consumer
+ * secret and every token secret; the browser only ever learns the Discogs username.
+ */
+class DiscogsAuthService {
+  private client: AxiosInstance
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: import.meta.env.VITE_DISCOGS_OAUTH_URL || '/api/discogs/oauth',
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 30000,
+    })
+  }
+
+  /**
+   * Get a request token and return the discogs.com URL the user should be sent to
+   */
+  async startAuthorization(
+    sessionToken: string,
+    callbackUrl: string = `${window.location.origin}${window.location.pathname}`
+  ): Promise<string> {
+    const { authorizeUrl } = await this.post<{ authorizeUrl: string }>('/start', sessionToken, {
+      callbackUrl,
+    })
+    return authorizeUrl
+  }
+
+  /**
+   * Read the oauth_token/oauth_verifier Discogs appends to the callback URL
+   */
+  getCallbackParams(
+    search: string = window.location.search
+  ): { oauthToken: string; oauthVerifier: string } | null {
+    const params = new URLSearchParams(search)
+    const oauthToken = params.get('oauth_token')
+    const oauthVerifier = params.get('oauth_verifier')
+    return oauthToken && oauthVerifier ? { oauthToken, oauthVerifier } : null
+  }
+
+  /**
+   * Exchange the authorized request token for an access token, stored server-side.
+   * Resolves with the connected Discogs username.
+   */
+  async completeAuthorization(
+    sessionToken: string,
+    oauthToken: string,
+    oauthVerifier: string
+  ): Promise<string> {
+    const { username } = await this.post<{ username: string }>('/complete', sessionToken, {
+      oauthToken,
+      oauthVerifier,
+    })
+    return username
+  }
+
+  /**
+   * Delete the stored tokens for the signed-in user
+   */
+  async disconnect(sessionToken: string): Promise<void> {
+    await this.post('/disconnect', sessionToken)
+  }
+
+  private async post<T>(
+    endpoint: string,
+    sessionToken: string,
+    body: Record<string, string> = {}
+  ): Promise<T> {
+    try {
+      const response = await this.client.post<T>(endpoint, body, {
+        headers: { Authorization: `Bearer ${sessionToken}` },
+      })
+      return response.data
+    } catch (error) {
+      // The functions reply with { error } messages meant for the user
+      if (isAxiosError(error) && error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw error
+    }
+  }
+}
+
+// Create and export singleton instance
+export const discogsAuthService = new DiscogsAuthService()
+export default DiscogsAuthService
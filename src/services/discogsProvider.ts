@@ -0,0 +1,84 @@
+import { getDiscogsService, DiscogsSearchResponse } from './discogsService'
+import { normalizeDiscogsRelease, normalizeDiscogsMaster } from './dataTransform'
+import {
+  MetadataProvider,
+  NormalizedRelease,
+  NormalizedMaster,
+  ReleaseSearchQuery,
+} from './metadataProvider'
+
+type DiscogsSearchResult = DiscogsSearchResponse['results'][number]
+
+/**
+ * Discogs implementation of MetadataProvider, backed by discogsService
+ */
+class DiscogsProvider implements MetadataProvider {
+  readonly id = 'discogs' as const
+  readonly name = 'Discogs'
+
+  /**
+   * Get a full release, including tracklist and credits
+   */
+  async getRelease(releaseId: string): Promise<NormalizedRelease> {
+    const release = await getDiscogsService().getRelease(parseInt(releaseId, 10))
+    return normalizeDiscogsRelease(release)
+  }
+
+  /**
+   * Get a master release (served from the persistent master cache when fresh)
+   */
+  async getMaster(masterId: string): Promise<NormalizedMaster> {
+    const { master, fromCache } = await getDiscogsService().getMasterReleaseCached(
+      parseInt(masterId, 10)
+    )
+    return { ...normalizeDiscogsMaster(master), fromCache }
+  }
+
+  /**
+   * Search the Discogs database for releases
+   */
+  async searchReleases(query: ReleaseSearchQuery): Promise<NormalizedRelease[]> {
+    const params: Record<string, string | number> = { per_page: query.limit || 10 }
+    if (query.artist) params.artist = query.artist
+    if (query.title) params.release_title = query.title
+    if (query.barcode) params.barcode = query.barcode
+    if (query.catalogNumber) params.catno = query.catalogNumber
+
+    const response = await getDiscogsService().searchReleases('', params)
+    return response.results.map(result => this.normalizeSearchResult(result))
+  }
+
+  /**
+   * Search results only carry summary fields; titles are formatted "Artist - Title"
+   */
+  private normalizeSearchResult(result: DiscogsSearchResult): NormalizedRelease {
+    const separator = result.title.indexOf(' - ')
+    const artist = separator > -1 ? result.title.slice(0, separator) : ''
+    const title = separator > -1 ? result.title.slice(separator + 3) : result.title
+    const year = result.year ? parseInt(result.year, 10) : undefined
+
+    return {
+      provider: 'discogs',
+      id: result.id.toString(),
+      masterId: result.master_id ? result.master_id.toString() : undefined,
+      title,
+      artists: artist ? [{ name: artist }] : [],
+      year: year || undefined,
+      labels: (result.label || []).slice(0, 1).map(name => ({ name, catalogNumber: result.catno })),
+      formats: (result.format || []).slice(0, 1).map(name => ({ name, descriptions: [] })),
+      genres: result.genre || [],
+      styles: result.style || [],
+      country: result.country,
+      barcode: result.barcode?.[0],
+      identifiers: (result.barcode || []).map(value => ({ type: 'Barcode', value })),
+      coverUrl: result.cover_image || undefined,
+      tracks: [],
+      credits: [],
+      url: `https://www.discogs.com/release/${result.id}`,
+    }
+  }
+}
+
+// Create and export singleton instance
+export const discogsProvider = new DiscogsProvider()
+export default DiscogsProvider
@@ -1,6 +1,18 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import PQueue from 'p-queue';
 import pRetry from 'p-retry';
+import { masterCacheService } from './masterCacheService';
+import { AdaptiveRateLimiter, RateLimitStats, RateLimitListener } from './rateLimiter';
+import { writeBackStore } from './writeBackStore';
+import { extractCollectionDetails } from './dataTransform';
+import {
+  PendingCollectionChange,
+  NewCollectionChange,
+  mergeChange,
+  checkRemoteValue,
+  resolveConflict
+} from '../utils/writeBack';
+import type { Profile } from './supabaseService';
 
 // Master Release data from Discogs
 export interface DiscogsMasterRelease {
@@ -10,6 +22,8 @@ export interface DiscogsMasterRelease {
   artists: Array<{
     name: string;
     id: number;
+    anv?: string;
+    join?: string;
   }>;
   genres?: string[];
   styles?: string[];
@@ -19,22 +33,55 @@ export interface DiscogsMasterRelease {
     name: string;
     role: string;
     id: number;
+    anv?: string;
+    tracks?: string; // Empty when the credit covers the whole release
   }>;
 }
 
+export interface DiscogsTrack {
+  position: string;
+  type_?: 'track' | 'heading' | 'index';
+  title: string;
+  duration: string;
+  artists?: Array<{
+    name: string;
+    id: number;
+    anv?: string;
+    join?: string;
+  }>; // Only when they differ from the release artists
+  extraartists?: Array<{
+    name: string;
+    role: string;
+    id: number;
+    anv?: string;
+  }>;
+  sub_tracks?: DiscogsTrack[]; // Parts of an index track
+}
+
 export interface DiscogsRelease {
   id: number;
   title: string;
   artists: Array<{
     name: string;
     id: number;
+    anv?: string; // Artist name variation used on this release
+    join?: string; // Joins this artist to the next one: ",", "&", "Feat."...
+    role?: string;
   }>;
   year?: number;
   master_year?: number; // Added for original release year from master
   labels?: Array<{
     name: string;
     catno: string;
+    id?: number;
+    entity_type_name?: string;
   }>;
+  companies?: Array<{
+    name: string;
+    catno?: string;
+    id?: number;
+    entity_type_name: string; // e.g. "Pressed By", "Distributed By"
+  }>; // Only on full release responses
   genres?: string[];
   styles?: string[];
   images?: Array<{
@@ -43,19 +90,33 @@ export interface DiscogsRelease {
     uri150: string;
     uri500: string;
   }>;
-  tracklist?: Array<{
-    position: string;
-    title: string;
-    duration: string;
+  tracklist?: DiscogsTrack[];
+  country?: string; // Only on full release responses
+  formats?: Array<{
+    name: string;
+    qty: string;
+    text?: string; // Free text, e.g. "180g"
+    descriptions?: string[];
+  }>;
+  identifiers?: Array<{
+    type: string; // "Barcode", "Matrix / Runout", "Rights Society", ...
+    value: string;
+    description?: string; // e.g. "Side A" for matrix numbers
   }>;
   master_id?: number;
   master_url?: string;
-  notes?: string;
+  notes?: string | DiscogsCollectionNote[]; // Release notes, or custom field values on collection items
   extraartists?: Array<{
     name: string;
     role: string;
     id: number;
+    anv?: string;
+    tracks?: string; // Empty when the credit covers the whole release
   }>;
+  instance_id?: number; // Collection item instance (only on collection responses)
+  folder_id?: number; // Collection folder the item is filed in (only on collection responses)
+  rating?: number; // Collection item rating, 0-5 with 0 = unrated (only on collection responses)
+  date_added?: string; // When the item was added to the collection or wantlist (ISO 8601)
   basic_information?: {
     id: number;
     title: string;
@@ -68,6 +129,7 @@ export interface DiscogsRelease {
     formats: Array<{
       name: string;
       qty: string;
+      text?: string;
       descriptions?: string[];
     }>;
     labels: Array<{
@@ -102,6 +164,55 @@ export interface DiscogsCollectionResponse {
   releases: DiscogsRelease[];
 }
 
+// Value of a user-defined collection field on a collection item
+export interface DiscogsCollectionNote {
+  field_id: number;
+  value: string;
+}
+
+export interface DiscogsFolder {
+  id: number;
+  name: string;
+  count: number;
+  resource_url: string;
+}
+
+// User-defined collection field (Media Condition, Sleeve Condition, Notes and custom ones)
+export interface DiscogsCollectionField {
+  id: number;
+  name: string;
+  type: 'dropdown' | 'textarea';
+  options?: string[]; // Dropdown fields only
+  lines?: number; // Textarea fields only
+  position: number;
+  public: boolean;
+}
+
+// Folder names and field definitions needed to resolve the IDs on collection items
+export interface CollectionContext {
+  folders: Record<number, string>;
+  fields: DiscogsCollectionField[];
+}
+
+export interface WriteBackResult {
+  pushed: number;
+  conflicts: number;
+  failed: number;
+}
+
+// Suggested marketplace prices keyed by grade, e.g. "Very Good Plus (VG+)"
+export type DiscogsPriceSuggestions = Record<string, { currency: string; value: number }>;
+
+export interface DiscogsWantlistResponse {
+  pagination: {
+    page: number;
+    pages: number;
+    per_page: number;
+    items: number;
+  };
+  wants: DiscogsRelease[];
+}
+
 export interface DiscogsSearchResponse {
   pagination: {
     page: number;
@@ -129,40 +240,112 @@ export interface DiscogsSearchResponse {
   }>;
 }
 
+// An artist's page: the name variations it is credited under, aliases and group memberships
+export interface DiscogsArtist {
+  id: number;
+  name: string;
+  realname?: string;
+  profile?: string;
+  namevariations?: string[];
+  aliases?: Array<{ id: number; name: string }>;
+  groups?: Array<{ id: number; name: string; active?: boolean }>; // Groups the artist played in
+  members?: Array<{ id: number; name: string; active?: boolean }>; // For groups
+}
+
+// One entry of an artist's discography: a master, or a release that has no master
+export interface DiscogsArtistRelease {
+  id: number;
+  type: 'master' | 'release';
+  main_release?: number; // Masters only
+  title: string;
+  artist: string;
+  role: string; // "Main", "Appearance", "TrackAppearance", "UnofficialRelease"...
+  year?: number;
+  thumb?: string;
+  label?: string; // Releases only
+  format?: string; // Releases only
+}
+
+export interface DiscogsArtistReleasesResponse {
+  pagination: {
+    page: number;
+    pages: number;
+    per_page: number;
+    items: number;
+  };
+  releases: DiscogsArtistRelease[];
+}
+
+// One release on a label, with the catalog number it carries there
+export interface DiscogsLabelRelease {
+  id: number;
+  title: string;
+  artist: string;
+  catno: string;
+  year?: number; // 0 when unknown
+  format?: string;
+  thumb?: string;
+  status?: string;
+}
+
+export interface DiscogsLabelReleasesResponse {
+  pagination: {
+    page: number;
+    pages: number;
+    per_page: number;
+    items: number;
+  };
+  releases: DiscogsLabelRelease[];
+}
+
+// A label's releases as far as they were fetched
+export interface DiscogsLabelCatalog {
+  releases: DiscogsLabelRelease[]; // In catalog number order
+  totalItems: number; // Everything Discogs lists on the label; more than fetched when capped
+}
+
+// Whose Discogs account a DiscogsService acts for. Requests go through the /api/discogs/proxy
+// server function, which signs them with the account's stored OAuth token. Without a session
+// token the proxy uses the app's own key, which can only read public data.
+export interface DiscogsCredentials {
+  username: string;
+  getSessionToken?: () => Promise<string | null>;
+}
+
 class DiscogsService {
   private client: AxiosInstance;
   private queue: PQueue;
+  private rateLimiter: AdaptiveRateLimiter;
   private baseURL: string;
-  private userAgent: string;
-  private token: string;
+  private credentials: DiscogsCredentials;
   private username: string;
+  private isPushing = false;
+  private pushRequested = false;
 
-  constructor() {
-    this.baseURL = import.meta.env.VITE_DISCOGS_API_BASE_URL || 'https://api.discogs.com';
-    this.userAgent = import.meta.env.VITE_DISCOGS_USER_AGENT || 'AnalogVibesApp/1.0';
-    this.token = import.meta.env.VITE_DISCOGS_PERSONAL_ACCESS_TOKEN || '';
-    this.username = import.meta.env.VITE_DISCOGS_USERNAME || '';
-
-    if (!this.token) {
-      console.warn('Discogs API token not found. Please set VITE_DISCOGS_PERSONAL_ACCESS_TOKEN in your .env file');
-    }
-
-    if (!this.username) {
-      console.warn('Discogs username not found. Please set VITE_DISCOGS_USERNAME in your .env file');
-    }
+  constructor(credentials: DiscogsCredentials) {
+    this.baseURL = import.meta.env.VITE_DISCOGS_PROXY_URL || '/api/discogs/proxy';
+    this.credentials = credentials;
+    this.username = credentials.username;
 
     // Create axios instance
     this.client = axios.create({
       baseURL: this.baseURL,
       headers: {
-        'User-Agent': this.userAgent,
-        'Authorization': `Discogs token=${this.token}`,
         'Content-Type': 'application/json',
         'Accept': 'application/vnd.discogs.v2.discogs+json'
       },
       timeout: 30000, // 30 second timeout
     });
 
+    // The proxy looks up the account's token from the Supabase session; it never reaches the browser
+    this.client.interceptors.request.use(async (config) => {
+      const sessionToken = await this.credentials.getSessionToken?.();
+      if (sessionToken) {
+        config.headers.Authorization = `Bearer ${sessionToken}`;
+      }
+      return config;
+    });
+
     // Set up rate limiting queue (aggressive settings for faster sync)
     // Discogs allows 60/min for authenticated users, we'll use most of it
     const rateLimit = parseInt(import.meta.env.VITE_DISCOGS_RATE_LIMIT_AUTHENTICATED || '55');
@@ -172,7 +355,10 @@ class DiscogsService {
       concurrency: 8 // Aggressive concurrency for much faster processing
     });
 
-    // Add response interceptor for debugging and error handling
+    // Concurrency is tuned from the rate-limit headers; 8 is only the ceiling
+    this.rateLimiter = new AdaptiveRateLimiter(this.queue, 8);
+
+    // Add response interceptor for rate limiting and error handling
     this.client.interceptors.response.use(
       (response) => {
         // Log rate limit info
@@ -181,16 +367,20 @@ class DiscogsService {
         if (remaining !== undefined) {
           console.log(`Discogs API: ${used} requests used, ${remaining} remaining`);
         }
+        this.rateLimiter.recordResponse(response.headers);
         return response;
       },
       (error) => {
         if (error.response) {
-          const { status, data } = error.response;
+          const { status, data, headers } = error.response;
           console.error(`Discogs API Error ${status}:`, data);
           
           switch (status) {
+            case 429:
+              this.rateLimiter.recordRateLimited(headers['retry-after']);
+              throw new Error('Rate limit exceeded. Waiting before retrying...');
             case 401:
-              throw new Error('Invalid Discogs API token. Please check your credentials.');
+              throw new Error(data?.error || 'Discogs rejected the request. Please reconnect your Discogs account.');
             case 403:
               throw new Error('Rate limit exceeded. Please wait before making more requests.');
             case 404:
@@ -210,25 +400,83 @@ class DiscogsService {
    * Make a rate-limited request to the Discogs API with retry logic
    */
   private async makeRequest<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
+    const response = await this.makeRawRequest<T>(endpoint, params);
+    return response.data;
+  }
+
+  /**
+   * Same as makeRequest, but resolves with the full response (headers, status).
+   * A 304 Not Modified resolves instead of throwing so conditional requests can be made.
+   */
+  private async makeRawRequest<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    headers: Record<string, string> = {}
+  ): Promise<AxiosResponse<T>> {
+    return this.enqueue(() =>
+      this.client.get<T>(endpoint, {
+        params,
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+      })
+    );
+  }
+
+  /**
+   * Make a rate-limited POST to the Discogs API (collection edits), sharing the read queue
+   */
+  private async makeWriteRequest<T>(
+    endpoint: string,
+    data: Record<string, unknown> | null,
+    params: Record<string, string | number> = {}
+  ): Promise<T> {
+    const response = await this.enqueue(() => this.client.post<T>(endpoint, data, { params }));
+    return response.data;
+  }
+
+  /**
+   * Run a request through the rate-limited queue with retries
+   */
+  private async enqueue<T>(send: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
     const result = await this.queue.add(async () => {
       return pRetry(
-        async () => {
-          const response: AxiosResponse<T> = await this.client.get(endpoint, { params });
-          return response.data;
-        },
+        send,
         {
           retries: 3,
           factor: 2,
           minTimeout: 1000,
           maxTimeout: 5000,
-          onFailedAttempt: (error) => {
+          onFailedAttempt: async (error) => {
             console.warn(`Discogs API request failed, attempt ${error.attemptNumber}: ${error.message}`);
+            // Don't retry while the limiter is paused (e.g. after a 429 with Retry-After)
+            await this.rateLimiter.waitUntilReady();
           }
         }
       );
     });
     
-    return result as T;
+    return result as AxiosResponse<T>;
+  }
+
+  /**
+   * Discogs username this service acts on behalf of
+   */
+  getUsername(): string {
+    return this.username;
+  }
+
+  /**
+   * Current rate-limit budget and throttling state
+   */
+  getRateLimitStats(): RateLimitStats {
+    return this.rateLimiter.getStats();
+  }
+
+  /**
+   * Subscribe to rate-limit budget changes; returns an unsubscribe function
+   */
+  onRateLimitChange(listener: RateLimitListener): () => void {
+    return this.rateLimiter.subscribe(listener);
   }
 
   /**
@@ -236,7 +484,7 @@ class DiscogsService {
    */
   async getUserCollection(page: number = 1, perPage: number = 100): Promise<DiscogsCollectionResponse> {
     if (!this.username) {
-      throw new Error('Username not configured. Please set VITE_DISCOGS_USERNAME in your .env file');
+      throw new Error('No Discogs username for this account. Please reconnect Discogs.');
     }
 
     const params = {
@@ -252,6 +500,251 @@ class DiscogsService {
     );
   }
 
+  /**
+   * Get the user's collection folders (folder 0 is "All", folder 1 is "Uncategorized")
+   */
+  async getCollectionFolders(): Promise<DiscogsFolder[]> {
+    if (!this.username) {
+      throw new Error('No Discogs username for this account. Please reconnect Discogs.');
+    }
+
+    const response = await this.makeRequest<{ folders: DiscogsFolder[] }>(
+      `/users/${this.username}/collection/folders`
+    );
+    return response.folders;
+  }
+
+  /**
+   * Get the user's collection field definitions (private fields need an authenticated request)
+   */
+  async getCollectionFields(): Promise<DiscogsCollectionField[]> {
+    if (!this.username) {
+      throw new Error('No Discogs username for this account. Please reconnect Discogs.');
+    }
+
+    const response = await this.makeRequest<{ fields: DiscogsCollectionField[] }>(
+      `/users/${this.username}/collection/fields`
+    );
+    return response.fields;
+  }
+
+  /**
+   * Get the folder names and field definitions used to read collection items
+   */
+  async getCollectionContext(): Promise<CollectionContext> {
+    const [folders, fields] = await Promise.all([
+      this.getCollectionFolders(),
+      this.getCollectionFields()
+    ]);
+
+    return {
+      folders: Object.fromEntries(folders.map(folder => [folder.id, folder.name])),
+      fields
+    };
+  }
+
+  /**
+   * Get every instance of a release in the user's collection (with folder, rating and field values)
+   */
+  async getCollectionInstances(releaseId: number): Promise<DiscogsRelease[]> {
+    const response = await this.makeRequest<{ releases: DiscogsRelease[] }>(
+      `/users/${this.username}/collection/releases/${releaseId}`
+    );
+    return response.releases;
+  }
+
+  /**
+   * Change the rating of a collection instance, or move it to another folder
+   */
+  async updateCollectionInstance(
+    instance: DiscogsRelease,
+    changes: { rating?: number; folder_id?: number }
+  ): Promise<void> {
+    await this.makeWriteRequest(
+      `/users/${this.username}/collection/folders/${instance.folder_id}/releases/${instance.id}/instances/${instance.instance_id}`,
+      changes
+    );
+  }
+
+  /**
+   * Set a custom field value (e.g. Notes) on a collection instance
+   */
+  async setCollectionField(instance: DiscogsRelease, fieldId: number, value: string): Promise<void> {
+    await this.makeWriteRequest(
+      `/users/${this.username}/collection/folders/${instance.folder_id}/releases/${instance.id}/instances/${instance.instance_id}/fields/${fieldId}`,
+      null,
+      { value }
+    );
+  }
+
+  /**
+   * Add a release to the user's Discogs collection (folder 1 is "Uncategorized")
+   */
+  async addReleaseToCollection(
+    releaseId: number,
+    folderId: number = 1
+  ): Promise<{ instance_id: number; resource_url: string }> {
+    if (!this.username) {
+      throw new Error('No Discogs username for this account. Please reconnect Discogs.');
+    }
+
+    return this.makeWriteRequest(
+      `/users/${this.username}/collection/folders/${folderId}/releases/${releaseId}`,
+      null
+    );
+  }
+
+  // ============================================================================
+  // WRITE-BACK QUEUE (local edits pushed to Discogs)
+  // ============================================================================
+
+  /**
+   * Queue a rating, notes or folder change for this user's Discogs collection
+   */
+  async queueCollectionChange(change: NewCollectionChange): Promise<PendingCollectionChange[]> {
+    return writeBackStore.update(this.username, changes => mergeChange(changes, change));
+  }
+
+  /**
+   * Get queued changes, including unresolved conflicts
+   */
+  async getPendingChanges(): Promise<PendingCollectionChange[]> {
+    return writeBackStore.list(this.username);
+  }
+
+  /**
+   * Resolve a conflict by keeping the local value (pushed next time) or Discogs' value (dropped)
+   */
+  async resolveConflict(
+    changeId: string,
+    resolution: 'keep-local' | 'keep-discogs'
+  ): Promise<PendingCollectionChange[]> {
+    return writeBackStore.update(this.username, changes => resolveConflict(changes, changeId, resolution));
+  }
+
+  /**
+   * Push pending changes to Discogs.
+   * Each change is checked against the item's current value first: if Discogs was edited
+   * since the last sync the change is held back as a conflict instead of overwriting it.
+   */
+  async pushPendingChanges(): Promise<WriteBackResult> {
+    const result: WriteBackResult = { pushed: 0, conflicts: 0, failed: 0 };
+
+    // Changes queued mid-push are picked up by a follow-up run
+    if (this.isPushing) {
+      this.pushRequested = true;
+      return result;
+    }
+
+    this.isPushing = true;
+    try {
+      do {
+        this.pushRequested = false;
+        const runResult = await this.pushQueuedChanges();
+        result.pushed += runResult.pushed;
+        result.conflicts += runResult.conflicts;
+        result.failed += runResult.failed;
+      } while (this.pushRequested);
+    } finally {
+      this.isPushing = false;
+    }
+
+    return result;
+  }
+
+  private async pushQueuedChanges(): Promise<WriteBackResult> {
+    const result: WriteBackResult = { pushed: 0, conflicts: 0, failed: 0 };
+    const pending = (await writeBackStore.list(this.username)).filter(c => c.status === 'pending');
+    if (pending.length === 0) return result;
+
+    console.log(`Pushing ${pending.length} collection changes to Discogs...`);
+    const context = await this.getCollectionContext();
+    const instancesByRelease = new Map<number, DiscogsRelease[]>();
+
+    for (const change of pending) {
+      // Only settle the change if it wasn't edited again while this one was in flight
+      const settle = (updater: (c: PendingCollectionChange) => PendingCollectionChange | null) =>
+        writeBackStore.update(this.username, changes =>
+          changes.flatMap(c => {
+            if (c.id !== change.id || c.queuedAt !== change.queuedAt) return [c];
+            const updated = updater(c);
+            return updated ? [updated] : [];
+          })
+        );
+
+      try {
+        if (!instancesByRelease.has(change.releaseId)) {
+          instancesByRelease.set(change.releaseId, await this.getCollectionInstances(change.releaseId));
+        }
+        const instances = instancesByRelease.get(change.releaseId) || [];
+        const instance = instances.find(i => i.instance_id === change.instanceId) || instances[0];
+        if (!instance) {
+          throw new Error('Release is no longer in your Discogs collection');
+        }
+
+        const remote = extractCollectionDetails(instance, context);
+        const remoteValue =
+          change.field === 'rating' ? remote.rating ?? 0
+          : change.field === 'notes' ? remote.collectionNotes ?? ''
+          : remote.folder ?? '';
+
+        const check = checkRemoteValue(change, remoteValue);
+        if (check === 'conflict') {
+          console.warn(`Discogs ${change.field} for release ${change.releaseId} changed since last sync`);
+          await settle(c => ({ ...c, status: 'conflict', remoteValue, error: undefined }));
+          result.conflicts++;
+          continue;
+        }
+
+        if (check === 'push') {
+          await this.applyChange(instance, change, context);
+        }
+
+        await settle(() => null);
+        result.pushed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Failed to push ${change.field} for release ${change.releaseId}:`, message);
+        await settle(c => ({ ...c, error: message }));
+        result.failed++;
+      }
+    }
+
+    console.log(`Write-back complete: ${result.pushed} pushed, ${result.conflicts} conflicts, ${result.failed} failed`);
+    return result;
+  }
+
+  private async applyChange(
+    instance: DiscogsRelease,
+    change: PendingCollectionChange,
+    context: CollectionContext
+  ): Promise<void> {
+    switch (change.field) {
+      case 'rating':
+        await this.updateCollectionInstance(instance, { rating: Number(change.value) });
+        break;
+      case 'folder': {
+        // '' means Uncategorized (folder 1)
+        const folderId = change.value === ''
+          ? 1
+          : Number(Object.keys(context.folders).find(id => context.folders[Number(id)] === change.value));
+        if (!folderId) {
+          throw new Error(`Folder "${change.value}" does not exist on Discogs`);
+        }
+        await this.updateCollectionInstance(instance, { folder_id: folderId });
+        break;
+      }
+      case 'notes': {
+        const notesField = context.fields.find(field => field.name.toLowerCase() === 'notes');
+        if (!notesField) {
+          throw new Error('Your Discogs collection has no Notes field');
+        }
+        await this.setCollectionField(instance, notesField.id, String(change.value));
+        break;
+      }
+    }
+  }
+
   /**
    * Get all pages of user's collection with optional track details (optimized with parallel fetching)
    */
@@ -295,6 +788,50 @@ class DiscogsService {
     return allReleases;
   }
 
+  /**
+   * Get user's wantlist with pagination
+   */
+  async getUserWantlist(page: number = 1, perPage: number = 100): Promise<DiscogsWantlistResponse> {
+    if (!this.username) {
+      throw new Error('No Discogs username for this account. Please reconnect Discogs.');
+    }
+
+    const params = {
+      page,
+      per_page: Math.min(perPage, 100), // API max is 100
+      sort: 'added',
+      sort_order: 'desc'
+    };
+
+    return this.makeRequest<DiscogsWantlistResponse>(`/users/${this.username}/wants`, params);
+  }
+
+  /**
+   * Get all pages of user's wantlist
+   */
+  async getAllUserWantlist(): Promise<DiscogsRelease[]> {
+    console.log('Fetching complete Discogs wantlist...');
+
+    const firstPage = await this.getUserWantlist(1, 100);
+    const totalPages = firstPage.pagination.pages;
+    const allWants: DiscogsRelease[] = [...firstPage.wants];
+
+    if (totalPages > 1) {
+      const pagePromises: Promise<DiscogsWantlistResponse>[] = [];
+      for (let page = 2; page <= totalPages; page++) {
+        pagePromises.push(this.getUserWantlist(page, 100));
+      }
+
+      const remainingPages = await Promise.all(pagePromises);
+      remainingPages.forEach(pageResponse => {
+        allWants.push(...pageResponse.wants);
+      });
+    }
+
+    console.log(`Wantlist fetch complete: ${allWants.length} releases`);
+    return allWants;
+  }
+
   /**
    * Enrich releases with detailed track information
    */
@@ -362,6 +899,38 @@ class DiscogsService {
     return this.makeRequest<DiscogsMasterRelease>(`/masters/${masterId}`);
   }
 
+  /**
+   * Get master release details through the persistent master cache.
+   * Fresh entries are returned without a request; stale ones are revalidated with
+   * If-None-Match/If-Modified-Since and only re-downloaded when they changed.
+   */
+  async getMasterReleaseCached(masterId: number): Promise<{
+    master: DiscogsMasterRelease;
+    fromCache: boolean;
+  }> {
+    const cached = await masterCacheService.get(masterId);
+    if (cached && masterCacheService.isFresh(cached)) {
+      return { master: cached.master, fromCache: true };
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await this.makeRawRequest<DiscogsMasterRelease>(`/masters/${masterId}`, {}, headers);
+
+    if (response.status === 304 && cached) {
+      await masterCacheService.touch(masterId);
+      return { master: cached.master, fromCache: false };
+    }
+
+    await masterCacheService.set(masterId, response.data, {
+      etag: response.headers['etag'],
+      lastModified: response.headers['last-modified']
+    });
+    return { master: response.data, fromCache: false };
+  }
+
   /**
    * Get both release and master data for a collection item
    */
@@ -391,80 +960,6 @@ class DiscogsService {
     };
   }
 
-  /**
-   * Enrich collection releases with master release data (optimized with parallel processing)
-   */
-  async enrichWithMasterData(releases: DiscogsRelease[]): Promise<Array<{
-    release: DiscogsRelease;
-    master?: DiscogsMasterRelease;
-  }>> {
-    console.log(`Enriching ${releases.length} releases with master data...`);
-    
-    // Create master data cache to avoid duplicate requests
-    const masterCache = new Map<number, DiscogsMasterRelease>();
-    
-    // Process releases in batches to optimize parallel processing
-    const batchSize = 10; // Process 10 releases concurrently
-    const enrichedReleases: Array<{ release: DiscogsRelease; master?: DiscogsMasterRelease }> = [];
-    
-    for (let i = 0; i < releases.length; i += batchSize) {
-      const batch = releases.slice(i, i + batchSize);
-      
-      // Process batch in parallel
-      const batchPromises = batch.map(async (release) => {
-        const basicInfo = release.basic_information;
-        const releaseId = basicInfo?.id || release.id;
-        const masterId = basicInfo?.master_id || release.master_id;
-        
-        // Get detailed release info
-        let detailedRelease = release;
-        try {
-          detailedRelease = await this.getRelease(releaseId);
-        } catch (error) {
-          console.warn(`Failed to fetch detailed release for ${releaseId}:`, error);
-        }
-        
-        // Get master data if available (with caching)
-        let masterData: DiscogsMasterRelease | undefined;
-        if (masterId) {
-          // Check cache first
-          if (masterCache.has(masterId)) {
-            masterData = masterCache.get(masterId);
-            console.log(`Using cached master data for ${masterId}`);
-          } else {
-            try {
-              masterData = await this.getMasterRelease(masterId);
-              masterCache.set(masterId, masterData); // Cache for future use
-              console.log(`✓ Master ${masterId}: "${masterData.title}" (${masterData.year || 'NO YEAR'})`);
-            } catch (error) {
-              console.warn(`✗ Failed to fetch master data for ${masterId}:`, error);
-            }
-          }
-        }
-        
-        return {
-          release: detailedRelease,
-          master: masterData
-        };
-      });
-      
-      // Wait for batch completion
-      const batchResults = await Promise.all(batchPromises);
-      enrichedReleases.push(...batchResults);
-      
-      // Log progress
-      console.log(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(releases.length / batchSize)} - ${enrichedReleases.length}/${releases.length} releases`);
-      
-      // Small delay between batches (reduced from 200ms per item to once per batch)
-      if (i + batchSize < releases.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
-    
-    console.log(`Enrichment complete: ${enrichedReleases.length} releases processed, ${masterCache.size} unique masters cached`);
-    return enrichedReleases;
-  }
-
   /**
    * Search for releases
    */
@@ -477,6 +972,131 @@ class DiscogsService {
     return this.makeRequest<DiscogsSearchResponse>('/database/search', params);
   }
 
+  /**
+   * Search for artists by name
+   */
+  async searchArtists(name: string): Promise<DiscogsSearchResponse> {
+    return this.makeRequest<DiscogsSearchResponse>('/database/search', { q: name, type: 'artist' });
+  }
+
+  /**
+   * Search for an artist's masters; results carry the labels the master's versions came out on
+   */
+  async searchArtistMasters(artist: string, page: number = 1): Promise<DiscogsSearchResponse> {
+    return this.makeRequest<DiscogsSearchResponse>('/database/search', {
+      artist,
+      type: 'master',
+      page,
+      per_page: 100
+    });
+  }
+
+  /**
+   * Get an artist with their name variations, aliases and groups
+   */
+  async getArtist(artistId: number): Promise<DiscogsArtist> {
+    return this.makeRequest<DiscogsArtist>(`/artists/${artistId}`);
+  }
+
+  /**
+   * Get a page of an artist's discography, oldest first
+   */
+  async getArtistReleases(
+    artistId: number,
+    page: number = 1,
+    perPage: number = 100
+  ): Promise<DiscogsArtistReleasesResponse> {
+    return this.makeRequest<DiscogsArtistReleasesResponse>(`/artists/${artistId}/releases`, {
+      page,
+      per_page: Math.min(perPage, 100), // API max is 100
+      sort: 'year',
+      sort_order: 'asc'
+    });
+  }
+
+  /**
+   * Get an artist's discography, up to maxPages pages. Prolific artists list thousands of
+   * appearances and unofficial releases after their own records, so the cap keeps this bounded.
+   */
+  async getAllArtistReleases(artistId: number, maxPages: number = 10): Promise<DiscogsArtistRelease[]> {
+    const firstPage = await this.getArtistReleases(artistId, 1, 100);
+    const totalPages = Math.min(firstPage.pagination.pages, maxPages);
+    const allReleases: DiscogsArtistRelease[] = [...firstPage.releases];
+
+    if (totalPages > 1) {
+      const pagePromises: Promise<DiscogsArtistReleasesResponse>[] = [];
+      for (let page = 2; page <= totalPages; page++) {
+        pagePromises.push(this.getArtistReleases(artistId, page, 100));
+      }
+
+      const remainingPages = await Promise.all(pagePromises);
+      remainingPages.forEach(pageResponse => {
+        allReleases.push(...pageResponse.releases);
+      });
+    }
+
+    console.log(`Artist ${artistId} discography: ${allReleases.length} of ${firstPage.pagination.items} entries`);
+    return allReleases;
+  }
+
+  /**
+   * Search for labels by name
+   */
+  async searchLabels(name: string): Promise<DiscogsSearchResponse> {
+    return this.makeRequest<DiscogsSearchResponse>('/database/search', { q: name, type: 'label' });
+  }
+
+  /**
+   * Get a page of the releases on a label, in catalog number order
+   */
+  async getLabelReleases(
+    labelId: number,
+    page: number = 1,
+    perPage: number = 100
+  ): Promise<DiscogsLabelReleasesResponse> {
+    return this.makeRequest<DiscogsLabelReleasesResponse>(`/labels/${labelId}/releases`, {
+      page,
+      per_page: Math.min(perPage, 100), // API max is 100
+      sort: 'catno',
+      sort_order: 'asc'
+    });
+  }
+
+  /**
+   * Get the releases on a label, up to maxPages pages. Big labels list every reissue they ever
+   * put out, so the cap keeps this bounded; sorted by catalog number, a capped listing still
+   * holds whole series up to where it stops.
+   */
+  async getAllLabelReleases(labelId: number, maxPages: number = 30): Promise<DiscogsLabelCatalog> {
+    const firstPage = await this.getLabelReleases(labelId, 1, 100);
+    const totalPages = Math.min(firstPage.pagination.pages, maxPages);
+    const allReleases: DiscogsLabelRelease[] = [...firstPage.releases];
+
+    if (totalPages > 1) {
+      const pagePromises: Promise<DiscogsLabelReleasesResponse>[] = [];
+      for (let page = 2; page <= totalPages; page++) {
+        pagePromises.push(this.getLabelReleases(labelId, page, 100));
+      }
+
+      const remainingPages = await Promise.all(pagePromises);
+      remainingPages.forEach(pageResponse => {
+        allReleases.push(...pageResponse.releases);
+      });
+    }
+
+    console.log(`Label ${labelId} releases: ${allReleases.length} of ${firstPage.pagination.items}`);
+    return { releases: allReleases, totalItems: firstPage.pagination.items };
+  }
+
+  /**
+   * Get suggested marketplace prices for a release, per condition grade.
+   * Prices are in the account's seller currency; accounts without seller settings
+   * get an empty result.
+   */
+  async getPriceSuggestions(releaseId: number): Promise<DiscogsPriceSuggestions> {
+    return this.makeRequest<DiscogsPriceSuggestions>(`/marketplace/price_suggestions/${releaseId}`);
+  }
+
   /**
    * Get user profile information
    */
@@ -493,17 +1113,10 @@ class DiscogsService {
    */
   async testConnection(): Promise<{ success: boolean; message: string; userInfo?: any }> {
     try {
-      if (!this.token) {
-        return {
-          success: false,
-          message: 'No API token configured. Please set VITE_DISCOGS_PERSONAL_ACCESS_TOKEN in your .env file'
-        };
-      }
-
       if (!this.username) {
         return {
           success: false,
-          message: 'No username configured. Please set VITE_DISCOGS_USERNAME in your .env file'
+          message: 'No Discogs username for this account. Please reconnect Discogs.'
         };
       }
 
@@ -525,6 +1138,61 @@ class DiscogsService {
   }
 }
 
-// Create and export a singleton instance
-export const discogsService = new DiscogsService();
+// One service per connected Discogs account; each has its own queue and rate-limit budget
+let activeService: DiscogsService | null = null;
+let activeCredentialsKey: string | null = null;
+
+/**
+ * Credentials for a signed-in user, once they have connected Discogs via OAuth
+ */
+export function getCredentialsFromProfile(
+  profile: Pick<Profile, 'discogs_username'> | null,
+  getSessionToken: () => Promise<string | null>
+): DiscogsCredentials | null {
+  return profile?.discogs_username ? { username: profile.discogs_username, getSessionToken } : null;
+}
+
+/**
+ * The collection owner from the environment, read-only through the app's own key.
+ * Lets visitors of a public collection browse it without anyone signing in.
+ */
+export function getPublicCredentials(): DiscogsCredentials | null {
+  const username = import.meta.env.VITE_DISCOGS_USERNAME;
+  return username ? { username } : null;
+}
+
+/**
+ * Switch the active Discogs account (e.g. when a user signs in or out)
+ */
+export function setDiscogsCredentials(credentials: DiscogsCredentials | null): void {
+  const key = credentials
+    ? `${credentials.getSessionToken ? 'user' : 'public'}:${credentials.username}`
+    : null;
+  if (key === activeCredentialsKey) return;
+
+  activeCredentialsKey = key;
+  activeService = credentials ? new DiscogsService(credentials) : null;
+  console.log(credentials ? `Discogs connected as ${credentials.username}` : 'Discogs disconnected');
+}
+
+/**
+ * Whether a Discogs account is available (connected user or the public collection owner)
+ */
+export function hasDiscogsCredentials(): boolean {
+  return !!activeService || !!getPublicCredentials();
+}
+
+/**
+ * Get the service for the active Discogs account
+ */
+export function getDiscogsService(): DiscogsService {
+  if (!activeService) {
+    setDiscogsCredentials(getPublicCredentials());
+  }
+  if (!activeService) {
+    throw new Error('No Discogs account connected. Please connect your Discogs account to sync.');
+  }
+  return activeService;
+}
+
 export default DiscogsService;
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { getDiscogsService } from './discogsService'
+import { VinylRecord } from '../data/vinylRecords'
+import { stripDisambiguation } from '../utils/credits'
+import { CatalogEntry, findLabelId } from '../utils/catalogNumbers'
+
+export interface LabelCatalog {
+  entries: CatalogEntry[] // In catalog number order
+  isTruncated: boolean // Discogs lists more releases than were fetched
+  lastCatalogNumber: string | null // Where a truncated listing stops
+}
+
+/**
+ * Labels' release lists from Discogs, kept for the session: a big label's catalog is dozens of
+ * requests
+ */
+class LabelCatalogService {
+  private catalogs = new Map<string, Promise<LabelCatalog | null>>()
+
+  /**
+   * Every release Discogs lists on the label with its catalog number. The label is the one
+   * credited on the collection's records, otherwise the best label search result; null when
+   * Discogs knows no such label.
+   */
+  getCatalog(name: string, records: VinylRecord[]): Promise<LabelCatalog | null> {
+    const key = name.toLowerCase()
+    let catalog = this.catalogs.get(key)
+    if (!catalog) {
+      catalog = this.fetchCatalog(name, records)
+      catalog.catch(() => this.catalogs.delete(key)) // Retry on the next visit
+      this.catalogs.set(key, catalog)
+    }
+    return catalog
+  }
+
+  private async fetchCatalog(name: string, records: VinylRecord[]): Promise<LabelCatalog | null> {
+    const discogsService = getDiscogsService()
+    let labelId = findLabelId(records, name)
+
+    if (!labelId) {
+      const { results } = await discogsService.searchLabels(name)
+      const target = name.toLowerCase()
+      const match =
+        results.find(result => stripDisambiguation(result.title).toLowerCase() === target) ||
+        results[0]
+      if (!match) return null
+      labelId = match.id.toString()
+    }
+
+    const { releases, totalItems } = await discogsService.getAllLabelReleases(parseInt(labelId, 10))
+    const entries = releases
+      .filter(release => release.catno && release.catno.toLowerCase() !== 'none')
+      .map(release => ({
+        releaseId: release.id.toString(),
+        catalogNumber: release.catno,
+        title: release.title,
+        artist: stripDisambiguation(release.artist),
+        year: release.year || null,
+      }))
+    const isTruncated = releases.length < totalItems
+    return {
+      entries,
+      isTruncated,
+      lastCatalogNumber: isTruncated ? entries[entries.length - 1]?.catalogNumber || null : null,
+    }
+  }
+}
+
+// Create and export singleton instance
+export const labelCatalogService = new LabelCatalogService()
+export default LabelCatalogService
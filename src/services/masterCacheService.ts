@@ -0,0 +1,114 @@
+import localforage from 'localforage'
+import { DiscogsMasterRelease } from './discogsService'
+
+export interface CachedMasterRelease {
+  master: DiscogsMasterRelease
+  fetchedAt: number // Last time the payload was fetched or revalidated
+  etag?: string
+  lastModified?: string
+}
+
+export interface MasterValidators {
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * Persistent store of Discogs master releases, shared across syncs.
+ * Masters almost never change, so entries are served as-is until the TTL expires
+ * and are then revalidated with ETag/Last-Modified instead of being re-downloaded.
+ */
+class MasterCacheService {
+  private static readonly MASTER_TTL_DAYS = 30
+
+  private store: LocalForage
+
+  constructor() {
+    this.store = localforage.createInstance({
+      name: 'AnalogVibesApp',
+      storeName: 'master_cache',
+      version: 1.0,
+      description: 'Discogs master release cache',
+    })
+  }
+
+  /**
+   * Get a cached master release (fresh or stale)
+   */
+  async get(masterId: number): Promise<CachedMasterRelease | null> {
+    try {
+      return await this.store.getItem<CachedMasterRelease>(masterId.toString())
+    } catch (error) {
+      console.error(`Error reading master ${masterId} from cache:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Check whether a cached entry can be used without revalidation
+   */
+  isFresh(entry: CachedMasterRelease): boolean {
+    const maxAge = MasterCacheService.MASTER_TTL_DAYS * 24 * 60 * 60 * 1000
+    return Date.now() - entry.fetchedAt < maxAge
+  }
+
+  /**
+   * Store a master release along with its HTTP validators
+   */
+  async set(
+    masterId: number,
+    master: DiscogsMasterRelease,
+    validators: MasterValidators = {}
+  ): Promise<void> {
+    try {
+      await this.store.setItem<CachedMasterRelease>(masterId.toString(), {
+        master,
+        fetchedAt: Date.now(),
+        etag: validators.etag,
+        lastModified: validators.lastModified,
+      })
+    } catch (error) {
+      // The cache is an optimization only; a failed write just means a refetch next time
+      console.warn(`Error caching master ${masterId}:`, error)
+    }
+  }
+
+  /**
+   * Mark a stale entry as fresh again after a 304 Not Modified response
+   */
+  async touch(masterId: number): Promise<void> {
+    const entry = await this.get(masterId)
+    if (entry) {
+      await this.set(masterId, entry.master, entry)
+    }
+  }
+
+  /**
+   * Number of masters currently cached
+   */
+  async count(): Promise<number> {
+    try {
+      return await this.store.length()
+    } catch (error) {
+      console.error('Error counting cached masters:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Remove every cached master release
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.store.clear()
+      console.log('Master cache cleared successfully')
+    } catch (error) {
+      console.error('Error clearing master cache:', error)
+      throw new Error('Failed to clear master cache')
+    }
+  }
+}
+
+// Create and export singleton instance
+export const masterCacheService = new MasterCacheService()
+export default MasterCacheService
@@ -0,0 +1,123 @@
+// Provider-neutral release metadata. Everything downstream of a provider (transforms,
+// sync, gap filling) works on these shapes instead of a specific API's payloads.
+
+export type MetadataProviderId = 'discogs' | 'musicbrainz'
+
+export interface NormalizedArtist {
+  name: string // Canonical name, without provider disambiguation suffixes
+  id?: string
+  creditedName?: string // Name as credited on this release when it differs (e.g. Discogs ANV)
+  join?: string // Phrase printed after this artist, with spacing (", ", " & ", " feat. ")
+  role?: string
+}
+
+export interface NormalizedLabel {
+  name: string
+  id?: string
+  catalogNumber?: string
+  role?: string // "Label" for labels; companies carry their credit, e.g. "Pressed By"
+}
+
+export interface NormalizedFormat {
+  name: string
+  quantity?: number
+  descriptions: string[] // e.g. ["LP", "Album", "Reissue", "Mono"]
+  text?: string // Free text, e.g. "180g" or "Blue Translucent"
+}
+
+export interface NormalizedIdentifier {
+  type: string // e.g. "Barcode", "Matrix / Runout"
+  value: string
+  description?: string // e.g. "Side A"
+}
+
+export interface NormalizedTrack {
+  position?: string // As printed on the release (e.g. "A1"), when known
+  title: string
+  duration?: string // MM:SS
+  type?: 'track' | 'heading' | 'index'
+  artists?: NormalizedArtist[] // Track-specific artists
+  credits?: NormalizedCredit[] // Track-specific personnel
+  subTracks?: NormalizedTrack[] // Parts of an index track
+}
+
+export interface NormalizedCredit {
+  name: string
+  id?: string
+  creditedName?: string // Name variation used on this release
+  role: string
+  tracks?: string // When the credit only covers some tracks, e.g. "A1 to A3"
+}
+
+/**
+ * A specific release (pressing) as described by a metadata provider
+ */
+export interface NormalizedRelease {
+  provider: MetadataProviderId
+  id: string
+  masterId?: string // Master (Discogs) or release group (MusicBrainz) this release belongs to
+  title: string
+  artists: NormalizedArtist[]
+  year?: number
+  labels: NormalizedLabel[]
+  formats: NormalizedFormat[]
+  genres: string[]
+  styles: string[]
+  country?: string
+  barcode?: string
+  identifiers: NormalizedIdentifier[] // Barcodes, matrix/runout etchings, rights societies...
+  coverUrl?: string
+  tracks: NormalizedTrack[]
+  notes?: string // Raw provider notes; may contain provider markup
+  credits: NormalizedCredit[]
+  dateAdded?: string // When the release was added to the user's collection (ISO 8601)
+  url?: string // Human-facing page for the release on the provider's site
+}
+
+/**
+ * The abstract work shared by all releases of an album
+ */
+export interface NormalizedMaster {
+  provider: MetadataProviderId
+  id: string
+  title: string
+  artists: NormalizedArtist[]
+  year?: number
+  genres: string[]
+  styles: string[]
+  notes?: string
+  credits: NormalizedCredit[]
+  fromCache?: boolean // Served from a local cache rather than the provider's API
+}
+
+export interface ReleaseSearchQuery {
+  artist?: string
+  title?: string
+  barcode?: string
+  catalogNumber?: string
+  limit?: number
+}
+
+/**
+ * A source of release metadata (Discogs, MusicBrainz, ...)
+ */
+export interface MetadataProvider {
+  readonly id: MetadataProviderId
+  readonly name: string
+
+  /**
+   * Get full details for a release by its provider-specific ID
+   */
+  getRelease(releaseId: string): Promise<NormalizedRelease>
+
+  /**
+   * Get the master/release group by its provider-specific ID
+   */
+  getMaster(masterId: string): Promise<NormalizedMaster>
+
+  /**
+   * Search the provider's catalog. Results may omit tracks and credits;
+   * call getRelease for full details.
+   */
+  searchReleases(query: ReleaseSearchQuery): Promise<NormalizedRelease[]>
+}
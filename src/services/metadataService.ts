@@ -0,0 +1,132 @@
+import { VinylRecord } from '../data/vinylRecords'
+import { MetadataProvider, MetadataProviderId } from './metadataProvider'
+import { discogsProvider } from './discogsProvider'
+import { musicBrainzProvider } from './musicBrainzProvider'
+import { findMetadataGaps, fillMetadataGaps } from './dataTransform'
+
+/**
+ * Registry of metadata providers. Discogs is the primary source for the collection;
+ * supplemental providers only fill fields Discogs left as placeholders.
+ */
+class MetadataService {
+  private providers: Map<MetadataProviderId, MetadataProvider> = new Map()
+  private supplementalProviders: MetadataProviderId[] = []
+
+  constructor() {
+    this.register(discogsProvider)
+    this.register(musicBrainzProvider)
+
+    if (import.meta.env.VITE_ENABLE_MUSICBRAINZ === 'true') {
+      this.supplementalProviders.push('musicbrainz')
+    }
+  }
+
+  /**
+   * Register (or replace) a provider
+   */
+  register(provider: MetadataProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  /**
+   * Get a registered provider by ID
+   */
+  getProvider(id: MetadataProviderId): MetadataProvider {
+    const provider = this.providers.get(id)
+    if (!provider) {
+      throw new Error(`Metadata provider "${id}" is not registered`)
+    }
+    return provider
+  }
+
+  /**
+   * The provider the collection itself is synced from
+   */
+  getPrimaryProvider(): MetadataProvider {
+    return this.getProvider('discogs')
+  }
+
+  /**
+   * Set which providers are consulted, in order, to fill metadata gaps
+   */
+  setSupplementalProviders(ids: MetadataProviderId[]): void {
+    ids.forEach(id => this.getProvider(id))
+    this.supplementalProviders = ids
+  }
+
+  hasSupplementalProviders(): boolean {
+    return this.supplementalProviders.length > 0
+  }
+
+  /**
+   * Fill placeholder fields (year, genres, label, catalog number, cover) from the
+   * supplemental providers. Records without gaps are returned untouched.
+   */
+  async supplementRecords(
+    records: VinylRecord[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ records: VinylRecord[]; supplemented: number }> {
+    const candidates = records.filter(record => findMetadataGaps(record).length > 0)
+    if (candidates.length === 0 || !this.hasSupplementalProviders()) {
+      return { records, supplemented: 0 }
+    }
+
+    console.log(`Filling metadata gaps for ${candidates.length} records...`)
+    const updated = new Map<string, VinylRecord>()
+    let done = 0
+
+    for (const record of candidates) {
+      let current = record
+
+      for (const providerId of this.supplementalProviders) {
+        if (findMetadataGaps(current).length === 0) break
+
+        try {
+          current = await this.supplementRecord(current, this.getProvider(providerId))
+        } catch (error) {
+          console.warn(`${providerId} lookup failed for "${record.title}":`, error)
+        }
+      }
+
+      if (findMetadataGaps(current).length < findMetadataGaps(record).length) {
+        updated.set(record.id, current)
+      }
+      onProgress?.(++done, candidates.length)
+    }
+
+    console.log(`Filled metadata gaps for ${updated.size} of ${candidates.length} records`)
+    return {
+      records: records.map(record => updated.get(record.id) || record),
+      supplemented: updated.size,
+    }
+  }
+
+  private async supplementRecord(
+    record: VinylRecord,
+    provider: MetadataProvider
+  ): Promise<VinylRecord> {
+    const [match] = await provider.searchReleases({
+      artist: record.artist !== 'Unknown Artist' ? record.artist : undefined,
+      title: record.title,
+      catalogNumber: record.catalogNumber !== 'N/A' ? record.catalogNumber : undefined,
+      limit: 1,
+    })
+    if (!match) return record
+
+    // Search results are summaries; fetch the full release (and master) only when genres are missing
+    if (findMetadataGaps(record).includes('genres') && match.genres.length === 0) {
+      const release = await provider.getRelease(match.id)
+      const master =
+        release.genres.length === 0 && release.masterId
+          ? await provider.getMaster(release.masterId)
+          : undefined
+      return fillMetadataGaps(record, release, master)
+    }
+
+    return fillMetadataGaps(record, match)
+  }
+}
+
+// Create and export singleton instance
+export const metadataService = new MetadataService()
+export default MetadataService
@@ -0,0 +1,294 @@
+import axios, { AxiosInstance } from 'axios'
+import PQueue from 'p-queue'
+import pRetry from 'p-retry'
+import {
+  MetadataProvider,
+  NormalizedArtist,
+  NormalizedFormat,
+  NormalizedRelease,
+  NormalizedMaster,
+  ReleaseSearchQuery,
+} from './metadataProvider'
+
+// Subset of the MusicBrainz JSON web service (ws/2) used by this provider
+interface MusicBrainzArtistCredit {
+  name: string
+  joinphrase?: string
+  artist: { id: string; name: string }
+}
+
+interface MusicBrainzGenre {
+  name: string
+  count: number
+}
+
+interface MusicBrainzRelease {
+  id: string
+  title: string
+  date?: string
+  country?: string
+  barcode?: string | null
+  score?: number // Search results only
+  'artist-credit'?: MusicBrainzArtistCredit[]
+  'label-info'?: Array<{
+    'catalog-number'?: string | null
+    label?: { id: string; name: string } | null
+  }>
+  'release-group'?: { id: string; 'first-release-date'?: string }
+  'cover-art-archive'?: { front: boolean }
+  media?: Array<{
+    format?: string | null
+    'track-count'?: number
+    tracks?: Array<{ number: string; title: string; length?: number | null }>
+  }>
+  genres?: MusicBrainzGenre[]
+  annotation?: string | null
+}
+
+interface MusicBrainzReleaseGroup {
+  id: string
+  title: string
+  'first-release-date'?: string
+  'artist-credit'?: MusicBrainzArtistCredit[]
+  genres?: MusicBrainzGenre[]
+  annotation?: string | null
+}
+
+// Query parameters of the ws/2 lookup and search requests made here
+interface MusicBrainzRequestParams {
+  inc?: string // Space-separated subqueries to include, e.g. "labels recordings"
+  query?: string // Lucene search query
+  limit?: number
+}
+
+export interface MusicBrainzProviderOptions {
+  baseURL?: string // Point at a local fixture server in development/tests
+  coverArtBaseURL?: string
+  client?: string // Identifies the app to MusicBrainz, as "name-version"
+  minScore?: number // Search results below this score (0-100) are ignored
+}
+
+/**
+ * MusicBrainz implementation of MetadataProvider.
+ * Used to enrich records that Discogs describes poorly; cover art comes from the Cover Art Archive.
+ */
+class MusicBrainzProvider implements MetadataProvider {
+  readonly id = 'musicbrainz' as const
+  readonly name = 'MusicBrainz'
+
+  private client: AxiosInstance
+  private queue: PQueue
+  private coverArtBaseURL: string
+  private clientId: string
+  private minScore: number
+
+  constructor(options: MusicBrainzProviderOptions = {}) {
+    const baseURL =
+      options.baseURL || import.meta.env.VITE_MUSICBRAINZ_BASE_URL || 'https://musicbrainz.org/ws/2'
+    this.coverArtBaseURL =
+      options.coverArtBaseURL ||
+      import.meta.env.VITE_COVER_ART_ARCHIVE_BASE_URL ||
+      'https://coverartarchive.org'
+    this.clientId =
+      options.client || import.meta.env.VITE_MUSICBRAINZ_CLIENT || 'AnalogVibesApp-1.0'
+    this.minScore = options.minScore ?? 90
+
+    // Browsers don't let scripts set User-Agent, so the app identifies itself with the
+    // `client` query parameter instead
+    this.client = axios.create({
+      baseURL,
+      headers: { Accept: 'application/json' },
+      timeout: 30000,
+    })
+
+    // MusicBrainz allows one request per second per client
+    this.queue = new PQueue({ intervalCap: 1, interval: 1000, concurrency: 1 })
+  }
+
+  /**
+   * Make a rate-limited request to the MusicBrainz API with retry logic
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    params: MusicBrainzRequestParams = {}
+  ): Promise<T> {
+    const result = await this.queue.add(() =>
+      pRetry(
+        async () => {
+          const response = await this.client.get<T>(endpoint, {
+            params: { ...params, fmt: 'json', client: this.clientId },
+          })
+          return response.data
+        },
+        {
+          retries: 3,
+          onFailedAttempt: error => {
+            console.warn(
+              `MusicBrainz request to ${endpoint} failed (attempt ${error.attemptNumber}):`,
+              error.message
+            )
+          },
+        }
+      )
+    )
+
+    return result as T
+  }
+
+  /**
+   * Get a release with tracks, labels and genres
+   */
+  async getRelease(releaseId: string): Promise<NormalizedRelease> {
+    const release = await this.makeRequest<MusicBrainzRelease>(`/release/${releaseId}`, {
+      inc: 'artist-credits labels recordings genres release-groups annotation',
+    })
+    return this.normalizeRelease(release)
+  }
+
+  /**
+   * Get a release group (the MusicBrainz equivalent of a Discogs master)
+   */
+  async getMaster(masterId: string): Promise<NormalizedMaster> {
+    const group = await this.makeRequest<MusicBrainzReleaseGroup>(`/release-group/${masterId}`, {
+      inc: 'artist-credits genres annotation',
+    })
+
+    return {
+      provider: 'musicbrainz',
+      id: group.id,
+      title: group.title,
+      artists: this.normalizeArtists(group['artist-credit']),
+      year: parseYear(group['first-release-date']),
+      genres: normalizeGenres(group.genres),
+      styles: [],
+      notes: group.annotation || undefined,
+      credits: [],
+    }
+  }
+
+  /**
+   * Search releases with a Lucene query built from the given fields
+   */
+  async searchReleases(query: ReleaseSearchQuery): Promise<NormalizedRelease[]> {
+    const terms: string[] = []
+    if (query.artist) terms.push(`artist:${quote(query.artist)}`)
+    if (query.title) terms.push(`release:${quote(query.title)}`)
+    if (query.barcode) terms.push(`barcode:${quote(query.barcode)}`)
+    if (query.catalogNumber) terms.push(`catno:${quote(query.catalogNumber)}`)
+
+    if (terms.length === 0) {
+      throw new Error(
+        'MusicBrainz search needs at least one of artist, title, barcode or catalogNumber'
+      )
+    }
+
+    const response = await this.makeRequest<{ releases: MusicBrainzRelease[] }>('/release', {
+      query: terms.join(' AND '),
+      limit: query.limit || 10,
+    })
+
+    return (response.releases || [])
+      .filter(release => (release.score ?? 100) >= this.minScore)
+      .map(release => this.normalizeRelease(release))
+  }
+
+  private normalizeRelease(release: MusicBrainzRelease): NormalizedRelease {
+    const media = release.media || []
+
+    // Collapse media into formats, e.g. two "12\" Vinyl" discs become one format with quantity 2
+    const formats: NormalizedFormat[] = []
+    media.forEach(medium => {
+      const name = medium.format || 'Unknown'
+      const existing = formats.find(f => f.name === name)
+      if (existing) {
+        existing.quantity = (existing.quantity || 1) + 1
+      } else {
+        formats.push({ name, quantity: 1, descriptions: [] })
+      }
+    })
+
+    return {
+      provider: 'musicbrainz',
+      id: release.id,
+      masterId: release['release-group']?.id,
+      title: release.title,
+      artists: this.normalizeArtists(release['artist-credit']),
+      year: parseYear(release.date),
+      labels: (release['label-info'] || []).flatMap(info =>
+        info.label?.name
+          ? [
+              {
+                name: info.label.name,
+                catalogNumber: info['catalog-number'] || undefined,
+                role: 'Label',
+              },
+            ]
+          : []
+      ),
+      formats,
+      genres: normalizeGenres(release.genres),
+      styles: [],
+      country: release.country,
+      barcode: release.barcode || undefined,
+      identifiers: release.barcode ? [{ type: 'Barcode', value: release.barcode }] : [],
+      coverUrl: release['cover-art-archive']?.front
+        ? `${this.coverArtBaseURL}/release/${release.id}/front-500`
+        : undefined,
+      tracks: media.flatMap(medium =>
+        (medium.tracks || []).map(track => ({
+          position: track.number,
+          title: track.title,
+          duration: track.length ? formatMilliseconds(track.length) : undefined,
+        }))
+      ),
+      notes: release.annotation || undefined,
+      credits: [],
+      url: `https://musicbrainz.org/release/${release.id}`,
+    }
+  }
+
+  private normalizeArtists(credits: MusicBrainzArtistCredit[] = []): NormalizedArtist[] {
+    return credits.map(credit => ({
+      name: credit.artist.name,
+      id: credit.artist.id,
+      creditedName: credit.name !== credit.artist.name ? credit.name : undefined,
+      join: credit.joinphrase || undefined,
+    }))
+  }
+}
+
+/**
+ * Quote a value for a Lucene phrase query
+ */
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`
+}
+
+/**
+ * Extract the year from a MusicBrainz partial date (YYYY, YYYY-MM or YYYY-MM-DD)
+ */
+function parseYear(date?: string): number | undefined {
+  const year = date ? parseInt(date.slice(0, 4), 10) : NaN
+  return year > 0 ? year : undefined
+}
+
+/**
+ * MusicBrainz genres are lowercase folksonomy tags; keep the most voted and title-case them
+ */
+function normalizeGenres(genres: MusicBrainzGenre[] = []): string[] {
+  return [...genres]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3)
+    .map(genre => genre.name.replace(/\b\w/g, char => char.toUpperCase()))
+}
+
+function formatMilliseconds(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+// Create and export singleton instance
+export const musicBrainzProvider = new MusicBrainzProvider()
+export default MusicBrainzProvider
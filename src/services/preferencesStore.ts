@@ -0,0 +1,30 @@
+import localforage from 'localforage'
+
+/**
+ * Device-local stand-in for Profile.preferences, for the public collection where nobody signs in.
+ * Same shape as the profile's preferences, so settings can move to a profile unchanged.
+ */
+class PreferencesStore {
+  private store: LocalForage
+
+  constructor() {
+    this.store = localforage.createInstance({
+      name: 'AnalogVibesApp',
+      storeName: 'preferences',
+      version: 1.0,
+      description: 'Preferences of visitors without a profile',
+    })
+  }
+
+  async get(): Promise<Record<string, unknown>> {
+    return (await this.store.getItem<Record<string, unknown>>('preferences')) || {}
+  }
+
+  async set(preferences: Record<string, unknown>): Promise<void> {
+    await this.store.setItem('preferences', preferences)
+  }
+}
+
+// Create and export singleton instance
+export const preferencesStore = new PreferencesStore()
+export default PreferencesStore
@@ -1,6 +1,15 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { VinylRecord } from '../data/vinylRecords'
-import { DiscogsRelease } from './discogsService'
+import {
+  VinylRecord,
+  RecordOwnership,
+  RecordCondition,
+  RecordFormat,
+  RecordIdentifier,
+  RecordArtist,
+  RecordLabel,
+  RecordCredit,
+} from '../data/vinylRecords'
+import { DiscogsRelease, CollectionContext } from './discogsService'
 import { transformDiscogsToVinylRecord } from './dataTransform'
 
 export interface PublicVinylRecord {
@@ -10,6 +19,7 @@ export interface PublicVinylRecord {
   year: string
   label: string
   genres: string[] // Changed from genre to genres array
+  styles?: string[]
   catalog_number: string
   cover_url: string
   description?: string
@@ -17,9 +27,21 @@ export interface PublicVinylRecord {
   recording_date?: string
   release_date?: string
   tracks: any[]
+  formats?: RecordFormat[]
+  country?: string
+  identifiers?: RecordIdentifier[]
+  artists?: RecordArtist[]
+  labels?: RecordLabel[]
+  personnel?: RecordCredit[]
   master_id?: string
   discogs_release_id?: string
   discogs_master_id?: string
+  folder?: string
+  media_condition?: RecordCondition
+  sleeve_condition?: RecordCondition
+  collection_notes?: string
+  custom_fields?: Record<string, string>
+  rating?: number | null // 1-5, from the Discogs collection item
   created_at: string
   updated_at: string
 }
@@ -38,6 +60,14 @@ export interface SyncMetadata {
   created_at: string
 }
 
+export interface RecordSyncResult {
+  success: boolean
+  recordsAdded: number
+  recordsUpdated: number
+  recordsRemoved: number // Rows for releases no longer on Discogs
+  errors: string[]
+}
+
 export interface CollectionStats {
   total_records: number
   unique_artists: number
@@ -50,6 +80,12 @@ export interface CollectionStats {
   decade_distribution: Array<{ decade: string; count: number }>
 }
 
+// Owned and wanted records share a shape but live in separate tables
+const TABLES: Record<RecordOwnership, string> = {
+  owned: 'vinyl_collection',
+  wanted: 'vinyl_wantlist'
+}
+
 class PublicCollectionService {
   private client: SupabaseClient
 
@@ -73,18 +109,25 @@ class PublicCollectionService {
   // ============================================================================
 
   /**
-   * Get the entire vinyl collection (public access)
+   * Get the entire vinyl collection, or the wantlist (public access)
    */
-  async getCollection(): Promise<VinylRecord[]> {
+  async getCollection(ownership: RecordOwnership = 'owned'): Promise<VinylRecord[]> {
     const { data, error } = await this.client
-      .from('vinyl_collection')
+      .from(TABLES[ownership])
       .select('*')
       .order('artist', { ascending: true })
 
     if (error) throw error
 
     // Transform database records to VinylRecord format
-    return this.transformDBRecordsToVinylRecords(data || [])
+    return this.transformDBRecordsToVinylRecords(data || [], ownership)
+  }
+
+  /**
+   * Get the wantlist (public access)
+   */
+  async getWantlist(): Promise<VinylRecord[]> {
+    return this.getCollection('wanted')
   }
 
   /**
@@ -133,7 +176,7 @@ class PublicCollectionService {
     const { data, error } = await this.client
       .from('vinyl_collection')
       .select('*')
-      .or(`title.ilike.%${query}%,artist.ilike.%${query}%,label.ilike.%${query}%,genres.cs.["${query}"]`)
+      .or(`title.ilike.%${query}%,artist.ilike.%${query}%,label.ilike.%${query}%,genres.cs.["${query}"],styles.cs.["${query}"]`)
       .order('artist', { ascending: true })
 
     if (error) throw error
@@ -161,24 +204,78 @@ class PublicCollectionService {
   // ============================================================================
 
   /**
-   * Sync collection from Discogs (admin only - requires service role key)
+   * Sync collection (or wantlist) from Discogs (admin only - requires service role key).
+   * The collection context fills in folder and custom field values.
+   */
+  async syncFromDiscogs(
+    discogsReleases: DiscogsRelease[],
+    ownership: RecordOwnership = 'owned',
+    collection?: CollectionContext
+  ): Promise<RecordSyncResult> {
+    const records: VinylRecord[] = []
+    const errors: string[] = []
+
+    discogsReleases.forEach(release => {
+      try {
+        // Transform Discogs release to our format
+        records.push(transformDiscogsToVinylRecord(release, undefined, 0, collection))
+      } catch (error) {
+        errors.push(`Failed to process release: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    })
+
+    // Releases that failed to transform are still on Discogs, so their rows are kept
+    return this.storeRecords(
+      records,
+      ownership,
+      discogsReleases.map(release => (release.basic_information?.id || release.id).toString()),
+      errors
+    )
+  }
+
+  /**
+   * Save records already built by the sync service (admin only - requires service role key).
+   * Rows are kept for `listedIds`, the releases still listed on Discogs, which may include
+   * some the sync couldn't turn into records; rows for anything else are removed.
+   */
+  async saveRecords(
+    records: VinylRecord[],
+    ownership: RecordOwnership = 'owned',
+    listedIds: string[] = records.map(record => record.id)
+  ): Promise<RecordSyncResult> {
+    return this.storeRecords(records, ownership, listedIds)
+  }
+
+  /**
+   * Add or update a single record, leaving the rest of the collection alone
    */
-  async syncFromDiscogs(discogsReleases: DiscogsRelease[]): Promise<{
-    success: boolean
-    recordsAdded: number
-    recordsUpdated: number
-    errors: string[]
-  }> {
+  async saveRecord(record: VinylRecord, ownership: RecordOwnership = 'owned'): Promise<void> {
+    const { error } = await this.client
+      .from(TABLES[ownership])
+      .upsert(this.transformVinylRecordToDB(record), { onConflict: 'id' })
+
+    if (error) throw error
+  }
+
+  /**
+   * Upsert records, remove rows whose ids aren't in `keepIds` and log the sync
+   */
+  private async storeRecords(
+    records: VinylRecord[],
+    ownership: RecordOwnership,
+    keepIds: string[],
+    errors: string[] = []
+  ): Promise<RecordSyncResult> {
     let recordsAdded = 0
     let recordsUpdated = 0
-    const errors: string[] = []
+    let recordsRemoved = 0
 
     // Start sync log
     const syncStarted = Date.now()
     const { data: syncLog } = await this.client
       .from('sync_metadata')
       .insert({
-        sync_type: 'discogs',
+        sync_type: ownership === 'wanted' ? 'discogs_wantlist' : 'discogs',
         status: 'in_progress',
         records_processed: 0
       })
@@ -186,29 +283,25 @@ class PublicCollectionService {
       .single()
 
     try {
-      for (const release of discogsReleases) {
-        try {
-          // Transform Discogs release to our format
-          const vinylRecord = transformDiscogsToVinylRecord(release, undefined, 0)
-          
-          // Convert to database format
-          const dbRecord = this.transformVinylRecordToDB(vinylRecord)
-
-          // Upsert record
-          const { error: upsertError } = await this.client
-            .from('vinyl_collection')
-            .upsert(dbRecord, { onConflict: 'id' })
-
-          if (upsertError) {
-            errors.push(`Failed to upsert ${vinylRecord.title}: ${upsertError.message}`)
-          } else {
-            recordsAdded++
-          }
-        } catch (error) {
-          errors.push(`Failed to process release: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      for (const vinylRecord of records) {
+        // Convert to database format
+        const dbRecord = this.transformVinylRecordToDB(vinylRecord)
+
+        // Upsert record
+        const { error: upsertError } = await this.client
+          .from(TABLES[ownership])
+          .upsert(dbRecord, { onConflict: 'id' })
+
+        if (upsertError) {
+          errors.push(`Failed to upsert ${vinylRecord.title}: ${upsertError.message}`)
+        } else {
+          recordsAdded++
         }
       }
 
+      // The list is the whole collection or wantlist, so anything else was removed on Discogs
+      recordsRemoved = await this.removeStaleRecords(ownership, keepIds)
+
       // Complete sync log
       const syncDuration = Date.now() - syncStarted
       await this.client
@@ -216,7 +309,7 @@ class PublicCollectionService {
         .update({
           status: 'completed',
           completed_at: new Date().toISOString(),
-          records_processed: discogsReleases.length,
+          records_processed: keepIds.length,
           records_added: recordsAdded,
           records_updated: recordsUpdated,
           errors,
@@ -228,6 +321,7 @@ class PublicCollectionService {
         success: errors.length === 0,
         recordsAdded,
         recordsUpdated,
+        recordsRemoved,
         errors
       }
     } catch (error) {
@@ -246,17 +340,37 @@ class PublicCollectionService {
   }
 
   /**
-   * Clear entire collection (admin only)
+   * Clear entire collection or wantlist (admin only)
    */
-  async clearCollection(): Promise<void> {
+  async clearCollection(ownership: RecordOwnership = 'owned'): Promise<void> {
     const { error } = await this.client
-      .from('vinyl_collection')
+      .from(TABLES[ownership])
       .delete()
       .neq('id', '') // Delete all records
 
     if (error) throw error
   }
 
+  /**
+   * Delete the rows whose ids aren't in the list; returns how many were removed
+   */
+  private async removeStaleRecords(ownership: RecordOwnership, keepIds: string[]): Promise<number> {
+    const { data, error } = await this.client.from(TABLES[ownership]).select('id')
+    if (error) throw error
+
+    const keep = new Set(keepIds)
+    const staleIds = (data || []).map((row: { id: string }) => row.id).filter(id => !keep.has(id))
+    if (staleIds.length === 0) return 0
+
+    const { error: deleteError } = await this.client
+      .from(TABLES[ownership])
+      .delete()
+      .in('id', staleIds)
+
+    if (deleteError) throw deleteError
+    return staleIds.length
+  }
+
   // ============================================================================
   // UTILITY METHODS
   // ============================================================================
@@ -264,7 +378,10 @@ class PublicCollectionService {
   /**
    * Transform database records to VinylRecord format
    */
-  private transformDBRecordsToVinylRecords(dbRecords: PublicVinylRecord[]): VinylRecord[] {
+  private transformDBRecordsToVinylRecords(
+    dbRecords: PublicVinylRecord[],
+    ownership: RecordOwnership = 'owned'
+  ): VinylRecord[] {
     return dbRecords.map(record => ({
       id: record.id,
       title: record.title,
@@ -272,6 +389,7 @@ class PublicCollectionService {
       year: record.year || '',
       label: record.label || '',
       genres: record.genres || ['Unknown'], // Now using genres array
+      styles: record.styles?.length ? record.styles : undefined,
       catalogNumber: record.catalog_number || '',
       coverUrl: record.cover_url || '',
       tracks: record.tracks || [],
@@ -279,7 +397,23 @@ class PublicCollectionService {
       producer: record.producer,
       recordingDate: record.recording_date,
       releaseDate: record.release_date,
-      dateAdded: record.created_at // Map database created_at to dateAdded
+      dateAdded: record.created_at, // Map database created_at to dateAdded
+      formats: record.formats?.length ? record.formats : undefined,
+      country: record.country || undefined,
+      identifiers: record.identifiers?.length ? record.identifiers : undefined,
+      artists: record.artists?.length ? record.artists : undefined,
+      labels: record.labels?.length ? record.labels : undefined,
+      personnel: record.personnel?.length ? record.personnel : undefined,
+      // Older rows hold "unknown" for releases without a master
+      masterId:
+        record.discogs_master_id !== 'unknown' ? record.discogs_master_id || undefined : undefined,
+      ownership,
+      folder: record.folder || undefined,
+      mediaCondition: record.media_condition || undefined,
+      sleeveCondition: record.sleeve_condition || undefined,
+      collectionNotes: record.collection_notes || undefined,
+      customFields: record.custom_fields || undefined,
+      rating: record.rating || undefined
     }))
   }
 
@@ -294,6 +428,7 @@ class PublicCollectionService {
       year: vinylRecord.year,
       label: vinylRecord.label,
       genres: vinylRecord.genres, // Now using genres array
+      styles: vinylRecord.styles,
       catalog_number: vinylRecord.catalogNumber,
       cover_url: vinylRecord.coverUrl,
       tracks: vinylRecord.tracks || [],
@@ -301,9 +436,21 @@ class PublicCollectionService {
       producer: vinylRecord.producer,
       recording_date: vinylRecord.recordingDate,
       release_date: vinylRecord.releaseDate,
-      master_id: vinylRecord._masterRelease?.id?.toString(),
+      formats: vinylRecord.formats,
+      country: vinylRecord.country,
+      identifiers: vinylRecord.identifiers,
+      artists: vinylRecord.artists,
+      labels: vinylRecord.labels,
+      personnel: vinylRecord.personnel,
+      master_id: vinylRecord.masterId,
       discogs_release_id: vinylRecord.id,
-      discogs_master_id: vinylRecord._masterRelease?.id?.toString()
+      discogs_master_id: vinylRecord.masterId,
+      folder: vinylRecord.folder,
+      media_condition: vinylRecord.mediaCondition,
+      sleeve_condition: vinylRecord.sleeveCondition,
+      collection_notes: vinylRecord.collectionNotes,
+      custom_fields: vinylRecord.customFields,
+      rating: vinylRecord.rating ?? null // Written out so a rating cleared on Discogs clears here
     }
   }
 
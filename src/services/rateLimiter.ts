@@ -0,0 +1,139 @@
+import PQueue from 'p-queue'
+import { parseRateLimitHeaders, parseRetryAfter, planThrottle } from '../utils/rateLimit'
+
+export interface RateLimitStats {
+  limit: number | null // Requests allowed per window (null until the first response)
+  used: number | null
+  remaining: number | null
+  concurrency: number // Current in-flight limit
+  maxConcurrency: number
+  pausedUntil: number | null // Timestamp the queue resumes at, when paused
+  throttledCount: number // 429 responses received
+  updatedAt: number | null
+}
+
+export type RateLimitListener = (stats: RateLimitStats) => void
+
+/**
+ * Adjusts a PQueue's concurrency from rate-limit response headers and pauses it
+ * when the budget runs out or the server answers 429 with Retry-After.
+ */
+export class AdaptiveRateLimiter {
+  private stats: RateLimitStats
+  private listeners: Set<RateLimitListener> = new Set()
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private queue: PQueue,
+    maxConcurrency: number,
+    private windowMs: number = 60 * 1000
+  ) {
+    this.stats = {
+      limit: null,
+      used: null,
+      remaining: null,
+      concurrency: maxConcurrency,
+      maxConcurrency,
+      pausedUntil: null,
+      throttledCount: 0,
+      updatedAt: null,
+    }
+    this.queue.concurrency = maxConcurrency
+  }
+
+  /**
+   * Update the budget from a successful response's headers
+   */
+  recordResponse(headers: Record<string, unknown> | undefined): void {
+    const budget = parseRateLimitHeaders(headers)
+    if (!budget) return
+
+    const plan = planThrottle(budget, this.stats.maxConcurrency, this.windowMs)
+    this.queue.concurrency = plan.concurrency
+    this.stats = {
+      ...this.stats,
+      ...budget,
+      concurrency: plan.concurrency,
+      updatedAt: Date.now(),
+    }
+
+    if (plan.pauseMs > 0) {
+      console.warn(`Rate limit budget low (${budget.remaining} left), pausing for ${plan.pauseMs}ms`)
+      this.pauseFor(plan.pauseMs)
+    } else {
+      this.emit()
+    }
+  }
+
+  /**
+   * Back off after a 429, honoring Retry-After when the server sends it
+   */
+  recordRateLimited(retryAfter: unknown): void {
+    const waitMs = parseRetryAfter(retryAfter) ?? this.windowMs
+    console.warn(`Rate limited by server, pausing for ${waitMs}ms`)
+
+    this.queue.concurrency = 1
+    this.stats = {
+      ...this.stats,
+      remaining: 0,
+      concurrency: 1,
+      throttledCount: this.stats.throttledCount + 1,
+      updatedAt: Date.now(),
+    }
+    this.pauseFor(waitMs)
+  }
+
+  /**
+   * Resolve once the limiter is no longer paused (used before retrying a request)
+   */
+  async waitUntilReady(): Promise<void> {
+    const { pausedUntil } = this.stats
+    if (pausedUntil && pausedUntil > Date.now()) {
+      await new Promise(resolve => setTimeout(resolve, pausedUntil - Date.now()))
+    }
+  }
+
+  getStats(): RateLimitStats {
+    return { ...this.stats }
+  }
+
+  /**
+   * Subscribe to stats changes; returns an unsubscribe function
+   */
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private pauseFor(ms: number): void {
+    const until = Date.now() + ms
+
+    // An existing, longer pause already covers this one
+    if (this.stats.pausedUntil && this.stats.pausedUntil >= until) {
+      this.emit()
+      return
+    }
+
+    this.queue.pause()
+    this.stats = { ...this.stats, pausedUntil: until }
+
+    if (this.resumeTimer) clearTimeout(this.resumeTimer)
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = null
+      this.stats = { ...this.stats, pausedUntil: null }
+      this.queue.start()
+      this.emit()
+    }, ms)
+
+    this.emit()
+  }
+
+  private emit(): void {
+    const stats = this.getStats()
+    this.listeners.forEach(listener => listener(stats))
+  }
+}
+
+export default AdaptiveRateLimiter
@@ -1,13 +1,12 @@
 import { createClient, SupabaseClient, User, Session, AuthError } from '@supabase/supabase-js'
-import { VinylRecord } from '../data/vinylRecords'
+import { VinylRecord, RecordIdentifier, RecordArtist } from '../data/vinylRecords'
 
 // Database Types
 export interface Profile {
   id: string
   username?: string
   full_name?: string
-  discogs_username?: string
-  discogs_token?: string
+  discogs_username?: string | null // Set once Discogs is connected; the tokens stay server-side
   preferences: Record<string, any>
   created_at: string
   updated_at: string
@@ -44,6 +43,8 @@ export interface VinylReleaseDB {
   tracks?: any[]
   formats?: any[]
   country?: string
+  identifiers?: RecordIdentifier[]
+  artists?: RecordArtist[]
   notes?: string
   genres?: string[]
   styles?: string[]
@@ -72,6 +73,8 @@ export interface UserCollection {
   purchase_currency?: string
   purchase_location?: string
   discogs_instance_id?: string
+  folder?: string
+  custom_fields?: Record<string, string>
   created_at: string
   updated_at: string
 }
@@ -93,6 +96,26 @@ export interface CollectionSyncLog {
   created_at: string
 }
 
+export interface CollectionValuationItem {
+  release_id: string
+  title: string
+  artist: string
+  value: number
+}
+
+export interface CollectionValuation {
+  id: string
+  user_id: string
+  taken_at: string
+  currency: string | null
+  total_value: number
+  median_value: number
+  records_valued: number
+  records_unpriced: number
+  items: CollectionValuationItem[]
+  created_at: string
+}
+
 export interface CollectionWithDetails extends UserCollection {
   vinyl_release?: VinylReleaseDB
   master_release?: MasterRelease
@@ -112,10 +135,11 @@ class SupabaseService {
 
   constructor() {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+    // The publishable key replaces the anon key; either works for signing in
+    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY
 
     if (!supabaseUrl || !supabaseKey) {
-      throw new Error('Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file')
+      throw new Error('Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_PUBLISHABLE_KEY (or VITE_SUPABASE_ANON_KEY) in your .env file')
     }
 
     this.client = createClient(supabaseUrl, supabaseKey, {
@@ -312,6 +336,7 @@ class SupabaseService {
         user_id: user.id,
         vinyl_release_id: vinylRecord.id,
         master_release_id: vinylRecord._masterRelease?.id,
+        ...this.getCollectionDetails(vinylRecord),
         ...collectionData
       })
       .select()
@@ -320,7 +345,10 @@ class SupabaseService {
     if (error) {
       if (error.code === '23505') { // Unique violation
         // Record already exists, update it instead
-        return this.updateCollectionRecord(vinylRecord.id, collectionData || {})
+        return this.updateCollectionRecord(vinylRecord.id, {
+          ...this.getCollectionDetails(vinylRecord),
+          ...collectionData
+        })
       }
       throw error
     }
@@ -468,6 +496,52 @@ class SupabaseService {
     return data || []
   }
 
+  // ============================================================================
+  // VALUATION METHODS
+  // ============================================================================
+
+  /**
+   * Store a collection valuation snapshot
+   */
+  async saveValuation(
+    valuation: Omit<CollectionValuation, 'id' | 'user_id' | 'taken_at' | 'created_at'>
+  ): Promise<CollectionValuation> {
+    const user = await this.getCurrentUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await this.client
+      .from('collection_valuations')
+      .insert({ ...valuation, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Get valuation snapshots, newest first
+   */
+  async getValuationHistory(userId?: string, limit: number = 52): Promise<CollectionValuation[]> {
+    const user = userId || (await this.getCurrentUser())?.id
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await this.client
+      .from('collection_valuations')
+      .select('*')
+      .eq('user_id', user)
+      .order('taken_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    // DECIMAL columns come back as strings
+    return (data || []).map(row => ({
+      ...row,
+      total_value: Number(row.total_value),
+      median_value: Number(row.median_value),
+    }))
+  }
+
   // ============================================================================
   // REAL-TIME SUBSCRIPTIONS
   // ============================================================================
@@ -531,7 +605,7 @@ class SupabaseService {
           styles: vinylRecord._masterRelease.styles,
           description: vinylRecord._masterRelease.notes,
           producer: vinylRecord._masterRelease.producer,
-          extra_artists: vinylRecord._masterRelease.extraartists || []
+          extra_artists: vinylRecord._masterRelease.credits || []
         })
     }
 
@@ -547,11 +621,33 @@ class SupabaseService {
         catalog_number: vinylRecord.catalogNumber,
         cover_url: vinylRecord.coverUrl,
         tracks: vinylRecord.tracks,
+        formats: vinylRecord.formats || [],
+        country: vinylRecord.country,
+        identifiers: vinylRecord.identifiers || [],
+        artists: vinylRecord.artists || [],
+        labels: vinylRecord.labels || [],
+        extra_artists: vinylRecord.personnel || [],
         genres: vinylRecord.genres, // Already an array
+        styles: vinylRecord.styles || [],
         // Add other fields as needed
       })
   }
 
+  /**
+   * Folder, conditions and custom fields synced from Discogs, as user_collections columns
+   */
+  private getCollectionDetails(vinylRecord: VinylRecord): Partial<UserCollection> {
+    return {
+      folder: vinylRecord.folder,
+      media_condition: vinylRecord.mediaCondition,
+      sleeve_condition: vinylRecord.sleeveCondition,
+      personal_notes: vinylRecord.collectionNotes,
+      custom_fields: vinylRecord.customFields,
+      rating: vinylRecord.rating,
+      discogs_instance_id: vinylRecord.discogsInstanceId?.toString()
+    }
+  }
+
   /**
    * Transform database records to VinylRecord format
    */
@@ -563,6 +659,7 @@ class SupabaseService {
       year: record.original_year?.toString() || record.release_date?.substring(0, 4) || '',
       label: record.labels?.[0]?.name || '',
       genres: record.genres || ['Unknown'],
+      styles: record.styles?.length ? record.styles : undefined,
       catalogNumber: record.catalog_number || '',
       coverUrl: record.cover_url || '',
       tracks: record.tracks || [],
@@ -570,6 +667,23 @@ class SupabaseService {
       producer: record.producer,
       recordingDate: record.recording_date,
       releaseDate: record.release_date,
+      formats: record.formats?.length ? record.formats : undefined,
+      country: record.country || undefined,
+      identifiers: record.identifiers?.length ? record.identifiers : undefined,
+      artists: record.artists?.length ? record.artists : undefined,
+      labels: record.labels?.length ? record.labels : undefined,
+      personnel: record.personnel?.length ? record.personnel : undefined,
+      folder: record.folder || undefined,
+      mediaCondition: record.media_condition || undefined,
+      sleeveCondition: record.sleeve_condition || undefined,
+      collectionNotes: record.personal_notes || undefined,
+      customFields: record.custom_fields || undefined,
+      rating: record.rating || undefined,
+      playCount: record.play_count || undefined,
+      lastPlayed: record.last_played || undefined,
+      discogsInstanceId: record.discogs_instance_id ? Number(record.discogs_instance_id) : undefined,
+      purchasePrice: record.purchase_price !== null && record.purchase_price !== undefined ? Number(record.purchase_price) : undefined,
+      purchaseCurrency: record.purchase_currency || undefined,
       
       // Collection-specific data
       _collectionData: {
@@ -1,7 +1,31 @@
-import { discogsService, DiscogsRelease } from './discogsService';
-import { cacheService, SyncProgress } from './cacheService';
-import { transformDiscogsToVinylRecord, filterValidRecords } from './dataTransform';
+import DiscogsService, { getDiscogsService, hasDiscogsCredentials, DiscogsRelease, CollectionContext } from './discogsService';
+import { cacheService, SyncProgress, SyncCheckpoint, EnrichedRelease } from './cacheService';
+import { RateLimitStats } from './rateLimiter';
+import { masterCacheService } from './masterCacheService';
+import { metadataService } from './metadataService';
+import { NormalizedRelease, NormalizedMaster } from './metadataProvider';
+import {
+  transformDiscogsToVinylRecord,
+  transformCollectionItem,
+  transformReleaseToVinylRecord,
+  normalizeDiscogsRelease,
+  filterValidRecords,
+  refreshCollectionDetails
+} from './dataTransform';
 import { VinylRecord } from '../data/vinylRecords';
+import { buildSearchParams, RecordSearchMode } from '../utils/recordSearch';
+
+export type SyncType = 'full' | 'incremental';
+
+const releaseKey = (release: DiscogsRelease) => (release.basic_information?.id || release.id).toString();
+
+// Releases enriched concurrently, and saved to the checkpoint together
+const ENRICHMENT_BATCH_SIZE = 10;
+
+export interface MasterCacheStats {
+  hits: number; // Masters served from the persistent master cache without a request
+  apiCalls: number; // Master requests sent to Discogs (including revalidations)
+}
 
 export interface SyncResult {
   success: boolean;
@@ -9,12 +33,21 @@ export interface SyncResult {
   errors: string[];
   duration: number;
   fromCache: boolean;
+  syncType?: SyncType; // Set when records were fetched from Discogs
+  recordsAdded?: number; // New releases found (incremental syncs)
+  recordsUpdated?: number; // Cached releases whose folder, rating or custom fields changed (incremental syncs)
+  recordsRemoved?: number; // Releases no longer in the Discogs collection (incremental syncs)
+  listedIds?: string[]; // Every release listed in the Discogs collection, including any dropped as invalid
+  masterCacheHits?: number; // Masters served from the persistent master cache
+  masterApiCalls?: number; // Masters requested from Discogs (including revalidations)
+  recordsSupplemented?: number; // Records with placeholder fields filled by other metadata providers
 }
 
 export interface SyncOptions {
   forceRefresh?: boolean;
   onProgress?: (progress: SyncProgress) => void;
   skipMasterData?: boolean; // Skip master data enrichment for ultra-fast sync
+  incremental?: boolean; // Only enrich releases not in the cached collection; refresh the rest's collection details
 }
 
 class SyncService {
@@ -25,7 +58,7 @@ class SyncService {
    * Get vinyl records - from cache if valid, otherwise sync from Discogs
    */
   async getVinylRecords(options: SyncOptions = {}): Promise<{ records: VinylRecord[]; result: SyncResult }> {
-    const { forceRefresh = false, onProgress, skipMasterData = false } = options;
+    const { forceRefresh = false, onProgress, skipMasterData = false, incremental } = options;
 
     // Check if we should use cache
     if (!forceRefresh) {
@@ -57,14 +90,123 @@ class SyncService {
       }
     }
 
-    // Sync from Discogs
-    return this.syncFromDiscogs(onProgress, skipMasterData);
+    // Sync from Discogs - an expired cache is topped up incrementally unless a full refresh is requested
+    return this.syncFromDiscogs(onProgress, skipMasterData, incremental ?? !forceRefresh);
   }
 
   /**
    * Force sync from Discogs API
+   *
+   * With `incremental` set and a cached collection available, the collection listing is
+   * diffed against the cache: only new releases are enriched, cached ones get their folder,
+   * rating and custom fields refreshed, and releases no longer listed are dropped.
+   * Progress is checkpointed as it goes, so a failed sync can be continued with `resumeSync()`.
+   */
+  async syncFromDiscogs(
+    onProgress?: (progress: SyncProgress) => void,
+    skipMasterData: boolean = false,
+    incremental: boolean = false
+  ): Promise<{ records: VinylRecord[]; result: SyncResult }> {
+    if (this.isSync) {
+      throw new Error('Sync already in progress');
+    }
+
+    // Incremental syncs build on the cached collection; without one we fall back to a full sync
+    const cachedRecords = incremental ? await cacheService.getCachedCollection() : null;
+    const syncType: SyncType = cachedRecords && cachedRecords.length > 0 ? 'incremental' : 'full';
+
+    // Starting over discards whatever an earlier, unfinished sync left behind
+    await cacheService.clearSyncCheckpoint();
+
+    return this.runSync(onProgress, {
+      syncType,
+      skipMasterData,
+      startedAt: Date.now(),
+      updatedAt: Date.now(),
+      fetchComplete: false,
+      pages: {},
+      enriched: [],
+      masters: {}
+    }, false);
+  }
+
+  /**
+   * Continue an interrupted sync from its last checkpoint (starts a full sync if there is none)
+   */
+  async resumeSync(onProgress?: (progress: SyncProgress) => void): Promise<{ records: VinylRecord[]; result: SyncResult }> {
+    if (this.isSync) {
+      throw new Error('Sync already in progress');
+    }
+
+    const checkpoint = await cacheService.getSyncCheckpoint();
+    if (!checkpoint) {
+      console.log('No sync checkpoint found, starting a full sync');
+      return this.syncFromDiscogs(onProgress);
+    }
+
+    return this.runSync(onProgress, checkpoint, true);
+  }
+
+  /**
+   * Check whether an interrupted sync can be resumed
+   */
+  async hasResumableSync(): Promise<boolean> {
+    return (await cacheService.getSyncCheckpoint()) !== null;
+  }
+
+  /**
+   * Fetch folder names and custom field definitions.
+   * Records still sync without them, just without folder and condition details.
+   */
+  private async fetchCollectionContext(discogsService: DiscogsService): Promise<CollectionContext | undefined> {
+    try {
+      return await discogsService.getCollectionContext();
+    } catch (error) {
+      console.warn('Failed to fetch collection folders and fields:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the wantlist - from cache unless a refresh is requested or nothing is cached yet
+   */
+  async getWantlist(forceRefresh: boolean = false): Promise<VinylRecord[]> {
+    if (!forceRefresh) {
+      const cachedWantlist = await cacheService.getCachedWantlist();
+      if (cachedWantlist) {
+        console.log(`Using cached wantlist: ${cachedWantlist.length} records`);
+        return cachedWantlist;
+      }
+    }
+
+    return this.syncWantlist();
+  }
+
+  /**
+   * Fetch the wantlist from Discogs and cache it.
+   * Wanted releases skip master enrichment - the basic information is enough to browse them.
    */
-  async syncFromDiscogs(onProgress?: (progress: SyncProgress) => void, skipMasterData: boolean = false): Promise<{ records: VinylRecord[]; result: SyncResult }> {
+  async syncWantlist(): Promise<VinylRecord[]> {
+    const wants = await getDiscogsService().getAllUserWantlist();
+    const records = filterValidRecords(
+      wants.map((release, index) => ({
+        ...transformDiscogsToVinylRecord(release, undefined, index),
+        ownership: 'wanted' as const
+      }))
+    );
+
+    await cacheService.cacheWantlist(records);
+    return records;
+  }
+
+  /**
+   * Run a sync from the given checkpoint, skipping any pages and releases it already covers
+   */
+  private async runSync(
+    onProgress: ((progress: SyncProgress) => void) | undefined,
+    checkpoint: SyncCheckpoint,
+    resumed: boolean
+  ): Promise<{ records: VinylRecord[]; result: SyncResult }> {
     if (this.isSync) {
       throw new Error('Sync already in progress');
     }
@@ -73,17 +215,42 @@ class SyncService {
     this.cancelSync = false;
     const startTime = Date.now();
     const errors: string[] = [];
+    const { syncType, skipMasterData } = checkpoint;
+    const masterStats: MasterCacheStats = { hits: 0, apiCalls: 0 };
+    let lastProgress: SyncProgress | null = null;
+    let rateLimit: RateLimitStats | undefined;
+    let unsubscribeRateLimit = () => {};
+    const report = (progress: SyncProgress) => {
+      lastProgress = { ...progress, resumed, rateLimit };
+      onProgress?.(lastProgress);
+    };
 
     try {
       // Check for cancellation at start
       if (this.cancelSync) {
         throw new Error('Sync cancelled by user');
       }
+
+      // Throws when no Discogs account is connected
+      const discogsService = getDiscogsService();
+      rateLimit = discogsService.getRateLimitStats();
+
+      // Re-emit the latest progress whenever the API budget changes so the UI shows it live
+      unsubscribeRateLimit = discogsService.onRateLimitChange(stats => {
+        rateLimit = stats;
+        if (lastProgress) {
+          lastProgress = { ...lastProgress, rateLimit };
+          onProgress?.(lastProgress);
+        }
+      });
+
       // Test connection
-      onProgress?.({
+      report({
         phase: 'connecting',
         progress: 0,
-        message: 'Connecting to Discogs API...'
+        message: resumed
+          ? `Resuming sync: ${Object.keys(checkpoint.pages).length}${checkpoint.totalPages ? `/${checkpoint.totalPages}` : ''} pages fetched, ${checkpoint.enriched.length} releases enriched`
+          : 'Connecting to Discogs API...'
       });
 
       const connectionTest = await discogsService.testConnection();
@@ -91,86 +258,113 @@ class SyncService {
         throw new Error(connectionTest.message);
       }
 
-      onProgress?.({
+      report({
         phase: 'connecting',
         progress: 10,
         message: `Connected as ${connectionTest.userInfo?.username || 'Unknown User'}`
       });
 
-      // Fetch collection
-      onProgress?.({
-        phase: 'fetching',
-        progress: 20,
-        message: 'Fetching collection from Discogs...'
+      // Push local edits first so the fresh copy from Discogs already includes them
+      await discogsService.pushPendingChanges().catch(error => {
+        console.warn('Failed to push pending changes to Discogs:', error);
       });
 
-      const discogsReleases = await discogsService.getAllUserCollection(false); // Disable track details for speed
+      const cachedRecords = syncType === 'incremental' ? await cacheService.getCachedCollection() : null;
+      const collectionContext = await this.fetchCollectionContext(discogsService);
+
+      // Fetch collection
+      if (!checkpoint.fetchComplete) {
+        report({
+          phase: 'fetching',
+          progress: 20,
+          message: syncType === 'incremental'
+            ? 'Checking your Discogs collection for changes...'
+            : 'Fetching collection from Discogs...'
+        });
+
+        // Incremental syncs list every page too. Stopping at the first cached release would miss
+        // removals, which only show as releases absent from the full listing, and the folder,
+        // rating and custom field changes the listing carries. Only new releases get enriched.
+        await this.fetchCollectionPages(checkpoint, report);
+
+        checkpoint.fetchComplete = true;
+        await cacheService.saveSyncCheckpoint(checkpoint);
+      }
+
+      const listedReleases = Object.keys(checkpoint.pages)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .flatMap(page => checkpoint.pages[page]);
 
       // Check for cancellation after collection fetch
       if (this.cancelSync) {
         throw new Error('Sync cancelled by user');
       }
 
-      if (discogsReleases.length === 0) {
+      if (syncType === 'full' && listedReleases.length === 0) {
         throw new Error('No releases found in your Discogs collection');
       }
 
-      onProgress?.({
+      // A release owned twice is listed once per instance; the newest instance wins
+      const listedById = new Map<string, DiscogsRelease>();
+      listedReleases.forEach(release => {
+        if (!listedById.has(releaseKey(release))) {
+          listedById.set(releaseKey(release), release);
+        }
+      });
+
+      const cachedIds = new Set((cachedRecords || []).map(record => record.id));
+      const uniqueReleases = Array.from(listedById.values());
+      const discogsReleases = syncType === 'incremental'
+        ? uniqueReleases.filter(release => !cachedIds.has(releaseKey(release)))
+        : uniqueReleases;
+
+      report({
         phase: 'fetching',
         progress: 40,
-        message: `Fetched ${discogsReleases.length} releases`
+        message: syncType === 'incremental'
+          ? `Found ${discogsReleases.length} new releases`
+          : `Fetched ${discogsReleases.length} releases`
       });
 
-      // Conditionally fetch master data for each release
-      let enrichedReleases: Array<{ release: DiscogsRelease; master?: any }>;
-      
-      if (skipMasterData) {
-        onProgress?.({
+      // Conditionally fetch the full release and master for each listed release
+      if (skipMasterData || discogsReleases.length === 0) {
+        report({
           phase: 'fetching',
           progress: 60,
           message: 'Skipping master data for faster sync...'
         });
-        
-        // Create enriched releases without master data
-        enrichedReleases = discogsReleases.map(release => ({ release, master: undefined }));
       } else {
-        onProgress?.({
-          phase: 'fetching',
-          progress: 50,
-          message: 'Fetching master release data...'
-        });
+        await this.enrichReleases(discogsReleases, checkpoint, masterStats, report);
 
-        enrichedReleases = await discogsService.enrichWithMasterData(discogsReleases);
-
-        onProgress?.({
+        report({
           phase: 'fetching',
           progress: 60,
-          message: `Enriched ${enrichedReleases.length} releases with master data`
+          message: `Enriched ${discogsReleases.length} releases with master data (${masterStats.hits} masters from cache, ${masterStats.apiCalls} from Discogs)`
         });
       }
 
       // Transform data
-      onProgress?.({
+      report({
         phase: 'transforming',
         progress: 70,
         message: 'Converting releases to app format...'
       });
 
-      // Transform each enriched release with both release and master data
+      // Transform each listed release with the full release and master, when they were fetched;
+      // releases without them are built from the listing's basic information
+      const enrichedById = new Map(checkpoint.enriched.map(enriched => [enriched.id, enriched.release]));
       const transformedRecords: VinylRecord[] = [];
-      enrichedReleases.forEach((enriched, index) => {
+      discogsReleases.forEach((item, index) => {
         try {
-          const vinylRecord = transformDiscogsToVinylRecord(
-            enriched.release,
-            enriched.master,
-            index
-          );
-          transformedRecords.push(vinylRecord);
+          const release = enrichedById.get(releaseKey(item)) || normalizeDiscogsRelease(item);
+          const master = release.masterId ? checkpoint.masters[release.masterId] : undefined;
+          transformedRecords.push(transformCollectionItem(item, release, master, index, collectionContext));
         } catch (error) {
-          console.warn(`Failed to transform release ${enriched.release.id}:`, error);
+          console.warn(`Failed to transform release ${item.id}:`, error);
         }
       });
-      const validRecords = filterValidRecords(transformedRecords);
+      let validRecords = filterValidRecords(transformedRecords);
 
       if (validRecords.length !== transformedRecords.length) {
         const invalidCount = transformedRecords.length - validRecords.length;
@@ -178,48 +372,101 @@ class SyncService {
         console.warn(`Filtered out ${invalidCount} invalid records`);
       }
 
-      onProgress?.({
+      // Fill fields Discogs left as placeholders from other metadata providers
+      let recordsSupplemented = 0;
+      if (metadataService.hasSupplementalProviders()) {
+        const supplemented = await metadataService.supplementRecords(validRecords, (done, total) => {
+          report({
+            phase: 'transforming',
+            progress: 70 + Math.round((done / total) * 5),
+            message: `Filling metadata gaps... ${done}/${total}`
+          });
+        });
+        validRecords = supplemented.records;
+        recordsSupplemented = supplemented.supplemented;
+      }
+
+      // Merge new releases into the cached collection, refresh the collection details of the
+      // ones already cached and drop anything no longer listed on Discogs
+      let finalRecords = validRecords;
+      let recordsRemoved = 0;
+      let recordsUpdated = 0;
+
+      if (syncType === 'incremental' && cachedRecords) {
+        const newIds = new Set(validRecords.map(record => record.id));
+        const retainedRecords: VinylRecord[] = [];
+
+        cachedRecords.forEach(record => {
+          const collectionItem = listedById.get(record.id);
+          if (!collectionItem || newIds.has(record.id)) {
+            return;
+          }
+
+          const refreshed = refreshCollectionDetails(record, collectionItem, collectionContext);
+          if (JSON.stringify(refreshed) !== JSON.stringify(record)) {
+            recordsUpdated++;
+          }
+          retainedRecords.push(refreshed);
+        });
+
+        recordsRemoved = cachedRecords.length - retainedRecords.length;
+        finalRecords = [...validRecords, ...retainedRecords];
+      }
+
+      report({
         phase: 'transforming',
         progress: 80,
-        message: `Processed ${validRecords.length} valid records`
+        message: syncType === 'incremental'
+          ? `Added ${validRecords.length}, updated ${recordsUpdated} and removed ${recordsRemoved} records`
+          : `Processed ${validRecords.length} valid records`
       });
 
       // Cache the results
-      onProgress?.({
+      report({
         phase: 'caching',
         progress: 90,
         message: 'Saving to local cache...'
       });
 
       const duration = Date.now() - startTime;
-      await cacheService.cacheCollection(validRecords, duration, errors);
+      await cacheService.cacheCollection(finalRecords, duration, errors);
+      await cacheService.clearSyncCheckpoint();
 
-      onProgress?.({
+      report({
         phase: 'complete',
         progress: 100,
-        message: `Sync complete! ${validRecords.length} records cached`,
-        recordsProcessed: validRecords.length,
-        totalRecords: validRecords.length
+        message: `Sync complete! ${finalRecords.length} records cached`,
+        recordsProcessed: finalRecords.length,
+        totalRecords: finalRecords.length
       });
 
       const result: SyncResult = {
         success: true,
-        recordsProcessed: validRecords.length,
+        recordsProcessed: finalRecords.length,
         errors,
         duration,
-        fromCache: false
+        fromCache: false,
+        syncType,
+        recordsAdded: validRecords.length,
+        recordsUpdated,
+        recordsRemoved,
+        listedIds: Array.from(listedById.keys()),
+        masterCacheHits: masterStats.hits,
+        masterApiCalls: masterStats.apiCalls,
+        recordsSupplemented
       };
 
-      return { records: validRecords, result };
+      return { records: finalRecords, result };
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown sync error';
       errors.push(errorMessage);
 
-      onProgress?.({
+      // The checkpoint is kept on failure so resumeSync() can continue from here
+      report({
         phase: 'error',
         progress: 0,
-        message: `Sync failed: ${errorMessage}`
+        message: `Sync failed: ${errorMessage}. Progress was saved and can be resumed.`
       });
 
       // Try to return cached data as fallback
@@ -249,11 +496,143 @@ class SyncService {
       return { records: [], result };
 
     } finally {
+      unsubscribeRateLimit();
       this.isSync = false;
       this.cancelSync = false;
     }
   }
 
+  /**
+   * Fetch every collection page not yet in the checkpoint, saving each page as it arrives
+   */
+  private async fetchCollectionPages(
+    checkpoint: SyncCheckpoint,
+    report: (progress: SyncProgress) => void
+  ): Promise<void> {
+    if (checkpoint.totalPages === undefined) {
+      const firstPage = await getDiscogsService().getUserCollection(1, 100);
+      checkpoint.totalPages = firstPage.pagination.pages;
+      checkpoint.totalItems = firstPage.pagination.items;
+      checkpoint.pages[1] = firstPage.releases;
+      await cacheService.saveSyncCheckpointPage(1, firstPage.releases);
+      await cacheService.saveSyncCheckpoint(checkpoint);
+    }
+
+    const totalPages = checkpoint.totalPages;
+    const missingPages: number[] = [];
+    for (let page = 1; page <= totalPages; page++) {
+      if (!checkpoint.pages[page]) {
+        missingPages.push(page);
+      }
+    }
+
+    await Promise.all(missingPages.map(async page => {
+      const pageResponse = await getDiscogsService().getUserCollection(page, 100);
+      checkpoint.pages[page] = pageResponse.releases;
+      await cacheService.saveSyncCheckpointPage(page, pageResponse.releases);
+
+      const pagesFetched = Object.keys(checkpoint.pages).length;
+      report({
+        phase: 'fetching',
+        progress: 20 + Math.round((pagesFetched / totalPages) * 20),
+        message: `Fetched page ${pagesFetched} of ${totalPages}`,
+        currentPage: pagesFetched,
+        totalPages
+      });
+    }));
+  }
+
+  /**
+   * Fetch the full release and its master from the primary metadata provider for every
+   * listed release the checkpoint doesn't cover yet, a batch at a time, saving each batch
+   */
+  private async enrichReleases(
+    releases: DiscogsRelease[],
+    checkpoint: SyncCheckpoint,
+    masterStats: MasterCacheStats,
+    report: (progress: SyncProgress) => void
+  ): Promise<void> {
+    const provider = metadataService.getPrimaryProvider();
+    const enrichedIds = new Set(checkpoint.enriched.map(enriched => enriched.id));
+    const pendingReleases = releases.filter(release => !enrichedIds.has(releaseKey(release)));
+
+    report({
+      phase: 'fetching',
+      progress: 50,
+      message: enrichedIds.size > 0
+        ? `Fetching master release data (${enrichedIds.size} releases already enriched)...`
+        : 'Fetching master release data...',
+      recordsProcessed: checkpoint.enriched.length,
+      totalRecords: releases.length
+    });
+
+    // Pressings of the same album share a master, so each master is looked up once
+    const masterLookups = new Map<string, Promise<NormalizedMaster | undefined>>();
+    const lookupMaster = (masterId: string) => {
+      if (!masterLookups.has(masterId)) {
+        masterLookups.set(masterId, provider.getMaster(masterId).then(
+          master => {
+            if (master.fromCache) {
+              masterStats.hits++;
+            } else {
+              masterStats.apiCalls++;
+            }
+            return master;
+          },
+          error => {
+            console.warn(`Failed to fetch master data for ${masterId}:`, error);
+            return undefined;
+          }
+        ));
+      }
+      return masterLookups.get(masterId);
+    };
+
+    for (let i = 0; i < pendingReleases.length; i += ENRICHMENT_BATCH_SIZE) {
+      const batch = pendingReleases.slice(i, i + ENRICHMENT_BATCH_SIZE);
+      const newMasters: Record<string, NormalizedMaster> = {};
+
+      const enriched = await Promise.all(batch.map(async (item): Promise<EnrichedRelease> => {
+        const id = releaseKey(item);
+        let release: NormalizedRelease;
+        try {
+          release = await provider.getRelease(id);
+        } catch (error) {
+          // The listing's basic information still makes a usable record
+          console.warn(`Failed to fetch detailed release for ${id}:`, error);
+          release = normalizeDiscogsRelease(item);
+        }
+
+        if (release.masterId && !checkpoint.masters[release.masterId]) {
+          const master = await lookupMaster(release.masterId);
+          if (master) {
+            newMasters[release.masterId] = master;
+          }
+        }
+
+        return { id, release };
+      }));
+
+      // Only this batch and the masters it added are written
+      checkpoint.enriched.push(...enriched);
+      Object.assign(checkpoint.masters, newMasters);
+      await cacheService.saveSyncCheckpointBatch(checkpoint.enriched.length - enriched.length, enriched, newMasters);
+
+      report({
+        phase: 'fetching',
+        progress: 50 + Math.round((checkpoint.enriched.length / releases.length) * 10),
+        message: `Enriched ${checkpoint.enriched.length}/${releases.length} releases`,
+        recordsProcessed: checkpoint.enriched.length,
+        totalRecords: releases.length
+      });
+
+      // Stop between batches; everything enriched so far stays in the checkpoint
+      if (this.cancelSync) {
+        throw new Error('Sync cancelled by user');
+      }
+    }
+  }
+
   /**
    * Get sync status
    */
@@ -285,25 +664,55 @@ class SyncService {
     return cacheService.clearCache();
   }
 
+  /**
+   * Clear the persistent master release cache
+   */
+  async clearMasterCache(): Promise<void> {
+    return masterCacheService.clear();
+  }
+
   /**
    * Test Discogs API connection
    */
   async testConnection() {
-    return discogsService.testConnection();
+    if (!hasDiscogsCredentials()) {
+      return { success: false, message: 'No Discogs account connected. Please connect your Discogs account to sync.' };
+    }
+    return getDiscogsService().testConnection();
+  }
+
+  /**
+   * Search Discogs for vinyl releases by barcode, catalog number or free text
+   */
+  async searchDiscogs(query: string, mode: RecordSearchMode = 'text') {
+    const { q = '', ...params } = buildSearchParams(query, mode);
+    return getDiscogsService().searchReleases(q, params);
   }
 
   /**
-   * Search Discogs for releases
+   * Build a collection record for a release picked from search results
    */
-  async searchDiscogs(query: string) {
-    return discogsService.searchReleases(query);
+  async getRecordForRelease(releaseId: number): Promise<VinylRecord> {
+    const provider = metadataService.getPrimaryProvider();
+    const release = await provider.getRelease(releaseId.toString());
+
+    let master: NormalizedMaster | undefined;
+    if (release.masterId) {
+      try {
+        master = await provider.getMaster(release.masterId);
+      } catch (error) {
+        console.warn(`Failed to fetch master data for ${release.masterId}:`, error);
+      }
+    }
+
+    return transformReleaseToVinylRecord(release, master);
   }
 
   /**
    * Get detailed release information
    */
-  async getRelease(releaseId: number) {
-    return discogsService.getRelease(releaseId);
+  async getRelease(releaseId: number): Promise<NormalizedRelease> {
+    return metadataService.getPrimaryProvider().getRelease(releaseId.toString());
   }
 
   /**
@@ -354,16 +763,8 @@ class SyncService {
   validateConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (!import.meta.env.VITE_DISCOGS_PERSONAL_ACCESS_TOKEN) {
-      errors.push('Missing VITE_DISCOGS_PERSONAL_ACCESS_TOKEN environment variable');
-    }
-
-    if (!import.meta.env.VITE_DISCOGS_USERNAME) {
-      errors.push('Missing VITE_DISCOGS_USERNAME environment variable');
-    }
-
-    if (!import.meta.env.VITE_DISCOGS_USER_AGENT) {
-      errors.push('Missing VITE_DISCOGS_USER_AGENT environment variable');
+    if (!hasDiscogsCredentials()) {
+      errors.push('No Discogs account connected and no VITE_DISCOGS_USERNAME environment variable');
     }
 
     return {
@@ -376,24 +777,16 @@ class SyncService {
    * Get configuration status for UI display
    */
   getConfigurationStatus(): {
-    hasToken: boolean;
     hasUsername: boolean;
-    hasUserAgent: boolean;
     isConfigured: boolean;
   } {
-    const hasToken = !!import.meta.env.VITE_DISCOGS_PERSONAL_ACCESS_TOKEN && 
-                     import.meta.env.VITE_DISCOGS_PERSONAL_ACCESS_TOKEN !== 'your_personal_access_token_here';
-    
-    const hasUsername = !!import.meta.env.VITE_DISCOGS_USERNAME && 
+    // Tokens live server-side, so all the app needs is an account to act for
+    const hasUsername = hasDiscogsCredentials() &&
                        import.meta.env.VITE_DISCOGS_USERNAME !== 'your_username_here';
-    
-    const hasUserAgent = !!import.meta.env.VITE_DISCOGS_USER_AGENT;
 
     return {
-      hasToken,
       hasUsername,
-      hasUserAgent,
-      isConfigured: hasToken && hasUsername && hasUserAgent
+      isConfigured: hasUsername
     };
   }
 }
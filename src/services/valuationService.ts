@@ -0,0 +1,212 @@
+import localforage from 'localforage'
+import { isAxiosError } from 'axios'
+import { getDiscogsService } from './discogsService'
+import { supabaseService, CollectionValuation, CollectionValuationItem } from './supabaseService'
+import { VinylRecord } from '../data/vinylRecords'
+import {
+  pickSuggestedPrice,
+  summarizeValuation,
+  isSnapshotDue,
+  RecordValuation,
+} from '../utils/valuation'
+
+// A snapshot is suggested once the last one is this old; saved progress older than this is dropped
+export const VALUATION_INTERVAL_DAYS = 30
+
+// Records priced between progress saves (one price suggestion request each)
+export const VALUATION_BATCH_SIZE = 20
+
+export interface ValuationProgress {
+  processed: number
+  total: number
+}
+
+// A snapshot in the making, saved after every batch so it can be resumed
+interface SavedValuation {
+  startedAt: number
+  total: number
+  processedIds: string[] // Priced, or found to have no price suggestions (not failed requests)
+  valuations: RecordValuation[]
+}
+
+const SAVED_VALUATION_KEY = 'valuation_in_progress'
+
+/**
+ * Values the collection from Discogs marketplace price suggestions and stores snapshots
+ */
+class ValuationService {
+  private store: LocalForage
+  private isValuing = false
+  private pauseRequested = false
+
+  constructor() {
+    this.store = localforage.createInstance({
+      name: 'AnalogVibesApp',
+      storeName: 'valuation',
+      version: 1.0,
+      description: 'Collection valuation progress',
+    })
+  }
+
+  /**
+   * How far an unfinished snapshot got, if there is one to resume
+   */
+  async getSavedProgress(): Promise<ValuationProgress | null> {
+    const saved = await this.getSavedValuation()
+    return saved ? { processed: saved.processedIds.length, total: saved.total } : null
+  }
+
+  /**
+   * Stop after the current batch. What was priced so far is kept for the next run.
+   */
+  pauseSnapshot(): void {
+    if (this.isValuing) {
+      this.pauseRequested = true
+    }
+  }
+
+  /**
+   * Price every owned record and store the result as a new snapshot.
+   * Records are priced in batches and progress is saved after each one, so a paused or failed
+   * run carries on from where it stopped. Records without price suggestions are counted as
+   * unpriced; records whose request failed (network, rate limit) aren't counted at all, and the
+   * run ends with an error so the next one retries just those.
+   */
+  async takeSnapshot(
+    records: VinylRecord[],
+    onProgress?: (progress: ValuationProgress) => void
+  ): Promise<CollectionValuation> {
+    if (this.isValuing) {
+      throw new Error('A valuation is already in progress')
+    }
+
+    this.isValuing = true
+    this.pauseRequested = false
+    try {
+      const owned = records.filter(record => record.ownership !== 'wanted')
+      const ownedIds = new Set(owned.map(record => record.id))
+      const discogsService = getDiscogsService()
+
+      // Carry on with an unfinished snapshot, leaving out records no longer owned
+      const saved = await this.getSavedValuation()
+      const processedIds = new Set(saved?.processedIds.filter(id => ownedIds.has(id)))
+      const valuations = (saved?.valuations || []).filter(v => ownedIds.has(v.releaseId))
+      const startedAt = saved?.startedAt || Date.now()
+      const remaining = owned.filter(record => !processedIds.has(record.id))
+      const failedIds = new Set<string>()
+
+      onProgress?.({ processed: processedIds.size, total: owned.length })
+
+      for (let i = 0; i < remaining.length; i += VALUATION_BATCH_SIZE) {
+        if (this.pauseRequested) {
+          throw new Error('Valuation paused. It will continue where it left off.')
+        }
+
+        // Requests go through the service's rate-limited queue
+        const batch = remaining.slice(i, i + VALUATION_BATCH_SIZE)
+        await Promise.all(
+          batch.map(async record => {
+            try {
+              const suggestions = await discogsService.getPriceSuggestions(parseInt(record.id, 10))
+              const price = pickSuggestedPrice(suggestions, record.mediaCondition)
+              if (price) {
+                valuations.push({
+                  releaseId: record.id,
+                  title: record.title,
+                  artist: record.artist,
+                  value: price.value,
+                  currency: price.currency,
+                })
+              }
+              processedIds.add(record.id)
+            } catch (error) {
+              // A release Discogs doesn't know has no prices; other failures are retried
+              if (isAxiosError(error) && error.response?.status === 404) {
+                processedIds.add(record.id)
+              } else {
+                failedIds.add(record.id)
+              }
+            } finally {
+              onProgress?.({ processed: processedIds.size, total: owned.length })
+            }
+          })
+        )
+
+        await this.store.setItem<SavedValuation>(SAVED_VALUATION_KEY, {
+          startedAt,
+          total: owned.length,
+          processedIds: Array.from(processedIds),
+          valuations,
+        })
+      }
+
+      if (failedIds.size > 0) {
+        throw new Error(
+          `Discogs didn't answer for ${failedIds.size} record${failedIds.size === 1 ? '' : 's'}. Refresh to retry them.`
+        )
+      }
+
+      const summary = summarizeValuation(valuations)
+      const items: CollectionValuationItem[] = valuations.map(v => ({
+        release_id: v.releaseId,
+        title: v.title,
+        artist: v.artist,
+        value: v.value,
+      }))
+
+      const snapshot = await supabaseService.saveValuation({
+        currency: summary.currency,
+        total_value: summary.total,
+        median_value: summary.median,
+        records_valued: summary.count,
+        records_unpriced: owned.length - summary.count,
+        items,
+      })
+      await this.store.removeItem(SAVED_VALUATION_KEY)
+      return snapshot
+    } finally {
+      this.isValuing = false
+      this.pauseRequested = false
+    }
+  }
+
+  /**
+   * The unfinished snapshot, unless it is too old for its prices to belong in a new one
+   */
+  private async getSavedValuation(): Promise<SavedValuation | null> {
+    try {
+      const saved = await this.store.getItem<SavedValuation>(SAVED_VALUATION_KEY)
+      if (saved && isSnapshotDue(new Date(saved.startedAt), VALUATION_INTERVAL_DAYS)) {
+        await this.store.removeItem(SAVED_VALUATION_KEY)
+        return null
+      }
+      return saved
+    } catch {
+      return null // Unreadable progress just means starting over
+    }
+  }
+
+  /**
+   * Combine a snapshot with the current records' purchase prices
+   */
+  toRecordValuations(snapshot: CollectionValuation, records: VinylRecord[]): RecordValuation[] {
+    const recordsById = new Map(records.map(record => [record.id, record]))
+
+    return snapshot.items.map(item => {
+      const record = recordsById.get(item.release_id)
+      return {
+        releaseId: item.release_id,
+        title: item.title,
+        artist: item.artist,
+        value: Number(item.value),
+        currency: snapshot.currency || '',
+        purchasePrice: record?.purchasePrice,
+        purchaseCurrency: record?.purchaseCurrency,
+      }
+    })
+  }
+}
+
+// Create and export singleton instance
+export const valuationService = new ValuationService()
+export default ValuationService
@@ -0,0 +1,68 @@
+import localforage from 'localforage'
+import { PendingCollectionChange } from '../utils/writeBack'
+
+type PendingChangesListener = (username: string, changes: PendingCollectionChange[]) => void
+
+/**
+ * Persistent queue of collection edits waiting to be pushed to Discogs, per Discogs user.
+ * Survives reloads so edits made offline (or while rate-limited) are not lost.
+ */
+class WriteBackStore {
+  private store: LocalForage
+  private listeners = new Set<PendingChangesListener>()
+  // Updates are serialized so concurrent edits and pushes don't overwrite each other
+  private lock: Promise<unknown> = Promise.resolve()
+
+  constructor() {
+    this.store = localforage.createInstance({
+      name: 'AnalogVibesApp',
+      storeName: 'write_back',
+      version: 1.0,
+      description: 'Collection edits waiting to be pushed to Discogs',
+    })
+  }
+
+  /**
+   * Get the queued changes for a Discogs user
+   */
+  async list(username: string): Promise<PendingCollectionChange[]> {
+    try {
+      return (await this.store.getItem<PendingCollectionChange[]>(username)) || []
+    } catch (error) {
+      console.error('Error reading pending Discogs changes:', error)
+      return []
+    }
+  }
+
+  /**
+   * Apply an update to a user's queue and notify listeners
+   */
+  async update(
+    username: string,
+    updater: (changes: PendingCollectionChange[]) => PendingCollectionChange[]
+  ): Promise<PendingCollectionChange[]> {
+    const run = this.lock.then(async () => {
+      const changes = updater(await this.list(username))
+      await this.store.setItem(username, changes)
+      this.listeners.forEach(listener => listener(username, changes))
+      return changes
+    })
+
+    this.lock = run.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * Subscribe to queue changes; returns an unsubscribe function
+   */
+  subscribe(listener: PendingChangesListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+// Create and export singleton instance
+export const writeBackStore = new WriteBackStore()
+export default WriteBackStore
@@ -0,0 +1,26 @@
+// In-memory stand-in for localforage, for tests of the services that persist through it.
+// Each `createInstance` store is kept by name so tests can look at what was written.
+
+export const memoryStores = new Map<string, Map<string, unknown>>()
+
+function createInstance({ storeName }: { storeName: string }) {
+  const items = new Map<string, unknown>()
+  memoryStores.set(storeName, items)
+
+  return {
+    getItem: async <T>(key: string): Promise<T | null> =>
+      items.has(key) ? (structuredClone(items.get(key)) as T) : null,
+    setItem: async <T>(key: string, value: T): Promise<T> => {
+      items.set(key, structuredClone(value))
+      return value
+    },
+    removeItem: async (key: string) => {
+      items.delete(key)
+    },
+    keys: async () => Array.from(items.keys()),
+    length: async () => items.size,
+    clear: async () => items.clear(),
+  }
+}
+
+export default { createInstance }
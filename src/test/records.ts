@@ -0,0 +1,15 @@
+import { VinylRecord } from '../data/vinylRecords'
+
+// A minimal record for tests: Blue Train unless the overrides say otherwise
+export const createRecord = (overrides: Partial<VinylRecord> = {}): VinylRecord => ({
+  id: '1',
+  title: 'Blue Train',
+  artist: 'John Coltrane',
+  year: '1957',
+  label: 'Blue Note',
+  genres: ['Jazz'],
+  catalogNumber: 'BLP 1577',
+  coverUrl: '',
+  tracks: [],
+  ...overrides,
+})
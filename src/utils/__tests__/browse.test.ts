@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getArtistPageData,
+  getGenrePageData,
+  getLabelCatalogNumber,
+  getLabelPageData,
+  getYearSpan,
+  sortByYear,
+} from '../browse'
+import { createRecord } from '../../test/records'
+
+const jazzMessengers = {
+  artist: 'Art Blakey & The Jazz Messengers',
+  artists: [{ name: 'Art Blakey & The Jazz Messengers' }],
+  styles: ['Hard Bop'],
+}
+
+const records = [
+  createRecord({ ...jazzMessengers, title: 'Moanin', year: '1958', catalogNumber: 'BLP 4003' }),
+  createRecord({
+    ...jazzMessengers,
+    id: '2',
+    title: 'Mosaic',
+    year: '1961',
+    catalogNumber: 'BST 84090',
+  }),
+  createRecord({
+    id: '3',
+    title: 'Speak No Evil',
+    artist: 'Wayne Shorter',
+    artists: [{ name: 'Wayne Shorter' }],
+    year: '1966',
+    styles: ['Hard Bop'],
+    catalogNumber: 'BLP 4194',
+    personnel: [{ name: 'Art Blakey & The Jazz Messengers', role: 'Band' }],
+  }),
+  createRecord({
+    id: '4',
+    title: 'Kind Of Blue',
+    artist: 'Miles Davis',
+    artists: [{ name: 'Miles Davis' }],
+    year: '1959',
+    label: 'Columbia',
+    catalogNumber: 'CL 1355',
+    genres: ['Jazz', 'Blues'],
+    styles: ['Modal'],
+  }),
+  createRecord({ ...jazzMessengers, id: '5', title: 'Undated', year: '', catalogNumber: '' }),
+]
+
+describe('browse', () => {
+  it('should sort by year with undated records last', () => {
+    expect(sortByYear(records).map(record => record.id)).toEqual(['1', '4', '2', '3', '5'])
+    expect(getYearSpan(records)).toBe('1958–1966')
+    expect(getYearSpan([records[0]])).toBe('1958')
+    expect(getYearSpan([records[4]])).toBeNull()
+  })
+
+  it("should separate an artist's own records from appearances", () => {
+    const artist = getArtistPageData(records, 'art blakey & the jazz messengers')
+
+    expect(artist.name).toBe('Art Blakey & The Jazz Messengers')
+    expect(artist.records.map(record => record.id)).toEqual(['1', '2', '5'])
+    expect(artist.appearances.map(record => record.id)).toEqual(['3'])
+    expect(artist.summary.total).toBe(3)
+    expect(artist.summary.yearSpan).toBe('1958–1961')
+    expect(artist.summary.counts.decade).toEqual([
+      { value: '1950s', count: 1 },
+      { value: '1960s', count: 1 },
+    ])
+  })
+
+  it('should list a label by catalog number, records without one last', () => {
+    const label = getLabelPageData(records, 'BLUE NOTE')
+
+    expect(label.name).toBe('Blue Note')
+    expect(label.records.map(record => record.id)).toEqual(['1', '3', '2', '5'])
+    expect(getLabelCatalogNumber(records[2], 'blue note')).toBe('BLP 4194')
+    expect(getLabelCatalogNumber(records[3], 'Blue Note')).toBe('')
+    expect(label.summary.counts.artist[0]).toEqual({
+      value: 'Art Blakey & The Jazz Messengers',
+      count: 3,
+    })
+  })
+
+  it('should select a genre case-insensitively', () => {
+    const genre = getGenrePageData(records, 'blues')
+
+    expect(genre.name).toBe('Blues')
+    expect(genre.records.map(record => record.id)).toEqual(['4'])
+    expect(getGenrePageData(records, 'Rock').records).toEqual([])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CatalogEntry,
+  buildCatalogSeries,
+  findLabelId,
+  formatGapList,
+  getCatalogGaps,
+  parseCatalogNumber,
+} from '../catalogNumbers'
+import { createRecord } from '../../test/records'
+
+const createEntry = (
+  catalogNumber: string,
+  overrides: Partial<CatalogEntry> = {}
+): CatalogEntry => ({
+  releaseId: catalogNumber,
+  catalogNumber,
+  title: `Album ${catalogNumber}`,
+  artist: 'Various',
+  year: 1957,
+  ...overrides,
+})
+
+describe('catalogNumbers', () => {
+  it('should parse catalog numbers into prefix and number', () => {
+    expect(parseCatalogNumber('BLP 1577')).toEqual({ prefix: 'BLP', number: 1577 })
+    expect(parseCatalogNumber('blp-1577')).toEqual({ prefix: 'BLP', number: 1577 })
+    expect(parseCatalogNumber('BST84001')).toEqual({ prefix: 'BST', number: 84001 })
+    expect(parseCatalogNumber('BST 84001 A')).toEqual({ prefix: 'BST', number: 84001 })
+    expect(parseCatalogNumber('A-77 (Stereo)')).toEqual({ prefix: 'A', number: 77 })
+    expect(parseCatalogNumber('B1-46339')).toEqual({ prefix: 'B1', number: 46339 })
+    expect(parseCatalogNumber('4003')).toEqual({ prefix: '', number: 4003 })
+    expect(parseCatalogNumber('none')).toBeNull()
+  })
+
+  it('should split numbers into series and fill the owned slots', () => {
+    const entries = [
+      createEntry('BLP 1575'),
+      createEntry('BLP 1577', { releaseId: 'reissue', year: 1966 }),
+      createEntry('BLP-1577', { releaseId: 'original', year: 1957 }),
+      createEntry('BLP 1579'),
+      createEntry('BLP 4001'),
+      createEntry('BLP 4002'),
+      createEntry('BLP 4003'),
+      createEntry('GXK 8001'), // A stray reissue number, not a series
+    ]
+    const owned = [createRecord(), createRecord({ id: '200', catalogNumber: 'BLP 4003' })]
+    const wanted = [createRecord({ id: '300', catalogNumber: 'BLP 1575' })]
+
+    const series = buildCatalogSeries('Blue Note', entries, owned, wanted)
+
+    expect(series.map(s => s.name)).toEqual(['BLP 1500', 'BLP 4000'])
+    expect(series[0].slots.map(slot => slot.status)).toEqual([
+      'wanted',
+      'unknown',
+      'owned',
+      'unknown',
+      'missing',
+    ])
+    expect(series[0].slots[2].entry?.releaseId).toBe('original')
+    expect(series[0].slots[2].records.map(record => record.id)).toEqual(['1'])
+    expect(series[1].counts).toEqual({ owned: 1, wanted: 0, missing: 2, unknown: 0 })
+  })
+
+  it('should keep a series of owned numbers without a Discogs catalog', () => {
+    const series = buildCatalogSeries('Blue Note', [], [createRecord()], [])
+
+    expect(series).toHaveLength(1)
+    expect(series[0].slots).toHaveLength(1)
+    expect(getCatalogGaps(series[0])).toEqual([])
+  })
+
+  it('should export the gaps as CSV', () => {
+    const entries = [
+      createEntry('BLP 1576', { artist: 'Sonny Rollins', title: 'Sonny Rollins, Vol. 2' }),
+      createEntry('BLP 1578'),
+      createEntry('BLP 1580'),
+    ]
+    const [series] = buildCatalogSeries('Blue Note', entries, [createRecord()], [])
+
+    expect(formatGapList([series]).split('\n')).toEqual([
+      'Series,Catalog Number,Status,Artist,Title,Year',
+      'BLP 1500,BLP 1576,missing,Sonny Rollins,"Sonny Rollins, Vol. 2",1957',
+      'BLP 1500,BLP 1578,missing,Various,Album BLP 1578,1957',
+      'BLP 1500,BLP 1580,missing,Various,Album BLP 1580,1957',
+    ])
+  })
+
+  it("should find the label's Discogs id in the records' label credits", () => {
+    const records = [createRecord({ labels: [{ name: 'Blue Note', id: '281', role: 'Label' }] })]
+
+    expect(findLabelId(records, 'blue note')).toBe('281')
+    expect(findLabelId(records, 'Prestige')).toBeNull()
+  })
+})
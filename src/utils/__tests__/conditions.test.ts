@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeCondition } from '../conditions'
+
+describe('conditions', () => {
+  describe('normalizeCondition', () => {
+    it('should strip the Discogs grade abbreviation', () => {
+      expect(normalizeCondition('Mint (M)')).toBe('Mint')
+      expect(normalizeCondition('Near Mint (NM or M-)')).toBe('Near Mint')
+      expect(normalizeCondition('Very Good Plus (VG+)')).toBe('Very Good Plus')
+      expect(normalizeCondition('Good Plus (G+)')).toBe('Good Plus')
+    })
+
+    it('should accept plain grade names in any case', () => {
+      expect(normalizeCondition('Very Good')).toBe('Very Good')
+      expect(normalizeCondition('poor')).toBe('Poor')
+    })
+
+    it('should return undefined for values that are not grades', () => {
+      expect(normalizeCondition('Generic')).toBeUndefined()
+      expect(normalizeCondition('No Cover')).toBeUndefined()
+      expect(normalizeCondition('')).toBeUndefined()
+      expect(normalizeCondition(undefined)).toBeUndefined()
+      expect(normalizeCondition(null)).toBeUndefined()
+    })
+  })
+})
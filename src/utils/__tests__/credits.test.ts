@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  stripDisambiguation,
+  toJoinPhrase,
+  formatArtistCredit,
+  getArtistCreditParts,
+  getLabelNames,
+  recordHasArtist,
+  recordHasLabel,
+} from '../credits'
+import { createRecord } from '../../test/records'
+
+describe('credits', () => {
+  describe('stripDisambiguation', () => {
+    it('should drop the Discogs numeric suffix', () => {
+      expect(stripDisambiguation('Nirvana (2)')).toBe('Nirvana')
+      expect(stripDisambiguation('Sun Ra (Arkestra)')).toBe('Sun Ra (Arkestra)')
+    })
+  })
+
+  describe('toJoinPhrase', () => {
+    it('should space joins the way Discogs prints them', () => {
+      expect(toJoinPhrase(',')).toBe(', ')
+      expect(toJoinPhrase('&')).toBe(' & ')
+      expect(toJoinPhrase('Feat.')).toBe(' Feat. ')
+      expect(toJoinPhrase('')).toBeUndefined()
+    })
+  })
+
+  describe('formatArtistCredit', () => {
+    it('should use credited names and join phrases', () => {
+      expect(
+        formatArtistCredit([
+          { name: 'Art Blakey', join: ' & ' },
+          { name: 'The Jazz Messengers', join: ' & ' },
+        ])
+      ).toBe('Art Blakey & The Jazz Messengers')
+
+      expect(
+        formatArtistCredit([
+          { name: 'Miles Davis', creditedName: 'Miles Davis Quintet', join: ' feat. ' },
+          { name: 'John Coltrane' },
+        ])
+      ).toBe('Miles Davis Quintet feat. John Coltrane')
+    })
+
+    it('should separate artists without a join phrase with commas', () => {
+      expect(formatArtistCredit([{ name: 'A' }, { name: 'B' }, { name: 'C' }])).toBe('A, B, C')
+    })
+  })
+
+  describe('getArtistCreditParts', () => {
+    it('should split the credit into artists and joins', () => {
+      const record = createRecord({
+        artist: 'Art Blakey & The Jazz Messengers',
+        artists: [{ name: 'Art Blakey', join: ' & ' }, { name: 'The Jazz Messengers' }],
+      })
+      expect(getArtistCreditParts(record).map(part => [part.artist.name, part.join])).toEqual([
+        ['Art Blakey', ' & '],
+        ['The Jazz Messengers', ''],
+      ])
+    })
+
+    it('should fall back to the display credit', () => {
+      const record = createRecord({ artist: 'Art Blakey & The Jazz Messengers' })
+      expect(getArtistCreditParts(record)).toEqual([
+        { artist: { name: 'Art Blakey & The Jazz Messengers' }, join: '' },
+      ])
+    })
+  })
+
+  describe('matching', () => {
+    const record = createRecord({
+      artist: 'Art Blakey & The Jazz Messengers',
+      artists: [
+        { name: 'Art Blakey', join: ' & ' },
+        { name: 'The Jazz Messengers', creditedName: 'Jazz Messengers' },
+      ],
+      labels: [
+        { name: 'Blue Note', catalogNumber: 'BLP 4003', role: 'Label' },
+        { name: 'Blue Note', catalogNumber: 'BST 84003', role: 'Label' },
+        { name: 'Plastylite', role: 'Pressed By' },
+      ],
+    })
+
+    it('should match any credited artist by canonical or credited name', () => {
+      expect(recordHasArtist(record, 'art blakey')).toBe(true)
+      expect(recordHasArtist(record, 'Jazz Messengers')).toBe(true)
+      expect(recordHasArtist(record, 'Lee Morgan')).toBe(false)
+    })
+
+    it('should match any label or company and list unique label names', () => {
+      expect(recordHasLabel(record, 'Plastylite')).toBe(true)
+      expect(recordHasLabel(record, 'Prestige')).toBe(false)
+      expect(getLabelNames(record)).toEqual(['Blue Note', 'Plastylite'])
+    })
+
+    it('should fall back to the single label', () => {
+      expect(recordHasLabel(createRecord(), 'Blue Note')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DiscographyEntry,
+  countByStatus,
+  filterDiscography,
+  findArtistId,
+  getDiscographyLabels,
+  getIdentityNames,
+  matchDiscography,
+  mergeDiscographies,
+} from '../discography'
+import { createRecord } from '../../test/records'
+
+const createEntry = (overrides: Partial<DiscographyEntry> = {}): DiscographyEntry => ({
+  id: '10',
+  type: 'master',
+  mainReleaseId: '1000',
+  title: 'A Love Supreme',
+  artist: 'John Coltrane',
+  year: 1965,
+  labels: ['Impulse!'],
+  ...overrides,
+})
+
+const entries = [
+  createEntry(),
+  createEntry({ id: '11', mainReleaseId: '1100', title: 'Ballads', year: 1963 }),
+  createEntry({ id: '12', mainReleaseId: '1200', title: 'Blue Train', labels: ['Blue Note'] }),
+  createEntry({ id: '13', mainReleaseId: '1300', title: 'Crescent', year: 1964 }),
+  createEntry({
+    id: '14',
+    mainReleaseId: '1400',
+    title: 'Live At Birdland',
+    artist: 'John Coltrane Quartet',
+    via: 'John Coltrane Quartet',
+  }),
+]
+
+// Records credited to Coltrane's Discogs artist on Impulse!, matching the entries above
+const impulse = {
+  artists: [{ name: 'John Coltrane', id: '97545' }],
+  year: '1965',
+  label: 'Impulse!',
+  catalogNumber: 'A-77',
+  masterId: '10',
+}
+
+const owned = [
+  createRecord({ ...impulse, id: '100', title: 'A Love Supreme' }),
+  // Synced before master ids were kept, credited under a name variation
+  createRecord({
+    ...impulse,
+    id: '200',
+    title: 'Blue Train',
+    artist: 'Coltrane',
+    artists: [{ name: 'Coltrane' }],
+    masterId: undefined,
+  }),
+  createRecord({ ...impulse, id: '1400', title: 'Live At Birdland', masterId: undefined }),
+]
+const wanted = [createRecord({ ...impulse, id: '300', title: 'Ballads (Deluxe)', masterId: '11' })]
+
+describe('discography', () => {
+  it("should find the artist's Discogs id in the collection's credits", () => {
+    const records = [
+      createRecord({
+        ...impulse,
+        personnel: [{ name: 'McCoy Tyner', id: '145256', role: 'Piano' }],
+      }),
+    ]
+
+    expect(findArtistId(records, 'john coltrane')).toBe('97545')
+    expect(findArtistId(records, 'McCoy Tyner')).toBe('145256')
+    expect(
+      findArtistId([createRecord({ artists: [{ name: 'John Coltrane' }] })], 'John Coltrane')
+    ).toBeNull()
+  })
+
+  it('should mark entries owned, wanted or missing', () => {
+    const names = getIdentityNames({
+      id: '97545',
+      name: 'John Coltrane',
+      variations: ['Coltrane'],
+      groups: [],
+    })
+    const items = matchDiscography(entries, owned, wanted, names)
+
+    expect(items.map(item => item.status)).toEqual(['owned', 'wanted', 'owned', 'missing', 'owned'])
+    expect(items[1].records.map(record => record.id)).toEqual(['300'])
+    expect(items[2].records.map(record => record.id)).toEqual(['200']) // By title and name variation
+    expect(items[4].records.map(record => record.id)).toEqual(['1400']) // By main release
+    expect(countByStatus(items)).toEqual({ owned: 3, wanted: 1, missing: 1 })
+  })
+
+  it('should not match a title by someone else', () => {
+    const other = [
+      createRecord({
+        ...impulse,
+        id: '400',
+        artist: 'Alice Coltrane',
+        artists: [{ name: 'Alice Coltrane' }],
+        title: 'Crescent',
+        masterId: undefined,
+      }),
+    ]
+
+    expect(matchDiscography(entries, other, [])[3].status).toBe('missing')
+  })
+
+  it('should filter by status, label and groups', () => {
+    const items = matchDiscography(entries, owned, wanted)
+    const filter = { status: null, label: null, includeGroups: false }
+
+    expect(filterDiscography(items, filter)).toHaveLength(4)
+    expect(filterDiscography(items, { ...filter, includeGroups: true })).toHaveLength(5)
+    expect(
+      filterDiscography(items, { ...filter, status: 'missing', label: 'impulse!' }).map(
+        item => item.entry.title
+      )
+    ).toEqual(['Crescent'])
+    expect(getDiscographyLabels(items)).toEqual([
+      { value: 'Impulse!', count: 4 },
+      { value: 'Blue Note', count: 1 },
+    ])
+  })
+
+  it('should merge discographies without duplicates', () => {
+    const group = [createEntry({ via: 'John Coltrane Quartet' }), entries[4]]
+
+    expect(mergeDiscographies(entries.slice(0, 2), group).map(entry => entry.id)).toEqual([
+      '10',
+      '11',
+      '14',
+    ])
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyFacets,
+  createFacetState,
+  describeFacetSelection,
+  getFacetOptions,
+  selectFacetValue,
+  setFacetMode,
+  toggleFacetValue,
+} from '../facets'
+import { VinylRecord } from '../../data/vinylRecords'
+import { createRecord } from '../../test/records'
+
+const records = [
+  createRecord({ styles: ['Hard Bop'], country: 'US' }),
+  createRecord({
+    id: '2',
+    title: 'Cantaloupe Island',
+    year: '1964',
+    genres: ['Jazz', 'Funk / Soul'],
+    styles: ['Hard Bop', 'Soul-Jazz'],
+    country: 'US',
+  }),
+  createRecord({
+    id: '3',
+    title: 'What’s Going On',
+    artist: 'Marvin Gaye',
+    year: '1971',
+    label: 'Tamla',
+    genres: ['Funk / Soul'],
+    styles: ['Soul'],
+    country: 'UK',
+    formats: [{ name: 'Vinyl', descriptions: ['LP', 'Album', 'Reissue'] }],
+  }),
+]
+
+const ids = (list: VinylRecord[]) => list.map(record => record.id)
+
+describe('facets', () => {
+  describe('applyFacets', () => {
+    it('should match any selected value in OR mode', () => {
+      let state = toggleFacetValue(createFacetState(), 'genre', 'Jazz')
+      state = toggleFacetValue(state, 'genre', 'funk / soul')
+      expect(ids(applyFacets(records, state))).toEqual(['1', '2', '3'])
+    })
+
+    it('should need every selected value in AND mode', () => {
+      let state = toggleFacetValue(createFacetState(), 'genre', 'Jazz')
+      state = toggleFacetValue(state, 'genre', 'Funk / Soul')
+      state = setFacetMode(state, 'genre', 'and')
+      expect(ids(applyFacets(records, state))).toEqual(['2'])
+    })
+
+    it('should combine facets with AND', () => {
+      let state = selectFacetValue(createFacetState(), 'style', 'Hard Bop')
+      state = selectFacetValue(state, 'decade', '1960s')
+      expect(ids(applyFacets(records, state))).toEqual(['2'])
+    })
+
+    it('should filter on formats', () => {
+      const state = selectFacetValue(createFacetState(), 'format', 'LP')
+      expect(ids(applyFacets(records, state))).toEqual(['3'])
+    })
+  })
+
+  describe('getFacetOptions', () => {
+    it('should count options against the other facets in OR mode', () => {
+      const state = selectFacetValue(createFacetState(), 'country', 'US')
+      const options = getFacetOptions(records, state)
+
+      expect(options.genre).toEqual([
+        { value: 'Jazz', count: 2, selected: false },
+        { value: 'Funk / Soul', count: 1, selected: false },
+      ])
+      // The facet's own options ignore its selection, so other countries can be added
+      expect(options.country).toEqual([
+        { value: 'US', count: 2, selected: true },
+        { value: 'UK', count: 1, selected: false },
+      ])
+    })
+
+    it('should count options within the results in AND mode', () => {
+      const state = setFacetMode(
+        selectFacetValue(createFacetState(), 'style', 'Hard Bop'),
+        'style',
+        'and'
+      )
+      const options = getFacetOptions(records, state)
+      expect(options.style).toEqual([
+        { value: 'Hard Bop', count: 2, selected: true },
+        { value: 'Soul-Jazz', count: 1, selected: false },
+      ])
+    })
+
+    it('should keep selected values without matches and order decades chronologically', () => {
+      const state = selectFacetValue(createFacetState(), 'label', 'Impulse!')
+      const options = getFacetOptions(records, state)
+      expect(options.label).toContainEqual({ value: 'Impulse!', count: 0, selected: true })
+
+      const decades = getFacetOptions(records, createFacetState()).decade
+      expect(decades.map(option => option.value)).toEqual(['1950s', '1960s', '1970s'])
+    })
+  })
+
+  describe('state updates', () => {
+    it('should toggle values off case-insensitively', () => {
+      const state = toggleFacetValue(
+        toggleFacetValue(createFacetState(), 'artist', 'Art Blakey'),
+        'artist',
+        'art blakey'
+      )
+      expect(state.artist.values).toEqual([])
+    })
+
+    it('should keep single-valued facets in OR mode', () => {
+      expect(setFacetMode(createFacetState(), 'decade', 'and').decade.mode).toBe('or')
+    })
+  })
+
+  describe('describeFacetSelection', () => {
+    it('should join values by mode', () => {
+      expect(describeFacetSelection({ values: ['Jazz', 'Soul'], mode: 'or' })).toBe('Jazz / Soul')
+      expect(describeFacetSelection({ values: ['Jazz', 'Soul'], mode: 'and' })).toBe('Jazz & Soul')
+      expect(describeFacetSelection({ values: [], mode: 'or' })).toBeNull()
+    })
+  })
+})
@@ -2,7 +2,11 @@ import { describe, it, expect } from 'vitest'
 import {
   getDecade,
   getUniqueGenres,
+  getStylesByGenre,
   getUniqueDecades,
+  getUniqueFolders,
+  getUniquePressingTags,
+  getUniqueCountries,
   recordMatchesDecade,
   getFilterStats,
 } from '../filterUtils'
@@ -107,6 +111,26 @@ describe('filterUtils', () => {
     })
   })
 
+  describe('getStylesByGenre', () => {
+    it('should group each style under the genre it appears with most', () => {
+      const groups = getStylesByGenre([
+        { ...mockRecords[0], genres: ['Jazz'], styles: ['Hard Bop', 'Modal'] },
+        { ...mockRecords[0], id: '6', genres: ['Jazz', 'Funk / Soul'], styles: ['Soul-Jazz'] },
+        { ...mockRecords[0], id: '7', genres: ['Jazz'], styles: ['Soul-Jazz'] },
+        { ...mockRecords[0], id: '8', genres: ['Rock'], styles: ['Psychedelic Rock'] },
+      ])
+
+      expect(groups).toEqual([
+        { genre: 'Jazz', styles: ['Hard Bop', 'Modal', 'Soul-Jazz'] },
+        { genre: 'Rock', styles: ['Psychedelic Rock'] },
+      ])
+    })
+
+    it('should handle records without styles', () => {
+      expect(getStylesByGenre(mockRecords)).toEqual([])
+    })
+  })
+
   describe('getUniqueDecades', () => {
     it('should return unique decades sorted chronologically', () => {
       const decades = getUniqueDecades(mockRecords)
@@ -152,6 +176,45 @@ describe('filterUtils', () => {
     })
   })
 
+  describe('getUniqueFolders', () => {
+    it('should return folders sorted naturally, skipping unfiled records', () => {
+      const filed: VinylRecord[] = [
+        { ...mockRecords[0], folder: 'Shelf 10' },
+        { ...mockRecords[1], folder: 'Shelf 2' },
+        { ...mockRecords[2], folder: 'Shelf 2' },
+        mockRecords[3],
+      ]
+      expect(getUniqueFolders(filed)).toEqual(['Shelf 2', 'Shelf 10'])
+    })
+
+    it('should return an empty array when nothing is filed', () => {
+      expect(getUniqueFolders(mockRecords)).toEqual([])
+    })
+  })
+
+  describe('getUniquePressingTags', () => {
+    it('should return pressing tags, most common first', () => {
+      const pressed: VinylRecord[] = [
+        { ...mockRecords[0], formats: [{ name: 'Vinyl', descriptions: ['LP', 'Mono'] }] },
+        { ...mockRecords[1], formats: [{ name: 'Vinyl', descriptions: ['LP', 'Stereo'] }] },
+        mockRecords[2],
+      ]
+      expect(getUniquePressingTags(pressed)).toEqual(['LP', 'Mono', 'Stereo'])
+    })
+  })
+
+  describe('getUniqueCountries', () => {
+    it('should return countries sorted alphabetically', () => {
+      const pressed: VinylRecord[] = [
+        { ...mockRecords[0], country: 'US' },
+        { ...mockRecords[1], country: 'UK' },
+        { ...mockRecords[2], country: 'US' },
+        mockRecords[3],
+      ]
+      expect(getUniqueCountries(pressed)).toEqual(['UK', 'US'])
+    })
+  })
+
   describe('getFilterStats', () => {
     const jazzRecords = mockRecords.filter(r => r.genres.includes('Jazz'))
     const sixtyRecords = mockRecords.filter(r => getDecade(r.year) === '1960s')
@@ -166,7 +229,7 @@ describe('filterUtils', () => {
     })
 
     it('should calculate correct stats with genre filter', () => {
-      const stats = getFilterStats(mockRecords, jazzRecords, 'Jazz')
+      const stats = getFilterStats(mockRecords, jazzRecords, { genre: 'Jazz' })
       expect(stats.totalRecords).toBe(3) // 3 jazz records including invalid year
       expect(stats.artists).toBe(3) // John Coltrane, Miles Davis, Unknown Artist
       expect(stats.genres).toBe(1) // Only Jazz
@@ -175,7 +238,7 @@ describe('filterUtils', () => {
     })
 
     it('should calculate correct stats with decade filter', () => {
-      const stats = getFilterStats(mockRecords, sixtyRecords, null, '1960s')
+      const stats = getFilterStats(mockRecords, sixtyRecords, { decade: '1960s' })
       expect(stats.totalRecords).toBe(2)
       expect(stats.artists).toBe(2) // Beach Boys, Beatles
       expect(stats.filterText).toBe('1960s VIBES')
@@ -186,14 +249,17 @@ describe('filterUtils', () => {
       const bothFiltersRecords = mockRecords.filter(
         r => r.genres.includes('Jazz') && getDecade(r.year) === '1950s'
       )
-      const stats = getFilterStats(mockRecords, bothFiltersRecords, 'Jazz', '1950s')
+      const stats = getFilterStats(mockRecords, bothFiltersRecords, {
+        genre: 'Jazz',
+        decade: '1950s',
+      })
       expect(stats.totalRecords).toBe(2)
       expect(stats.filterText).toBe('JAZZ + 1950s')
       expect(stats.hasActiveFilters).toBe(true)
     })
 
     it('should handle empty filtered results', () => {
-      const stats = getFilterStats(mockRecords, [], 'Electronic')
+      const stats = getFilterStats(mockRecords, [], { genre: 'Electronic' })
       expect(stats.totalRecords).toBe(0)
       expect(stats.artists).toBe(0)
       expect(stats.genres).toBe(0)
@@ -202,11 +268,48 @@ describe('filterUtils', () => {
     })
 
     it('should format decade properly in filter text', () => {
-      const stats1 = getFilterStats(mockRecords, [], null, '1980S')
+      const stats1 = getFilterStats(mockRecords, [], { decade: '1980S' })
       expect(stats1.filterText).toBe('1980s VIBES')
 
-      const stats2 = getFilterStats(mockRecords, [], 'Rock', '1970S')
+      const stats2 = getFilterStats(mockRecords, [], { genre: 'Rock', decade: '1970S' })
       expect(stats2.filterText).toBe('ROCK + 1970s')
     })
+
+    it('should lead the filter text with the folder', () => {
+      const folderOnly = getFilterStats(mockRecords, [], { folder: 'Shelf A' })
+      expect(folderOnly.filterText).toBe('SHELF A')
+      expect(folderOnly.hasActiveFilters).toBe(true)
+
+      const withGenre = getFilterStats(mockRecords, [], { genre: 'Jazz', folder: 'Shelf A' })
+      expect(withGenre.filterText).toBe('SHELF A · JAZZ VIBES')
+    })
+
+    it('should follow the filter text with pressing qualifiers', () => {
+      const pressingOnly = getFilterStats(mockRecords, [], { pressing: 'Mono', country: 'US' })
+      expect(pressingOnly.filterText).toBe('MONO · US')
+      expect(pressingOnly.hasActiveFilters).toBe(true)
+
+      const withGenre = getFilterStats(mockRecords, [], { genre: 'Jazz', pressing: 'Original' })
+      expect(withGenre.filterText).toBe('JAZZ VIBES · ORIGINAL')
+    })
+
+    it('should lead the filter text with artist and label after the folder', () => {
+      const stats = getFilterStats(mockRecords, [], {
+        genre: 'Jazz',
+        folder: 'Shelf A',
+        label: 'Blue Note',
+      })
+      expect(stats.filterText).toBe('SHELF A · BLUE NOTE · JAZZ VIBES')
+
+      const artistOnly = getFilterStats(mockRecords, [], { artist: 'Miles Davis' })
+      expect(artistOnly.filterText).toBe('MILES DAVIS')
+      expect(artistOnly.hasActiveFilters).toBe(true)
+    })
+
+    it('should name the style in place of its genre', () => {
+      const stats = getFilterStats(mockRecords, [], { genre: 'Jazz', style: 'Hard Bop' })
+      expect(stats.filterText).toBe('HARD BOP VIBES')
+      expect(stats.hasActiveFilters).toBe(true)
+    })
   })
 })
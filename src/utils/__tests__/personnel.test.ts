@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  splitCreditRoles,
+  formatCreditRole,
+  getCreditCategory,
+  mergePersonnel,
+  groupPersonnel,
+  recordHasPerson,
+  buildPeopleIndex,
+} from '../personnel'
+import { createRecord } from '../../test/records'
+
+describe('personnel', () => {
+  describe('splitCreditRoles', () => {
+    it('should split on commas outside brackets', () => {
+      expect(splitCreditRoles('Design [Cover], Photography By')).toEqual([
+        'Design [Cover]',
+        'Photography By',
+      ])
+      expect(splitCreditRoles('Photography By [Cover, Liner]')).toEqual([
+        'Photography By [Cover, Liner]',
+      ])
+    })
+  })
+
+  describe('formatCreditRole', () => {
+    it('should turn bracketed details into parentheses', () => {
+      expect(formatCreditRole('Design [Cover]')).toBe('Design (Cover)')
+      expect(formatCreditRole('Trumpet')).toBe('Trumpet')
+    })
+  })
+
+  describe('getCreditCategory', () => {
+    it('should sort roles into categories, defaulting to musicians', () => {
+      expect(getCreditCategory('Tenor Saxophone')).toBe('Musicians')
+      expect(getCreditCategory('Recorded By [Recording Engineer]')).toBe('Engineering')
+      expect(getCreditCategory('Design [Cover]')).toBe('Artwork')
+      expect(getCreditCategory('Photography By [Cover Photo]')).toBe('Artwork')
+      expect(getCreditCategory('Producer')).toBe('Production')
+      expect(getCreditCategory('Liner Notes')).toBe('Liner Notes')
+      expect(getCreditCategory('Written-By')).toBe('Composition')
+    })
+  })
+
+  describe('mergePersonnel', () => {
+    it('should drop master credits already on the release', () => {
+      const merged = mergePersonnel(
+        [{ name: 'Lee Morgan', role: 'Trumpet' }],
+        [
+          { name: 'Lee Morgan', role: 'Trumpet' },
+          { name: 'Alfred Lion', role: 'Producer' },
+        ]
+      )
+      expect(merged.map(credit => credit.name)).toEqual(['Lee Morgan', 'Alfred Lion'])
+    })
+  })
+
+  describe('groupPersonnel', () => {
+    it('should group each role under its category, one entry per person', () => {
+      const groups = groupPersonnel([
+        { name: 'Reid Miles', role: 'Design [Cover]' },
+        { name: 'Lee Morgan', role: 'Trumpet' },
+        { name: 'Rudy Van Gelder', role: 'Recorded By, Mastered By' },
+        { name: 'Curtis Fuller', role: 'Trombone', tracks: 'A1, B2' },
+      ])
+
+      expect(groups.map(group => group.category)).toEqual(['Musicians', 'Engineering', 'Artwork'])
+      expect(groups[0].people).toEqual([
+        { name: 'Lee Morgan', roles: ['Trumpet'] },
+        { name: 'Curtis Fuller', roles: ['Trombone (A1, B2)'] },
+      ])
+      expect(groups[1].people).toEqual([
+        { name: 'Rudy Van Gelder', roles: ['Recorded By', 'Mastered By'] },
+      ])
+    })
+
+    it('should handle records without personnel', () => {
+      expect(groupPersonnel(undefined)).toEqual([])
+    })
+  })
+
+  describe('recordHasPerson', () => {
+    it('should match leaders and sidemen', () => {
+      const record = createRecord({ personnel: [{ name: 'Paul Chambers', role: 'Bass' }] })
+      expect(recordHasPerson(record, 'paul chambers')).toBe(true)
+      expect(recordHasPerson(record, 'John Coltrane')).toBe(true)
+      expect(recordHasPerson(record, 'Miles Davis')).toBe(false)
+    })
+  })
+
+  describe('buildPeopleIndex', () => {
+    it('should list everyone with their records, most prolific first', () => {
+      const index = buildPeopleIndex([
+        createRecord({
+          personnel: [
+            { name: 'Paul Chambers', role: 'Bass' },
+            { name: 'Reid Miles', role: 'Design [Cover]' },
+          ],
+        }),
+        createRecord({
+          id: '2',
+          title: 'Bass on Top',
+          artist: 'Paul Chambers',
+          personnel: [{ name: 'Kenny Burrell', role: 'Guitar' }],
+        }),
+      ])
+
+      expect(index[0].name).toBe('Paul Chambers')
+      expect(index[0].appearances.map(a => a.record.id)).toEqual(['1', '2'])
+      expect(index[0].roles).toEqual(['Bass', 'Artist'])
+      expect(index[0].categories).toEqual(['Musicians'])
+
+      const reid = index.find(person => person.name === 'Reid Miles')
+      expect(reid?.roles).toEqual(['Design (Cover)'])
+      expect(reid?.categories).toEqual(['Artwork'])
+    })
+  })
+})
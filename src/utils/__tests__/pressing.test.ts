@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatFormatLabel,
+  getEditionType,
+  getChannelMode,
+  getVinylWeight,
+  getPressingTags,
+  groupIdentifiers,
+} from '../pressing'
+import { RecordFormat } from '../../data/vinylRecords'
+import { createRecord } from '../../test/records'
+
+const vinyl = (descriptions: string[], overrides: Partial<RecordFormat> = {}): RecordFormat => ({
+  name: 'Vinyl',
+  quantity: 1,
+  descriptions,
+  ...overrides,
+})
+
+describe('pressing', () => {
+  describe('formatFormatLabel', () => {
+    it('should include quantity, descriptions and free text', () => {
+      expect(
+        formatFormatLabel(vinyl(['LP', 'Album', 'Reissue'], { quantity: 2, text: '180g' }))
+      ).toBe('2×Vinyl, LP, Album, Reissue, 180g')
+      expect(formatFormatLabel(vinyl(['LP', 'Album']))).toBe('Vinyl, LP, Album')
+    })
+  })
+
+  describe('getEditionType', () => {
+    it('should treat Reissue and Repress descriptions as reissues', () => {
+      expect(getEditionType(createRecord({ formats: [vinyl(['LP', 'Repress'])] }))).toBe('Reissue')
+    })
+
+    it('should compare release and original years otherwise', () => {
+      expect(getEditionType(createRecord({ releaseDate: '1957', recordingDate: '1957' }))).toBe(
+        'Original'
+      )
+      expect(getEditionType(createRecord({ releaseDate: '1985', recordingDate: '1957' }))).toBe(
+        'Reissue'
+      )
+      expect(getEditionType(createRecord({ releaseDate: 'Unknown' }))).toBeUndefined()
+    })
+  })
+
+  describe('getChannelMode', () => {
+    it('should read mono or stereo from the descriptions', () => {
+      expect(getChannelMode(createRecord({ formats: [vinyl(['LP', 'Mono'])] }))).toBe('Mono')
+      expect(getChannelMode(createRecord({ formats: [vinyl(['LP', 'Stereo'])] }))).toBe('Stereo')
+      expect(getChannelMode(createRecord({ formats: [vinyl(['LP'])] }))).toBeUndefined()
+    })
+  })
+
+  describe('getVinylWeight', () => {
+    it('should find the weight in the format text', () => {
+      expect(getVinylWeight(createRecord({ formats: [vinyl(['LP'], { text: '180 Gram' })] }))).toBe(
+        '180g'
+      )
+      expect(getVinylWeight(createRecord({ formats: [vinyl(['LP'], { text: 'Gatefold' })] }))).toBe(
+        undefined
+      )
+    })
+  })
+
+  describe('getPressingTags', () => {
+    it('should collect edition, channels, size, notable descriptions and weight', () => {
+      const record = createRecord({
+        releaseDate: '2008',
+        recordingDate: '1957',
+        formats: [vinyl(['LP', 'Album', 'Limited Edition', 'Mono'], { quantity: 2, text: '200g' })],
+      })
+
+      expect(getPressingTags(record)).toEqual([
+        'Reissue',
+        'Mono',
+        '2×LP',
+        'Limited Edition',
+        '200g',
+      ])
+    })
+
+    it('should return no tags without format or year information', () => {
+      expect(getPressingTags(createRecord())).toEqual([])
+    })
+  })
+
+  describe('groupIdentifiers', () => {
+    it('should group identifiers by type with matrix numbers first', () => {
+      const groups = groupIdentifiers([
+        { type: 'Barcode', value: '0 77774 6346 2 9' },
+        { type: 'Matrix / Runout', value: 'BN-LP-1577-A', description: 'Side A' },
+        { type: 'Matrix / Runout', value: 'BN-LP-1577-B', description: 'Side B' },
+      ])
+
+      expect(groups.map(([type, identifiers]) => [type, identifiers.length])).toEqual([
+        ['Matrix / Runout', 2],
+        ['Barcode', 1],
+      ])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { parseRateLimitHeaders, parseRetryAfter, planThrottle } from '../rateLimit'
+
+describe('rateLimit', () => {
+  describe('parseRateLimitHeaders', () => {
+    it('should read the Discogs rate-limit headers', () => {
+      expect(
+        parseRateLimitHeaders({
+          'x-discogs-ratelimit': '60',
+          'x-discogs-ratelimit-used': '12',
+          'x-discogs-ratelimit-remaining': '48',
+        })
+      ).toEqual({ limit: 60, used: 12, remaining: 48 })
+    })
+
+    it('should derive the limit when only used/remaining are present', () => {
+      expect(
+        parseRateLimitHeaders({
+          'x-discogs-ratelimit-used': '5',
+          'x-discogs-ratelimit-remaining': '20',
+        })
+      ).toEqual({ limit: 25, used: 5, remaining: 20 })
+    })
+
+    it('should return null without a remaining header', () => {
+      expect(parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeNull()
+      expect(parseRateLimitHeaders(undefined)).toBeNull()
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('30')).toBe(30000)
+      expect(parseRetryAfter(2)).toBe(2000)
+    })
+
+    it('should parse an HTTP date relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', now)).toBe(10000)
+    })
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull()
+      expect(parseRetryAfter('')).toBeNull()
+      expect(parseRetryAfter('soon')).toBeNull()
+    })
+  })
+
+  describe('planThrottle', () => {
+    it('should run at full concurrency with plenty of budget', () => {
+      expect(planThrottle({ limit: 60, used: 10, remaining: 50 }, 8)).toEqual({
+        concurrency: 8,
+        pauseMs: 0,
+      })
+    })
+
+    it('should halve concurrency below half the budget', () => {
+      expect(planThrottle({ limit: 60, used: 35, remaining: 25 }, 8).concurrency).toBe(4)
+    })
+
+    it('should drop to one request at a time when the budget is low', () => {
+      expect(planThrottle({ limit: 60, used: 50, remaining: 10 }, 8)).toEqual({
+        concurrency: 1,
+        pauseMs: 0,
+      })
+    })
+
+    it('should pause once the reserve is reached', () => {
+      const plan = planThrottle({ limit: 60, used: 58, remaining: 2 }, 8)
+      expect(plan.concurrency).toBe(1)
+      // Reserve is 3 for a limit of 60, so wait for two requests to free up (1s each)
+      expect(plan.pauseMs).toBe(2000)
+    })
+  })
+})
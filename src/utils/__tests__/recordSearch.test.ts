@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeBarcode,
+  detectSearchMode,
+  buildSearchParams,
+  formatPressingSummary,
+} from '../recordSearch'
+
+describe('recordSearch', () => {
+  describe('normalizeBarcode', () => {
+    it('should strip spaces and dashes', () => {
+      expect(normalizeBarcode('0 77774 6346 2 9')).toBe('077774634629')
+      expect(normalizeBarcode('724-3-52170-1-0')).toBe('72435217010')
+    })
+  })
+
+  describe('detectSearchMode', () => {
+    it('should detect UPC and EAN barcodes', () => {
+      expect(detectSearchMode('077774634629')).toBe('barcode')
+      expect(detectSearchMode('5 099902 987613')).toBe('barcode')
+    })
+
+    it('should treat everything else as text', () => {
+      expect(detectSearchMode('Blue Train')).toBe('text')
+      expect(detectSearchMode('BST 84157')).toBe('text')
+      expect(detectSearchMode('1959')).toBe('text')
+    })
+  })
+
+  describe('buildSearchParams', () => {
+    it('should search the matching Discogs field', () => {
+      expect(buildSearchParams('0 77774 6346 2 9', 'barcode')).toEqual({
+        type: 'release',
+        format: 'Vinyl',
+        barcode: '077774634629',
+      })
+      expect(buildSearchParams(' BST 84157 ', 'catno')).toMatchObject({ catno: 'BST 84157' })
+      expect(buildSearchParams('coltrane blue train', 'text')).toMatchObject({
+        q: 'coltrane blue train',
+      })
+    })
+  })
+
+  describe('formatPressingSummary', () => {
+    it('should join format, country, label, catalog number and year', () => {
+      expect(
+        formatPressingSummary({
+          format: ['Vinyl', 'LP', 'Album', 'Reissue'],
+          country: 'US',
+          label: ['Blue Note', 'Liberty'],
+          catno: 'BST 84157',
+          year: '1966',
+        })
+      ).toBe('LP, Album, Reissue · US · Blue Note · BST 84157 · 1966')
+    })
+
+    it('should skip missing and placeholder values', () => {
+      expect(formatPressingSummary({ format: ['Vinyl'], catno: 'none', year: '0' })).toBe('')
+    })
+  })
+})
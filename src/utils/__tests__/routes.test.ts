@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { buildPath, parseRoute, Route } from '../routes'
+
+describe('routes', () => {
+  it('should parse every page', () => {
+    expect(parseRoute('/')).toEqual({ page: 'collection' })
+    expect(parseRoute('')).toEqual({ page: 'collection' })
+    expect(parseRoute('/album/12345')).toEqual({ page: 'album', id: '12345' })
+    expect(parseRoute('/artist/Art%20Blakey')).toEqual({ page: 'artist', name: 'Art Blakey' })
+    expect(parseRoute('/label/Blue%20Note/')).toEqual({ page: 'label', name: 'Blue Note' })
+    expect(parseRoute('/genre/Jazz')).toEqual({ page: 'genre', name: 'Jazz' })
+    expect(parseRoute('/stats')).toEqual({ page: 'stats' })
+    expect(parseRoute('/people')).toEqual({ page: 'people' })
+    expect(parseRoute('/tracks')).toEqual({ page: 'tracks' })
+  })
+
+  it('should return null for paths nothing lives at', () => {
+    expect(parseRoute('/records')).toBeNull()
+    expect(parseRoute('/artist')).toBeNull()
+    expect(parseRoute('/stats/jazz')).toBeNull()
+    expect(parseRoute('/album/1/2')).toBeNull()
+    expect(parseRoute('/artist/%E')).toBeNull()
+  })
+
+  it('should build paths that parse back to the same page', () => {
+    const routes: Route[] = [
+      { page: 'collection' },
+      { page: 'album', id: '12345' },
+      { page: 'artist', name: 'Art Blakey & The Jazz Messengers' },
+      { page: 'label', name: 'Blue Note' },
+      { page: 'genre', name: 'Funk / Soul' },
+      { page: 'stats' },
+    ]
+
+    expect(buildPath({ page: 'label', name: 'Blue Note' })).toBe('/label/Blue%20Note')
+    expect(buildPath({ page: 'genre', name: 'Funk / Soul' })).toBe('/genre/Funk%20%2F%20Soul')
+    routes.forEach(route => expect(parseRoute(buildPath(route))).toEqual(route))
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { SearchIndex, foldText, tokenizeText, editDistance } from '../searchIndex'
+import { VinylRecord } from '../../data/vinylRecords'
+import { createRecord } from '../../test/records'
+
+const records = [
+  createRecord({
+    title: 'Brilliant Corners',
+    artist: 'Thelonious Monk',
+    label: 'Riverside',
+    catalogNumber: 'RLP 12-226',
+  }),
+  createRecord({
+    id: '2',
+    title: 'Debut',
+    artist: 'Björk',
+    year: '1993',
+    label: 'One Little Indian',
+    genres: ['Electronic', 'Pop'],
+    tracks: [{ number: 1, title: 'Human Behaviour', duration: '4:12' }],
+  }),
+  createRecord({
+    id: '3',
+    title: 'Monk’s Dream',
+    artist: 'Thelonious Monk Quartet',
+    year: '1963',
+    label: 'Columbia',
+    personnel: [{ name: 'Charlie Rouse', role: 'Tenor Saxophone' }],
+  }),
+]
+
+const ids = (index: SearchIndex, text: string) => index.search(text).map(result => result.id)
+
+const buildIndex = (list: VinylRecord[] = records) => {
+  const index = new SearchIndex()
+  index.update(list)
+  return index
+}
+
+describe('searchIndex', () => {
+  describe('text folding', () => {
+    it('should drop accents and case', () => {
+      expect(foldText('Björk')).toBe('bjork')
+      expect(foldText('Sigur Rós')).toBe('sigur ros')
+      expect(foldText('Ørnulf')).toBe('ornulf')
+    })
+
+    it('should split into words, keeping contractions together', () => {
+      expect(tokenizeText('Monk’s Dream (Remastered)')).toEqual(['monks', 'dream', 'remastered'])
+    })
+  })
+
+  describe('editDistance', () => {
+    it('should count transpositions as one edit', () => {
+      expect(editDistance('thelonius', 'thelonious')).toBe(1)
+      expect(editDistance('tehlonious', 'thelonious')).toBe(1)
+      expect(editDistance('monk', 'mingus', 1)).toBe(2)
+    })
+  })
+
+  describe('search', () => {
+    it('should find accented names without the accents', () => {
+      expect(ids(buildIndex(), 'Bjork')).toEqual(['2'])
+    })
+
+    it('should tolerate typos in longer words', () => {
+      expect(ids(buildIndex(), 'thelonius')).toEqual(expect.arrayContaining(['1', '3']))
+      expect(ids(buildIndex(), 'mnk')).toEqual([]) // Too short for a typo
+    })
+
+    it('should match word prefixes', () => {
+      expect(ids(buildIndex(), 'brill')).toEqual(['1'])
+    })
+
+    it('should search tracks and personnel', () => {
+      expect(ids(buildIndex(), 'behaviour')).toEqual(['2'])
+      expect(ids(buildIndex(), 'rouse')).toEqual(['3'])
+    })
+
+    it('should not match the made-up tracklists of older records', () => {
+      const placeholders = ['Opening', 'Melody', 'Interlude', 'Rhythm'].map((title, i) => ({
+        number: i + 1,
+        title,
+        duration: '3:30',
+      }))
+      expect(ids(buildIndex([createRecord({ tracks: placeholders })]), 'melody')).toEqual([])
+    })
+
+    it('should need every word', () => {
+      expect(ids(buildIndex(), 'monk dream')).toEqual(['3'])
+    })
+
+    it('should rank title matches above track matches', () => {
+      const index = buildIndex([
+        createRecord({
+          id: 'a',
+          title: 'Coltrane',
+          artist: 'John Coltrane',
+          tracks: [{ number: 1, title: 'Blue Train', duration: '' }],
+        }),
+        createRecord({ id: 'b', title: 'Blue Train', artist: 'John Coltrane' }),
+      ])
+      expect(ids(index, 'blue train')).toEqual(['b', 'a'])
+    })
+  })
+
+  describe('update', () => {
+    it('should re-index only changed records and drop removed ones', () => {
+      const index = buildIndex()
+      const renamed = { ...records[1], title: 'Post' }
+      index.update([records[0], renamed])
+
+      expect(index.size).toBe(2)
+      expect(ids(index, 'debut')).toEqual([])
+      expect(ids(index, 'post')).toEqual(['2'])
+      expect(ids(index, 'rouse')).toEqual([])
+    })
+  })
+})
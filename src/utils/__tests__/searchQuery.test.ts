@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseQuery,
+  recordMatchesQuery,
+  getQuerySuggestions,
+  applyQuerySuggestion,
+} from '../searchQuery'
+import { createRecord } from '../../test/records'
+
+const jazzMessengers = {
+  artist: 'Art Blakey & The Jazz Messengers',
+  artists: [{ name: 'Art Blakey', join: '&' }, { name: 'The Jazz Messengers' }],
+  styles: ['Hard Bop'],
+}
+
+const records = [
+  createRecord({ ...jazzMessengers, title: 'Moanin', year: '1959', catalogNumber: 'BLP 4003' }),
+  createRecord({
+    ...jazzMessengers,
+    id: '2',
+    title: 'Free for All',
+    year: '1964',
+    rating: 5,
+    playCount: 3,
+  }),
+  createRecord({
+    id: '3',
+    title: 'Cantaloupe Island',
+    artist: 'Herbie Hancock',
+    artists: [{ name: 'Herbie Hancock' }],
+    year: '1964',
+    styles: ['Hard Bop'],
+    genres: ['Jazz', 'Funk / Soul'],
+    rating: 3,
+  }),
+]
+
+const search = (query: string) => {
+  const { ast } = parseQuery(query)
+  return records.filter(record => !ast || recordMatchesQuery(record, ast)).map(record => record.id)
+}
+
+describe('searchQuery', () => {
+  describe('parseQuery', () => {
+    it('should parse fields, ranges, comparisons and negation', () => {
+      const { ast, errors } = parseQuery(
+        'artist:"Art Blakey" year:1958..1965 -genre:Funk rating:>=4'
+      )
+      expect(errors).toEqual([])
+      expect(ast).toEqual({
+        type: 'and',
+        children: [
+          { type: 'field', field: 'artist', value: 'Art Blakey' },
+          { type: 'range', field: 'year', min: 1958, max: 1965 },
+          { type: 'not', child: { type: 'field', field: 'genre', value: 'Funk' } },
+          { type: 'compare', field: 'rating', op: '>=', value: 4 },
+        ],
+      })
+    })
+
+    it('should give OR a lower precedence than the implicit AND', () => {
+      const { ast } = parseQuery('genre:jazz year:1959 OR title:island')
+      expect(ast?.type).toBe('or')
+    })
+
+    it('should treat an empty query as no query', () => {
+      expect(parseQuery('   ')).toEqual({ ast: null, errors: [] })
+    })
+
+    it('should explain mistakes and keep the valid terms', () => {
+      const { ast, errors } = parseQuery('artst:blakey year:late played:often blue')
+      expect(errors.map(error => error.message)).toEqual([
+        'Unknown field "artst" — did you mean "artist"?',
+        'year: expects a number, a comparison like >=4 or a range like 1958..1965',
+        'played: expects "never" or "yes"',
+      ])
+      expect(ast).toEqual({ type: 'text', value: 'blue' })
+    })
+
+    it('should report unclosed quotes and parentheses', () => {
+      expect(parseQuery('artist:"Art').errors[0].message).toBe('Missing closing quote')
+      expect(parseQuery('(genre:jazz').errors[0].message).toBe('Missing closing parenthesis')
+      expect(parseQuery('genre:jazz)').errors[0].message).toBe('Unexpected ")"')
+    })
+
+    it('should reject unknown fields and search quoted colons as plain text', () => {
+      expect(parseQuery('yaer:1960').errors.map(error => error.message)).toEqual([
+        'Unknown field "yaer" — did you mean "year"?',
+      ])
+      expect(parseQuery('foo:bar')).toEqual({
+        ast: null,
+        errors: [
+          { message: 'Unknown field "foo" — put text with a colon in quotes', start: 0, end: 7 },
+        ],
+      })
+      expect(parseQuery('"Re:Stacks"')).toEqual({
+        ast: { type: 'text', value: 'Re:Stacks' },
+        errors: [],
+      })
+    })
+
+    it('should reject ranges that run backwards', () => {
+      expect(parseQuery('year:1965..1958 blue')).toEqual({
+        ast: { type: 'text', value: 'blue' },
+        errors: [
+          {
+            message: 'year: range runs backwards — did you mean 1958..1965?',
+            start: 0,
+            end: 15,
+          },
+        ],
+      })
+      expect(parseQuery('year:1958..1958').errors).toEqual([])
+    })
+  })
+
+  describe('recordMatchesQuery', () => {
+    it('should match plain words like the old search', () => {
+      expect(search('blakey')).toEqual(['1', '2'])
+      expect(search('hard bop')).toEqual(['1', '2', '3'])
+    })
+
+    it('should combine fields, negation and OR', () => {
+      expect(search('year:1964 -genre:funk')).toEqual(['2'])
+      expect(search('title:moanin OR title:island')).toEqual(['1', '3'])
+      expect(search('-(title:moanin OR title:island)')).toEqual(['2'])
+    })
+
+    it('should compare numbers and leave out records without them', () => {
+      expect(search('rating:>=4')).toEqual(['2'])
+      expect(search('year:..1960')).toEqual(['1'])
+    })
+
+    it('should filter on plays', () => {
+      expect(search('played:never')).toEqual(['1', '3'])
+      expect(search('plays:>1')).toEqual(['2'])
+    })
+  })
+
+  describe('getQuerySuggestions', () => {
+    it('should suggest field names for a bare word', () => {
+      const suggestions = getQuerySuggestions('gen', 3, records)
+      expect(suggestions.map(s => s.label)).toEqual(['genre:'])
+    })
+
+    it('should only suggest ratings and plays when the collection has them', () => {
+      expect(getQuerySuggestions('pla', 3, records).map(s => s.label)).toEqual([
+        'plays:',
+        'played:',
+      ])
+      expect(getQuerySuggestions('pla', 3, [createRecord()])).toEqual([])
+      expect(getQuerySuggestions('rat', 3, [createRecord()])).toEqual([])
+    })
+
+    it('should suggest values from the collection, quoted when needed', () => {
+      const query = 'year:1964 artist:her'
+      const [suggestion] = getQuerySuggestions(query, query.length, records)
+      expect(suggestion.label).toBe('Herbie Hancock')
+      expect(applyQuerySuggestion(query, suggestion)).toEqual({
+        query: 'year:1964 artist:"Herbie Hancock" ',
+        cursor: 34,
+      })
+    })
+
+    it('should keep the minus of an excluded term', () => {
+      const query = '-genre:fu'
+      const [suggestion] = getQuerySuggestions(query, query.length, records)
+      expect(applyQuerySuggestion(query, suggestion).query).toBe('-genre:"Funk / Soul" ')
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareCatalogNumbers,
+  compareRecords,
+  describeSortSpec,
+  getArtistSortName,
+  getSort,
+  getSorts,
+  isSortAvailable,
+  parseSortSpec,
+  registerSort,
+  serializeSortSpec,
+  setSortKey,
+  toggleSortDirection,
+} from '../sorting'
+import { VinylRecord } from '../../data/vinylRecords'
+import { createRecord } from '../../test/records'
+
+const titles = (records: VinylRecord[]) => records.map(record => record.title)
+
+describe('sorting', () => {
+  describe('parseSortSpec / serializeSortSpec', () => {
+    it('reads keys with optional directions and writes back only non-default directions', () => {
+      const keys = parseSortSpec('artist, year:asc')
+      expect(keys).toEqual([
+        { key: 'artist', direction: 'asc' },
+        { key: 'year', direction: 'asc' },
+      ])
+      expect(serializeSortSpec(keys)).toBe('artist,year:asc')
+      expect(serializeSortSpec(parseSortSpec('year:desc'))).toBe('year')
+    })
+
+    it('drops unknown and repeated keys, falling back to the default sort', () => {
+      expect(parseSortSpec('bogus,artist,artist:desc')).toEqual([
+        { key: 'artist', direction: 'asc' },
+      ])
+      expect(parseSortSpec('bogus')).toEqual([{ key: 'dateAdded', direction: 'desc' }])
+      expect(parseSortSpec('')).toEqual([{ key: 'dateAdded', direction: 'desc' }])
+    })
+  })
+
+  describe('setSortKey / toggleSortDirection', () => {
+    it('sets, moves and removes keys', () => {
+      const keys = parseSortSpec('artist')
+      expect(serializeSortSpec(setSortKey(keys, 1, 'year'))).toBe('artist,year')
+      expect(serializeSortSpec(setSortKey(keys, 0, 'label'))).toBe('label')
+      expect(serializeSortSpec(setSortKey(parseSortSpec('artist,year'), 0, 'year'))).toBe(
+        'year,artist'
+      )
+      expect(serializeSortSpec(setSortKey(parseSortSpec('artist,year'), 1, null))).toBe('artist')
+      expect(serializeSortSpec(setSortKey(keys, 0, null))).toBe('artist')
+    })
+
+    it('reverses one key at a time', () => {
+      expect(serializeSortSpec(toggleSortDirection(parseSortSpec('artist,year')))).toBe(
+        'artist:desc,year'
+      )
+      expect(serializeSortSpec(toggleSortDirection(parseSortSpec('artist,year'), 1))).toBe(
+        'artist,year:asc'
+      )
+    })
+  })
+
+  describe('getArtistSortName', () => {
+    it('files "The" names under the next word', () => {
+      expect(getArtistSortName('The Jazz Crusaders')).toBe('Jazz Crusaders')
+      expect(getArtistSortName('Theo Croker')).toBe('Theo Croker')
+    })
+  })
+
+  describe('compareCatalogNumbers', () => {
+    it('orders by prefix, then numerically', () => {
+      const sorted = ['BST 84001', 'BLP 4157', 'BLP 1577', 'BLP 4003'].sort(compareCatalogNumbers)
+      expect(sorted).toEqual(['BLP 1577', 'BLP 4003', 'BLP 4157', 'BST 84001'])
+      expect(compareCatalogNumbers('BLP 999', 'BLP 1000')).toBeLessThan(0)
+    })
+  })
+
+  describe('compareRecords', () => {
+    it('sorts by each key in turn, ignoring "The" in artist names', () => {
+      const records = [
+        createRecord({ title: 'Blue Train', artist: 'John Coltrane', year: '1957' }),
+        createRecord({ title: 'Chili Con Carne', artist: 'The Jazz Crusaders', year: '1967' }),
+        createRecord({ title: 'Giant Steps', artist: 'John Coltrane', year: '1960' }),
+        createRecord({ title: 'Soul Station', artist: 'Hank Mobley', year: '1960' }),
+      ]
+
+      expect(titles([...records].sort(compareRecords(parseSortSpec('artist,year:asc'))))).toEqual([
+        'Soul Station',
+        'Chili Con Carne',
+        'Blue Train',
+        'Giant Steps',
+      ])
+      // Year ties fall back to artist
+      expect(titles([...records].sort(compareRecords(parseSortSpec('year'))))).toEqual([
+        'Chili Con Carne',
+        'Soul Station',
+        'Giant Steps',
+        'Blue Train',
+      ])
+    })
+
+    it('puts records without a value last in either direction', () => {
+      const records = [
+        createRecord({ title: 'Unrated', rating: undefined }),
+        createRecord({ title: 'Five', rating: 5 }),
+        createRecord({ title: 'Three', rating: 3 }),
+      ]
+      expect(titles([...records].sort(compareRecords(parseSortSpec('rating'))))).toEqual([
+        'Five',
+        'Three',
+        'Unrated',
+      ])
+      expect(titles([...records].sort(compareRecords(parseSortSpec('rating:asc'))))).toEqual([
+        'Three',
+        'Five',
+        'Unrated',
+      ])
+    })
+
+    it('leaves made-up tracklists out of the runtime', () => {
+      const placeholders = ['Opening', 'Melody', 'Interlude', 'Rhythm'].map((title, i) => ({
+        number: i + 1,
+        title,
+        duration: '8:00',
+      }))
+      const records = [
+        createRecord({ title: 'Placeholder', tracks: placeholders }),
+        createRecord({
+          title: 'Listed',
+          tracks: [{ number: 1, title: 'Blue Train', duration: '10:43', position: 'A1' }],
+        }),
+      ]
+      expect(titles([...records].sort(compareRecords(parseSortSpec('runtime'))))).toEqual([
+        'Listed',
+        'Placeholder',
+      ])
+    })
+
+    it('sorts catalog numbers naturally', () => {
+      const records = [
+        createRecord({ title: 'Speak No Evil', catalogNumber: 'BLP 4194' }),
+        createRecord({ title: 'Moanin', catalogNumber: 'BLP 4003' }),
+        createRecord({ title: 'Blue Train', catalogNumber: 'BLP 1577' }),
+      ]
+      expect(titles([...records].sort(compareRecords(parseSortSpec('catalog'))))).toEqual([
+        'Blue Train',
+        'Moanin',
+        'Speak No Evil',
+      ])
+    })
+  })
+
+  describe('isSortAvailable', () => {
+    it('offers plays and ratings only when some record has them', () => {
+      const available = (records: VinylRecord[]) =>
+        getSorts()
+          .filter(sort => isSortAvailable(sort, records))
+          .map(sort => sort.key)
+
+      expect(available([createRecord()])).not.toContain('rating')
+      expect(available([createRecord()])).not.toContain('lastPlayed')
+      expect(available([createRecord()])).toContain('artist')
+      expect(available([createRecord(), createRecord({ rating: 4 })])).toContain('rating')
+    })
+  })
+
+  describe('registerSort', () => {
+    it('makes a new sort available by key', () => {
+      registerSort({
+        key: 'titleLength',
+        label: 'Title Length',
+        getValue: record => record.title.length,
+        defaultDirection: 'asc',
+        directionLabels: { asc: 'Shortest', desc: 'Longest' },
+      })
+
+      expect(getSort('titleLength')?.label).toBe('Title Length')
+      const keys = parseSortSpec('titleLength:desc')
+      expect(describeSortSpec(keys)).toBe('Title Length (Longest)')
+      const records = [createRecord({ title: 'Moanin' }), createRecord({ title: 'Blue Train' })]
+      expect(titles(records.sort(compareRecords(keys)))).toEqual(['Blue Train', 'Moanin'])
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { buildTrackIndex, getCompositionKey, searchTracks } from '../trackSearch'
+import { createRecord } from '../../test/records'
+
+const records = [
+  createRecord({
+    title: "'Round About Midnight",
+    artist: 'Miles Davis',
+    label: 'Columbia',
+    catalogNumber: 'CL 949',
+    tracks: [
+      { number: 1, title: "'Round Midnight", duration: '5:58', position: 'A1', side: 'A' },
+      { number: 2, title: 'Ah-Leu-Cha', duration: '5:53', position: 'A2', side: 'A' },
+    ],
+  }),
+  createRecord({
+    id: '2',
+    title: 'Genius Of Modern Music',
+    artist: 'Thelonious Monk',
+    year: '1951',
+    label: 'Blue Note',
+    tracks: [
+      { number: 0, title: 'Side One', duration: '', type: 'heading' },
+      { number: 1, title: 'Round Midnight (Take 2)', duration: '3:10', position: 'B3' },
+    ],
+  }),
+  createRecord({
+    id: '3',
+    title: 'Suite Sixteen',
+    artist: 'Various',
+    year: '1960',
+    label: 'Columbia',
+    tracks: [
+      {
+        number: 1,
+        title: 'Suite',
+        duration: '',
+        position: '',
+        side: 'C',
+        type: 'index',
+        subTracks: [
+          { number: 1, title: 'Midnight Sun', duration: '4:00', position: 'C1.a' },
+          { number: 2, title: 'Round Midnight - Live', duration: '6:00', position: 'C1.b' },
+        ],
+      },
+    ],
+  }),
+]
+
+const index = buildTrackIndex(records)
+
+describe('trackSearch', () => {
+  describe('getCompositionKey', () => {
+    it('should drop version notes, brackets, accents and apostrophes', () => {
+      expect(getCompositionKey("'Round Midnight")).toBe('round midnight')
+      expect(getCompositionKey('Round Midnight (Take 2) [Mono]')).toBe('round midnight')
+      expect(getCompositionKey('Round Midnight - Live')).toBe('round midnight')
+      expect(getCompositionKey('Águas De Março')).toBe('aguas de marco')
+    })
+
+    it('should keep dashes that are part of the title', () => {
+      expect(getCompositionKey('Part One - The Beginning')).toBe('part one the beginning')
+    })
+  })
+
+  describe('buildTrackIndex', () => {
+    it('should skip headings and include the parts of index tracks', () => {
+      expect(index.map(entry => entry.track.title)).toEqual([
+        "'Round Midnight",
+        'Ah-Leu-Cha',
+        'Round Midnight (Take 2)',
+        'Suite',
+        'Midnight Sun',
+        'Round Midnight - Live',
+      ])
+      expect(index[2].side).toBe('B')
+      expect(index[5].side).toBe('C')
+      expect(index[0].seconds).toBe(358)
+    })
+
+    it('should skip the made-up tracklists of older records', () => {
+      const placeholders = ['Opening', 'Melody', 'Interlude', 'Rhythm'].map((title, i) => ({
+        number: i + 1,
+        title,
+        duration: '3:30',
+      }))
+      expect(buildTrackIndex([createRecord({ id: '4', tracks: placeholders })])).toEqual([])
+    })
+  })
+
+  describe('searchTracks', () => {
+    it('should group versions of a composition, oldest record first', () => {
+      const [group, ...rest] = searchTracks(index, 'round midnight')
+      expect(group.title).toBe("'Round Midnight")
+      expect(group.versions.map(version => version.record.id)).toEqual(['2', '1', '3'])
+      expect(rest).toEqual([])
+    })
+
+    it('should hand back the record’s own track object', () => {
+      const [group] = searchTracks(index, 'ah leu')
+      expect(group.versions[0].track).toBe(records[0].tracks[1])
+    })
+
+    it('should rank exact words above prefixes and tolerate typos', () => {
+      expect(searchTracks(index, 'midnight').map(group => group.key)).toEqual([
+        'round midnight',
+        'midnight sun',
+      ])
+      expect(searchTracks(index, 'midnite sun')).toEqual([])
+      expect(searchTracks(index, 'midnigth')[0].versions).toHaveLength(3)
+    })
+
+    it('should list compositions with several versions when there is no search', () => {
+      expect(searchTracks(index, '').map(group => group.key)).toEqual(['round midnight'])
+    })
+  })
+})
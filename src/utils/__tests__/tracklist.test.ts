@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getTrackSide,
+  parseTrackDuration,
+  formatTrackDuration,
+  getTrackSeconds,
+  getPlayableTracks,
+  getTotalDuration,
+  groupTracksBySide,
+  isPlaceholderTracklist,
+  getListedTracks,
+} from '../tracklist'
+import { Track } from '../../data/vinylRecords'
+
+const track = (position: string, duration: string, overrides: Partial<Track> = {}): Track => ({
+  number: 1,
+  title: `Track ${position}`,
+  duration,
+  position,
+  side: getTrackSide(position),
+  type: 'track',
+  ...overrides,
+})
+
+const heading = (title: string): Track => ({ number: 0, title, duration: '', type: 'heading' })
+
+// As older versions saved them for releases without a tracklist
+const placeholders: Track[] = ['Opening', 'Melody', 'Interlude', 'Rhythm', 'Finale'].map(
+  (title, index) => ({ number: index + 1, title, duration: '4:12' })
+)
+
+describe('tracklist', () => {
+  describe('getTrackSide', () => {
+    it('should read the side from vinyl positions', () => {
+      expect(getTrackSide('A1')).toBe('A')
+      expect(getTrackSide('B')).toBe('B')
+      expect(getTrackSide('AA2')).toBe('AA')
+      expect(getTrackSide('1-C3')).toBe('C')
+      expect(getTrackSide('A1a')).toBe('A')
+    })
+
+    it('should not find sides in numeric or missing positions', () => {
+      expect(getTrackSide('1')).toBeUndefined()
+      expect(getTrackSide('12')).toBeUndefined()
+      expect(getTrackSide('')).toBeUndefined()
+      expect(getTrackSide(undefined)).toBeUndefined()
+      expect(getTrackSide('Intro')).toBeUndefined()
+    })
+  })
+
+  describe('durations', () => {
+    it('should parse and format track durations', () => {
+      expect(parseTrackDuration('9:26')).toBe(566)
+      expect(parseTrackDuration('1:02:03')).toBe(3723)
+      expect(parseTrackDuration('')).toBe(0)
+      expect(parseTrackDuration('n/a')).toBe(0)
+      expect(formatTrackDuration(566)).toBe('9:26')
+      expect(formatTrackDuration(3723)).toBe('1:02:03')
+    })
+
+    it('should add up sub-tracks of index tracks without their own duration', () => {
+      const suite = track('', '', {
+        type: 'index',
+        subTracks: [track('B1a', '3:00'), track('B1b', '4:30')],
+      })
+      expect(getTrackSeconds(suite)).toBe(450)
+    })
+
+    it('should leave headings out of counts and totals', () => {
+      const tracks = [heading('Side One'), track('A1', '5:00'), track('A2', '4:00')]
+      expect(getPlayableTracks(tracks)).toHaveLength(2)
+      expect(getTotalDuration(tracks)).toBe(540)
+    })
+  })
+
+  describe('groupTracksBySide', () => {
+    it('should group consecutive tracks by side with running times', () => {
+      const sides = groupTracksBySide([
+        track('A1', '9:26'),
+        track('A2', '5:22'),
+        track('B1', '6:45'),
+      ])
+
+      expect(sides.map(side => side.side)).toEqual(['A', 'B'])
+      expect(sides[0].duration).toBe(888)
+      expect(sides[1].tracks).toHaveLength(1)
+    })
+
+    it('should put headings with the side of the following track', () => {
+      const sides = groupTracksBySide([
+        track('A1', '5:00'),
+        heading('The Suite'),
+        track('B1', '6:00'),
+      ])
+
+      expect(sides[1].tracks.map(t => t.title)).toEqual(['The Suite', 'Track B1'])
+      expect(sides[1].duration).toBe(360)
+    })
+
+    it('should keep tracks without sides together', () => {
+      const sides = groupTracksBySide([track('1', '3:00'), track('2', '4:00')])
+      expect(sides).toHaveLength(1)
+      expect(sides[0].side).toBeUndefined()
+      expect(sides[0].duration).toBe(420)
+    })
+  })
+
+  describe('placeholder tracklists', () => {
+    it('should recognize the made-up tracklists', () => {
+      expect(isPlaceholderTracklist(placeholders)).toBe(true)
+      expect(getListedTracks(placeholders)).toEqual([])
+    })
+
+    it('should keep real tracklists', () => {
+      const tracks = [track('A1', '5:00', { title: 'Opening' }), track('A2', '4:00')]
+      expect(isPlaceholderTracklist(tracks)).toBe(false)
+      expect(isPlaceholderTracklist(placeholders.slice(0, 3))).toBe(false)
+      expect(isPlaceholderTracklist([...placeholders].reverse())).toBe(false)
+      expect(getListedTracks(tracks)).toBe(tracks)
+    })
+  })
+})
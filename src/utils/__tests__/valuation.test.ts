@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  median,
+  pickSuggestedPrice,
+  summarizeValuation,
+  isSnapshotDue,
+  RecordValuation,
+} from '../valuation'
+
+const suggestions = {
+  'Mint (M)': { currency: 'USD', value: 40 },
+  'Near Mint (NM or M-)': { currency: 'USD', value: 32 },
+  'Very Good Plus (VG+)': { currency: 'USD', value: 24 },
+  'Good (G)': { currency: 'USD', value: 8 },
+}
+
+const valued = (overrides: Partial<RecordValuation>): RecordValuation => ({
+  releaseId: '1',
+  title: 'Blue Train',
+  artist: 'John Coltrane',
+  value: 10,
+  currency: 'USD',
+  ...overrides,
+})
+
+describe('valuation', () => {
+  describe('median', () => {
+    it('should return the middle value or the mean of the two middle values', () => {
+      expect(median([3, 1, 2])).toBe(2)
+      expect(median([4, 1, 3, 2])).toBe(2.5)
+      expect(median([])).toBe(0)
+    })
+  })
+
+  describe('pickSuggestedPrice', () => {
+    it('should use the suggestion for the copy condition', () => {
+      expect(pickSuggestedPrice(suggestions, 'Near Mint')).toEqual({ currency: 'USD', value: 32 })
+    })
+
+    it('should fall back to VG+ without a condition or matching grade', () => {
+      expect(pickSuggestedPrice(suggestions)).toEqual({ currency: 'USD', value: 24 })
+      expect(pickSuggestedPrice(suggestions, 'Fair')).toEqual({ currency: 'USD', value: 24 })
+    })
+
+    it('should fall back to the median when there is no VG+ suggestion', () => {
+      expect(
+        pickSuggestedPrice({
+          'Mint (M)': { currency: 'EUR', value: 30 },
+          'Good (G)': { currency: 'EUR', value: 10 },
+        })
+      ).toEqual({ currency: 'EUR', value: 20 })
+    })
+
+    it('should return null without usable suggestions', () => {
+      expect(pickSuggestedPrice({})).toBeNull()
+      expect(pickSuggestedPrice(null)).toBeNull()
+      expect(pickSuggestedPrice({ 'Mint (M)': { currency: 'USD', value: 0 } })).toBeNull()
+    })
+  })
+
+  describe('summarizeValuation', () => {
+    it('should total the collection and rank gainers since purchase', () => {
+      const summary = summarizeValuation([
+        valued({ releaseId: '1', value: 50, purchasePrice: 20, purchaseCurrency: 'USD' }),
+        valued({ releaseId: '2', value: 15, purchasePrice: 5, purchaseCurrency: 'USD' }),
+        valued({ releaseId: '3', value: 10, purchasePrice: 30, purchaseCurrency: 'USD' }),
+        valued({ releaseId: '4', value: 100 }),
+      ])
+
+      expect(summary.total).toBe(175)
+      expect(summary.median).toBe(32.5)
+      expect(summary.count).toBe(4)
+      expect(summary.currency).toBe('USD')
+      expect(summary.gainers.map(g => [g.releaseId, g.gain])).toEqual([
+        ['1', 30],
+        ['2', 10],
+      ])
+    })
+
+    it('should skip gains for purchases in another currency', () => {
+      const summary = summarizeValuation([
+        valued({ value: 50, purchasePrice: 20, purchaseCurrency: 'EUR' }),
+      ])
+      expect(summary.gainers).toEqual([])
+    })
+
+    it('should handle an empty collection', () => {
+      expect(summarizeValuation([])).toEqual({
+        total: 0,
+        median: 0,
+        count: 0,
+        currency: null,
+        gainers: [],
+      })
+    })
+  })
+
+  describe('isSnapshotDue', () => {
+    const now = Date.parse('2024-06-30T00:00:00Z')
+
+    it('should be due without a previous snapshot', () => {
+      expect(isSnapshotDue(null, 7, now)).toBe(true)
+    })
+
+    it('should compare the last snapshot age to the interval', () => {
+      expect(isSnapshotDue('2024-06-20T00:00:00Z', 7, now)).toBe(true)
+      expect(isSnapshotDue('2024-06-27T00:00:00Z', 7, now)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CollectionView,
+  addSavedView,
+  createCollectionView,
+  differsOnlyInSearch,
+  getSavedViews,
+  parseCollectionView,
+  removeSavedView,
+  serializeCollectionView,
+  setSavedViews,
+  toggleSavedViewPinned,
+} from '../viewState'
+import { selectFacetValue, setFacetMode, toggleFacetValue } from '../facets'
+
+const createView = (overrides: Partial<CollectionView> = {}): CollectionView => ({
+  ...createCollectionView(),
+  ...overrides,
+})
+
+describe('viewState', () => {
+  describe('serializeCollectionView', () => {
+    it('should leave out defaults', () => {
+      expect(serializeCollectionView(createView())).toBe('')
+    })
+
+    it('should write facets, modes and the other settings', () => {
+      const base = createView()
+      let facets = selectFacetValue(base.filters.facets, 'label', 'Blue Note')
+      facets = selectFacetValue(facets, 'decade', '1960s')
+      facets = toggleFacetValue(toggleFacetValue(facets, 'genre', 'Jazz'), 'genre', 'Funk / Soul')
+      facets = setFacetMode(facets, 'genre', 'and')
+
+      const query = serializeCollectionView(
+        createView({
+          filters: { ...base.filters, facets, person: 'Lee Morgan' },
+          searchTerm: 'blue',
+          sortBy: 'year',
+          view: 'wanted',
+        })
+      )
+      expect(query).toBe(
+        'genre=Jazz&genre=Funk+%2F+Soul&decade=1960s&label=Blue+Note&all=genre' +
+          '&person=Lee+Morgan&q=blue&sort=year&view=wanted'
+      )
+    })
+  })
+
+  describe('parseCollectionView', () => {
+    it('should read back what was written', () => {
+      const base = createView()
+      const facets = setFacetMode(
+        toggleFacetValue(
+          toggleFacetValue(base.filters.facets, 'style', 'Hard Bop'),
+          'style',
+          'Modal'
+        ),
+        'style',
+        'and'
+      )
+      const view = createView({
+        filters: { ...base.filters, facets, folder: 'Blue Note', pressing: 'Mono' },
+        searchTerm: 'artist:"Art Blakey"',
+      })
+      expect(parseCollectionView(serializeCollectionView(view))).toEqual(view)
+    })
+
+    it('should ignore unknown parameters and AND on single-valued facets', () => {
+      const view = parseCollectionView('?decade=1960s&all=decade&view=sideways&utm_source=x')
+      expect(view.filters.facets.decade).toEqual({ values: ['1960s'], mode: 'or' })
+      expect(view.view).toBe('owned')
+      expect(serializeCollectionView(view)).toBe('decade=1960s')
+    })
+
+    it('should keep multi-key sorts and drop unknown sort keys', () => {
+      expect(parseCollectionView('sort=artist,year:asc').sortBy).toBe('artist,year:asc')
+      expect(parseCollectionView('sort=artist:asc,shoesize').sortBy).toBe('artist')
+      expect(parseCollectionView('sort=shoesize').sortBy).toBe('dateAdded')
+    })
+  })
+
+  describe('differsOnlyInSearch', () => {
+    it('should tell typing apart from other changes', () => {
+      expect(differsOnlyInSearch('label=Blue+Note&q=bl', 'q=blue&label=Blue+Note')).toBe(true)
+      expect(differsOnlyInSearch('label=Blue+Note', 'label=Blue+Note&sort=year')).toBe(false)
+    })
+  })
+
+  describe('saved views', () => {
+    it('should read views from preferences, skipping malformed entries', () => {
+      const preferences = {
+        theme: 'dark',
+        savedViews: [{ id: 'a', name: 'Blue Note', query: 'label=Blue+Note', pinned: true }, {}],
+      }
+      expect(getSavedViews(preferences).map(view => view.id)).toEqual(['a'])
+      expect(getSavedViews({ savedViews: 'nope' })).toEqual([])
+      expect(setSavedViews(preferences, [])).toEqual({ theme: 'dark', savedViews: [] })
+    })
+
+    it('should save pinned views in canonical form, overwriting by name', () => {
+      let views = addSavedView([], 'Blue Note 1960s', 'label=Blue+Note&decade=1960s')
+      expect(views).toEqual([
+        expect.objectContaining({
+          name: 'Blue Note 1960s',
+          query: 'decade=1960s&label=Blue+Note',
+          pinned: true,
+        }),
+      ])
+
+      views = addSavedView(views, 'blue note 1960s ', 'label=Blue+Note&sort=year')
+      expect(views).toHaveLength(1)
+      expect(views[0].query).toBe('label=Blue+Note&sort=year')
+      expect(addSavedView(views, '  ', 'q=x')).toBe(views)
+    })
+
+    it('should pin, unpin and remove views', () => {
+      const views = addSavedView(addSavedView([], 'Mono', 'pressing=Mono'), 'Soul', 'genre=Soul')
+      const unpinned = toggleSavedViewPinned(views, views[0].id)
+      expect(unpinned.map(view => view.pinned)).toEqual([false, true])
+      expect(removeSavedView(unpinned, views[1].id).map(view => view.name)).toEqual(['Mono'])
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  mergeChange,
+  checkRemoteValue,
+  resolveConflict,
+  getChangeId,
+  PendingCollectionChange,
+} from '../writeBack'
+
+const ratingChange = { releaseId: 42, field: 'rating' as const, value: 4, baseValue: 2 }
+
+describe('writeBack', () => {
+  describe('mergeChange', () => {
+    it('should queue a new change as pending', () => {
+      const queue = mergeChange([], ratingChange, 1000)
+      expect(queue).toEqual([
+        {
+          ...ratingChange,
+          id: getChangeId(42, 'rating'),
+          instanceId: undefined,
+          queuedAt: 1000,
+          status: 'pending',
+        },
+      ])
+    })
+
+    it('should replace an earlier change to the same field but keep its base value', () => {
+      const first = mergeChange([], ratingChange, 1000)
+      const second = mergeChange(first, { ...ratingChange, value: 5, baseValue: 4 }, 2000)
+      expect(second).toHaveLength(1)
+      expect(second[0].value).toBe(5)
+      expect(second[0].baseValue).toBe(2)
+      expect(second[0].queuedAt).toBe(2000)
+    })
+
+    it('should drop the change when the value is set back to the synced value', () => {
+      const first = mergeChange([], ratingChange)
+      expect(mergeChange(first, { ...ratingChange, value: 2, baseValue: 4 })).toEqual([])
+      expect(mergeChange([], { ...ratingChange, value: 2 })).toEqual([])
+    })
+
+    it('should keep changes to other fields', () => {
+      const queue = mergeChange(
+        mergeChange([], ratingChange),
+        { releaseId: 42, field: 'folder', value: 'Shelf B', baseValue: 'Shelf A' }
+      )
+      expect(queue.map(c => c.field)).toEqual(['rating', 'folder'])
+    })
+  })
+
+  describe('checkRemoteValue', () => {
+    const [change] = mergeChange([], ratingChange)
+
+    it('should push when Discogs still has the synced value', () => {
+      expect(checkRemoteValue(change, 2)).toBe('push')
+    })
+
+    it('should skip when Discogs already has the new value', () => {
+      expect(checkRemoteValue(change, 4)).toBe('applied')
+    })
+
+    it('should flag a conflict when Discogs was edited since the last sync', () => {
+      expect(checkRemoteValue(change, 3)).toBe('conflict')
+    })
+  })
+
+  describe('resolveConflict', () => {
+    const conflict: PendingCollectionChange = {
+      ...mergeChange([], ratingChange)[0],
+      status: 'conflict',
+      remoteValue: 3,
+    }
+
+    it('should rebase on the Discogs value when keeping the local value', () => {
+      const [resolved] = resolveConflict([conflict], conflict.id, 'keep-local')
+      expect(resolved.status).toBe('pending')
+      expect(resolved.baseValue).toBe(3)
+      expect(resolved.remoteValue).toBeUndefined()
+      expect(checkRemoteValue(resolved, 3)).toBe('push')
+    })
+
+    it('should drop the change when keeping the Discogs value', () => {
+      expect(resolveConflict([conflict], conflict.id, 'keep-discogs')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,133 @@
+// Data for the artist, label, genre and stats pages, selected from the collection's records
+
+import { VinylRecord } from '../data/vinylRecords'
+import { FacetKey, createFacetState, getFacetOptions } from './facets'
+import { getRecordArtists, getRecordLabels, recordHasArtist, recordHasLabel } from './credits'
+import { recordHasPerson } from './personnel'
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+export type ValueCounts = Record<FacetKey, ValueCount[]>
+
+export interface RecordsSummary {
+  total: number
+  yearSpan: string | null // "1955–1967"; null without known years
+  counts: ValueCounts // Decades in order, everything else most records first
+}
+
+export interface BrowsePageData {
+  name: string // As credited on the records, whatever the case in the URL
+  records: VinylRecord[] // Artist and genre: oldest first; label: by catalog number
+  summary: RecordsSummary
+}
+
+export interface ArtistPageData extends BrowsePageData {
+  appearances: VinylRecord[] // In the personnel of someone else's record
+}
+
+const byNumber = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true })
+
+function getYear(record: VinylRecord): number {
+  return parseInt(record.year, 10) || 0
+}
+
+/**
+ * Oldest first; records without a year go last
+ */
+export function sortByYear(records: VinylRecord[]): VinylRecord[] {
+  return [...records].sort(
+    (a, b) => (getYear(a) || Infinity) - (getYear(b) || Infinity) || a.title.localeCompare(b.title)
+  )
+}
+
+/**
+ * Records per value of every facet (genres, labels, decades...)
+ */
+export function getValueCounts(records: VinylRecord[]): ValueCounts {
+  const options = getFacetOptions(records, createFacetState())
+  return Object.fromEntries(
+    Object.entries(options).map(([key, values]) => [
+      key,
+      values.map(({ value, count }) => ({ value, count })),
+    ])
+  ) as ValueCounts
+}
+
+/**
+ * "1955–1967", or a single year
+ */
+export function getYearSpan(records: VinylRecord[]): string | null {
+  const years = records.map(getYear).filter(year => year > 0)
+  if (years.length === 0) return null
+  const first = Math.min(...years)
+  const last = Math.max(...years)
+  return first === last ? `${first}` : `${first}–${last}`
+}
+
+export function summarizeRecords(records: VinylRecord[]): RecordsSummary {
+  return { total: records.length, yearSpan: getYearSpan(records), counts: getValueCounts(records) }
+}
+
+export function getArtistPageData(records: VinylRecord[], name: string): ArtistPageData {
+  const leading = sortByYear(records.filter(record => recordHasArtist(record, name)))
+  const appearances = sortByYear(
+    records.filter(record => !leading.includes(record) && recordHasPerson(record, name))
+  )
+  const target = name.toLowerCase()
+  const credited = leading
+    .flatMap(getRecordArtists)
+    .find(artist => artist.name.toLowerCase() === target)
+
+  return {
+    name: credited?.name || name,
+    records: leading,
+    appearances,
+    summary: summarizeRecords(leading),
+  }
+}
+
+/**
+ * Catalog number a record has on the label ("BLP 4003"), empty when unknown
+ */
+export function getLabelCatalogNumber(record: VinylRecord, label: string): string {
+  const target = label.toLowerCase()
+  const credit = getRecordLabels(record).find(l => l.name.toLowerCase() === target)
+  return credit?.catalogNumber || ''
+}
+
+export function getLabelPageData(records: VinylRecord[], name: string): BrowsePageData {
+  const onLabel = records.filter(record => recordHasLabel(record, name))
+  const target = name.toLowerCase()
+  const credited = onLabel
+    .flatMap(getRecordLabels)
+    .find(label => label.name.toLowerCase() === target)
+
+  // Records without a catalog number go last
+  const byCatalogNumber = (a: VinylRecord, b: VinylRecord) => {
+    const aNumber = getLabelCatalogNumber(a, name)
+    const bNumber = getLabelCatalogNumber(b, name)
+    return Number(!aNumber) - Number(!bNumber) || byNumber(aNumber, bNumber)
+  }
+
+  return {
+    name: credited?.name || name,
+    records: [...onLabel].sort((a, b) => byCatalogNumber(a, b) || getYear(a) - getYear(b)),
+    summary: summarizeRecords(onLabel),
+  }
+}
+
+export function getGenrePageData(records: VinylRecord[], name: string): BrowsePageData {
+  const target = name.toLowerCase()
+  const inGenre = sortByYear(
+    records.filter(record => record.genres.some(genre => genre.toLowerCase() === target))
+  )
+
+  return {
+    name: inGenre.flatMap(record => record.genres).find(g => g.toLowerCase() === target) || name,
+    records: inGenre,
+    summary: summarizeRecords(inGenre),
+  }
+}
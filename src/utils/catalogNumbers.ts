@@ -0,0 +1,221 @@
+// Catalog numbers the way collectors read them: a prefix and a number ("BLP 1521", "BST 84001"),
+// grouped into series (runs of nearby numbers under one prefix) with the owned slots filled in
+
+import { VinylRecord } from '../data/vinylRecords'
+import { getLabelCatalogNumber } from './browse'
+import { getRecordLabels } from './credits'
+
+export interface CatalogNumber {
+  prefix: string // Uppercase without separators: "BLP", "BST"; empty for bare numbers
+  number: number
+}
+
+// A release on the label, as Discogs lists it
+export interface CatalogEntry {
+  releaseId: string
+  catalogNumber: string // As printed
+  title: string
+  artist: string
+  year: number | null
+}
+
+export type CatalogSlotStatus = 'owned' | 'wanted' | 'missing' | 'unknown'
+
+export interface CatalogSlot {
+  number: number
+  catalogNumber: string // As printed on the earliest known release
+  status: CatalogSlotStatus // Unknown: no release with the number is known
+  entry?: CatalogEntry // Earliest known release with the number
+  records: VinylRecord[] // Owned copies, or wanted ones when none is owned
+}
+
+export interface CatalogSeries {
+  key: string // "BLP-1500"
+  name: string // "BLP 1500"
+  prefix: string
+  first: number
+  last: number
+  slots: CatalogSlot[] // Every number from the first to the last known one
+  counts: Record<CatalogSlotStatus, number>
+}
+
+export const CATALOG_SLOT_STATUSES: CatalogSlotStatus[] = ['owned', 'wanted', 'missing', 'unknown']
+
+// Numbers further apart than this start another series (the 1500 series vs the 4000 series)
+const SERIES_GAP = 50
+
+// Fewer known numbers than this is a stray reissue number rather than a series
+const MIN_SERIES_SIZE = 3
+
+/**
+ * Prefix and number of a catalog number: "BLP-1577", "BLP 1577" and "blp1577" are all BLP 1577.
+ * A trailing letter ("BST 84001 A") or note in brackets is ignored. Null without a number.
+ */
+export function parseCatalogNumber(catalogNumber: string): CatalogNumber | null {
+  const cleaned = catalogNumber
+    .trim()
+    .toUpperCase()
+    .replace(/\s*\(.*\)$/, '')
+  const match = cleaned.match(/^(.*?)[\s.-]*(\d+)\s?[A-Z]?$/)
+  if (!match) return null
+  return { prefix: match[1].replace(/[\s.-]/g, ''), number: parseInt(match[2], 10) }
+}
+
+/**
+ * Discogs label id for a name, taken from the label credits on the collection's records
+ */
+export function findLabelId(records: VinylRecord[], name: string): string | null {
+  const target = name.toLowerCase()
+  for (const record of records) {
+    const label = getRecordLabels(record).find(l => l.id && l.name.toLowerCase() === target)
+    if (label?.id) return label.id
+  }
+  return null
+}
+
+export function formatCatalogNumber({ prefix, number }: CatalogNumber): string {
+  return prefix ? `${prefix} ${number}` : `${number}`
+}
+
+interface KnownNumber {
+  catalogNumber: string
+  entry?: CatalogEntry
+  owned: VinylRecord[]
+  wanted: VinylRecord[]
+}
+
+function getSlotStatus(known: KnownNumber | undefined): CatalogSlotStatus {
+  if (!known) return 'unknown'
+  if (known.owned.length > 0) return 'owned'
+  if (known.wanted.length > 0) return 'wanted'
+  return known.entry ? 'missing' : 'unknown'
+}
+
+function buildSeries(
+  prefix: string,
+  numbers: Map<number, KnownNumber>,
+  found: number[]
+): CatalogSeries {
+  const first = found[0]
+  const last = found[found.length - 1]
+  const counts: Record<CatalogSlotStatus, number> = { owned: 0, wanted: 0, missing: 0, unknown: 0 }
+
+  const slots = Array.from({ length: last - first + 1 }, (_, i): CatalogSlot => {
+    const number = first + i
+    const known = numbers.get(number)
+    const status = getSlotStatus(known)
+    counts[status]++
+    return {
+      number,
+      catalogNumber: known?.catalogNumber || formatCatalogNumber({ prefix, number }),
+      status,
+      entry: known?.entry,
+      records: known ? (known.owned.length > 0 ? known.owned : known.wanted) : [],
+    }
+  })
+
+  const base = first >= 100 ? Math.floor(first / 100) * 100 : first
+  return {
+    key: `${prefix}-${base}`,
+    name: formatCatalogNumber({ prefix, number: base }),
+    prefix,
+    first,
+    last,
+    slots,
+    counts,
+  }
+}
+
+/**
+ * The label's catalog series from the releases Discogs lists and the copies in the collection
+ * and wantlist, biggest series first
+ */
+export function buildCatalogSeries(
+  label: string,
+  entries: CatalogEntry[],
+  owned: VinylRecord[],
+  wanted: VinylRecord[]
+): CatalogSeries[] {
+  const byPrefix = new Map<string, Map<number, KnownNumber>>()
+  const getKnown = (catalogNumber: string): KnownNumber | null => {
+    const parsed = parseCatalogNumber(catalogNumber)
+    if (!parsed) return null
+    const numbers = byPrefix.get(parsed.prefix) || new Map<number, KnownNumber>()
+    byPrefix.set(parsed.prefix, numbers)
+    const known = numbers.get(parsed.number) || { catalogNumber, owned: [], wanted: [] }
+    numbers.set(parsed.number, known)
+    return known
+  }
+
+  // Reissues often repeat a number; the earliest release stands for the slot
+  const releaseNumbers = new Map<string, string>()
+  entries.forEach(entry => {
+    releaseNumbers.set(entry.releaseId, entry.catalogNumber)
+    const known = getKnown(entry.catalogNumber)
+    if (known && (!known.entry || (entry.year || Infinity) < (known.entry.year || Infinity))) {
+      known.entry = entry
+      known.catalogNumber = entry.catalogNumber
+    }
+  })
+
+  const addCopies = (records: VinylRecord[], list: 'owned' | 'wanted') =>
+    records.forEach(record => {
+      const catalogNumber = getLabelCatalogNumber(record, label) || releaseNumbers.get(record.id)
+      const known = catalogNumber ? getKnown(catalogNumber) : null
+      known?.[list].push(record)
+    })
+  addCopies(owned, 'owned')
+  addCopies(wanted, 'wanted')
+
+  const series: CatalogSeries[] = []
+  byPrefix.forEach((numbers, prefix) => {
+    const sorted = Array.from(numbers.keys()).sort((a, b) => a - b)
+    let run: number[] = []
+    const endRun = () => {
+      const hasCopies = run.some(number => (numbers.get(number)?.owned.length || 0) > 0)
+      if (run.length >= MIN_SERIES_SIZE || hasCopies) series.push(buildSeries(prefix, numbers, run))
+      run = []
+    }
+
+    sorted.forEach(number => {
+      if (run.length > 0 && number - run[run.length - 1] > SERIES_GAP) endRun()
+      run.push(number)
+    })
+    endRun()
+  })
+
+  const knownCount = ({ counts }: CatalogSeries) => counts.owned + counts.wanted + counts.missing
+  return series.sort((a, b) => knownCount(b) - knownCount(a) || a.key.localeCompare(b.key))
+}
+
+/**
+ * Slots of a series not in the collection yet: wanted and missing numbers. Unknown numbers
+ * aren't gaps anyone can fill, since no release is known to carry them.
+ */
+export function getCatalogGaps(series: CatalogSeries): CatalogSlot[] {
+  return series.slots.filter(slot => slot.status === 'wanted' || slot.status === 'missing')
+}
+
+// CSV field, quoted when it contains a separator, quote or line break
+function toCsvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : `${value}`
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * The gaps of the given series as CSV, one row per wanted or missing slot
+ */
+export function formatGapList(series: CatalogSeries[]): string {
+  const header = ['Series', 'Catalog Number', 'Status', 'Artist', 'Title', 'Year']
+  const rows = series.flatMap(s =>
+    getCatalogGaps(s).map(slot => [
+      s.name,
+      slot.catalogNumber,
+      slot.status,
+      slot.entry?.artist,
+      slot.entry?.title,
+      slot.entry?.year,
+    ])
+  )
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n')
+}
@@ -0,0 +1,29 @@
+import { RecordCondition } from '../data/vinylRecords'
+
+/**
+ * Condition grades from best to worst
+ */
+export const CONDITION_GRADES: RecordCondition[] = [
+  'Mint',
+  'Near Mint',
+  'Very Good Plus',
+  'Very Good',
+  'Good Plus',
+  'Good',
+  'Fair',
+  'Poor',
+]
+
+/**
+ * Map a Discogs condition value onto our grade names.
+ * Discogs appends the abbreviation - "Very Good Plus (VG+)" - and also offers
+ * non-grades such as "Generic" or "No Cover", which have no grade and return undefined.
+ * @param value - Raw value of a Media/Sleeve Condition custom field
+ * @returns Matching grade, or undefined
+ */
+export function normalizeCondition(value?: string | null): RecordCondition | undefined {
+  if (!value) return undefined
+
+  const name = value.replace(/\s*\(.*\)\s*$/, '').trim().toLowerCase()
+  return CONDITION_GRADES.find(grade => grade.toLowerCase() === name)
+}
@@ -0,0 +1,88 @@
+// Artist and label credits: display strings with join phrases, and per-name filter matching
+
+import { VinylRecord, RecordArtist, RecordLabel } from '../data/vinylRecords'
+
+/**
+ * Drop the numeric suffix Discogs uses to tell same-named artists/labels apart ("Nirvana (2)")
+ */
+export function stripDisambiguation(name: string): string {
+  return name.replace(/\s+\(\d+\)$/, '')
+}
+
+/**
+ * Turn a Discogs join ("," "&" "feat.") into the phrase printed between two artists
+ */
+export function toJoinPhrase(join: string | undefined): string | undefined {
+  const trimmed = (join || '').trim()
+  if (!trimmed) return undefined
+  return trimmed === ',' ? ', ' : ` ${trimmed} `
+}
+
+/**
+ * Display credit for a list of artists, e.g. "Art Blakey & The Jazz Messengers".
+ * Artists without a join phrase are separated by commas; the last artist's join is ignored.
+ */
+export function formatArtistCredit(artists: RecordArtist[]): string {
+  return artists
+    .map((artist, index) => {
+      const name = artist.creditedName || artist.name
+      if (index === artists.length - 1) return name
+      return name + (artist.join || ', ')
+    })
+    .join('')
+}
+
+/**
+ * Split a credit into display parts so each artist can be rendered (and clicked) on its own
+ */
+export function getArtistCreditParts(
+  record: VinylRecord
+): Array<{ artist: RecordArtist; join: string }> {
+  const artists = getRecordArtists(record)
+  return artists.map((artist, index) => ({
+    artist,
+    join: index === artists.length - 1 ? '' : artist.join || ', ',
+  }))
+}
+
+/**
+ * Artists of a record, falling back to the display credit for records stored before artists were kept
+ */
+export function getRecordArtists(record: VinylRecord): RecordArtist[] {
+  return record.artists && record.artists.length > 0 ? record.artists : [{ name: record.artist }]
+}
+
+/**
+ * Labels of a record (labels before companies), falling back to the single label name
+ */
+export function getRecordLabels(record: VinylRecord): RecordLabel[] {
+  if (record.labels && record.labels.length > 0) return record.labels
+  return record.label
+    ? [{ name: record.label, catalogNumber: record.catalogNumber, role: 'Label' }]
+    : []
+}
+
+/**
+ * Unique label names, in credit order
+ */
+export function getLabelNames(record: VinylRecord): string[] {
+  return Array.from(new Set(getRecordLabels(record).map(label => label.name)))
+}
+
+/**
+ * Whether any credited artist has the given (canonical) name
+ */
+export function recordHasArtist(record: VinylRecord, name: string): boolean {
+  const target = name.toLowerCase()
+  return getRecordArtists(record).some(
+    artist => artist.name.toLowerCase() === target || artist.creditedName?.toLowerCase() === target
+  )
+}
+
+/**
+ * Whether any label or company on the record has the given name
+ */
+export function recordHasLabel(record: VinylRecord, name: string): boolean {
+  const target = name.toLowerCase()
+  return getRecordLabels(record).some(label => label.name.toLowerCase() === target)
+}
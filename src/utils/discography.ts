@@ -0,0 +1,180 @@
+// An artist's Discogs discography held against the collection: which of their albums are owned,
+// wanted or still missing
+
+import { VinylRecord } from '../data/vinylRecords'
+import { ValueCount } from './browse'
+import { getRecordArtists, stripDisambiguation } from './credits'
+import { foldText } from './searchIndex'
+
+export type DiscographyStatus = 'owned' | 'wanted' | 'missing'
+
+export interface DiscographyEntry {
+  id: string // Master id, or release id for releases without a master
+  type: 'master' | 'release'
+  mainReleaseId?: string // Masters only
+  title: string
+  artist: string // Credit as on Discogs, e.g. "John Coltrane Quartet"
+  year: number | null
+  thumb?: string
+  labels: string[] // Labels any version came out on, when known
+  via?: string // Group whose discography the entry comes from
+}
+
+export interface DiscographyItem {
+  entry: DiscographyEntry
+  status: DiscographyStatus
+  records: VinylRecord[] // Copies in the collection (owned) or on the wantlist (wanted)
+}
+
+export interface ArtistIdentity {
+  id: string
+  name: string
+  variations: string[] // Other names the artist is credited under: name variations and aliases
+  groups: Array<{ id: string; name: string }>
+}
+
+export interface DiscographyFilter {
+  status: DiscographyStatus | null
+  label: string | null
+  includeGroups: boolean
+}
+
+export const DISCOGRAPHY_STATUSES: DiscographyStatus[] = ['owned', 'wanted', 'missing']
+
+const normalizeName = (name: string) => foldText(stripDisambiguation(name).trim())
+
+/**
+ * Discogs artist id for a name, taken from the credits on the collection's records
+ */
+export function findArtistId(records: VinylRecord[], name: string): string | null {
+  const target = normalizeName(name)
+  for (const record of records) {
+    const credit = [...getRecordArtists(record), ...(record.personnel || [])].find(
+      person =>
+        person.id &&
+        (normalizeName(person.name) === target ||
+          (person.creditedName && normalizeName(person.creditedName) === target))
+    )
+    if (credit?.id) return credit.id
+  }
+  return null
+}
+
+/**
+ * Every name the artist goes by, folded for comparison
+ */
+export function getIdentityNames(identity: ArtistIdentity): string[] {
+  return Array.from(new Set([identity.name, ...identity.variations].map(normalizeName)))
+}
+
+/**
+ * One list from several discographies (the artist's and their groups'), first occurrence kept
+ */
+export function mergeDiscographies(...lists: DiscographyEntry[][]): DiscographyEntry[] {
+  const seen = new Set<string>()
+  return lists.flat().filter(entry => {
+    const key = `${entry.type}:${entry.id}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+interface RecordIndex {
+  byMaster: Map<string, VinylRecord[]>
+  byRelease: Map<string, VinylRecord>
+  byTitle: Map<string, VinylRecord[]> // Records without a master id, e.g. synced before it was kept
+}
+
+function indexRecords(records: VinylRecord[]): RecordIndex {
+  const index: RecordIndex = { byMaster: new Map(), byRelease: new Map(), byTitle: new Map() }
+  const add = (map: Map<string, VinylRecord[]>, key: string, record: VinylRecord) =>
+    map.set(key, [...(map.get(key) || []), record])
+
+  records.forEach(record => {
+    index.byRelease.set(record.id, record)
+    if (record.masterId) {
+      add(index.byMaster, record.masterId, record)
+    } else {
+      add(index.byTitle, foldText(record.title), record)
+    }
+  })
+  return index
+}
+
+function findCopies(entry: DiscographyEntry, index: RecordIndex, names: string[]): VinylRecord[] {
+  const byMaster = entry.type === 'master' ? index.byMaster.get(entry.id) : undefined
+  if (byMaster) return byMaster
+
+  const release = index.byRelease.get(
+    entry.type === 'master' ? entry.mainReleaseId || '' : entry.id
+  )
+  if (release) return [release]
+
+  // Same title by the same artist (under any of their names, or as the entry credits them)
+  const artistNames = [...names, normalizeName(entry.artist)]
+  return (index.byTitle.get(foldText(entry.title)) || []).filter(
+    record =>
+      normalizeName(record.artist) === normalizeName(entry.artist) ||
+      getRecordArtists(record).some(artist => artistNames.includes(normalizeName(artist.name)))
+  )
+}
+
+/**
+ * Mark each discography entry as owned, wanted or missing. Copies are found by master, then by
+ * release, then by title for records that don't know their master.
+ */
+export function matchDiscography(
+  entries: DiscographyEntry[],
+  owned: VinylRecord[],
+  wanted: VinylRecord[],
+  artistNames: string[] = []
+): DiscographyItem[] {
+  const ownedIndex = indexRecords(owned)
+  const wantedIndex = indexRecords(wanted)
+
+  return entries.map(entry => {
+    const ownedCopies = findCopies(entry, ownedIndex, artistNames)
+    if (ownedCopies.length > 0) return { entry, status: 'owned', records: ownedCopies }
+
+    const wantedCopies = findCopies(entry, wantedIndex, artistNames)
+    if (wantedCopies.length > 0) return { entry, status: 'wanted', records: wantedCopies }
+
+    return { entry, status: 'missing', records: [] }
+  })
+}
+
+/**
+ * Entries per status
+ */
+export function countByStatus(items: DiscographyItem[]): Record<DiscographyStatus, number> {
+  const counts: Record<DiscographyStatus, number> = { owned: 0, wanted: 0, missing: 0 }
+  items.forEach(item => counts[item.status]++)
+  return counts
+}
+
+/**
+ * Labels across the discography, most entries first
+ */
+export function getDiscographyLabels(items: DiscographyItem[]): ValueCount[] {
+  const counts = new Map<string, number>()
+  items.forEach(item =>
+    new Set(item.entry.labels).forEach(label => counts.set(label, (counts.get(label) || 0) + 1))
+  )
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  )
+}
+
+export function filterDiscography(
+  items: DiscographyItem[],
+  filter: DiscographyFilter
+): DiscographyItem[] {
+  const label = filter.label?.toLowerCase()
+  return items.filter(
+    item =>
+      (!filter.status || item.status === filter.status) &&
+      (!label || item.entry.labels.some(l => l.toLowerCase() === label)) &&
+      (filter.includeGroups || !item.entry.via)
+  )
+}
@@ -0,0 +1,205 @@
+// Faceted filtering: multi-select facets with AND/OR matching and live option counts
+
+import { VinylRecord } from '../data/vinylRecords'
+import { getDecade } from './filterUtils'
+import { getRecordArtists, getLabelNames } from './credits'
+import { getFormatNames } from './pressing'
+
+export type FacetKey = 'genre' | 'style' | 'decade' | 'label' | 'artist' | 'format' | 'country'
+
+// 'or': a record needs any selected value; 'and': it needs all of them
+export type FacetMode = 'or' | 'and'
+
+export interface FacetSelection {
+  values: string[]
+  mode: FacetMode
+}
+
+export type FacetState = Record<FacetKey, FacetSelection>
+
+export interface FacetDefinition {
+  key: FacetKey
+  label: string
+  getValues: (record: VinylRecord) => string[]
+  // Records carry one value at most (one decade, one country), so AND has nothing to combine
+  multiValued: boolean
+  compare?: (a: string, b: string) => number // Option order; most records first when absent
+}
+
+export interface FacetOption {
+  value: string
+  count: number // Records the option leads to, given every other active selection
+  selected: boolean
+}
+
+export type FacetOptions = Record<FacetKey, FacetOption[]>
+
+const byDecade = (a: string, b: string) => parseInt(a, 10) - parseInt(b, 10)
+
+// Panel order
+export const FACETS: FacetDefinition[] = [
+  { key: 'genre', label: 'Genre', getValues: record => record.genres, multiValued: true },
+  { key: 'style', label: 'Style', getValues: record => record.styles || [], multiValued: true },
+  {
+    key: 'decade',
+    label: 'Decade',
+    getValues: record => {
+      const decade = getDecade(record.year)
+      return decade === 'Unknown' ? [] : [decade]
+    },
+    multiValued: false,
+    compare: byDecade,
+  },
+  {
+    key: 'artist',
+    label: 'Artist',
+    getValues: record => getRecordArtists(record).map(artist => artist.name),
+    multiValued: true,
+  },
+  { key: 'label', label: 'Label', getValues: getLabelNames, multiValued: true },
+  { key: 'format', label: 'Format', getValues: getFormatNames, multiValued: true },
+  {
+    key: 'country',
+    label: 'Country',
+    getValues: record => (record.country ? [record.country] : []),
+    multiValued: false,
+  },
+]
+
+export const FACET_KEYS: FacetKey[] = FACETS.map(facet => facet.key)
+
+export function getFacet(key: FacetKey): FacetDefinition {
+  return FACETS.find(facet => facet.key === key) as FacetDefinition
+}
+
+/**
+ * Nothing selected, every facet in OR mode
+ */
+export function createFacetState(): FacetState {
+  return FACET_KEYS.reduce(
+    (state, key) => ({ ...state, [key]: { values: [], mode: 'or' } }),
+    {} as FacetState
+  )
+}
+
+/**
+ * Number of selected values across all facets
+ */
+export function countFacetSelections(state: FacetState): number {
+  return FACET_KEYS.reduce((total, key) => total + state[key].values.length, 0)
+}
+
+/**
+ * Whether a record passes one facet; values compare case-insensitively
+ */
+export function recordMatchesFacet(
+  record: VinylRecord,
+  facet: FacetDefinition,
+  selection: FacetSelection
+): boolean {
+  if (selection.values.length === 0) return true
+  const recordValues = new Set(facet.getValues(record).map(value => value.toLowerCase()))
+  const has = (value: string) => recordValues.has(value.toLowerCase())
+  return selection.mode === 'and' ? selection.values.every(has) : selection.values.some(has)
+}
+
+/**
+ * Records passing every facet, optionally ignoring one (to count that facet's own options)
+ */
+export function applyFacets(
+  records: VinylRecord[],
+  state: FacetState,
+  except?: FacetKey
+): VinylRecord[] {
+  const active = FACETS.filter(facet => facet.key !== except && state[facet.key].values.length > 0)
+  if (active.length === 0) return records
+  return records.filter(record =>
+    active.every(facet => recordMatchesFacet(record, facet, state[facet.key]))
+  )
+}
+
+/**
+ * Options of every facet with live counts. An OR option widens its facet's own selection, so it's
+ * counted against the other facets only; an AND option narrows the current results, so it's
+ * counted within them. Selected values are always listed, even when nothing matches.
+ */
+export function getFacetOptions(records: VinylRecord[], state: FacetState): FacetOptions {
+  const matching = applyFacets(records, state)
+
+  return FACETS.reduce((options, facet) => {
+    const selection = state[facet.key]
+    const pool = selection.mode === 'and' ? matching : applyFacets(records, state, facet.key)
+
+    const counts = new Map<string, { value: string; count: number }>()
+    pool.forEach(record => {
+      const seen = new Set<string>()
+      facet.getValues(record).forEach(value => {
+        const key = value.toLowerCase()
+        if (seen.has(key)) return
+        seen.add(key)
+        const entry = counts.get(key) || { value, count: 0 }
+        entry.count++
+        counts.set(key, entry)
+      })
+    })
+
+    const selected = new Set(selection.values.map(value => value.toLowerCase()))
+    selection.values.forEach(value => {
+      if (!counts.has(value.toLowerCase())) counts.set(value.toLowerCase(), { value, count: 0 })
+    })
+
+    const facetOptions = Array.from(counts.entries())
+      .map(([key, { value, count }]) => ({ value, count, selected: selected.has(key) }))
+      .sort((a, b) =>
+        facet.compare
+          ? facet.compare(a.value, b.value)
+          : b.count - a.count || a.value.localeCompare(b.value)
+      )
+
+    return { ...options, [facet.key]: facetOptions }
+  }, {} as FacetOptions)
+}
+
+/**
+ * Add or remove one value of a facet
+ */
+export function toggleFacetValue(state: FacetState, key: FacetKey, value: string): FacetState {
+  const { values } = state[key]
+  const isSelected = values.some(v => v.toLowerCase() === value.toLowerCase())
+  return {
+    ...state,
+    [key]: {
+      ...state[key],
+      values: isSelected
+        ? values.filter(v => v.toLowerCase() !== value.toLowerCase())
+        : [...values, value],
+    },
+  }
+}
+
+/**
+ * Replace a facet's selection with a single value, or clear it with null
+ */
+export function selectFacetValue(
+  state: FacetState,
+  key: FacetKey,
+  value: string | null
+): FacetState {
+  return { ...state, [key]: { ...state[key], values: value ? [value] : [] } }
+}
+
+/**
+ * Switch a facet between AND and OR; single-valued facets stay OR
+ */
+export function setFacetMode(state: FacetState, key: FacetKey, mode: FacetMode): FacetState {
+  if (!getFacet(key).multiValued) return state
+  return { ...state, [key]: { ...state[key], mode } }
+}
+
+/**
+ * Selected values for titles and messages: "Jazz / Soul" (OR), "Jazz & Soul" (AND); null when empty
+ */
+export function describeFacetSelection(selection: FacetSelection): string | null {
+  if (selection.values.length === 0) return null
+  return selection.values.join(selection.mode === 'and' ? ' & ' : ' / ')
+}
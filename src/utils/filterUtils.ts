@@ -1,4 +1,5 @@
 import { VinylRecord } from '../data/vinylRecords';
+import { getPressingTags } from './pressing';
 
 /**
  * Convert a year to its decade representation
@@ -23,6 +24,39 @@ export function getUniqueGenres(records: VinylRecord[]): string[] {
   return Array.from(genres).sort();
 }
 
+/**
+ * Get all styles grouped under their parent genre.
+ * Discogs doesn't say which genre a style belongs to, so each style goes to the genre it appears
+ * with most; single-genre records count fully, records with several genres are split between them.
+ * @param records - Array of vinyl records
+ * @returns Genres in alphabetical order with their styles, also alphabetical
+ */
+export function getStylesByGenre(records: VinylRecord[]): Array<{ genre: string; styles: string[] }> {
+  const weights = new Map<string, Map<string, number>>();
+  records.forEach(record => {
+    const genres = record.genres.length > 0 ? record.genres : ["Unknown"];
+    (record.styles || []).forEach(style => {
+      const styleWeights = weights.get(style) || new Map<string, number>();
+      genres.forEach(genre => {
+        styleWeights.set(genre, (styleWeights.get(genre) || 0) + 1 / genres.length);
+      });
+      weights.set(style, styleWeights);
+    });
+  });
+
+  const byGenre = new Map<string, string[]>();
+  weights.forEach((styleWeights, style) => {
+    const [parent] = Array.from(styleWeights.entries()).sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    )[0];
+    byGenre.set(parent, [...(byGenre.get(parent) || []), style]);
+  });
+
+  return Array.from(byGenre.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([genre, styles]) => ({ genre, styles: styles.sort() }));
+}
+
 /**
  * Get all unique decades from a collection of records
  * @param records - Array of vinyl records  
@@ -40,6 +74,41 @@ export function getUniqueDecades(records: VinylRecord[]): string[] {
     });
 }
 
+/**
+ * Get all unique collection folders from a collection of records
+ * @param records - Array of vinyl records
+ * @returns Array of folder names sorted naturally ("Shelf 2" before "Shelf 10")
+ */
+export function getUniqueFolders(records: VinylRecord[]): string[] {
+  const folders = new Set(records.flatMap(record => (record.folder ? [record.folder] : [])));
+  return Array.from(folders).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Get all pressing tags (Original/Reissue, Mono/Stereo, 2×LP, 180g...) from a collection of records
+ * @param records - Array of vinyl records
+ * @returns Array of unique tags, most common first
+ */
+export function getUniquePressingTags(records: VinylRecord[]): string[] {
+  const counts = new Map<string, number>();
+  records.forEach(record => {
+    getPressingTags(record).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+/**
+ * Get all unique release countries from a collection of records
+ * @param records - Array of vinyl records
+ * @returns Array of countries sorted alphabetically
+ */
+export function getUniqueCountries(records: VinylRecord[]): string[] {
+  const countries = new Set(records.flatMap(record => (record.country ? [record.country] : [])));
+  return Array.from(countries).sort();
+}
+
 /**
  * Check if a record matches the decade filter
  * @param record - Vinyl record to check
@@ -51,43 +120,95 @@ export function recordMatchesDecade(record: VinylRecord, targetDecade: string):
   return recordDecade === targetDecade;
 }
 
+/**
+ * Labels of the filters currently applied, as shown in the filter title.
+ * Multi-select facets arrive already joined (e.g. "JAZZ / SOUL").
+ */
+export interface ActiveFilterLabels {
+  genre?: string | null;
+  decade?: string | null;
+  folder?: string | null; // Collection folder
+  pressing?: string | null; // Pressing tag (e.g. "Mono")
+  country?: string | null; // Release country
+  artist?: string | null;
+  label?: string | null;
+  person?: string | null; // Leader or sideman
+  style?: string | null; // Shown instead of the genre it narrows
+  format?: string | null; // e.g. "LP"
+}
+
 /**
  * Get filter statistics for display
  * @param records - Full collection of records
  * @param filteredRecords - Records after filtering applied
- * @param activeGenre - Currently active genre filter
- * @param activeDecade - Currently active decade filter
+ * @param active - Labels of the currently active filters
  * @returns Statistics object for UI display
  */
 export function getFilterStats(
   _records: VinylRecord[], 
   filteredRecords: VinylRecord[],
-  activeGenre?: string | null,
-  activeDecade?: string | null
+  active: ActiveFilterLabels = {}
 ) {
+  const {
+    genre: activeGenre,
+    decade: activeDecade,
+    folder: activeFolder,
+    pressing: activePressing,
+    country: activeCountry,
+    artist: activeArtist,
+    label: activeLabel,
+    person: activePerson,
+    style: activeStyle,
+    format: activeFormat
+  } = active;
+
   // Calculate unique artists and genres in filtered results
   const uniqueArtists = new Set(filteredRecords.map(record => record.artist)).size;
   const uniqueGenres = new Set(filteredRecords.flatMap(record => record.genres)).size;
   
-  // Determine filter display text
+  // Determine filter display text; a style is more specific than its genre ("HARD BOP VIBES")
+  const activeGenreText = activeStyle || activeGenre;
   let filterText = "";
-  if (activeGenre && activeDecade) {
+  if (activeGenreText && activeDecade) {
     // Format decade properly: "1980s" not "1980S"
     const formattedDecade = activeDecade.slice(0, -1) + activeDecade.slice(-1).toLowerCase();
-    filterText = `${activeGenre.toUpperCase()} + ${formattedDecade}`;
-  } else if (activeGenre) {
-    filterText = `${activeGenre.toUpperCase()} VIBES`;
+    filterText = `${activeGenreText.toUpperCase()} + ${formattedDecade}`;
+  } else if (activeGenreText) {
+    filterText = `${activeGenreText.toUpperCase()} VIBES`;
   } else if (activeDecade) {
     // Format decade properly: "1980s VIBES" not "1980S VIBES"
     const formattedDecade = activeDecade.slice(0, -1) + activeDecade.slice(-1).toLowerCase();
     filterText = `${formattedDecade} VIBES`;
   }
+
+  // Pressing qualifiers follow: "JAZZ VIBES · MONO · LP · US"
+  const pressingText = [activePressing, activeFormat, activeCountry].filter(Boolean).join(" · ").toUpperCase();
+  if (pressingText) {
+    filterText = filterText ? `${filterText} · ${pressingText}` : pressingText;
+  }
+
+  // Folder, artist, label and person lead the title: "SHELF A" or "SHELF A · BLUE NOTE · JAZZ VIBES"
+  const leadingText = [activeFolder, activeArtist, activeLabel, activePerson].filter(Boolean).join(" · ").toUpperCase();
+  if (leadingText) {
+    filterText = filterText ? `${leadingText} · ${filterText}` : leadingText;
+  }
   
   return {
     totalRecords: filteredRecords.length,
     artists: uniqueArtists,
     genres: uniqueGenres,
     filterText,
-    hasActiveFilters: Boolean(activeGenre || activeDecade)
+    hasActiveFilters: Boolean(
+      activeGenre ||
+        activeDecade ||
+        activeFolder ||
+        activePressing ||
+        activeCountry ||
+        activeArtist ||
+        activeLabel ||
+        activePerson ||
+        activeStyle ||
+        activeFormat
+    )
   };
 }
\ No newline at end of file
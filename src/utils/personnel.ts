@@ -0,0 +1,205 @@
+// Personnel credits (Discogs extraartists): role parsing, grouping and the collection-wide People index
+
+import { VinylRecord, RecordCredit } from '../data/vinylRecords'
+import { getRecordArtists } from './credits'
+
+export type CreditCategory =
+  | 'Musicians'
+  | 'Composition'
+  | 'Production'
+  | 'Engineering'
+  | 'Artwork'
+  | 'Liner Notes'
+  | 'Other'
+
+// Display order on the album page; anything unmatched is an instrument or voice
+export const CREDIT_CATEGORIES: CreditCategory[] = [
+  'Musicians',
+  'Composition',
+  'Production',
+  'Engineering',
+  'Artwork',
+  'Liner Notes',
+  'Other',
+]
+
+// First match wins, so the narrower categories come first
+const CATEGORY_PATTERNS: Array<[CreditCategory, RegExp]> = [
+  ['Liner Notes', /liner notes|^notes/i],
+  ['Artwork', /design|photograph|art direction|artwork|illustrat|painting|lettering|layout|cover/i],
+  [
+    'Engineering',
+    /engineer|recorded by|mastered by|mixed by|remaster|lacquer|cut by|transferred by|edited by/i,
+  ],
+  ['Production', /producer|produced by|supervised by|a&r/i],
+  ['Composition', /written|composed|lyrics|words by|music by|songwriter|arranged by|orchestrated/i],
+  [
+    'Other',
+    /management|legal|copyright|booking|translated|thanks|dedicated|directed by|coordinator/i,
+  ],
+]
+
+// How the leaders of a record show up in the People index
+export const ARTIST_ROLE = 'Artist'
+
+export interface PersonnelEntry {
+  name: string
+  roles: string[] // Display roles, with track ranges: "Trumpet (A1, B2)"
+}
+
+export interface PersonnelGroup {
+  category: CreditCategory
+  people: PersonnelEntry[]
+}
+
+export interface PersonAppearance {
+  record: VinylRecord
+  roles: string[]
+}
+
+export interface PersonIndexEntry {
+  name: string
+  roles: string[] // Every role across the collection, most frequent first
+  categories: CreditCategory[]
+  appearances: PersonAppearance[]
+}
+
+/**
+ * Split a Discogs role into its parts: "Design [Cover], Photography By" -> two roles.
+ * Commas inside brackets ("Photography By [Cover, Liner]") don't split.
+ */
+export function splitCreditRoles(role: string): string[] {
+  const roles: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const char of role) {
+    if (char === '[') depth++
+    if (char === ']') depth = Math.max(0, depth - 1)
+    if (char === ',' && depth === 0) {
+      roles.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  roles.push(current)
+
+  return roles.map(part => part.trim()).filter(Boolean)
+}
+
+/**
+ * Readable form of a single role: "Design [Cover]" -> "Design (Cover)"
+ */
+export function formatCreditRole(role: string): string {
+  return role.replace(/\s*\[([^\]]*)\]/g, ' ($1)').trim()
+}
+
+/**
+ * Category of a single role (not a comma-separated list)
+ */
+export function getCreditCategory(role: string): CreditCategory {
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(role))
+  return match ? match[0] : 'Musicians'
+}
+
+/**
+ * Combine release and master credits; master credits the release already lists are dropped
+ */
+export function mergePersonnel(
+  releaseCredits: RecordCredit[],
+  masterCredits: RecordCredit[]
+): RecordCredit[] {
+  const key = (credit: RecordCredit) =>
+    [credit.name, credit.role, credit.tracks || ''].join('|').toLowerCase()
+  const seen = new Set(releaseCredits.map(key))
+  return [...releaseCredits, ...masterCredits.filter(credit => !seen.has(key(credit)))]
+}
+
+/**
+ * Group credits by category for display, one entry per person with all their roles
+ */
+export function groupPersonnel(credits: RecordCredit[] = []): PersonnelGroup[] {
+  const groups = new Map<CreditCategory, Map<string, PersonnelEntry>>()
+
+  credits.forEach(credit => {
+    splitCreditRoles(credit.role).forEach(role => {
+      const category = getCreditCategory(role)
+      const people = groups.get(category) || new Map<string, PersonnelEntry>()
+      groups.set(category, people)
+
+      // Canonical names, so the album page agrees with the People index and the person filter
+      const name = credit.name
+      const entry = people.get(name.toLowerCase()) || { name, roles: [] }
+      const label = formatCreditRole(role) + (credit.tracks ? ` (${credit.tracks})` : '')
+      if (!entry.roles.includes(label)) entry.roles.push(label)
+      people.set(name.toLowerCase(), entry)
+    })
+  })
+
+  return CREDIT_CATEGORIES.filter(category => groups.has(category)).map(category => ({
+    category,
+    people: Array.from(groups.get(category)?.values() || []),
+  }))
+}
+
+/**
+ * Whether a person is credited on the record, as leader or in the personnel
+ */
+export function recordHasPerson(record: VinylRecord, name: string): boolean {
+  const target = name.toLowerCase()
+  const matches = (person: { name: string; creditedName?: string }) =>
+    person.name.toLowerCase() === target || person.creditedName?.toLowerCase() === target
+  return getRecordArtists(record).some(matches) || (record.personnel || []).some(matches)
+}
+
+/**
+ * Every credited person across the records with the records they appear on,
+ * most prolific first. Leaders are listed with the "Artist" role next to their sidemen work.
+ */
+export function buildPeopleIndex(records: VinylRecord[]): PersonIndexEntry[] {
+  const people = new Map<
+    string,
+    { name: string; roleCounts: Map<string, number>; appearances: Map<string, PersonAppearance> }
+  >()
+
+  const addRole = (name: string, record: VinylRecord, role: string) => {
+    const key = name.toLowerCase()
+    const person = people.get(key) || { name, roleCounts: new Map(), appearances: new Map() }
+    people.set(key, person)
+
+    const appearance = person.appearances.get(record.id) || { record, roles: [] }
+    person.appearances.set(record.id, appearance)
+
+    if (!appearance.roles.includes(role)) {
+      appearance.roles.push(role)
+      person.roleCounts.set(role, (person.roleCounts.get(role) || 0) + 1)
+    }
+  }
+
+  records.forEach(record => {
+    const personnel = record.personnel || []
+    getRecordArtists(record).forEach(artist => addRole(artist.name, record, ARTIST_ROLE))
+    personnel.forEach(credit => {
+      splitCreditRoles(credit.role).forEach(role =>
+        addRole(credit.name, record, formatCreditRole(role))
+      )
+    })
+  })
+
+  return Array.from(people.values())
+    .map(person => {
+      const roles = Array.from(person.roleCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([role]) => role)
+      return {
+        name: person.name,
+        roles,
+        categories: CREDIT_CATEGORIES.filter(category =>
+          roles.some(role => role !== ARTIST_ROLE && getCreditCategory(role) === category)
+        ),
+        appearances: Array.from(person.appearances.values()),
+      }
+    })
+    .sort((a, b) => b.appearances.length - a.appearances.length || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,140 @@
+// Derived pressing facts (edition, mono/stereo, weight...) from a release's formats
+
+import { VinylRecord, RecordFormat, RecordIdentifier } from '../data/vinylRecords'
+
+export type EditionType = 'Original' | 'Reissue'
+export type ChannelMode = 'Mono' | 'Stereo'
+
+// Discogs format descriptions that mark a later pressing
+const REISSUE_DESCRIPTIONS = ['Reissue', 'Repress']
+
+// Descriptions worth filtering on as-is
+const TAGGED_DESCRIPTIONS = [
+  '7"',
+  '10"',
+  '12"',
+  'EP',
+  'Single',
+  'Limited Edition',
+  'Numbered',
+  'Picture Disc',
+  'Test Pressing',
+  'Promo',
+]
+
+// Descriptions that say what kind of release it is, as opposed to how it was pressed
+const FORMAT_DESCRIPTIONS = [
+  'LP',
+  'EP',
+  'Single',
+  'Album',
+  'Compilation',
+  'Mini-Album',
+  '7"',
+  '10"',
+  '12"',
+]
+
+export const MATRIX_IDENTIFIER = 'Matrix / Runout'
+
+function getDescriptions(record: VinylRecord): string[] {
+  return (record.formats || []).flatMap(format => format.descriptions)
+}
+
+/**
+ * Human-readable format line, e.g. "2×Vinyl, LP, Album, Reissue, 180g"
+ */
+export function formatFormatLabel(format: RecordFormat): string {
+  const name =
+    format.quantity && format.quantity > 1 ? `${format.quantity}×${format.name}` : format.name
+  return [name, ...format.descriptions, format.text].filter(Boolean).join(', ')
+}
+
+/**
+ * Whether the record is an original pressing or a reissue.
+ * Reissue/Repress descriptions win; otherwise the release year is compared to the original year.
+ */
+export function getEditionType(record: VinylRecord): EditionType | undefined {
+  if (getDescriptions(record).some(d => REISSUE_DESCRIPTIONS.includes(d))) return 'Reissue'
+
+  const releaseYear = parseInt(record.releaseDate || '', 10)
+  const originalYear = parseInt(record.recordingDate || '', 10)
+  if (isNaN(releaseYear) || isNaN(originalYear)) return undefined
+
+  return releaseYear > originalYear ? 'Reissue' : 'Original'
+}
+
+/**
+ * Mono or stereo, when the format says so
+ */
+export function getChannelMode(record: VinylRecord): ChannelMode | undefined {
+  const descriptions = getDescriptions(record)
+  if (descriptions.includes('Mono')) return 'Mono'
+  if (descriptions.includes('Stereo')) return 'Stereo'
+  return undefined
+}
+
+/**
+ * Vinyl weight from the format text or descriptions, e.g. "180g"
+ */
+export function getVinylWeight(record: VinylRecord): string | undefined {
+  for (const format of record.formats || []) {
+    for (const value of [format.text, ...format.descriptions]) {
+      const match = value?.match(/\b(\d{3})\s*(?:g|gr|gram|grams)\b/i)
+      if (match) return `${match[1]}g`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Filterable pressing tags, e.g. ["Reissue", "Mono", "2×LP", "180g"]
+ */
+export function getPressingTags(record: VinylRecord): string[] {
+  const tags: string[] = []
+
+  const edition = getEditionType(record)
+  if (edition) tags.push(edition)
+
+  const channels = getChannelMode(record)
+  if (channels) tags.push(channels)
+
+  for (const format of record.formats || []) {
+    if (format.descriptions.includes('LP')) {
+      tags.push(format.quantity && format.quantity > 1 ? `${format.quantity}×LP` : 'LP')
+    }
+    tags.push(...format.descriptions.filter(d => TAGGED_DESCRIPTIONS.includes(d)))
+  }
+
+  const weight = getVinylWeight(record)
+  if (weight) tags.push(weight)
+
+  return Array.from(new Set(tags))
+}
+
+/**
+ * Media and release kinds for the format facet, e.g. ["Vinyl", "LP", "Album", "12\""]
+ */
+export function getFormatNames(record: VinylRecord): string[] {
+  const names = (record.formats || []).flatMap(format => [
+    format.name,
+    ...format.descriptions.filter(d => FORMAT_DESCRIPTIONS.includes(d)),
+  ])
+  return Array.from(new Set(names.filter(Boolean)))
+}
+
+/**
+ * Identifiers grouped by type, matrix/runout first
+ */
+export function groupIdentifiers(
+  identifiers: RecordIdentifier[] = []
+): [string, RecordIdentifier[]][] {
+  const groups = new Map<string, RecordIdentifier[]>()
+  identifiers.forEach(identifier => {
+    groups.set(identifier.type, [...(groups.get(identifier.type) || []), identifier])
+  })
+
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a === MATRIX_IDENTIFIER ? -1 : b === MATRIX_IDENTIFIER ? 1 : 0
+  )
+}
@@ -0,0 +1,87 @@
+// Helpers for adapting request pacing to an API's rate-limit budget
+
+export interface RateLimitBudget {
+  limit: number // Requests allowed per window
+  used: number
+  remaining: number
+}
+
+export interface ThrottlePlan {
+  concurrency: number // Requests allowed in flight at once
+  pauseMs: number // How long to stop sending requests (0 = keep going)
+}
+
+const DEFAULT_WINDOW_MS = 60 * 1000
+
+/**
+ * Read the Discogs rate-limit headers (x-discogs-ratelimit, -used, -remaining)
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, unknown> | undefined
+): RateLimitBudget | null {
+  if (!headers) return null
+
+  const remaining = Number(headers['x-discogs-ratelimit-remaining'])
+  if (headers['x-discogs-ratelimit-remaining'] === undefined || isNaN(remaining)) return null
+
+  const used = Number(headers['x-discogs-ratelimit-used'])
+  const limit = Number(headers['x-discogs-ratelimit'])
+
+  return {
+    remaining,
+    used: isNaN(used) ? 0 : used,
+    limit: isNaN(limit) || limit <= 0 ? remaining + (isNaN(used) ? 0 : used) : limit,
+  }
+}
+
+/**
+ * Convert a Retry-After header (delta seconds or HTTP date) to milliseconds
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (value === undefined || value === null || value === '') return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(String(value))
+  if (!isNaN(date)) {
+    return Math.max(0, date - now)
+  }
+
+  return null
+}
+
+/**
+ * Decide how hard to push given the remaining budget.
+ * Full speed above half the budget, tapering to one request at a time, and a pause
+ * once only a small reserve is left so the moving window can recover.
+ */
+export function planThrottle(
+  budget: RateLimitBudget,
+  maxConcurrency: number,
+  windowMs: number = DEFAULT_WINDOW_MS
+): ThrottlePlan {
+  const { limit, remaining } = budget
+  if (limit <= 0) return { concurrency: maxConcurrency, pauseMs: 0 }
+
+  const reserve = Math.max(2, Math.ceil(limit * 0.05))
+  const ratio = remaining / limit
+
+  if (remaining <= reserve) {
+    // Wait roughly as long as it takes the window to free up enough requests to exit the reserve
+    const msPerRequest = Math.ceil(windowMs / limit)
+    return { concurrency: 1, pauseMs: msPerRequest * (reserve - remaining + 1) }
+  }
+
+  if (ratio < 0.25) {
+    return { concurrency: 1, pauseMs: 0 }
+  }
+
+  if (ratio < 0.5) {
+    return { concurrency: Math.max(1, Math.floor(maxConcurrency / 2)), pauseMs: 0 }
+  }
+
+  return { concurrency: maxConcurrency, pauseMs: 0 }
+}
@@ -0,0 +1,66 @@
+// Helpers for looking up pressings on Discogs when adding a record
+
+export type RecordSearchMode = 'barcode' | 'catno' | 'text'
+
+export interface PressingSummary {
+  format?: string[]
+  country?: string
+  label?: string[]
+  catno?: string
+  year?: string
+}
+
+/**
+ * Keep only the digits of a scanned or typed barcode ("0 77774 6346 2 9" -> "077774634629")
+ */
+export function normalizeBarcode(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+/**
+ * Guess the search mode from the query: UPC/EAN-length digit strings are barcodes
+ */
+export function detectSearchMode(query: string): RecordSearchMode {
+  const trimmed = query.trim()
+  if (/^[\d\s-]+$/.test(trimmed)) {
+    const digits = normalizeBarcode(trimmed)
+    if (digits.length >= 8 && digits.length <= 14) return 'barcode'
+  }
+  return 'text'
+}
+
+/**
+ * Discogs database search parameters for a query in the given mode (vinyl releases only)
+ */
+export function buildSearchParams(query: string, mode: RecordSearchMode): Record<string, string> {
+  const params: Record<string, string> = { type: 'release', format: 'Vinyl' }
+  const trimmed = query.trim()
+
+  if (mode === 'barcode') {
+    params.barcode = normalizeBarcode(trimmed)
+  } else if (mode === 'catno') {
+    params.catno = trimmed
+  } else {
+    params.q = trimmed
+  }
+
+  return params
+}
+
+/**
+ * One-line description of a candidate pressing, e.g. "LP, Album, Reissue · US · Blue Note · BST 84157 · 1966"
+ */
+export function formatPressingSummary(pressing: PressingSummary): string {
+  // "Vinyl" is implied by the search; the rest of the format list carries the detail
+  const formats = (pressing.format || []).filter(format => format !== 'Vinyl')
+
+  return [
+    formats.join(', '),
+    pressing.country,
+    pressing.label?.[0],
+    pressing.catno && pressing.catno !== 'none' ? pressing.catno : undefined,
+    pressing.year && pressing.year !== '0' ? pressing.year : undefined,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
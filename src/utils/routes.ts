@@ -0,0 +1,66 @@
+// Client-side routes: which page a URL path shows, and the path for a page
+
+export type Route =
+  | { page: 'collection' }
+  | { page: 'album'; id: string }
+  | { page: 'artist'; name: string }
+  | { page: 'label'; name: string }
+  | { page: 'genre'; name: string }
+  | { page: 'stats' }
+  | { page: 'people' }
+  | { page: 'tracks' }
+
+// Pages named by their last path segment: /artist/Art%20Blakey
+type NamedPage = 'artist' | 'label' | 'genre'
+
+export const COLLECTION_ROUTE: Route = { page: 'collection' }
+
+const NAMED_PAGES: NamedPage[] = ['artist', 'label', 'genre']
+const PLAIN_PAGES = ['stats', 'people', 'tracks'] as const
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null // Malformed escape, e.g. a hand-edited "%E"
+  }
+}
+
+/**
+ * Page for a URL path; null when nothing lives there
+ */
+export function parseRoute(pathname: string): Route | null {
+  const segments = pathname.split('/').filter(Boolean)
+  if (segments.length === 0) return COLLECTION_ROUTE
+
+  const [page, ...rest] = segments
+  if (rest.length === 0) {
+    const plain = PLAIN_PAGES.find(name => name === page)
+    return plain ? { page: plain } : null
+  }
+  if (rest.length !== 1) return null
+
+  const value = decodeSegment(rest[0])
+  if (!value) return null
+  if (page === 'album') return { page: 'album', id: value }
+  const named = NAMED_PAGES.find(name => name === page)
+  return named ? { page: named, name: value } : null
+}
+
+/**
+ * URL path for a page: { page: 'label', name: 'Blue Note' } -> "/label/Blue%20Note"
+ */
+export function buildPath(route: Route): string {
+  switch (route.page) {
+    case 'collection':
+      return '/'
+    case 'album':
+      return `/album/${encodeURIComponent(route.id)}`
+    case 'artist':
+    case 'label':
+    case 'genre':
+      return `/${route.page}/${encodeURIComponent(route.name)}`
+    default:
+      return `/${route.page}`
+  }
+}
@@ -0,0 +1,236 @@
+// Ranked full-text search over the collection: accent folding, prefix and typo-tolerant matching,
+// field weights, and incremental updates when records change
+
+import { VinylRecord, Track } from '../data/vinylRecords'
+import { getRecordArtists, getLabelNames } from './credits'
+import { getListedTracks } from './tracklist'
+
+export type SearchField = 'title' | 'artist' | 'personnel' | 'label' | 'track' | 'genre'
+
+// How much a match in each field counts towards relevance
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  artist: 4,
+  personnel: 2,
+  label: 2,
+  track: 1.5,
+  genre: 1,
+}
+
+// Match quality, multiplied by the field weight
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.7
+const TYPO_MATCH = 0.5 // Per edit less
+
+// Letters NFKD doesn't take apart
+const FOLDED_LETTERS: Record<string, string> = {
+  ø: 'o',
+  æ: 'ae',
+  œ: 'oe',
+  ß: 'ss',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+}
+
+export interface SearchResult {
+  id: string
+  score: number
+}
+
+interface IndexedRecord {
+  record: VinylRecord // Identity tells whether the record changed since it was indexed
+  tokens: Map<string, number> // Token -> best field weight
+}
+
+/**
+ * Lowercase, accents removed: "Björk" -> "bjork", "Sigur Rós" -> "sigur ros"
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[øæœßłđðþı]/g, letter => FOLDED_LETTERS[letter])
+}
+
+/**
+ * Folded words; apostrophes are dropped so "What's" is one word
+ */
+export function tokenizeText(text: string): string[] {
+  return foldText(text)
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Edit distance with adjacent transpositions ("thelonoius" is one edit from "thelonious").
+ * Gives up early and returns max + 1 once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1)
+      }
+      next.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previousRow = row
+    row = next
+  }
+  return row[b.length]
+}
+
+// Short words only match exactly or by prefix; longer ones allow more typos
+function allowedEdits(token: string): number {
+  if (token.length < 4) return 0
+  return token.length < 8 ? 1 : 2
+}
+
+/**
+ * How well a query word matches an indexed word: exact, prefix, within a few typos, or 0
+ */
+export function scoreTokenMatch(queryToken: string, token: string): number {
+  if (token === queryToken) return EXACT_MATCH
+  if (token.startsWith(queryToken)) return PREFIX_MATCH
+
+  const maxEdits = allowedEdits(queryToken)
+  if (maxEdits === 0) return 0
+  const edits = editDistance(queryToken, token, maxEdits)
+  return edits <= maxEdits ? TYPO_MATCH - 0.1 * (edits - 1) : 0
+}
+
+function getTrackTitles(tracks: Track[] = []): string[] {
+  return tracks.flatMap(track => [track.title, ...getTrackTitles(track.subTracks)])
+}
+
+function getFieldTexts(record: VinylRecord): Array<[SearchField, string[]]> {
+  return [
+    ['title', [record.title]],
+    ['artist', [record.artist, ...getRecordArtists(record).map(artist => artist.name)]],
+    ['personnel', (record.personnel || []).map(credit => credit.name)],
+    ['label', getLabelNames(record)],
+    ['track', getTrackTitles(getListedTracks(record.tracks))],
+    ['genre', [...record.genres, ...(record.styles || [])]],
+  ]
+}
+
+function indexRecord(record: VinylRecord): IndexedRecord {
+  const tokens = new Map<string, number>()
+  getFieldTexts(record).forEach(([field, texts]) => {
+    const weight = SEARCH_FIELD_WEIGHTS[field]
+    texts.forEach(text =>
+      tokenizeText(text).forEach(token => {
+        tokens.set(token, Math.max(tokens.get(token) || 0, weight))
+      })
+    )
+  })
+  return { record, tokens }
+}
+
+/**
+ * Inverted index over the collection. `update` only re-indexes records that were added,
+ * replaced or removed since the last update.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedRecord>()
+  private postings = new Map<string, Map<string, number>>() // Token -> record id -> weight
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * Bring the index in line with the records; unchanged records (same object) are skipped
+   */
+  update(records: VinylRecord[]): void {
+    const ids = new Set(records.map(record => record.id))
+    this.documents.forEach((_, id) => {
+      if (!ids.has(id)) this.remove(id)
+    })
+
+    records.forEach(record => {
+      const indexed = this.documents.get(record.id)
+      if (indexed?.record === record) return
+      if (indexed) this.remove(record.id)
+      this.add(record)
+    })
+  }
+
+  /**
+   * Records matching every word of the text, best first. Words also match the start of longer
+   * words, so results follow along while typing.
+   */
+  search(text: string): SearchResult[] {
+    const queryTokens = tokenizeText(text)
+    if (queryTokens.length === 0) return []
+
+    let scores: Map<string, number> | null = null
+    for (const queryToken of queryTokens) {
+      const tokenScores = this.scoreToken(queryToken)
+      if (scores === null) {
+        scores = tokenScores
+      } else {
+        const combined = new Map<string, number>()
+        scores.forEach((score, id) => {
+          const tokenScore = tokenScores.get(id)
+          if (tokenScore !== undefined) combined.set(id, score + tokenScore)
+        })
+        scores = combined
+      }
+      if (scores.size === 0) break
+    }
+
+    return Array.from((scores || new Map<string, number>()).entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private add(record: VinylRecord) {
+    const indexed = indexRecord(record)
+    this.documents.set(record.id, indexed)
+    indexed.tokens.forEach((weight, token) => {
+      const posting = this.postings.get(token) || new Map<string, number>()
+      posting.set(record.id, weight)
+      this.postings.set(token, posting)
+    })
+  }
+
+  private remove(id: string) {
+    this.documents.get(id)?.tokens.forEach((_, token) => {
+      const posting = this.postings.get(token)
+      posting?.delete(id)
+      if (posting?.size === 0) this.postings.delete(token)
+    })
+    this.documents.delete(id)
+  }
+
+  // Best match per record for one query word: exact, then prefix, then within a few typos
+  private scoreToken(queryToken: string): Map<string, number> {
+    const scores = new Map<string, number>()
+
+    this.postings.forEach((posting, token) => {
+      const quality = scoreTokenMatch(queryToken, token)
+      if (quality === 0) return
+
+      posting.forEach((weight, id) => {
+        scores.set(id, Math.max(scores.get(id) || 0, quality * weight))
+      })
+    })
+
+    return scores
+  }
+}
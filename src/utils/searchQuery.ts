@@ -0,0 +1,604 @@
+// Search box query language: `artist:"Art Blakey" year:1958..1965 -genre:Funk rating:>=4 played:never`
+//
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary ("AND"? unary)*
+//   unary   := ("-" | "NOT") unary | "(" or ")" | term
+//   term    := field ":" value | value
+//
+// Values are words or "quoted phrases". Number fields take `4`, `>=4`, `<1960` or ranges
+// `1958..1965` (either end may be left open). Text matches are case-insensitive substrings.
+// Words with a colon that isn't a field ("Re:Stacks") need quotes.
+
+import { VinylRecord } from '../data/vinylRecords'
+import { getDecade } from './filterUtils'
+import { getRecordArtists, getLabelNames, getRecordLabels } from './credits'
+import { getFormatNames } from './pressing'
+import { editDistance, foldText } from './searchIndex'
+
+export type QueryFieldKind = 'text' | 'number' | 'played'
+
+export interface QueryField {
+  name: string
+  aliases?: string[]
+  kind: QueryFieldKind
+  description: string
+  getValues?: (record: VinylRecord) => string[] // Text fields
+  getNumber?: (record: VinylRecord) => number | undefined // Number fields
+  hasValue?: (record: VinylRecord) => boolean // Suggested only if some record has a value
+}
+
+export type Comparison = '=' | '>' | '>=' | '<' | '<='
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string } // Free text over title, artists, labels, genres and styles
+  | { type: 'field'; field: string; value: string }
+  | { type: 'compare'; field: string; op: Comparison; value: number }
+  | { type: 'range'; field: string; min?: number; max?: number }
+  | { type: 'played'; played: boolean }
+
+export interface QueryError {
+  message: string
+  start: number // Offsets into the query, for pointing at the problem
+  end: number
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null // null for an empty query; terms with errors are left out
+  errors: QueryError[]
+}
+
+export interface QuerySuggestion {
+  label: string
+  description?: string
+  insertText: string
+  start: number // Range of the query the suggestion replaces
+  end: number
+}
+
+const PLAYED_VALUES: Record<string, boolean> = { never: false, no: false, yes: true, ever: true }
+
+export const QUERY_FIELDS: QueryField[] = [
+  {
+    name: 'artist',
+    kind: 'text',
+    description: 'Any credited artist',
+    getValues: record => [record.artist, ...getRecordArtists(record).map(artist => artist.name)],
+  },
+  {
+    name: 'title',
+    aliases: ['album'],
+    kind: 'text',
+    description: 'Album title',
+    getValues: record => [record.title],
+  },
+  { name: 'label', kind: 'text', description: 'Label or company', getValues: getLabelNames },
+  {
+    name: 'catno',
+    aliases: ['cat'],
+    kind: 'text',
+    description: 'Catalog number',
+    getValues: record => [
+      record.catalogNumber,
+      ...getRecordLabels(record).map(label => label.catalogNumber || ''),
+    ],
+  },
+  { name: 'genre', kind: 'text', description: 'Genre', getValues: record => record.genres },
+  {
+    name: 'style',
+    kind: 'text',
+    description: 'Style, e.g. Hard Bop',
+    getValues: record => record.styles || [],
+  },
+  {
+    name: 'decade',
+    kind: 'text',
+    description: 'Decade, e.g. 1960s',
+    getValues: record => [getDecade(record.year)],
+  },
+  { name: 'format', kind: 'text', description: 'Format, e.g. LP', getValues: getFormatNames },
+  {
+    name: 'country',
+    kind: 'text',
+    description: 'Release country',
+    getValues: record => (record.country ? [record.country] : []),
+  },
+  {
+    name: 'person',
+    aliases: ['with'],
+    kind: 'text',
+    description: 'Anyone in the personnel',
+    getValues: record => [
+      ...getRecordArtists(record).map(artist => artist.name),
+      ...(record.personnel || []).map(credit => credit.name),
+    ],
+  },
+  {
+    name: 'folder',
+    kind: 'text',
+    description: 'Collection folder',
+    getValues: record => (record.folder ? [record.folder] : []),
+  },
+  {
+    name: 'year',
+    kind: 'number',
+    description: 'Year, e.g. 1958..1965 or >=1960',
+    getNumber: record => {
+      const year = parseInt(record.year, 10)
+      return isNaN(year) ? undefined : year
+    },
+  },
+  {
+    name: 'rating',
+    kind: 'number',
+    description: 'Your rating, 1-5',
+    getNumber: record => record.rating,
+    hasValue: record => record.rating !== undefined,
+  },
+  {
+    name: 'plays',
+    kind: 'number',
+    description: 'Times played',
+    getNumber: record => record.playCount || 0,
+    hasValue: record => record.playCount !== undefined,
+  },
+  {
+    name: 'played',
+    kind: 'played',
+    description: 'never or yes',
+    hasValue: record => record.playCount !== undefined,
+  },
+]
+
+/**
+ * Field by name or alias
+ */
+export function getQueryField(name: string): QueryField | undefined {
+  const key = name.toLowerCase()
+  return QUERY_FIELDS.find(field => field.name === key || field.aliases?.includes(key))
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'not' | 'or' | 'and'; start: number; end: number }
+  | { type: 'term'; field?: string; value: string; start: number; end: number }
+
+interface Tokenized {
+  tokens: Token[]
+  errors: QueryError[]
+}
+
+function tokenize(query: string): Tokenized {
+  const tokens: Token[] = []
+  const errors: QueryError[] = []
+  let i = 0
+
+  const readQuoted = (): string => {
+    const open = i
+    i++ // Opening quote
+    const close = query.indexOf('"', i)
+    if (close === -1) {
+      errors.push({ message: 'Missing closing quote', start: open, end: query.length })
+      const value = query.slice(i)
+      i = query.length
+      return value
+    }
+    const value = query.slice(i, close)
+    i = close + 1
+    return value
+  }
+
+  const readWord = (): string => {
+    const start = i
+    while (i < query.length && !/[\s()]/.test(query[i])) i++
+    return query.slice(start, i)
+  }
+
+  while (i < query.length) {
+    const char = query[i]
+    const start = i
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start, end: ++i })
+    } else if (char === '-' && i + 1 < query.length && !/[\s-]/.test(query[i + 1])) {
+      tokens.push({ type: 'not', start, end: ++i })
+    } else if (char === '"') {
+      const value = readQuoted()
+      tokens.push({ type: 'term', value, start, end: i })
+    } else {
+      const fieldMatch = query.slice(i).match(/^([a-zA-Z]+):/)
+      if (fieldMatch) {
+        i += fieldMatch[0].length
+        const value = query[i] === '"' ? readQuoted() : readWord()
+        tokens.push({ type: 'term', field: fieldMatch[1], value, start, end: i })
+      } else {
+        const word = readWord()
+        if (word === 'OR' || word === 'AND' || word === 'NOT') {
+          tokens.push({ type: word.toLowerCase() as 'or' | 'and' | 'not', start, end: i })
+        } else {
+          tokens.push({ type: 'term', value: word, start, end: i })
+        }
+      }
+    }
+  }
+
+  return { tokens, errors }
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+function parseNumberValue(
+  field: QueryField,
+  value: string
+): Extract<QueryNode, { type: 'compare' | 'range' }> | null {
+  const range = value.match(/^(\d+(?:\.\d+)?)?\.\.(\d+(?:\.\d+)?)?$/)
+  if (range && (range[1] || range[2])) {
+    return {
+      type: 'range',
+      field: field.name,
+      min: range[1] ? Number(range[1]) : undefined,
+      max: range[2] ? Number(range[2]) : undefined,
+    }
+  }
+
+  const compare = value.match(/^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/)
+  if (compare) {
+    return {
+      type: 'compare',
+      field: field.name,
+      op: (compare[1] as Comparison) || '=',
+      value: Number(compare[2]),
+    }
+  }
+
+  return null
+}
+
+function parseTerm(
+  token: Extract<Token, { type: 'term' }>,
+  errors: QueryError[]
+): QueryNode | null {
+  const fail = (message: string) => {
+    errors.push({ message, start: token.start, end: token.end })
+    return null
+  }
+
+  if (token.field === undefined) {
+    return token.value ? { type: 'text', value: token.value } : null
+  }
+
+  const field = getQueryField(token.field)
+  if (!field) {
+    const closest = QUERY_FIELDS.map(f => f.name).find(
+      name => editDistance(name, token.field?.toLowerCase() || '', 2) <= 2
+    )
+    return fail(
+      closest
+        ? `Unknown field "${token.field}" — did you mean "${closest}"?`
+        : `Unknown field "${token.field}" — put text with a colon in quotes`
+    )
+  }
+
+  if (!token.value) return fail(`${field.name}: needs a value`)
+
+  if (field.kind === 'number') {
+    const node = parseNumberValue(field, token.value)
+    if (!node) {
+      return fail(
+        `${field.name}: expects a number, a comparison like >=4 or a range like 1958..1965`
+      )
+    }
+    if (
+      node.type === 'range' &&
+      node.min !== undefined &&
+      node.max !== undefined &&
+      node.min > node.max
+    ) {
+      return fail(`${field.name}: range runs backwards — did you mean ${node.max}..${node.min}?`)
+    }
+    return node
+  }
+
+  if (field.kind === 'played') {
+    const played = PLAYED_VALUES[token.value.toLowerCase()]
+    if (played === undefined) return fail('played: expects "never" or "yes"')
+    return { type: 'played', played }
+  }
+
+  return { type: 'field', field: field.name, value: token.value }
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null
+  return children.length === 1 ? children[0] : { type, children }
+}
+
+/**
+ * Parse a search query into an AST. Never throws: problems are reported as errors and the
+ * offending terms are left out, so the rest of the query keeps filtering while it's being typed.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const { tokens, errors } = tokenize(input)
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = []
+    const first = parseAnd()
+    if (first) children.push(first)
+    while (peek()?.type === 'or') {
+      const or = tokens[position++]
+      const next = parseAnd()
+      if (next) children.push(next)
+      else errors.push({ message: 'OR needs a term on both sides', start: or.start, end: or.end })
+    }
+    return combine('or', children)
+  }
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = []
+    while (position < tokens.length) {
+      const token = peek()
+      if (token.type === 'or' || token.type === 'rparen') break
+      if (token.type === 'and') {
+        position++
+        continue
+      }
+      const node = parseUnary()
+      if (node) children.push(node)
+    }
+    return combine('and', children)
+  }
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++]
+
+    if (token.type === 'not') {
+      const next = peek()
+      if (!next || next.type === 'rparen' || next.type === 'or') {
+        errors.push({ message: 'Nothing to exclude after "-"', start: token.start, end: token.end })
+        return null
+      }
+      const child = parseUnary()
+      return child ? { type: 'not', child } : null
+    }
+
+    if (token.type === 'lparen') {
+      const node = parseOr()
+      if (peek()?.type === 'rparen') {
+        position++
+      } else {
+        errors.push({
+          message: 'Missing closing parenthesis',
+          start: token.start,
+          end: input.length,
+        })
+      }
+      return node
+    }
+
+    if (token.type === 'term') return parseTerm(token, errors)
+
+    // A stray ")" ("and"/"or" are consumed by their callers)
+    errors.push({
+      message: `Unexpected "${input.slice(token.start, token.end)}"`,
+      start: token.start,
+      end: token.end,
+    })
+    return null
+  }
+
+  const nodes: QueryNode[] = []
+  while (position < tokens.length) {
+    const node = parseOr()
+    if (node) nodes.push(node)
+    // parseOr stops at a ")" without a matching "("
+    if (peek()?.type === 'rparen') {
+      const token = tokens[position++]
+      errors.push({ message: 'Unexpected ")"', start: token.start, end: token.end })
+    }
+  }
+
+  return { ast: combine('and', nodes), errors }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Free text a record is searched for, leaving out excluded terms; these decide relevance
+ */
+export function getQueryTexts(node: QueryNode | null): string[] {
+  if (!node) return []
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getQueryTexts)
+    case 'text':
+      return [node.value]
+    default:
+      return []
+  }
+}
+
+/**
+ * Plain substring match over title, artists, labels, genres and styles (accent-insensitive)
+ */
+export function recordMatchesText(record: VinylRecord, text: string): boolean {
+  const term = foldText(text)
+  return [
+    record.title,
+    record.artist,
+    ...getRecordArtists(record).map(artist => artist.name),
+    ...getLabelNames(record),
+    ...record.genres,
+    ...(record.styles || []),
+  ].some(value => foldText(value).includes(term))
+}
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+  switch (op) {
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    default:
+      return actual === expected
+  }
+}
+
+/**
+ * Whether a record satisfies a parsed query. Free text goes through `matchText`, so a search
+ * index can stand in for the plain substring match.
+ */
+export function recordMatchesQuery(
+  record: VinylRecord,
+  node: QueryNode,
+  matchText: (record: VinylRecord, text: string) => boolean = recordMatchesText
+): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => recordMatchesQuery(record, child, matchText))
+    case 'or':
+      return node.children.some(child => recordMatchesQuery(record, child, matchText))
+    case 'not':
+      return !recordMatchesQuery(record, node.child, matchText)
+    case 'text':
+      return matchText(record, node.value)
+    case 'field': {
+      // Accent-insensitive, so artist:bjork finds Björk
+      const value = foldText(node.value)
+      const values = getQueryField(node.field)?.getValues?.(record) || []
+      return values.some(v => foldText(v).includes(value))
+    }
+    case 'compare':
+    case 'range': {
+      const actual = getQueryField(node.field)?.getNumber?.(record)
+      if (actual === undefined) return false
+      if (node.type === 'compare') return compare(actual, node.op, node.value)
+      return (
+        (node.min === undefined || actual >= node.min) &&
+        (node.max === undefined || actual <= node.max)
+      )
+    }
+    case 'played':
+      return (record.playCount || 0) > 0 === node.played
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+// ---------------------------------------------------------------------------
+
+const MAX_SUGGESTIONS = 8
+
+const quoteIfNeeded = (value: string) =>
+  /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+
+/**
+ * Suggestions for the word at the cursor: field names while typing a bare word,
+ * values from the collection once a field is typed ("label:blu" -> label:"Blue Note")
+ */
+export function getQuerySuggestions(
+  input: string,
+  cursor: number,
+  records: VinylRecord[]
+): QuerySuggestion[] {
+  // The word being typed runs back from the cursor to whitespace or a parenthesis
+  const before = input.slice(0, cursor)
+  const match = before.match(/(-?)([a-zA-Z]+:)?("?)([^\s()"]*)$/)
+  if (!match) return []
+
+  const [whole, negation, fieldPart, quote, partial] = match
+  const start = cursor - whole.length + negation.length
+  // Replace up to the end of the word, so suggestions work mid-query
+  const rest = input.slice(cursor).match(/^[^\s()]*/)
+  const end = cursor + (rest ? rest[0].length : 0)
+
+  if (!fieldPart) {
+    if (!partial || quote) return []
+    const prefix = partial.toLowerCase()
+    return QUERY_FIELDS.filter(
+      field =>
+        (field.name.startsWith(prefix) || field.aliases?.some(alias => alias.startsWith(prefix))) &&
+        (!field.hasValue || records.some(field.hasValue))
+    )
+      .slice(0, MAX_SUGGESTIONS)
+      .map(field => ({
+        label: `${field.name}:`,
+        description: field.description,
+        insertText: `${field.name}:`,
+        start,
+        end,
+      }))
+  }
+
+  const field = getQueryField(fieldPart.slice(0, -1))
+  if (!field) return []
+
+  const toSuggestion = (value: string, description?: string): QuerySuggestion => ({
+    label: value,
+    description,
+    insertText: `${field.name}:${quoteIfNeeded(value)} `,
+    start,
+    end,
+  })
+
+  if (field.kind === 'played') {
+    return ['never', 'yes']
+      .filter(value => value.startsWith(partial.toLowerCase()))
+      .map(value => toSuggestion(value))
+  }
+
+  if (field.kind === 'number' || !field.getValues) return []
+
+  // Most common values first, those starting with what's typed ahead of other matches
+  const counts = new Map<string, { value: string; count: number }>()
+  records.forEach(record => {
+    new Set(field.getValues?.(record).filter(Boolean)).forEach(value => {
+      const entry = counts.get(value.toLowerCase()) || { value, count: 0 }
+      entry.count++
+      counts.set(value.toLowerCase(), entry)
+    })
+  })
+
+  const prefix = partial.toLowerCase()
+  return Array.from(counts.entries())
+    .filter(([key]) => key.includes(prefix) && key !== prefix)
+    .sort(
+      ([a, x], [b, y]) =>
+        Number(b.startsWith(prefix)) - Number(a.startsWith(prefix)) || y.count - x.count
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([, { value, count }]) =>
+      toSuggestion(value, `${count} ${count === 1 ? 'record' : 'records'}`)
+    )
+}
+
+/**
+ * The query with a suggestion applied, and where the cursor goes
+ */
+export function applyQuerySuggestion(
+  input: string,
+  suggestion: QuerySuggestion
+): { query: string; cursor: number } {
+  const query =
+    input.slice(0, suggestion.start) + suggestion.insertText + input.slice(suggestion.end)
+  return { query, cursor: suggestion.start + suggestion.insertText.length }
+}
@@ -0,0 +1,274 @@
+// Collection sort orders: a registry of comparators combined into multi-key sorts
+// ("artist, then year"), each key ascending or descending
+
+import { VinylRecord } from '../data/vinylRecords'
+import { parseCatalogNumber } from './catalogNumbers'
+import { getTotalDuration, getListedTracks } from './tracklist'
+
+export type SortDirection = 'asc' | 'desc'
+
+export const DEFAULT_SORT = 'dateAdded'
+
+type SortValue = string | number | null // Null: unknown, sorted last in either direction
+
+export interface SortDefinition {
+  key: string
+  label: string
+  getValue: (record: VinylRecord) => SortValue
+  compare?: (a: string | number, b: string | number) => number // Ascending; text order by default
+  defaultDirection: SortDirection // Dates and counts start with the newest/highest
+  directionLabels: Record<SortDirection, string> // "A–Z"/"Z–A", "Oldest"/"Newest"...
+  optional?: boolean // Not every collection has these values (plays aren't tracked publicly)
+}
+
+export interface SortKey {
+  key: string
+  direction: SortDirection
+}
+
+const compareText = (a: string | number, b: string | number) =>
+  `${a}`.localeCompare(`${b}`, undefined, { sensitivity: 'base', numeric: true })
+
+const TEXT_LABELS: Record<SortDirection, string> = { asc: 'A–Z', desc: 'Z–A' }
+const DATE_LABELS: Record<SortDirection, string> = { asc: 'Oldest', desc: 'Newest' }
+const COUNT_LABELS: Record<SortDirection, string> = { asc: 'Lowest', desc: 'Highest' }
+
+const toTime = (date: string | undefined) => (date ? new Date(date).getTime() || null : null)
+
+/**
+ * Artist name as filed in a record shop: "The Jazz Crusaders" goes under J
+ */
+export function getArtistSortName(artist: string): string {
+  return artist.replace(/^the\s+/i, '')
+}
+
+/**
+ * Natural catalog number order: by prefix, then by number ("BLP 4003" before "BLP 4157",
+ * "BLP 1577" before "BLP 4003"); numbers that don't parse compare as text
+ */
+export function compareCatalogNumbers(a: string, b: string): number {
+  const parsedA = parseCatalogNumber(a)
+  const parsedB = parseCatalogNumber(b)
+  if (!parsedA || !parsedB) return compareText(a, b)
+  return compareText(parsedA.prefix, parsedB.prefix) || parsedA.number - parsedB.number
+}
+
+const sortRegistry = new Map<string, SortDefinition>()
+
+/**
+ * Make a sort available to the collection; registering an existing key replaces it
+ */
+export function registerSort(definition: SortDefinition): void {
+  sortRegistry.set(definition.key, definition)
+}
+
+/**
+ * Registered sorts, in menu order
+ */
+export function getSorts(): SortDefinition[] {
+  return Array.from(sortRegistry.values())
+}
+
+/**
+ * Whether a sort is worth offering for these records: optional sorts need a record with a value
+ */
+export function isSortAvailable(sort: SortDefinition, records: VinylRecord[]): boolean {
+  return !sort.optional || records.some(record => sort.getValue(record) !== null)
+}
+
+export function getSort(key: string): SortDefinition | undefined {
+  return sortRegistry.get(key)
+}
+
+// Menu order
+const BUILT_IN_SORTS: SortDefinition[] = [
+  {
+    key: 'dateAdded',
+    label: 'Date Added',
+    getValue: record => toTime(record.dateAdded),
+    defaultDirection: 'desc',
+    directionLabels: DATE_LABELS,
+  },
+  {
+    key: 'artist',
+    label: 'Artist',
+    getValue: record => getArtistSortName(record.artist),
+    defaultDirection: 'asc',
+    directionLabels: TEXT_LABELS,
+  },
+  {
+    key: 'album',
+    label: 'Album',
+    getValue: record => record.title,
+    defaultDirection: 'asc',
+    directionLabels: TEXT_LABELS,
+  },
+  {
+    key: 'year',
+    label: 'Year',
+    getValue: record => parseInt(record.year, 10) || null,
+    defaultDirection: 'desc',
+    directionLabels: DATE_LABELS,
+  },
+  {
+    key: 'genre',
+    label: 'Genre',
+    getValue: record => record.genres[0] || null,
+    defaultDirection: 'asc',
+    directionLabels: TEXT_LABELS,
+  },
+  {
+    key: 'label',
+    label: 'Label',
+    getValue: record => record.label || null,
+    defaultDirection: 'asc',
+    directionLabels: TEXT_LABELS,
+  },
+  {
+    key: 'catalog',
+    label: 'Catalog No.',
+    getValue: record => record.catalogNumber || null,
+    compare: (a, b) => compareCatalogNumbers(`${a}`, `${b}`),
+    defaultDirection: 'asc',
+    directionLabels: { asc: '1–9', desc: '9–1' },
+  },
+  {
+    key: 'plays',
+    label: 'Play Count',
+    getValue: record => record.playCount ?? null,
+    defaultDirection: 'desc',
+    directionLabels: { asc: 'Fewest', desc: 'Most' },
+    optional: true,
+  },
+  {
+    key: 'rating',
+    label: 'Rating',
+    getValue: record => record.rating ?? null,
+    defaultDirection: 'desc',
+    directionLabels: COUNT_LABELS,
+    optional: true,
+  },
+  {
+    key: 'lastPlayed',
+    label: 'Last Played',
+    getValue: record => toTime(record.lastPlayed),
+    defaultDirection: 'desc',
+    directionLabels: { asc: 'Longest Ago', desc: 'Recent' },
+    optional: true,
+  },
+  {
+    key: 'runtime',
+    label: 'Runtime',
+    getValue: record => getTotalDuration(getListedTracks(record.tracks)) || null,
+    defaultDirection: 'desc',
+    directionLabels: { asc: 'Shortest', desc: 'Longest' },
+    optional: true,
+  },
+]
+
+BUILT_IN_SORTS.forEach(registerSort)
+
+/**
+ * Sort keys from a `sortBy` string: "artist,year:asc" is artist in its default direction, then
+ * year oldest first. Unknown keys are dropped; nothing left means the default sort.
+ */
+export function parseSortSpec(sortBy: string, fallback = DEFAULT_SORT): SortKey[] {
+  const keys = sortBy
+    .split(',')
+    .map(part => {
+      const [key, direction] = part.trim().split(':')
+      const sort = getSort(key)
+      if (!sort) return null
+      const isDirection = direction === 'asc' || direction === 'desc'
+      return { key, direction: isDirection ? direction : sort.defaultDirection } as SortKey
+    })
+    .filter((key): key is SortKey => key !== null)
+    .filter((key, index, all) => all.findIndex(other => other.key === key.key) === index)
+
+  if (keys.length === 0 && sortBy !== fallback) return parseSortSpec(fallback, fallback)
+  return keys
+}
+
+/**
+ * Replace the sort key at a position (or add one after the last), or remove it and any after it
+ * with null. A sort already used at another position swaps places with the one replaced.
+ */
+export function setSortKey(keys: SortKey[], index: number, key: string | null): SortKey[] {
+  if (key === null) return keys.slice(0, Math.max(index, 1))
+  const sort = getSort(key)
+  const position = Math.min(index, keys.length)
+  const current = keys.findIndex(other => other.key === key)
+  if (!sort || current === position || (current >= 0 && position === keys.length)) return keys
+
+  const next = [...keys]
+  if (current >= 0) next[current] = keys[position]
+  next[position] = { key, direction: sort.defaultDirection }
+  return next
+}
+
+export function toggleSortDirection(keys: SortKey[], index = 0): SortKey[] {
+  return keys.map((sortKey, i) =>
+    i === index ? { ...sortKey, direction: sortKey.direction === 'asc' ? 'desc' : 'asc' } : sortKey
+  )
+}
+
+/**
+ * `sortBy` string for sort keys; directions are only written when not the sort's default
+ */
+export function serializeSortSpec(keys: SortKey[]): string {
+  return keys
+    .map(({ key, direction }) =>
+      getSort(key)?.defaultDirection === direction ? key : `${key}:${direction}`
+    )
+    .join(',')
+}
+
+/**
+ * Comparator for sort keys. Ties fall through to the next key, then to artist and title so the
+ * order never depends on how the records happened to load.
+ */
+export function compareRecords(keys: SortKey[]): (a: VinylRecord, b: VinylRecord) => number {
+  const tieBreakers: SortKey[] = [
+    { key: 'artist', direction: 'asc' },
+    { key: 'album', direction: 'asc' },
+  ]
+  const comparators = [...keys, ...tieBreakers].flatMap(({ key, direction }) => {
+    const sort = getSort(key)
+    if (!sort) return []
+    const compare = sort.compare || compareText
+    const sign = direction === 'asc' ? 1 : -1
+
+    return [
+      (a: VinylRecord, b: VinylRecord) => {
+        const valueA = sort.getValue(a)
+        const valueB = sort.getValue(b)
+        if (valueA === null || valueB === null) {
+          return Number(valueA === null) - Number(valueB === null) // Unknowns last
+        }
+        return typeof valueA === 'number' && typeof valueB === 'number'
+          ? sign * (valueA - valueB)
+          : sign * compare(valueA, valueB)
+      },
+    ]
+  })
+
+  return (a, b) => {
+    for (const comparator of comparators) {
+      const result = comparator(a, b)
+      if (result !== 0) return result
+    }
+    return 0
+  }
+}
+
+/**
+ * "Year (Newest)", "Artist (A–Z), then Year (Oldest)"
+ */
+export function describeSortSpec(keys: SortKey[]): string {
+  return keys
+    .map(({ key, direction }) => {
+      const sort = getSort(key)
+      return sort ? `${sort.label} (${sort.directionLabels[direction]})` : key
+    })
+    .join(', then ')
+}
@@ -0,0 +1,119 @@
+// Track-level search across the collection: which records hold a tune, grouped by composition
+// so takes, live cuts and remasters of the same tune sit together
+
+import { VinylRecord, Track } from '../data/vinylRecords'
+import { foldText, tokenizeText, scoreTokenMatch } from './searchIndex'
+import { getTrackSide, getTrackSeconds, getListedTracks } from './tracklist'
+
+export interface TrackVersion {
+  record: VinylRecord
+  track: Track // The record's own track object, so the album page can find it again
+  side?: string
+  seconds: number // 0 when unknown
+}
+
+export interface CompositionGroup {
+  key: string // Normalised composition title
+  title: string // Plainest title among the versions
+  versions: TrackVersion[]
+  score: number // Best match; 0 when listing without a search
+}
+
+export interface IndexedTrack extends TrackVersion {
+  composition: string
+  tokens: string[]
+}
+
+// Notes after a dash that describe a version rather than the tune: "Blue Train - Alternate Take"
+const VERSION_SUFFIX =
+  /\s[-–—]\s.*\b(take|version|mix|remaster(ed)?|live|mono|stereo|edit|alternate|alt|demo|outtake)\b.*$/
+
+/**
+ * Title with the version details removed, for grouping: "'Round Midnight (Take 2)" and
+ * "Round Midnight - Live" both become "round midnight"
+ */
+export function getCompositionKey(title: string): string {
+  const stripped = foldText(title)
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(VERSION_SUFFIX, '')
+  return tokenizeText(stripped).join(' ') || tokenizeText(title).join(' ')
+}
+
+function collectTracks(record: VinylRecord, tracks: Track[], into: IndexedTrack[]) {
+  tracks.forEach(track => {
+    if (track.type === 'heading') return
+    into.push({
+      record,
+      track,
+      side: track.side || getTrackSide(track.position),
+      seconds: getTrackSeconds(track),
+      composition: getCompositionKey(track.title),
+      tokens: tokenizeText(track.title),
+    })
+    if (track.subTracks) collectTracks(record, track.subTracks, into)
+  })
+}
+
+/**
+ * Every played track in the collection (index tracks and their parts included), ready to search
+ */
+export function buildTrackIndex(records: VinylRecord[]): IndexedTrack[] {
+  const tracks: IndexedTrack[] = []
+  records.forEach(record => collectTracks(record, getListedTracks(record.tracks), tracks))
+  return tracks
+}
+
+// Every query word has to match a word of the title; the score adds up the matches
+function scoreTrack(queryTokens: string[], tokens: string[]): number {
+  let total = 0
+  for (const queryToken of queryTokens) {
+    const best = Math.max(0, ...tokens.map(token => scoreTokenMatch(queryToken, token)))
+    if (best === 0) return 0
+    total += best
+  }
+  return total
+}
+
+function compareVersions(a: TrackVersion, b: TrackVersion): number {
+  return (
+    (parseInt(a.record.year) || 0) - (parseInt(b.record.year) || 0) ||
+    a.record.artist.localeCompare(b.record.artist) ||
+    a.record.title.localeCompare(b.record.title)
+  )
+}
+
+/**
+ * Compositions whose title matches the text, best match first. Without text, lists the
+ * compositions the collection has more than one version of.
+ */
+export function searchTracks(index: IndexedTrack[], text: string): CompositionGroup[] {
+  const queryTokens = tokenizeText(text)
+  const groups = new Map<string, CompositionGroup>()
+
+  index.forEach(({ composition, tokens, ...version }) => {
+    const score = queryTokens.length > 0 ? scoreTrack(queryTokens, tokens) : 0
+    if (queryTokens.length > 0 && score === 0) return
+
+    const group = groups.get(composition)
+    if (group) {
+      group.versions.push(version)
+      group.score = Math.max(group.score, score)
+      if (version.track.title.length < group.title.length) group.title = version.track.title
+    } else {
+      groups.set(composition, {
+        key: composition,
+        title: version.track.title,
+        versions: [version],
+        score,
+      })
+    }
+  })
+
+  return Array.from(groups.values())
+    .filter(group => queryTokens.length > 0 || group.versions.length > 1)
+    .map(group => ({ ...group, versions: group.versions.sort(compareVersions) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.versions.length - a.versions.length || a.title.localeCompare(b.title)
+    )
+}
@@ -0,0 +1,126 @@
+// Tracklist helpers: vinyl sides from Discogs positions ("A1", "B2", "C"), and side running times
+
+import { Track } from '../data/vinylRecords'
+
+export interface TrackSide {
+  side?: string // Absent when positions don't name sides (CDs, records stored without positions)
+  tracks: Track[] // In tracklist order, headings included
+  duration: number // Seconds
+}
+
+/**
+ * Side a position is on: "A1" -> "A", "B" -> "B", "AA2" -> "AA", "1-C3" -> "C".
+ * Plain numbers ("1", "12") have no side.
+ */
+export function getTrackSide(position: string | undefined): string | undefined {
+  const match = (position || '').trim().match(/^(?:\d+-)?([A-Z]{1,2})(?=\d|\.|$)/)
+  return match ? match[1] : undefined
+}
+
+/**
+ * Seconds in a "M:SS" or "H:MM:SS" duration; 0 when unknown
+ */
+export function parseTrackDuration(duration: string | undefined): number {
+  if (!duration) return 0
+  const parts = duration.split(':').map(part => parseInt(part, 10))
+  if (parts.some(isNaN)) return 0
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+/**
+ * "M:SS", or "H:MM:SS" for an hour or more
+ */
+export function formatTrackDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = (seconds % 60).toString().padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`
+}
+
+/**
+ * Running time of a track; index tracks without their own duration add up their sub-tracks
+ */
+export function getTrackSeconds(track: Track): number {
+  const own = parseTrackDuration(track.duration)
+  if (own > 0 || !track.subTracks) return own
+  return track.subTracks.reduce((total, subTrack) => total + getTrackSeconds(subTrack), 0)
+}
+
+// Titles older versions made up, in order, for releases without a tracklist on Discogs.
+// Records saved back then still carry these, with made-up times.
+const PLACEHOLDER_TITLES = ['Opening', 'Melody', 'Interlude', 'Rhythm', 'Finale', 'Theme']
+
+/**
+ * Whether a tracklist is one of those made-up ones: 4-6 tracks without positions or types,
+ * titled in the placeholder order
+ */
+export function isPlaceholderTracklist(tracks: Track[]): boolean {
+  return (
+    tracks.length >= 4 &&
+    tracks.length <= PLACEHOLDER_TITLES.length &&
+    tracks.every(
+      (track, index) =>
+        !track.position &&
+        !track.type &&
+        track.number === index + 1 &&
+        track.title === PLACEHOLDER_TITLES[index]
+    )
+  )
+}
+
+/**
+ * The tracks actually listed for a release: none when the tracklist is a placeholder
+ */
+export function getListedTracks(tracks: Track[]): Track[] {
+  return isPlaceholderTracklist(tracks) ? [] : tracks
+}
+
+/**
+ * Tracks that are actually played (everything but headings)
+ */
+export function getPlayableTracks(tracks: Track[]): Track[] {
+  return tracks.filter(track => track.type !== 'heading')
+}
+
+/**
+ * Total running time of a tracklist
+ */
+export function getTotalDuration(tracks: Track[]): number {
+  return getPlayableTracks(tracks).reduce((total, track) => total + getTrackSeconds(track), 0)
+}
+
+/**
+ * Split a tracklist into consecutive sides. Headings have no position, so they go with
+ * the side of the track that follows them.
+ */
+export function groupTracksBySide(tracks: Track[]): TrackSide[] {
+  const sides: TrackSide[] = []
+  let headings: Track[] = []
+
+  tracks.forEach(track => {
+    if (track.type === 'heading') {
+      headings.push(track)
+      return
+    }
+
+    const side = track.side || getTrackSide(track.position)
+    const current = sides[sides.length - 1]
+    if (!current || current.side !== side) {
+      sides.push({ side, tracks: [...headings, track], duration: getTrackSeconds(track) })
+    } else {
+      current.tracks.push(...headings, track)
+      current.duration += getTrackSeconds(track)
+    }
+    headings = []
+  })
+
+  // Trailing headings (or a tracklist of only headings)
+  if (headings.length > 0) {
+    if (sides.length > 0) sides[sides.length - 1].tracks.push(...headings)
+    else sides.push({ tracks: headings, duration: 0 })
+  }
+
+  return sides
+}
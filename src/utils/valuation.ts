@@ -0,0 +1,108 @@
+// Helpers for valuing a collection from Discogs marketplace price suggestions
+
+import { RecordCondition } from '../data/vinylRecords'
+import { normalizeCondition } from './conditions'
+
+export interface PriceSuggestion {
+  currency: string
+  value: number
+}
+
+export interface RecordValuation {
+  releaseId: string
+  title: string
+  artist: string
+  value: number
+  currency: string
+  purchasePrice?: number
+  purchaseCurrency?: string
+}
+
+export interface RecordGain extends RecordValuation {
+  gain: number // value - purchasePrice, in the valuation currency
+}
+
+export interface ValuationSummary {
+  total: number
+  median: number
+  count: number
+  currency: string | null
+  gainers: RecordGain[] // Biggest gains since purchase, best first
+}
+
+// Discogs' default grade when a copy has no media condition recorded
+const DEFAULT_CONDITION: RecordCondition = 'Very Good Plus'
+
+/**
+ * Median of a list of numbers (0 for an empty list)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Pick the suggested price for a copy in the given condition.
+ * Discogs keys suggestions by grade ("Very Good Plus (VG+)"); without a matching grade
+ * the VG+ price is used, then the median of whatever grades are present.
+ */
+export function pickSuggestedPrice(
+  suggestions: Record<string, PriceSuggestion> | null | undefined,
+  condition?: RecordCondition
+): PriceSuggestion | null {
+  const entries = Object.entries(suggestions || {}).filter(([, s]) => s && s.value > 0)
+  if (entries.length === 0) return null
+
+  const byGrade = (grade: RecordCondition) =>
+    entries.find(([name]) => normalizeCondition(name) === grade)?.[1]
+
+  const match = (condition && byGrade(condition)) || byGrade(DEFAULT_CONDITION)
+  if (match) return match
+
+  return {
+    currency: entries[0][1].currency,
+    value: median(entries.map(([, s]) => s.value)),
+  }
+}
+
+/**
+ * Total, median and biggest gainers for a set of valued records.
+ * Gains are only computed where the purchase was made in the valuation currency.
+ */
+export function summarizeValuation(
+  valuations: RecordValuation[],
+  gainersLimit: number = 5
+): ValuationSummary {
+  const values = valuations.map(v => v.value)
+
+  const gainers = valuations
+    .filter(v => v.purchasePrice !== undefined && v.purchaseCurrency === v.currency)
+    .map(v => ({ ...v, gain: v.value - (v.purchasePrice || 0) }))
+    .filter(v => v.gain > 0)
+    .sort((a, b) => b.gain - a.gain)
+    .slice(0, gainersLimit)
+
+  return {
+    total: Math.round(values.reduce((sum, value) => sum + value, 0) * 100) / 100,
+    median: median(values),
+    count: valuations.length,
+    currency: valuations[0]?.currency || null,
+    gainers,
+  }
+}
+
+/**
+ * Whether the last snapshot is old enough to take a new one
+ */
+export function isSnapshotDue(
+  lastTakenAt: string | Date | null | undefined,
+  intervalDays: number,
+  now: number = Date.now()
+): boolean {
+  if (!lastTakenAt) return true
+  const taken = new Date(lastTakenAt).getTime()
+  return isNaN(taken) || now - taken >= intervalDays * 24 * 60 * 60 * 1000
+}
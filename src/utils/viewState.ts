@@ -0,0 +1,170 @@
+// What the collection page is showing (search, sort, filters) as URL parameters, and the named
+// views saved in the profile preferences
+
+import { RecordOwnership } from '../data/vinylRecords'
+import { FacetState, FACET_KEYS, createFacetState, getFacet } from './facets'
+import { DEFAULT_SORT, parseSortSpec, serializeSortSpec } from './sorting'
+
+export { DEFAULT_SORT }
+
+export interface FilterState {
+  facets: FacetState // Genre, style, decade, artist, label, format and country
+  folder: string | null
+  pressing: string | null // Pressing tag, e.g. "Original", "Mono", "180g"
+  person: string | null // Leader or anyone in the personnel
+}
+
+export interface CollectionView {
+  searchTerm: string
+  sortBy: string // Sort keys, e.g. "artist,year:asc" (see parseSortSpec)
+  filters: FilterState
+  view: RecordOwnership
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  query: string // Serialized CollectionView
+  pinned: boolean // Shown in the collection header
+}
+
+// Profile.preferences key
+const SAVED_VIEWS_KEY = 'savedViews'
+
+// Parameters other than the facets, which use their own keys ("genre", "label"...)
+const PARAMS = {
+  search: 'q',
+  sort: 'sort',
+  view: 'view',
+  folder: 'folder',
+  pressing: 'pressing',
+  person: 'person',
+  allModes: 'all', // Facets matching ALL selected values: "all=genre,style"
+}
+
+export function createFilterState(): FilterState {
+  return { facets: createFacetState(), folder: null, pressing: null, person: null }
+}
+
+export function createCollectionView(): CollectionView {
+  return {
+    searchTerm: '',
+    sortBy: DEFAULT_SORT,
+    filters: createFilterState(),
+    view: 'owned',
+  }
+}
+
+/**
+ * URL query (without "?") for a view; defaults are left out, so the plain collection is ""
+ */
+export function serializeCollectionView(state: CollectionView): string {
+  const params = new URLSearchParams()
+  const { filters } = state
+
+  FACET_KEYS.forEach(key => filters.facets[key].values.forEach(value => params.append(key, value)))
+  const allModes = FACET_KEYS.filter(
+    key => filters.facets[key].mode === 'and' && filters.facets[key].values.length > 1
+  )
+  if (allModes.length > 0) params.set(PARAMS.allModes, allModes.join(','))
+
+  if (filters.folder) params.set(PARAMS.folder, filters.folder)
+  if (filters.pressing) params.set(PARAMS.pressing, filters.pressing)
+  if (filters.person) params.set(PARAMS.person, filters.person)
+  if (state.searchTerm.trim()) params.set(PARAMS.search, state.searchTerm)
+  if (state.sortBy !== DEFAULT_SORT) params.set(PARAMS.sort, state.sortBy)
+  if (state.view !== 'owned') params.set(PARAMS.view, state.view)
+
+  return params.toString()
+}
+
+/**
+ * View described by a URL query ("?label=Blue+Note&decade=1960s"); unknown parameters are ignored
+ */
+export function parseCollectionView(query: string): CollectionView {
+  const params = new URLSearchParams(query)
+  const allModes = (params.get(PARAMS.allModes) || '').split(',')
+
+  const facets = createFacetState()
+  FACET_KEYS.forEach(key => {
+    const values = params.getAll(key).filter(Boolean)
+    const mode = allModes.includes(key) && getFacet(key).multiValued ? 'and' : 'or'
+    facets[key] = { values, mode }
+  })
+
+  return {
+    searchTerm: params.get(PARAMS.search) || '',
+    sortBy: serializeSortSpec(parseSortSpec(params.get(PARAMS.sort) || DEFAULT_SORT)),
+    filters: {
+      facets,
+      folder: params.get(PARAMS.folder) || null,
+      pressing: params.get(PARAMS.pressing) || null,
+      person: params.get(PARAMS.person) || null,
+    },
+    view: params.get(PARAMS.view) === 'wanted' ? 'wanted' : 'owned',
+  }
+}
+
+/**
+ * Whether two queries differ in nothing but the search term (typing shouldn't add history entries)
+ */
+export function differsOnlyInSearch(a: string, b: string): boolean {
+  const withoutSearch = (query: string) =>
+    serializeCollectionView({ ...parseCollectionView(query), searchTerm: '' })
+  return withoutSearch(a) === withoutSearch(b)
+}
+
+/**
+ * Saved views from Profile.preferences, skipping anything malformed
+ */
+export function getSavedViews(
+  preferences: Record<string, unknown> | null | undefined
+): SavedView[] {
+  const views = preferences?.[SAVED_VIEWS_KEY]
+  if (!Array.isArray(views)) return []
+  return views.filter(
+    (view): view is SavedView =>
+      typeof view?.id === 'string' &&
+      typeof view.name === 'string' &&
+      typeof view.query === 'string'
+  )
+}
+
+/**
+ * Preferences with the saved views replaced, other settings untouched
+ */
+export function setSavedViews(
+  preferences: Record<string, unknown> | null | undefined,
+  views: SavedView[]
+): Record<string, unknown> {
+  return { ...preferences, [SAVED_VIEWS_KEY]: views }
+}
+
+/**
+ * Save the query under a name; saving under an existing name (any case) overwrites that view.
+ * New views are pinned, since saving one is usually about getting back to it quickly.
+ */
+export function addSavedView(views: SavedView[], name: string, query: string): SavedView[] {
+  const trimmed = name.trim()
+  if (!trimmed) return views
+
+  // Canonical form, so the view is recognised when it's showing
+  const viewQuery = serializeCollectionView(parseCollectionView(query))
+  const existing = views.find(view => view.name.toLowerCase() === trimmed.toLowerCase())
+  if (existing) {
+    return views.map(view =>
+      view === existing ? { ...view, name: trimmed, query: viewQuery } : view
+    )
+  }
+
+  const id = `view-${Date.now().toString(36)}-${views.length}`
+  return [...views, { id, name: trimmed, query: viewQuery, pinned: true }]
+}
+
+export function removeSavedView(views: SavedView[], id: string): SavedView[] {
+  return views.filter(view => view.id !== id)
+}
+
+export function toggleSavedViewPinned(views: SavedView[], id: string): SavedView[] {
+  return views.map(view => (view.id === id ? { ...view, pinned: !view.pinned } : view))
+}
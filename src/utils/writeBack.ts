@@ -0,0 +1,95 @@
+// Helpers for queueing local collection edits and checking them against Discogs before pushing
+
+export type CollectionChangeField = 'rating' | 'notes' | 'folder'
+
+// Rating is 0-5 (0 = unrated); notes and folder name are strings ('' = none / Uncategorized)
+export type CollectionChangeValue = string | number
+
+export interface PendingCollectionChange {
+  id: string // One change per release and field; see getChangeId
+  releaseId: number
+  instanceId?: number // Collection instance, when known (otherwise the first instance is used)
+  field: CollectionChangeField
+  value: CollectionChangeValue // What we want Discogs to have
+  baseValue: CollectionChangeValue // What Discogs had when we last synced
+  queuedAt: number
+  status: 'pending' | 'conflict'
+  remoteValue?: CollectionChangeValue // Discogs' current value, set on conflict
+  error?: string // Last push failure; the change is retried on the next push
+}
+
+export type NewCollectionChange = Pick<
+  PendingCollectionChange,
+  'releaseId' | 'instanceId' | 'field' | 'value' | 'baseValue'
+>
+
+export type RemoteCheck = 'push' | 'applied' | 'conflict'
+
+export function getChangeId(releaseId: number, field: CollectionChangeField): string {
+  return `${releaseId}:${field}`
+}
+
+/**
+ * Add a change to the queue, replacing any earlier change to the same field.
+ * The original base value is kept, so repeated edits are still checked against the
+ * last synced value; a change back to that value cancels the queued change.
+ */
+export function mergeChange(
+  queue: PendingCollectionChange[],
+  change: NewCollectionChange,
+  now: number = Date.now()
+): PendingCollectionChange[] {
+  const id = getChangeId(change.releaseId, change.field)
+  const existing = queue.find(c => c.id === id)
+  const rest = queue.filter(c => c.id !== id)
+  const baseValue = existing ? existing.baseValue : change.baseValue
+
+  if (change.value === baseValue) return rest
+
+  return [
+    ...rest,
+    {
+      ...change,
+      id,
+      instanceId: change.instanceId ?? existing?.instanceId,
+      baseValue,
+      queuedAt: now,
+      status: 'pending',
+    },
+  ]
+}
+
+/**
+ * Decide what to do with a change given the value Discogs has now:
+ * - 'applied' when Discogs already has our value
+ * - 'push' when Discogs still has the value we last synced
+ * - 'conflict' when Discogs was edited since (by the user elsewhere, or another app)
+ */
+export function checkRemoteValue(
+  change: PendingCollectionChange,
+  remoteValue: CollectionChangeValue
+): RemoteCheck {
+  if (remoteValue === change.value) return 'applied'
+  if (remoteValue === change.baseValue) return 'push'
+  return 'conflict'
+}
+
+/**
+ * Resolve a conflict: keeping the local value rebases the change on Discogs' value
+ * so it is pushed next time; keeping Discogs' value drops the change.
+ */
+export function resolveConflict(
+  queue: PendingCollectionChange[],
+  changeId: string,
+  resolution: 'keep-local' | 'keep-discogs'
+): PendingCollectionChange[] {
+  if (resolution === 'keep-discogs') {
+    return queue.filter(c => c.id !== changeId)
+  }
+
+  return queue.map(c =>
+    c.id === changeId && c.status === 'conflict' && c.remoteValue !== undefined
+      ? { ...c, baseValue: c.remoteValue, remoteValue: undefined, status: 'pending' }
+      : c
+  )
+}